@@ -0,0 +1,26 @@
+import Link from "next/link";
+import { ChevronLeft } from "lucide-react";
+import { ActiveQueries } from "@/components/ActiveQueries";
+import { LogoutButton } from "@/components/LogoutButton";
+
+export default function ActivePage() {
+  return (
+    <div className="min-h-[100dvh] flex flex-col">
+      {/* Header */}
+      <header className="sticky top-0 z-10 bg-background/80 backdrop-blur-md border-b border-border px-4 py-3">
+        <div className="flex items-center gap-2 text-sm">
+          <Link href="/browse" className="text-accent p-1 -ml-1">
+            <ChevronLeft size={20} />
+          </Link>
+          <span className="font-semibold flex-1">Running</span>
+          <LogoutButton />
+        </div>
+      </header>
+
+      {/* Content */}
+      <main className="flex-1">
+        <ActiveQueries />
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,28 @@
+import { NextRequest } from "next/server";
+import { serverFetch } from "@/lib/server-api";
+
+export async function GET(request: NextRequest) {
+  const queryId = request.nextUrl.searchParams.get("queryId");
+  const path = request.nextUrl.searchParams.get("path");
+  if (!queryId || !path) {
+    return Response.json({ error: "queryId and path are required" }, { status: 400 });
+  }
+
+  try {
+    const res = await serverFetch(
+      `/api/chat/changes?queryId=${encodeURIComponent(queryId)}&path=${encodeURIComponent(path)}`
+    );
+
+    if (!res.ok) {
+      const data = await res.json();
+      return Response.json(data, { status: res.status });
+    }
+
+    return Response.json(await res.json());
+  } catch {
+    return Response.json(
+      { error: "Failed to connect to server" },
+      { status: 502 }
+    );
+  }
+}
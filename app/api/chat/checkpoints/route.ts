@@ -0,0 +1,20 @@
+import { NextRequest } from "next/server";
+import { serverFetch } from "@/lib/server-api";
+
+export async function GET(request: NextRequest) {
+  const params = request.nextUrl.searchParams;
+  if (!params.get("sessionId")) {
+    return Response.json({ error: "sessionId is required" }, { status: 400 });
+  }
+
+  try {
+    const res = await serverFetch(`/api/chat/checkpoints?${params.toString()}`);
+    const data = await res.json();
+    return Response.json(data, { status: res.status });
+  } catch {
+    return Response.json(
+      { error: "Failed to connect to server" },
+      { status: 502 }
+    );
+  }
+}
@@ -0,0 +1,65 @@
+import { NextRequest } from "next/server";
+import { serverFetch } from "@/lib/server-api";
+
+export async function GET(request: NextRequest) {
+  const sessionId = request.nextUrl.searchParams.get("sessionId") || "";
+  if (!sessionId) {
+    return Response.json({ error: "sessionId is required" }, { status: 400 });
+  }
+
+  try {
+    const res = await serverFetch(`/api/chat/queue?sessionId=${encodeURIComponent(sessionId)}`);
+    const data = await res.json();
+    return Response.json(data, { status: res.status });
+  } catch {
+    return Response.json(
+      { error: "Failed to connect to server" },
+      { status: 502 }
+    );
+  }
+}
+
+async function forwardBody(request: NextRequest, method: "POST" | "PATCH") {
+  const body = await request.json();
+
+  try {
+    const res = await serverFetch("/api/chat/queue", {
+      method,
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+    });
+    const data = await res.json();
+    return Response.json(data, { status: res.status });
+  } catch {
+    return Response.json(
+      { error: "Failed to connect to server" },
+      { status: 502 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  return forwardBody(request, "POST");
+}
+
+export async function PATCH(request: NextRequest) {
+  return forwardBody(request, "PATCH");
+}
+
+export async function DELETE(request: NextRequest) {
+  const params = request.nextUrl.searchParams;
+  if (!params.get("sessionId") || !params.get("id")) {
+    return Response.json({ error: "sessionId and id are required" }, { status: 400 });
+  }
+
+  try {
+    const res = await serverFetch(`/api/chat/queue?${params.toString()}`, { method: "DELETE" });
+    const data = await res.json();
+    return Response.json(data, { status: res.status });
+  } catch {
+    return Response.json(
+      { error: "Failed to connect to server" },
+      { status: 502 }
+    );
+  }
+}
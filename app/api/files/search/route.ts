@@ -0,0 +1,35 @@
+import { NextRequest } from "next/server";
+import { serverFetch } from "@/lib/server-api";
+
+// Content search over a large project can take a while
+export const maxDuration = 120;
+
+export async function GET(request: NextRequest) {
+  const params = request.nextUrl.searchParams;
+  if (!params.get("q")) {
+    return Response.json({ error: "q query parameter is required" }, { status: 400 });
+  }
+
+  try {
+    // Results stream as SSE — no timeout
+    const res = await serverFetch(`/api/files/search?${params.toString()}`, undefined, 0);
+
+    if (!res.ok) {
+      const data = await res.json();
+      return Response.json(data, { status: res.status });
+    }
+
+    return new Response(res.body, {
+      headers: {
+        "Content-Type": "text/event-stream",
+        "Cache-Control": "no-cache",
+        Connection: "keep-alive",
+      },
+    });
+  } catch {
+    return Response.json(
+      { error: "Failed to connect to server" },
+      { status: 502 }
+    );
+  }
+}
@@ -0,0 +1,14 @@
+import { serverFetch } from "@/lib/server-api";
+
+export async function GET() {
+  try {
+    const res = await serverFetch("/api/push/vapid-public-key");
+    const data = await res.json();
+    return Response.json(data, { status: res.status });
+  } catch {
+    return Response.json(
+      { error: "Failed to connect to server" },
+      { status: 502 }
+    );
+  }
+}
@@ -0,0 +1,62 @@
+import { NextRequest } from "next/server";
+import { serverFetch } from "@/lib/server-api";
+
+export async function GET(request: NextRequest) {
+  const params = request.nextUrl.searchParams;
+
+  try {
+    const res = await serverFetch(`/api/schedules?${params.toString()}`);
+    const data = await res.json();
+    return Response.json(data, { status: res.status });
+  } catch {
+    return Response.json(
+      { error: "Failed to connect to server" },
+      { status: 502 }
+    );
+  }
+}
+
+async function forwardBody(request: NextRequest, method: "POST" | "PATCH") {
+  const body = await request.json();
+
+  try {
+    const res = await serverFetch("/api/schedules", {
+      method,
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+    });
+    const data = await res.json();
+    return Response.json(data, { status: res.status });
+  } catch {
+    return Response.json(
+      { error: "Failed to connect to server" },
+      { status: 502 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  return forwardBody(request, "POST");
+}
+
+export async function PATCH(request: NextRequest) {
+  return forwardBody(request, "PATCH");
+}
+
+export async function DELETE(request: NextRequest) {
+  const id = request.nextUrl.searchParams.get("id");
+  if (!id) {
+    return Response.json({ error: "id is required" }, { status: 400 });
+  }
+
+  try {
+    const res = await serverFetch(`/api/schedules?id=${encodeURIComponent(id)}`, { method: "DELETE" });
+    const data = await res.json();
+    return Response.json(data, { status: res.status });
+  } catch {
+    return Response.json(
+      { error: "Failed to connect to server" },
+      { status: 502 }
+    );
+  }
+}
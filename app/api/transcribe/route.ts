@@ -0,0 +1,41 @@
+import { NextRequest } from "next/server";
+import { serverFetch } from "@/lib/server-api";
+
+// Converting and transcribing a long recording on a small server takes a while
+export const maxDuration = 150;
+
+export async function GET() {
+  try {
+    const res = await serverFetch("/api/transcribe");
+    const data = await res.json();
+    return Response.json(data, { status: res.status });
+  } catch {
+    return Response.json(
+      { error: "Failed to connect to server" },
+      { status: 502 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  const body = await request.json();
+
+  try {
+    const res = await serverFetch(
+      "/api/transcribe",
+      {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      },
+      130_000
+    );
+    const data = await res.json();
+    return Response.json(data, { status: res.status });
+  } catch {
+    return Response.json(
+      { error: "Failed to connect to server" },
+      { status: 502 }
+    );
+  }
+}
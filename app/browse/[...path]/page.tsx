@@ -6,7 +6,7 @@ import { LogoutButton } from "@/components/LogoutButton";
 
 interface BrowsePageProps {
   params: Promise<{ path: string[] }>;
-  searchParams: Promise<{ view?: string }>;
+  searchParams: Promise<{ view?: string; line?: string }>;
 }
 
 export default async function BrowsePage({
@@ -14,7 +14,7 @@ export default async function BrowsePage({
   searchParams,
 }: BrowsePageProps) {
   const { path: pathSegments } = await params;
-  const { view } = await searchParams;
+  const { view, line } = await searchParams;
   const currentPath = pathSegments
     .map((s) => decodeURIComponent(s))
     .join("/");
@@ -75,7 +75,7 @@ export default async function BrowsePage({
       {/* Content */}
       <main className="flex-1">
         {isViewing ? (
-          <FileViewer path={currentPath} />
+          <FileViewer path={currentPath} line={line ? parseInt(line, 10) || undefined : undefined} />
         ) : (
           <FileBrowser path={currentPath} />
         )}
@@ -1,6 +1,7 @@
+import Link from "next/link";
+import { Home, Activity } from "lucide-react";
 import { FileBrowser } from "@/components/FileBrowser";
 import { LogoutButton } from "@/components/LogoutButton";
-import { Home } from "lucide-react";
 
 export default function BrowseRootPage() {
   return (
@@ -10,6 +11,9 @@ export default function BrowseRootPage() {
         <div className="flex items-center gap-2 text-sm">
           <Home size={16} className="text-accent" />
           <span className="font-semibold flex-1">App Development</span>
+          <Link href="/active" className="text-muted hover:text-foreground p-1 shrink-0" title="Running queries">
+            <Activity size={18} />
+          </Link>
           <LogoutButton />
         </div>
       </header>
@@ -2,10 +2,20 @@
  * Tests for session-store.ts — Feature A: Session Persistence
  */
 
-import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import { describe, it, expect, vi, beforeAll, afterAll, beforeEach, afterEach } from "vitest";
 import fsPromises from "fs/promises";
 import path from "path";
 import os from "os";
+import {
+  getSession,
+  saveSession,
+  deleteSession,
+  listSessions,
+  getForkTree,
+  titleFromPrompt,
+  cleanupStaleSessions,
+} from "../session-store.js";
+import { setTranscriptsDir } from "../transcript-store.js";
 
 let tmpDir: string;
 let SESSIONS_FILE: string;
@@ -208,3 +218,127 @@ describe("session-store", () => {
     });
   });
 });
+
+describe("session queries", () => {
+  const ids: string[] = [];
+
+  const add = (id: string, overrides: Partial<ReturnType<typeof getSession>>) => {
+    saveSession(id, { ...getSession(undefined, "claude-opus-4-6"), ...overrides });
+    ids.push(id);
+  };
+
+  beforeEach(() => {
+    // saveSession schedules a debounced disk flush — keep it from firing
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    for (const id of ids.splice(0)) deleteSession(id);
+    vi.useRealTimers();
+  });
+
+  describe("listSessions", () => {
+    it("returns only the project's sessions, most recent first", () => {
+      vi.setSystemTime(1_000);
+      add("s-old", { projectPath: "app", title: "Old work", totalCostUsd: 0.5, messageCount: 3 });
+      vi.setSystemTime(2_000);
+      add("s-new", { projectPath: "app", title: "New work", forkedFrom: "s-old" });
+      add("s-other", { projectPath: "other", title: "Elsewhere" });
+      add("s-legacy", {});
+
+      expect(listSessions("app")).toEqual([
+        {
+          sessionId: "s-new",
+          title: "New work",
+          model: "claude-opus-4-6",
+          lastActivity: 2_000,
+          totalCostUsd: 0,
+          messageCount: 0,
+          forkedFrom: "s-old",
+        },
+        {
+          sessionId: "s-old",
+          title: "Old work",
+          model: "claude-opus-4-6",
+          lastActivity: 1_000,
+          totalCostUsd: 0.5,
+          messageCount: 3,
+          forkedFrom: undefined,
+        },
+      ]);
+    });
+
+    it("filters by title, case-insensitively", () => {
+      add("s-a", { projectPath: "app", title: "Fix login bug" });
+      add("s-b", { projectPath: "app", title: "Add dark mode" });
+      add("s-c", { projectPath: "app" });
+
+      expect(listSessions("app", "LOGIN").map((s) => s.sessionId)).toEqual(["s-a"]);
+      expect(listSessions("app", "untitled").map((s) => s.title)).toEqual(["Untitled session"]);
+    });
+  });
+
+  describe("cleanupStaleSessions", () => {
+    it("keeps titled sessions for a month, unattended runs and scratch state for a day", async () => {
+      const day = 24 * 60 * 60 * 1000;
+      const transcriptsDir = await fsPromises.mkdtemp(path.join(os.tmpdir(), "cc-transcripts-test-"));
+      setTranscriptsDir(transcriptsDir);
+      try {
+        vi.setSystemTime(1_000);
+        add("s-titled", { projectPath: "app", title: "Old work" });
+        add("s-nightly", { projectPath: "app", title: "Nightly deps", unattended: true });
+        add("s-scratch", {});
+        const scratchTranscript = path.join(transcriptsDir, "s-scratch.jsonl");
+        await fsPromises.writeFile(scratchTranscript, "{}\n", "utf-8");
+
+        vi.setSystemTime(1_000 + day + 60_000);
+        expect(cleanupStaleSessions()).toBe(2);
+        expect(listSessions("app").map((s) => s.sessionId)).toEqual(["s-titled"]);
+
+        vi.setSystemTime(1_000 + 30 * day + 60_000);
+        expect(cleanupStaleSessions()).toBe(1);
+        expect(listSessions("app")).toEqual([]);
+        await vi.waitFor(async () => {
+          expect(await fsPromises.access(scratchTranscript).then(() => true, () => false)).toBe(false);
+        });
+      } finally {
+        await fsPromises.rm(transcriptsDir, { recursive: true, force: true });
+      }
+    });
+  });
+
+  describe("getForkTree", () => {
+    it("builds the whole tree from any branch", () => {
+      add("root", { title: "Refactor auth" });
+      add("late", { title: "Try hooks", forkedFrom: "root" });
+      add("early-a", { title: "Try classes", forkedFrom: "root", forkPoint: 0 });
+      add("early-b", { title: "Try middleware", forkedFrom: "early-a", forkPoint: 4 });
+
+      const tree = getForkTree("early-b");
+      expect(tree?.sessionId).toBe("root");
+      expect(tree?.children.map((c) => [c.sessionId, c.forkPoint])).toEqual([
+        ["early-a", 0],
+        ["late", undefined],
+      ]);
+      expect(tree?.children[0].children.map((c) => c.title)).toEqual(["Try middleware"]);
+    });
+
+    it("starts at the oldest ancestor still in the store", () => {
+      add("orphan", { forkedFrom: "expired-parent" });
+      expect(getForkTree("orphan")).toMatchObject({ sessionId: "orphan", title: "Untitled session", children: [] });
+      expect(getForkTree("unknown")).toBeNull();
+    });
+  });
+
+  describe("titleFromPrompt", () => {
+    it("uses the first line with collapsed whitespace", () => {
+      expect(titleFromPrompt("  Fix   the bug\nin auth.ts")).toBe("Fix the bug");
+    });
+
+    it("truncates long prompts with an ellipsis", () => {
+      const title = titleFromPrompt("a ".repeat(100), 20);
+      expect(title.length).toBeLessThanOrEqual(20);
+      expect(title.endsWith("…")).toBe(true);
+    });
+  });
+});
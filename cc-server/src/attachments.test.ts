@@ -0,0 +1,105 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { readFile } from "fs/promises";
+import path from "path";
+import { createTempDir, cleanupTempDir } from "./test-utils.js";
+import { runGit } from "./git.js";
+import {
+  validateAttachments,
+  prepareAttachments,
+  safeFileName,
+  MAX_ATTACHMENTS,
+  MAX_ATTACHMENT_BYTES,
+  MAX_INLINE_TEXT_BYTES,
+} from "./attachments.js";
+
+const b64 = (s: string | Buffer) => Buffer.from(s).toString("base64");
+
+describe("validateAttachments", () => {
+  it("accepts a missing or well-formed list", () => {
+    expect(validateAttachments(undefined)).toBeNull();
+    expect(validateAttachments([{ name: "a.txt", mimeType: "text/plain", data: b64("hi") }])).toBeNull();
+  });
+
+  it("rejects malformed payloads", () => {
+    expect(validateAttachments("nope")).toMatch(/array/);
+    expect(validateAttachments([{ name: "a.txt", data: b64("hi") }])).toMatch(/mimeType/);
+    expect(validateAttachments([{ name: "a.txt", mimeType: "text/plain", data: "not base64!" }])).toMatch(/base64/);
+    const many = Array.from({ length: MAX_ATTACHMENTS + 1 }, (_, i) => ({ name: `${i}`, mimeType: "", data: "" }));
+    expect(validateAttachments(many)).toMatch(/At most/);
+  });
+
+  it("caps the files of a message together, not just one by one", () => {
+    const half = b64(Buffer.alloc(MAX_ATTACHMENT_BYTES / 2));
+    expect(validateAttachments([{ name: "a.bin", mimeType: "", data: half }, { name: "b.bin", mimeType: "", data: half }])).toBeNull();
+    expect(validateAttachments([{ name: "big.bin", mimeType: "", data: b64(Buffer.alloc(MAX_ATTACHMENT_BYTES + 1)) }])).toMatch(
+      /big.bin is larger than 3MB/
+    );
+    const third = { name: "c.bin", mimeType: "", data: b64("x") };
+    expect(validateAttachments([{ name: "a.bin", mimeType: "", data: half }, { name: "b.bin", mimeType: "", data: half }, third])).toBe(
+      "Attachments can add up to 3MB per message"
+    );
+  });
+});
+
+describe("safeFileName", () => {
+  it("strips directories and awkward characters", () => {
+    expect(safeFileName("../../etc/passwd")).toBe("passwd");
+    expect(safeFileName("C:\\Users\\me\\Screen Shot (1).png")).toBe("Screen_Shot_1_.png");
+    expect(safeFileName("..")).toBe("attachment");
+  });
+});
+
+describe("prepareAttachments", () => {
+  let cwd: string;
+
+  beforeEach(async () => {
+    cwd = await createTempDir();
+  });
+
+  afterEach(async () => {
+    await cleanupTempDir(cwd);
+  });
+
+  it("sends images as image blocks ahead of inlined text files", async () => {
+    const { content, records } = await prepareAttachments(
+      [
+        { name: "error.log", mimeType: "text/plain", data: b64("boom\n") },
+        { name: "shot.png", mimeType: "image/png", data: b64("fakepng") },
+      ],
+      cwd
+    );
+
+    expect(content[0]).toEqual({ type: "image", source: { type: "base64", media_type: "image/png", data: b64("fakepng") } });
+    expect(content[1]).toMatchObject({ type: "text" });
+    expect((content[1] as { text: string }).text).toContain("Attached file `error.log`:\n\n```\nboom\n");
+    expect(records.map((r) => r.kind)).toEqual(["inline", "image"]);
+  });
+
+  it("saves binary and oversized files into the project", async () => {
+    const big = "x".repeat(MAX_INLINE_TEXT_BYTES + 1);
+    const { content, records } = await prepareAttachments(
+      [
+        { name: "dump.bin", mimeType: "application/octet-stream", data: b64(Buffer.from([1, 0, 2])) },
+        { name: "huge.log", mimeType: "text/plain", data: b64(big) },
+      ],
+      cwd
+    );
+
+    expect(records.map((r) => r.kind)).toEqual(["saved", "saved"]);
+    expect(records[0].path).toMatch(/^\.code-anvil\/attachments\/\d+-0-dump\.bin$/);
+    expect(await readFile(path.join(cwd, records[0].path!))).toEqual(Buffer.from([1, 0, 2]));
+    expect(await readFile(path.join(cwd, records[1].path!), "utf-8")).toBe(big);
+    expect((content[0] as { text: string }).text).toContain(`saved to ${records[0].path}`);
+  });
+
+  it("keeps saved files out of git status", async () => {
+    await runGit(cwd, ["init", "-q"]);
+    const project = path.join(cwd, "app");
+    await prepareAttachments([{ name: "a.bin", mimeType: "application/zip", data: b64(Buffer.from([0, 1])) }], project);
+    await prepareAttachments([{ name: "b.bin", mimeType: "application/zip", data: b64(Buffer.from([0, 2])) }], project);
+
+    expect(await runGit(cwd, ["status", "--porcelain", "--untracked-files=all"])).toBe("");
+    const exclude = await readFile(path.join(cwd, ".git", "info", "exclude"), "utf-8");
+    expect(exclude.split("\n").filter((line) => line === "/app/.code-anvil/attachments/")).toHaveLength(1);
+  });
+});
@@ -0,0 +1,146 @@
+/**
+ * Chat attachments — screenshots, logs and other files sent with a prompt.
+ *
+ * The client sends each file base64-encoded. Images Claude can read become
+ * image content blocks. Small text files are inlined into the prompt. Anything
+ * else (large logs, PDFs, archives) is saved under ATTACHMENTS_DIR in the
+ * project — kept out of git status via .git/info/exclude — and the prompt
+ * tells the agent where to find it.
+ */
+
+import fsPromises from "fs/promises";
+import path from "path";
+import type { SDKUserMessage } from "@anthropic-ai/claude-agent-sdk";
+import type { ChatAttachment } from "./types.js";
+import { excludeFromStatus } from "./git.js";
+
+/** What the transcript keeps — never the file contents */
+export interface AttachmentRecord {
+  name: string;
+  mimeType: string;
+  size: number;
+  kind: "image" | "inline" | "saved";
+  path?: string;  // Project-relative, for saved files
+}
+
+export type ContentBlock =
+  | { type: "text"; text: string }
+  | { type: "image"; source: { type: "base64"; media_type: string; data: string } };
+
+export const MAX_ATTACHMENTS = 10;
+export const MAX_ATTACHMENT_BYTES = 3 * 1024 * 1024;    // All files of a message together — as base64 they must fit the proxy's 4.5 MB body limit
+export const MAX_INLINE_TEXT_BYTES = 100 * 1024;
+export const ATTACHMENTS_DIR = path.join(".code-anvil", "attachments");
+
+const IMAGE_TYPES = new Set(["image/png", "image/jpeg", "image/gif", "image/webp"]);
+const TEXT_TYPES = new Set([
+  "application/json",
+  "application/xml",
+  "application/yaml",
+  "application/x-yaml",
+  "application/javascript",
+  "application/typescript",
+  "application/x-sh",
+  "application/sql",
+  "application/octet-stream", // Phones label .log and friends this way
+  "",
+]);
+const BINARY_SNIFF_BYTES = 8000;
+
+function decodedSize(base64: string): number {
+  const padding = base64.endsWith("==") ? 2 : base64.endsWith("=") ? 1 : 0;
+  return Math.floor((base64.length * 3) / 4) - padding;
+}
+
+/** Error message for a bad attachments payload, or null when it's usable */
+export function validateAttachments(value: unknown): string | null {
+  if (value === undefined) return null;
+  if (!Array.isArray(value)) return "attachments must be an array";
+  if (value.length > MAX_ATTACHMENTS) return `At most ${MAX_ATTACHMENTS} attachments per message`;
+
+  let total = 0;
+  for (const a of value as Partial<ChatAttachment>[]) {
+    if (typeof a?.name !== "string" || !a.name || typeof a.data !== "string" || typeof a.mimeType !== "string") {
+      return "Each attachment needs a name, mimeType and base64 data";
+    }
+    if (!/^[A-Za-z0-9+/]*={0,2}$/.test(a.data)) return `${a.name} is not valid base64`;
+    const size = decodedSize(a.data);
+    if (size > MAX_ATTACHMENT_BYTES) return `${a.name} is larger than ${MAX_ATTACHMENT_BYTES / 1024 / 1024}MB`;
+    total += size;
+  }
+  if (total > MAX_ATTACHMENT_BYTES) return `Attachments can add up to ${MAX_ATTACHMENT_BYTES / 1024 / 1024}MB per message`;
+  return null;
+}
+
+function isText(mimeType: string, bytes: Buffer): boolean {
+  if (!mimeType.startsWith("text/") && !TEXT_TYPES.has(mimeType)) return false;
+  return !bytes.subarray(0, BINARY_SNIFF_BYTES).includes(0);
+}
+
+/** Keep just a plain file name — no directories, nothing the shell would trip over */
+export function safeFileName(name: string): string {
+  const base = path.basename(name.replace(/\\/g, "/"));
+  const cleaned = base.replace(/[^\w.\-]+/g, "_").replace(/^\.+/, "");
+  return cleaned.slice(-100) || "attachment";
+}
+
+/**
+ * Turn attachments into content blocks — images first, then files. Saved
+ * files are written here, so call it once the request is known to be good.
+ */
+export async function prepareAttachments(
+  attachments: ChatAttachment[],
+  cwd: string
+): Promise<{ content: ContentBlock[]; records: AttachmentRecord[] }> {
+  const images: ContentBlock[] = [];
+  const files: ContentBlock[] = [];
+  const records: AttachmentRecord[] = [];
+  const stamp = Date.now();
+
+  for (const [i, a] of attachments.entries()) {
+    const bytes = Buffer.from(a.data, "base64");
+    const mimeType = a.mimeType.toLowerCase();
+
+    // The message total is well under the API's 5 MB per-image limit
+    if (IMAGE_TYPES.has(mimeType)) {
+      images.push({ type: "image", source: { type: "base64", media_type: mimeType, data: a.data } });
+      records.push({ name: a.name, mimeType, size: bytes.length, kind: "image" });
+      continue;
+    }
+
+    if (isText(mimeType, bytes) && bytes.length <= MAX_INLINE_TEXT_BYTES) {
+      files.push({ type: "text", text: `Attached file \`${a.name}\`:\n\n\`\`\`\n${bytes.toString("utf-8")}\n\`\`\`` });
+      records.push({ name: a.name, mimeType, size: bytes.length, kind: "inline" });
+      continue;
+    }
+
+    const relPath = path.join(ATTACHMENTS_DIR, `${stamp}-${i}-${safeFileName(a.name)}`);
+    if (!records.some((r) => r.kind === "saved")) {
+      await fsPromises.mkdir(path.join(cwd, ATTACHMENTS_DIR), { recursive: true });
+      await excludeFromStatus(cwd, ATTACHMENTS_DIR).catch(() => {}); // Not a git repo
+    }
+    await fsPromises.writeFile(path.join(cwd, relPath), bytes);
+    files.push({ type: "text", text: `Attached file \`${a.name}\` (${mimeType || "unknown type"}, ${bytes.length} bytes) saved to ${relPath}` });
+    records.push({ name: a.name, mimeType, size: bytes.length, kind: "saved", path: relPath });
+  }
+
+  return { content: [...images, ...files], records };
+}
+
+/** "screenshot.png, app.log" — stands in for the prompt when only files were sent */
+export function describeAttachments(records: AttachmentRecord[]): string {
+  return records.map((r) => r.name).join(", ");
+}
+
+/**
+ * Single-message input stream for query() — how the SDK takes non-text
+ * content. The prompt goes last so Claude reads the attachments first.
+ */
+export async function* promptWithContent(content: ContentBlock[], prompt: string): AsyncGenerator<SDKUserMessage> {
+  yield {
+    type: "user",
+    message: { role: "user", content: prompt.trim() ? [...content, { type: "text", text: prompt }] : content },
+    parent_tool_use_id: null,
+    session_id: "",
+  };
+}
@@ -0,0 +1,180 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdir, rm, writeFile } from "fs/promises";
+import path from "path";
+import { createTempDir, cleanupTempDir } from "./test-utils.js";
+import { runGit } from "./git.js";
+import { ChangeTracker, rememberDiffs, getRememberedDiff } from "./change-tracker.js";
+
+const GIT_IDENTITY = {
+  GIT_AUTHOR_NAME: "Test",
+  GIT_AUTHOR_EMAIL: "test@example.com",
+  GIT_COMMITTER_NAME: "Test",
+  GIT_COMMITTER_EMAIL: "test@example.com",
+};
+
+/** Simulate one tool call the way chat.ts drives the tracker */
+async function runTool(
+  tracker: ChangeTracker,
+  id: string,
+  name: string,
+  input: Record<string, unknown>,
+  effect: () => Promise<void>
+) {
+  tracker.recordToolCall(id, name, input);
+  await tracker.beforeTool(name, input);
+  await effect();
+  tracker.confirmTool(name, input, id);
+}
+
+describe("ChangeTracker", () => {
+  let baseDir: string;
+  let project: string;
+  const originalEnv: Record<string, string | undefined> = {};
+
+  beforeEach(async () => {
+    baseDir = await createTempDir();
+    project = path.join(baseDir, "project");
+    await mkdir(project);
+    await writeFile(path.join(project, "app.ts"), "const a = 1;\nconst b = 2;\n");
+    for (const key of Object.keys(GIT_IDENTITY)) originalEnv[key] = process.env[key];
+    Object.assign(process.env, GIT_IDENTITY);
+  });
+
+  afterEach(async () => {
+    await cleanupTempDir(baseDir);
+    for (const [key, value] of Object.entries(originalEnv)) {
+      if (value !== undefined) {
+        process.env[key] = value;
+      } else {
+        delete process.env[key];
+      }
+    }
+  });
+
+  it("reports nothing when no tools ran", async () => {
+    const tracker = new ChangeTracker(project, baseDir);
+    expect(tracker.hasChanges).toBe(false);
+    const { summary } = await tracker.summarize();
+    expect(summary).toEqual({ files: [], insertions: 0, deletions: 0 });
+  });
+
+  it("counts insertions and deletions for an Edit", async () => {
+    const tracker = new ChangeTracker(project, baseDir);
+    const file = path.join(project, "app.ts");
+    await runTool(tracker, "t1", "Edit", { file_path: file }, () =>
+      writeFile(file, "const a = 1;\nconst b = 3;\nconst c = 4;\n")
+    );
+
+    const { summary, diffs } = await tracker.summarize();
+    expect(summary.files).toEqual([
+      { path: "project/app.ts", status: "modified", insertions: 2, deletions: 1, binary: false, tools: ["Edit"] },
+    ]);
+    expect(summary).toMatchObject({ insertions: 2, deletions: 1 });
+    expect(diffs.get("project/app.ts")).toMatchObject({ oldPath: "project/app.ts", newPath: "project/app.ts" });
+  });
+
+  it("diffs against the state before the first edit in the query", async () => {
+    const tracker = new ChangeTracker(project, baseDir);
+    const file = path.join(project, "app.ts");
+    await runTool(tracker, "t1", "Edit", { file_path: file }, () => writeFile(file, "const a = 1;\nconst b = 3;\n"));
+    await runTool(tracker, "t2", "Edit", { file_path: file }, () => writeFile(file, "const a = 1;\nconst b = 4;\n"));
+
+    const { summary } = await tracker.summarize();
+    expect(summary.files).toHaveLength(1);
+    expect(summary.files[0]).toMatchObject({ insertions: 1, deletions: 1, tools: ["Edit"] });
+  });
+
+  it("marks new files as added and resolves relative paths against cwd", async () => {
+    const tracker = new ChangeTracker(project, baseDir);
+    await runTool(tracker, "t1", "Write", { file_path: "notes.md" }, () =>
+      writeFile(path.join(project, "notes.md"), "# Notes\nhello\n")
+    );
+
+    const { summary, diffs } = await tracker.summarize();
+    expect(summary.files[0]).toMatchObject({ path: "project/notes.md", status: "added", insertions: 2, deletions: 0 });
+    expect(diffs.get("project/notes.md")?.oldPath).toBeNull();
+  });
+
+  it("ignores tools that never completed", async () => {
+    const tracker = new ChangeTracker(project, baseDir);
+    const input = { file_path: path.join(project, "app.ts") };
+    tracker.recordToolCall("t1", "Edit", input);
+    await tracker.beforeTool("Edit", input);
+    // Permission denied — no PostToolUse
+
+    expect(tracker.hasChanges).toBe(false);
+    expect((await tracker.summarize()).summary.files).toEqual([]);
+  });
+
+  it("drops edits that left the file unchanged", async () => {
+    const tracker = new ChangeTracker(project, baseDir);
+    const file = path.join(project, "app.ts");
+    await runTool(tracker, "t1", "Write", { file_path: file }, () => writeFile(file, "const a = 1;\nconst b = 2;\n"));
+
+    expect((await tracker.summarize()).summary.files).toEqual([]);
+  });
+
+  describe("Bash in a git repo", () => {
+    beforeEach(async () => {
+      await runGit(project, ["init", "-q"]);
+      await runGit(project, ["add", "."]);
+      await runGit(project, ["commit", "-q", "-m", "init"]);
+    });
+
+    it("picks up tracked and new files changed by Bash", async () => {
+      const tracker = new ChangeTracker(project, baseDir);
+      await runTool(tracker, "b1", "Bash", { command: "sed -i ... && touch gen.txt" }, async () => {
+        await writeFile(path.join(project, "app.ts"), "const a = 1;\n");
+        await writeFile(path.join(project, "gen.txt"), "generated\n");
+      });
+
+      const { summary } = await tracker.summarize();
+      expect(summary.files).toEqual([
+        { path: "project/app.ts", status: "modified", insertions: 0, deletions: 1, binary: false, tools: ["Bash"] },
+        { path: "project/gen.txt", status: "added", insertions: 1, deletions: 0, binary: false, tools: ["Bash"] },
+      ]);
+    });
+
+    it("excludes changes that were already there before the query", async () => {
+      await writeFile(path.join(project, "app.ts"), "dirty before the query\n");
+      await writeFile(path.join(project, "scratch.txt"), "untracked before\n");
+
+      const tracker = new ChangeTracker(project, baseDir);
+      await runTool(tracker, "b1", "Bash", { command: "rm app.ts" }, () => rm(path.join(project, "app.ts")));
+
+      const { summary } = await tracker.summarize();
+      expect(summary.files).toEqual([
+        expect.objectContaining({ path: "project/app.ts", status: "deleted", deletions: 1, tools: ["Bash"] }),
+      ]);
+    });
+
+    it("prefers the exact edit diff when a file was touched by both", async () => {
+      const tracker = new ChangeTracker(project, baseDir);
+      const file = path.join(project, "app.ts");
+      await runTool(tracker, "b1", "Bash", { command: "ls" }, async () => {});
+      await runTool(tracker, "t1", "Edit", { file_path: file }, () => writeFile(file, "const a = 1;\nconst b = 5;\n"));
+
+      const { summary } = await tracker.summarize();
+      expect(summary.files).toEqual([expect.objectContaining({ path: "project/app.ts", tools: ["Edit"] })]);
+    });
+  });
+
+  it("does not track Bash outside a git repo", async () => {
+    const tracker = new ChangeTracker(project, baseDir);
+    await runTool(tracker, "b1", "Bash", { command: "touch x" }, () => writeFile(path.join(project, "x"), "x\n"));
+
+    expect((await tracker.summarize()).summary.files).toEqual([]);
+  });
+});
+
+describe("rememberDiffs / getRememberedDiff", () => {
+  it("returns a stored diff and evicts the oldest queries", () => {
+    const diff = { oldPath: "a", newPath: "a", binary: false, hunks: [], insertions: 0, deletions: 0 };
+    rememberDiffs("q-first", new Map([["a", diff]]));
+    expect(getRememberedDiff("q-first", "a")).toBe(diff);
+    expect(getRememberedDiff("q-first", "b")).toBeUndefined();
+
+    for (let i = 0; i < 50; i++) rememberDiffs(`q-${i}`, new Map());
+    expect(getRememberedDiff("q-first", "a")).toBeUndefined();
+  });
+});
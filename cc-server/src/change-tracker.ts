@@ -0,0 +1,268 @@
+/**
+ * ChangeTracker — works out which files a single query changed.
+ *
+ * File-editing tools (Write/Edit/MultiEdit) are tracked exactly: the
+ * PreToolUse hook snapshots the file before the tool runs, tool_call events
+ * register the call, and PostToolUse confirms it succeeded. Bash can touch
+ * anything, so before the first Bash call we record a git baseline
+ * (`git stash create` — a commit of the working tree that leaves the tree and
+ * index untouched) and diff against it when the query ends. Outside a git repo
+ * only the file-editing tools are tracked.
+ *
+ * Diffs are computed with `git diff --no-index` so there's one diff format
+ * (and one parser) across the app.
+ */
+
+import { mkdtemp, open, readFile, rm, stat, writeFile } from "fs/promises";
+import os from "os";
+import path from "path";
+import { runGit, parseUnifiedDiff, type FileDiff } from "./git.js";
+
+const EDIT_TOOLS = new Set(["Write", "Edit", "MultiEdit"]);
+const MAX_SNAPSHOT_SIZE = 1024 * 1024; // 1MB — same cap as the file viewer
+const BINARY_SNIFF_BYTES = 8000;
+const EMPTY_TREE = "4b825dc642cb6eb9a060e54bf8d69288fbee4904";
+
+export interface FileChange {
+  path: string;            // Relative to BASE_DIR, like every other path the UI sees
+  status: "added" | "modified" | "deleted";
+  insertions: number;
+  deletions: number;
+  binary: boolean;
+  tools: string[];         // Tools that touched the file, e.g. ["Edit", "Bash"]
+}
+
+export interface ChangeSummary {
+  files: FileChange[];
+  insertions: number;
+  deletions: number;
+}
+
+// null = file didn't exist; "skip" = too large or binary to diff
+type Snapshot = string | null | "skip";
+
+interface GitBaseline {
+  prefix: string;         // cwd relative to the repo root ("" at the root)
+  commit: string;
+  untracked: Set<string>; // Relative to cwd
+}
+
+async function readSnapshot(absPath: string): Promise<Snapshot> {
+  const stats = await stat(absPath).catch(() => null);
+  if (!stats) return null;
+  if (!stats.isFile() || stats.size > MAX_SNAPSHOT_SIZE) return "skip";
+
+  const handle = await open(absPath, "r");
+  try {
+    const buf = Buffer.alloc(BINARY_SNIFF_BYTES);
+    const { bytesRead } = await handle.read(buf, 0, BINARY_SNIFF_BYTES, 0);
+    if (buf.subarray(0, bytesRead).includes(0)) return "skip";
+  } finally {
+    await handle.close();
+  }
+  return readFile(absPath, "utf-8");
+}
+
+function toolFilePath(input: unknown): string | null {
+  const filePath = (input as { file_path?: unknown } | null)?.file_path;
+  return typeof filePath === "string" && filePath ? filePath : null;
+}
+
+function emptyDiff(relPath: string, status: FileChange["status"], binary: boolean): FileDiff {
+  return {
+    oldPath: status === "added" ? null : relPath,
+    newPath: status === "deleted" ? null : relPath,
+    binary,
+    hunks: [],
+    insertions: 0,
+    deletions: 0,
+  };
+}
+
+export class ChangeTracker {
+  private snapshots = new Map<string, Snapshot>();       // abs path → content before first edit
+  private toolCalls = new Map<string, { name: string; filePath: string | null }>();
+  private confirmed = new Map<string, Set<string>>();    // abs path → tools; "" key = Bash ran
+  private baseline: GitBaseline | null | undefined;      // undefined = not taken yet
+  private baselinePending: Promise<void> | null = null;
+
+  constructor(private cwd: string, private baseDir: string) {}
+
+  /** tool_call event — register the call so PostToolUse can confirm it */
+  recordToolCall(id: string, name: string, input: unknown) {
+    if (!EDIT_TOOLS.has(name) && name !== "Bash") return;
+    this.toolCalls.set(id, { name, filePath: EDIT_TOOLS.has(name) ? toolFilePath(input) : null });
+  }
+
+  /** PreToolUse hook — runs before the tool, so this is where "before" state is captured */
+  async beforeTool(name: string, input: unknown): Promise<void> {
+    if (EDIT_TOOLS.has(name)) {
+      const filePath = toolFilePath(input);
+      if (!filePath) return;
+      const abs = path.resolve(this.cwd, filePath);
+      if (!this.snapshots.has(abs)) {
+        this.snapshots.set(abs, await readSnapshot(abs).catch(() => "skip" as const));
+      }
+    } else if (name === "Bash" && this.baseline === undefined) {
+      // Parallel Bash calls share one baseline
+      this.baselinePending ??= this.takeBaseline();
+      await this.baselinePending;
+    }
+  }
+
+  /** PostToolUse hook — the tool completed, so its changes count */
+  confirmTool(name: string, input: unknown, toolUseId?: string) {
+    const call = toolUseId ? this.toolCalls.get(toolUseId) : undefined;
+    const toolName = call?.name ?? name;
+    if (toolName === "Bash") {
+      this.addTool("", "Bash");
+      return;
+    }
+    if (!EDIT_TOOLS.has(toolName)) return;
+    const filePath = call?.filePath ?? toolFilePath(input);
+    if (filePath) this.addTool(path.resolve(this.cwd, filePath), toolName);
+  }
+
+  private addTool(key: string, tool: string) {
+    const tools = this.confirmed.get(key) ?? new Set<string>();
+    tools.add(tool);
+    this.confirmed.set(key, tools);
+  }
+
+  private async takeBaseline(): Promise<void> {
+    try {
+      const prefix = (await runGit(this.cwd, ["rev-parse", "--show-prefix"])).trim();
+      let commit = (await runGit(this.cwd, ["stash", "create"])).trim();
+      if (!commit) {
+        // Clean tree — HEAD is the baseline (or the empty tree on an unborn branch)
+        commit = await runGit(this.cwd, ["rev-parse", "--verify", "-q", "HEAD"])
+          .then((out) => out.trim())
+          .catch(() => EMPTY_TREE);
+      }
+      const untracked = await runGit(this.cwd, ["ls-files", "--others", "--exclude-standard", "-z"]);
+      this.baseline = { prefix, commit, untracked: new Set(untracked.split("\0").filter(Boolean)) };
+    } catch {
+      this.baseline = null; // Not a git repo — Bash changes can't be tracked
+    }
+  }
+
+  /** True once any tracked tool has completed */
+  get hasChanges(): boolean {
+    return this.confirmed.size > 0;
+  }
+
+  /**
+   * Diff everything the query touched. Returns the summary for the result
+   * event plus full diffs (keyed by BASE_DIR-relative path) for tap-to-diff.
+   */
+  async summarize(): Promise<{ summary: ChangeSummary; diffs: Map<string, FileDiff> }> {
+    const changes = new Map<string, { change: FileChange; diff: FileDiff }>();
+    const tmpDir = await mkdtemp(path.join(os.tmpdir(), "cc-changes-"));
+
+    try {
+      // Exact diffs for files edited through Write/Edit/MultiEdit
+      let n = 0;
+      for (const [abs, tools] of this.confirmed) {
+        if (!abs) continue;
+        const relPath = path.relative(this.baseDir, abs);
+        if (relPath.startsWith("..")) continue; // Outside BASE_DIR — the UI can't open it anyway
+        const before = this.snapshots.get(abs);
+        const after = await readSnapshot(abs).catch(() => "skip" as const);
+        if (before === undefined) continue;
+        if (before !== "skip" && after !== "skip" && before === after) continue;
+
+        const status: FileChange["status"] = before === null ? "added" : after === null ? "deleted" : "modified";
+        let diff: FileDiff;
+        if (before === "skip" || after === "skip") {
+          diff = emptyDiff(relPath, status, true);
+        } else {
+          const beforeFile = before === null ? "/dev/null" : path.join(tmpDir, `before-${n++}`);
+          if (before !== null) await writeFile(beforeFile, before);
+          diff = await this.noIndexDiff(beforeFile, after === null ? "/dev/null" : abs, relPath, status);
+        }
+        changes.set(relPath, { change: this.toChange(relPath, status, diff, [...tools]), diff });
+      }
+
+      // Everything else in the working tree that moved since the Bash baseline
+      if (this.confirmed.has("") && this.baseline) {
+        await this.collectBashChanges(this.baseline, changes);
+      }
+    } finally {
+      await rm(tmpDir, { recursive: true, force: true }).catch(() => {});
+    }
+
+    const files = [...changes.values()].map((c) => c.change).sort((a, b) => a.path.localeCompare(b.path));
+    const diffs = new Map([...changes].map(([p, c]) => [p, c.diff]));
+    return {
+      summary: {
+        files,
+        insertions: files.reduce((sum, f) => sum + f.insertions, 0),
+        deletions: files.reduce((sum, f) => sum + f.deletions, 0),
+      },
+      diffs,
+    };
+  }
+
+  private async collectBashChanges(
+    baseline: GitBaseline,
+    changes: Map<string, { change: FileChange; diff: FileDiff }>
+  ) {
+    // `git diff` reports repo-root paths; everything is scoped to cwd so they all carry the prefix
+    const relToBase = (repoRel: string) =>
+      path.relative(this.baseDir, path.join(this.cwd, repoRel.slice(baseline.prefix.length)));
+
+    const output = await runGit(this.cwd, ["diff", "--no-color", baseline.commit, "--", "."]).catch(() => "");
+    for (const diff of parseUnifiedDiff(output)) {
+      const repoRel = diff.newPath ?? diff.oldPath;
+      if (!repoRel) continue;
+      const relPath = relToBase(repoRel);
+      if (changes.has(relPath)) continue; // Already diffed exactly from the edit snapshot
+      const status = diff.oldPath === null ? "added" : diff.newPath === null ? "deleted" : "modified";
+      const fixed = { ...diff, oldPath: diff.oldPath && relToBase(diff.oldPath), newPath: diff.newPath && relToBase(diff.newPath) };
+      changes.set(relPath, { change: this.toChange(relPath, status, fixed, ["Bash"]), diff: fixed });
+    }
+
+    // New untracked files aren't in `git diff` — diff them against nothing
+    const untracked = await runGit(this.cwd, ["ls-files", "--others", "--exclude-standard", "-z"]).catch(() => "");
+    for (const cwdRel of untracked.split("\0").filter(Boolean)) {
+      if (baseline.untracked.has(cwdRel)) continue;
+      const abs = path.join(this.cwd, cwdRel);
+      const relPath = path.relative(this.baseDir, abs);
+      if (changes.has(relPath)) continue;
+      const content = await readSnapshot(abs).catch(() => "skip" as const);
+      const diff = content === "skip"
+        ? emptyDiff(relPath, "added", true)
+        : await this.noIndexDiff("/dev/null", abs, relPath, "added");
+      changes.set(relPath, { change: this.toChange(relPath, "added", diff, ["Bash"]), diff });
+    }
+  }
+
+  private async noIndexDiff(from: string, to: string, relPath: string, status: FileChange["status"]): Promise<FileDiff> {
+    const output = await runGit(this.cwd, ["diff", "--no-index", "--no-color", "--", from, to], [1]).catch(() => "");
+    const [diff] = parseUnifiedDiff(output);
+    if (!diff) return emptyDiff(relPath, status, false);
+    // --no-index reports the temp/absolute paths — show the real file instead
+    return { ...diff, oldPath: status === "added" ? null : relPath, newPath: status === "deleted" ? null : relPath };
+  }
+
+  private toChange(relPath: string, status: FileChange["status"], diff: FileDiff, tools: string[]): FileChange {
+    return { path: relPath, status, insertions: diff.insertions, deletions: diff.deletions, binary: diff.binary, tools };
+  }
+}
+
+// ── Recent diffs for tap-to-diff ─────────────────────────────────────
+
+const MAX_REMEMBERED_QUERIES = 50;
+const recentDiffs = new Map<string, Map<string, FileDiff>>(); // queryId → path → diff
+
+export function rememberDiffs(queryId: string, diffs: Map<string, FileDiff>) {
+  recentDiffs.set(queryId, diffs);
+  // Maps iterate in insertion order — drop the oldest
+  while (recentDiffs.size > MAX_REMEMBERED_QUERIES) {
+    recentDiffs.delete(recentDiffs.keys().next().value!);
+  }
+}
+
+export function getRememberedDiff(queryId: string, filePath: string): FileDiff | undefined {
+  return recentDiffs.get(queryId)?.get(filePath);
+}
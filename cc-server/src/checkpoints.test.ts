@@ -0,0 +1,80 @@
+import { describe, it, expect } from "vitest";
+import { buildCheckpointTimeline } from "./checkpoints.js";
+import type { TranscriptEntry } from "./transcript-store.js";
+
+let seq = 0;
+function entry(type: string, data: unknown, queryId?: string): TranscriptEntry {
+  return { seq: seq++, type, data, queryId, timestamp: 1000 + seq };
+}
+
+describe("buildCheckpointTimeline", () => {
+  it("joins each turn's first checkpoint with its prompt and change stats", () => {
+    seq = 0;
+    const entries = [
+      entry("user", { text: "Add a login page" }, "q1"),
+      entry("files_changed", {
+        queryId: "q1",
+        files: [{ path: "app/login.tsx", status: "added", insertions: 40, deletions: 0, binary: false, tools: ["Write"] }],
+        insertions: 40,
+        deletions: 0,
+      }, "q1"),
+      entry("result", {}, "q1"),
+      entry("user", { text: "Explain the code" }, "q2"),
+      entry("result", {}, "q2"),
+    ];
+
+    const timeline = buildCheckpointTimeline(
+      {
+        checkpoints: ["u1", "u2", "u3", "u4"],
+        checkpointTurns: [
+          { queryId: "q1", index: 0 },
+          { queryId: "q2", index: 3 },
+        ],
+      },
+      entries
+    );
+
+    expect(timeline).toEqual([
+      {
+        index: 0,
+        uuid: "u1",
+        queryId: "q1",
+        prompt: "Add a login page",
+        timestamp: 1001,
+        files: [{ path: "app/login.tsx", status: "added", insertions: 40, deletions: 0 }],
+        insertions: 40,
+        deletions: 0,
+      },
+      {
+        index: 3,
+        uuid: "u4",
+        queryId: "q2",
+        prompt: "Explain the code",
+        timestamp: 1004,
+        files: [],
+        insertions: 0,
+        deletions: 0,
+      },
+    ]);
+  });
+
+  it("keeps turns missing from the transcript and drops rewound ones", () => {
+    const timeline = buildCheckpointTimeline(
+      {
+        checkpoints: ["u1"],
+        checkpointTurns: [
+          { queryId: "gone", index: 0 },
+          { queryId: "rewound", index: 1 },
+        ],
+      },
+      []
+    );
+    expect(timeline).toEqual([
+      { index: 0, uuid: "u1", queryId: "gone", prompt: null, timestamp: null, files: [], insertions: 0, deletions: 0 },
+    ]);
+  });
+
+  it("is empty for sessions without checkpoints", () => {
+    expect(buildCheckpointTimeline({}, [])).toEqual([]);
+  });
+});
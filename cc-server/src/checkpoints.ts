@@ -0,0 +1,66 @@
+/**
+ * Checkpoint timeline — one entry per prompt that touched the SDK's file
+ * checkpoints, joined with the prompt text and change summary from the
+ * session transcript.
+ */
+
+import type { SessionState } from "./session-store.js";
+import type { TranscriptEntry } from "./transcript-store.js";
+
+export interface CheckpointFile {
+  path: string;
+  status: string;
+  insertions: number;
+  deletions: number;
+}
+
+export interface CheckpointInfo {
+  index: number;            // Position in SessionState.checkpoints — pass to POST /api/chat/rewind
+  uuid: string;
+  queryId: string;
+  prompt: string | null;    // null when the transcript no longer has the prompt
+  timestamp: number | null;
+  files: CheckpointFile[];
+  insertions: number;
+  deletions: number;
+}
+
+/** Build the timeline, oldest first. Turns without a transcript still appear, just without text or stats. */
+export function buildCheckpointTimeline(
+  session: Pick<SessionState, "checkpoints" | "checkpointTurns">,
+  entries: TranscriptEntry[]
+): CheckpointInfo[] {
+  const checkpoints = session.checkpoints ?? [];
+  const prompts = new Map<string, TranscriptEntry>();
+  const changes = new Map<string, { files: CheckpointFile[]; insertions: number; deletions: number }>();
+
+  for (const e of entries) {
+    if (!e.queryId) continue;
+    if (e.type === "user" && !prompts.has(e.queryId)) prompts.set(e.queryId, e);
+    if (e.type === "files_changed") {
+      const data = e.data as { files?: CheckpointFile[]; insertions?: number; deletions?: number };
+      changes.set(e.queryId, {
+        files: (data.files ?? []).map(({ path, status, insertions, deletions }) => ({ path, status, insertions, deletions })),
+        insertions: data.insertions ?? 0,
+        deletions: data.deletions ?? 0,
+      });
+    }
+  }
+
+  return (session.checkpointTurns ?? [])
+    .filter((turn) => turn.index < checkpoints.length)
+    .map((turn) => {
+      const prompt = prompts.get(turn.queryId);
+      const change = changes.get(turn.queryId);
+      return {
+        index: turn.index,
+        uuid: checkpoints[turn.index],
+        queryId: turn.queryId,
+        prompt: prompt ? String((prompt.data as { text?: unknown }).text ?? "") : null,
+        timestamp: prompt?.timestamp ?? null,
+        files: change?.files ?? [],
+        insertions: change?.insertions ?? 0,
+        deletions: change?.deletions ?? 0,
+      };
+    });
+}
@@ -0,0 +1,51 @@
+import { describe, it, expect } from "vitest";
+import { parseCron, validateCron, nextCronRun } from "./cron.js";
+
+// Local time, like the scheduler
+const at = (y: number, mo: number, d: number, h = 0, mi = 0) => new Date(y, mo - 1, d, h, mi);
+
+describe("parseCron", () => {
+  it("expands lists, ranges, steps and names", () => {
+    const s = parseCron("*/15 9-17 * jan,jul mon-fri");
+    expect([...s.minutes]).toEqual([0, 15, 30, 45]);
+    expect(s.hours.size).toBe(9);
+    expect([...s.months]).toEqual([1, 7]);
+    expect([...s.daysOfWeek]).toEqual([1, 2, 3, 4, 5]);
+  });
+
+  it("treats 7 as Sunday and accepts macros", () => {
+    expect([...parseCron("0 0 * * 7").daysOfWeek]).toEqual([0]);
+    expect(parseCron("@daily")).toEqual(parseCron("0 0 * * *"));
+  });
+
+  it("explains what's wrong with a bad expression", () => {
+    expect(validateCron("0 2 * *")).toMatch(/5 fields/);
+    expect(validateCron("61 * * * *")).toMatch(/out of range/);
+    expect(validateCron("0 2 * * funday")).toMatch(/Invalid value/);
+    expect(validateCron("0 2 * * *")).toBeNull();
+  });
+});
+
+describe("nextCronRun", () => {
+  it("finds the next matching minute after the given time", () => {
+    expect(nextCronRun("0 2 * * *", at(2026, 3, 10, 1, 30))).toEqual(at(2026, 3, 10, 2, 0));
+    expect(nextCronRun("0 2 * * *", at(2026, 3, 10, 2, 0))).toEqual(at(2026, 3, 11, 2, 0));
+    expect(nextCronRun("*/20 * * * *", at(2026, 3, 10, 9, 41))).toEqual(at(2026, 3, 10, 10, 0));
+  });
+
+  it("skips to the right weekday and month", () => {
+    // 2026-03-13 is a Friday
+    expect(nextCronRun("30 8 * * mon", at(2026, 3, 13, 12))).toEqual(at(2026, 3, 16, 8, 30));
+    expect(nextCronRun("0 0 1 */6 *", at(2026, 3, 13))).toEqual(at(2026, 7, 1));
+  });
+
+  it("matches either day field when both are restricted", () => {
+    // 15th of the month or any Sunday, whichever comes first
+    expect(nextCronRun("0 12 15 * sun", at(2026, 3, 13))).toEqual(at(2026, 3, 15, 12));
+    expect(nextCronRun("0 12 20 * sun", at(2026, 3, 16))).toEqual(at(2026, 3, 20, 12));
+  });
+
+  it("gives up on dates that never come", () => {
+    expect(nextCronRun("0 0 30 2 *", at(2026, 1, 1))).toBeNull();
+  });
+});
@@ -0,0 +1,132 @@
+/**
+ * Cron expressions — the standard five fields (minute hour day-of-month month
+ * day-of-week) in server local time, plus @hourly/@daily/@weekly/@monthly/
+ * @yearly. Fields take `*`, lists, ranges, steps and month/day names.
+ *
+ * As in cron, when both day-of-month and day-of-week are restricted a day
+ * matches if either does.
+ */
+
+export interface CronSchedule {
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;      // 1-12
+  daysOfWeek: Set<number>;  // 0-6, Sunday = 0
+  domRestricted: boolean;
+  dowRestricted: boolean;
+}
+
+const MACROS: Record<string, string> = {
+  "@hourly": "0 * * * *",
+  "@daily": "0 0 * * *",
+  "@midnight": "0 0 * * *",
+  "@weekly": "0 0 * * 0",
+  "@monthly": "0 0 1 * *",
+  "@yearly": "0 0 1 1 *",
+  "@annually": "0 0 1 1 *",
+};
+
+const MONTH_NAMES = ["jan", "feb", "mar", "apr", "may", "jun", "jul", "aug", "sep", "oct", "nov", "dec"];
+const DAY_NAMES = ["sun", "mon", "tue", "wed", "thu", "fri", "sat"];
+
+// Far enough to find Feb 29 on a leap-year-only schedule
+const MAX_SEARCH_MS = 8 * 366 * 24 * 60 * 60 * 1000;
+
+function parseValue(token: string, names: string[] | null, offset: number): number {
+  const named = names?.indexOf(token.toLowerCase()) ?? -1;
+  if (named >= 0) return named + offset;
+  if (!/^\d+$/.test(token)) throw new Error(`Invalid value "${token}"`);
+  return Number(token);
+}
+
+function parseField(field: string, min: number, max: number, names: string[] | null = null, offset = 0): Set<number> {
+  const values = new Set<number>();
+  for (const part of field.split(",")) {
+    const [range, stepText] = part.split("/");
+    const step = stepText === undefined ? 1 : Number(stepText);
+    if (!Number.isInteger(step) || step < 1) throw new Error(`Invalid step in "${part}"`);
+
+    let start: number;
+    let end: number;
+    if (range === "*") {
+      start = min;
+      end = max;
+    } else if (range.includes("-")) {
+      const [a, b] = range.split("-");
+      start = parseValue(a, names, offset);
+      end = parseValue(b, names, offset);
+    } else {
+      start = parseValue(range, names, offset);
+      end = stepText === undefined ? start : max;
+    }
+    if (start < min || end > max || start > end) throw new Error(`"${part}" is out of range ${min}-${max}`);
+    for (let v = start; v <= end; v += step) values.add(v);
+  }
+  return values;
+}
+
+/** Parse an expression; throws with a readable message when it's invalid */
+export function parseCron(expression: string): CronSchedule {
+  const expr = MACROS[expression.trim().toLowerCase()] ?? expression.trim();
+  const fields = expr.split(/\s+/);
+  if (fields.length !== 5) throw new Error("Cron expression needs 5 fields: minute hour day month weekday");
+  const [minute, hour, dom, month, dow] = fields;
+
+  const daysOfWeek = parseField(dow, 0, 7, DAY_NAMES);
+  if (daysOfWeek.delete(7)) daysOfWeek.add(0); // 7 is also Sunday
+
+  return {
+    minutes: parseField(minute, 0, 59),
+    hours: parseField(hour, 0, 23),
+    daysOfMonth: parseField(dom, 1, 31),
+    months: parseField(month, 1, 12, MONTH_NAMES, 1),
+    daysOfWeek,
+    domRestricted: dom !== "*",
+    dowRestricted: dow !== "*",
+  };
+}
+
+/** Error message for an invalid expression, or null */
+export function validateCron(expression: string): string | null {
+  try {
+    parseCron(expression);
+    return null;
+  } catch (err: unknown) {
+    return err instanceof Error ? err.message : "Invalid cron expression";
+  }
+}
+
+function dayMatches(schedule: CronSchedule, date: Date): boolean {
+  const dom = schedule.daysOfMonth.has(date.getDate());
+  const dow = schedule.daysOfWeek.has(date.getDay());
+  if (schedule.domRestricted && schedule.dowRestricted) return dom || dow;
+  if (schedule.domRestricted) return dom;
+  if (schedule.dowRestricted) return dow;
+  return true;
+}
+
+/** The first matching minute strictly after `after`, or null if there is none */
+export function nextCronRun(expression: string | CronSchedule, after: Date): Date | null {
+  const schedule = typeof expression === "string" ? parseCron(expression) : expression;
+  const date = new Date(after.getTime());
+  date.setSeconds(0, 0);
+  date.setMinutes(date.getMinutes() + 1);
+
+  const limit = after.getTime() + MAX_SEARCH_MS;
+
+  while (date.getTime() < limit) {
+    if (!schedule.months.has(date.getMonth() + 1) || !dayMatches(schedule, date)) {
+      // Skip to the start of the next day
+      date.setHours(24, 0, 0, 0);
+      continue;
+    }
+    if (!schedule.hours.has(date.getHours())) {
+      date.setHours(date.getHours() + 1, 0, 0, 0);
+      continue;
+    }
+    if (schedule.minutes.has(date.getMinutes())) return date;
+    date.setMinutes(date.getMinutes() + 1);
+  }
+  return null;
+}
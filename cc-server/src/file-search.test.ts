@@ -0,0 +1,178 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdir, writeFile } from "fs/promises";
+import path from "path";
+import { createTempDir, cleanupTempDir } from "./test-utils.js";
+import {
+  parseGitignore,
+  isIgnored,
+  fuzzyScore,
+  buildMatcher,
+  searchFileContent,
+  listCandidateFiles,
+  SearchTimeoutError,
+  MAX_REGEX_LENGTH,
+  type LinesMatcher,
+} from "./file-search.js";
+
+const BINARY = new Set([".png", ".zip"]);
+
+describe("parseGitignore / isIgnored", () => {
+  it("matches unanchored names at any depth", () => {
+    const rules = parseGitignore("*.log\n");
+    expect(isIgnored(rules, "debug.log", false)).toBe(true);
+    expect(isIgnored(rules, "logs/deep/debug.log", false)).toBe(true);
+    expect(isIgnored(rules, "debug.txt", false)).toBe(false);
+  });
+
+  it("anchors patterns with a leading slash", () => {
+    const rules = parseGitignore("/build\n");
+    expect(isIgnored(rules, "build", true)).toBe(true);
+    expect(isIgnored(rules, "src/build", true)).toBe(false);
+  });
+
+  it("applies directory-only patterns to directories", () => {
+    const rules = parseGitignore("dist/\n");
+    expect(isIgnored(rules, "dist", true)).toBe(true);
+    expect(isIgnored(rules, "dist", false)).toBe(false);
+  });
+
+  it("supports ** and negation (last rule wins)", () => {
+    const rules = parseGitignore("# comment\n**/tmp/**\n*.env\n!keep.env\n");
+    expect(isIgnored(rules, "a/tmp/b/c.txt", false)).toBe(true);
+    expect(isIgnored(rules, "secret.env", false)).toBe(true);
+    expect(isIgnored(rules, "keep.env", false)).toBe(false);
+  });
+});
+
+describe("fuzzyScore", () => {
+  it("returns null when the query is not a subsequence", () => {
+    expect(fuzzyScore("xyz", "src/routes/chat.ts")).toBeNull();
+  });
+
+  it("matches scattered characters", () => {
+    expect(fuzzyScore("rct", "src/routes/chat.ts")).not.toBeNull();
+  });
+
+  it("ranks basename hits above directory hits", () => {
+    const base = fuzzyScore("chat", "src/routes/chat.ts")!;
+    const dir = fuzzyScore("chat", "chat/routes/index.ts")!;
+    expect(base).toBeGreaterThan(dir);
+  });
+
+  it("prefers shorter paths on equal matches", () => {
+    const short = fuzzyScore("file", "file.ts")!;
+    const long = fuzzyScore("file", "deeply/nested/folder/file.ts")!;
+    expect(short).toBeGreaterThan(long);
+  });
+
+  it("is case-insensitive and ignores whitespace in the query", () => {
+    expect(fuzzyScore("Query Runner", "src/query-runner.ts")).not.toBeNull();
+  });
+});
+
+describe("buildMatcher", () => {
+  /** 0-based column of the match in one line, or -1 */
+  const column = (matcher: LinesMatcher, line: string) => matcher([line], 1)[0]?.[1] ?? -1;
+
+  it("finds literal text case-insensitively by default", () => {
+    expect(column(buildMatcher("TODO", {}), "  // todo: fix")).toBe(5);
+  });
+
+  it("respects caseSensitive for literals", () => {
+    expect(column(buildMatcher("TODO", { caseSensitive: true }), "// todo")).toBe(-1);
+  });
+
+  it("treats regex metacharacters literally unless regex is set", () => {
+    expect(column(buildMatcher("a.c", {}), "abc")).toBe(-1);
+    expect(column(buildMatcher("a.c", { regex: true }), "xabc")).toBe(1);
+  });
+
+  it("returns matching lines up to the limit", () => {
+    expect(buildMatcher("b", { regex: true })(["a", "ab", "b", "bb"], 2)).toEqual([[1, 1], [2, 0]]);
+  });
+
+  it("throws on an invalid or overlong regex", () => {
+    expect(() => buildMatcher("(", { regex: true })).toThrow();
+    expect(() => buildMatcher("a".repeat(MAX_REGEX_LENGTH + 1), { regex: true })).toThrow(/longer than/);
+  });
+
+  it("stops a regex that backtracks for too long", () => {
+    const matcher = buildMatcher("(a+)+$", { regex: true });
+    expect(() => matcher(["a".repeat(40) + "!"], 1)).toThrow(SearchTimeoutError);
+    // Still usable afterwards
+    expect(matcher(["aaa"], 1)).toEqual([[0, 0]]);
+  });
+
+  it("only searches the start of very long lines with a regex", () => {
+    expect(column(buildMatcher("needle$", { regex: true }), "x".repeat(5000) + "needle")).toBe(-1);
+    expect(column(buildMatcher("needle", {}), "x".repeat(5000) + "needle")).toBe(5000);
+  });
+});
+
+describe("searchFileContent", () => {
+  let tmpDir: string;
+
+  beforeEach(async () => {
+    tmpDir = await createTempDir();
+  });
+
+  afterEach(async () => {
+    await cleanupTempDir(tmpDir);
+  });
+
+  it("returns 1-based line and column numbers", async () => {
+    const file = path.join(tmpDir, "a.ts");
+    await writeFile(file, "const a = 1;\nconst needle = 2;\n// needle again\n");
+
+    const matches = await searchFileContent(file, buildMatcher("needle", {}), 10);
+
+    expect(matches).toEqual([
+      { line: 2, column: 7, text: "const needle = 2;" },
+      { line: 3, column: 4, text: "// needle again" },
+    ]);
+  });
+
+  it("caps matches per file", async () => {
+    const file = path.join(tmpDir, "many.txt");
+    await writeFile(file, "x\n".repeat(50));
+
+    const matches = await searchFileContent(file, buildMatcher("x", {}), 3);
+
+    expect(matches).toHaveLength(3);
+  });
+
+  it("skips files containing NUL bytes", async () => {
+    const file = path.join(tmpDir, "blob.dat");
+    await writeFile(file, Buffer.from([0x6e, 0x65, 0x65, 0x64, 0x00, 0x6c, 0x65]));
+
+    expect(await searchFileContent(file, buildMatcher("need", {}), 10)).toEqual([]);
+  });
+});
+
+describe("listCandidateFiles (walker fallback)", () => {
+  let tmpDir: string;
+
+  beforeEach(async () => {
+    tmpDir = await createTempDir();
+    await mkdir(path.join(tmpDir, "src", "generated"), { recursive: true });
+    await mkdir(path.join(tmpDir, "node_modules", "pkg"), { recursive: true });
+    await writeFile(path.join(tmpDir, ".gitignore"), "*.log\n");
+    await writeFile(path.join(tmpDir, "src", ".gitignore"), "generated/\n");
+    await writeFile(path.join(tmpDir, "src", "index.ts"), "export {};");
+    await writeFile(path.join(tmpDir, "src", "generated", "types.ts"), "export {};");
+    await writeFile(path.join(tmpDir, "node_modules", "pkg", "index.js"), "");
+    await writeFile(path.join(tmpDir, "debug.log"), "noise");
+    await writeFile(path.join(tmpDir, "logo.png"), "png");
+    await writeFile(path.join(tmpDir, "README.md"), "# Readme");
+  });
+
+  afterEach(async () => {
+    await cleanupTempDir(tmpDir);
+  });
+
+  it("honours nested .gitignore files and skips node_modules and binaries", async () => {
+    const files = await listCandidateFiles(tmpDir, BINARY);
+
+    expect(files.sort()).toEqual([".gitignore", "README.md", "src/.gitignore", "src/index.ts"]);
+  });
+});
@@ -0,0 +1,284 @@
+/**
+ * File search — candidate listing, fuzzy filename scoring, and content grep.
+ *
+ * Candidates come from `git ls-files` when the search root is inside a git
+ * repo (so .gitignore, .git/info/exclude and global excludes all apply). Outside
+ * a repo we walk the tree ourselves and honour any .gitignore files we meet.
+ */
+
+import { execFile } from "child_process";
+import { open, readdir, readFile, stat } from "fs/promises";
+import path from "path";
+import vm from "vm";
+
+const MAX_CANDIDATES = 50_000;
+const MAX_SEARCH_FILE_SIZE = 1024 * 1024; // 1MB — same cap as the file viewer
+const BINARY_SNIFF_BYTES = 8000;
+
+// Directories never worth descending into when walking without git
+const ALWAYS_SKIP_DIRS = new Set([".git", "node_modules"]);
+
+// ── .gitignore matching (fallback walker only) ───────────────────────
+
+interface IgnoreRule {
+  regex: RegExp;
+  negate: boolean;
+  dirOnly: boolean;
+}
+
+function globToRegex(glob: string): string {
+  let out = "";
+  for (let i = 0; i < glob.length; i++) {
+    const c = glob[i];
+    if (c === "*") {
+      if (glob[i + 1] === "*") {
+        // "**/" matches zero or more directories, a trailing "**" matches everything
+        if (glob[i + 2] === "/") {
+          out += "(?:.*/)?";
+          i += 2;
+        } else {
+          out += ".*";
+          i += 1;
+        }
+      } else {
+        out += "[^/]*";
+      }
+    } else if (c === "?") {
+      out += "[^/]";
+    } else if ("\\^$+.()|{}[]".includes(c)) {
+      out += "\\" + c;
+    } else {
+      out += c;
+    }
+  }
+  return out;
+}
+
+export function parseGitignore(content: string): IgnoreRule[] {
+  const rules: IgnoreRule[] = [];
+  for (const raw of content.split("\n")) {
+    let line = raw.trimEnd();
+    if (!line || line.startsWith("#")) continue;
+
+    const negate = line.startsWith("!");
+    if (negate) line = line.slice(1);
+
+    const dirOnly = line.endsWith("/");
+    if (dirOnly) line = line.slice(0, -1);
+
+    // A slash anywhere but the end anchors the pattern to the .gitignore's directory
+    const anchored = line.includes("/");
+    if (line.startsWith("/")) line = line.slice(1);
+    if (!line) continue;
+
+    const body = globToRegex(line);
+    const regex = new RegExp(anchored ? `^${body}$` : `(?:^|/)${body}$`);
+    rules.push({ regex, negate, dirOnly });
+  }
+  return rules;
+}
+
+/** Last matching rule wins, as in git */
+export function isIgnored(rules: IgnoreRule[], relPath: string, isDir: boolean): boolean {
+  let ignored = false;
+  for (const rule of rules) {
+    if (rule.dirOnly && !isDir) continue;
+    if (rule.regex.test(relPath)) ignored = !rule.negate;
+  }
+  return ignored;
+}
+
+// ── Candidate listing ───────────────────────────────────────────────
+
+function gitListFiles(root: string): Promise<string[] | null> {
+  return new Promise((resolve) => {
+    execFile(
+      "git",
+      ["ls-files", "--cached", "--others", "--exclude-standard", "-z"],
+      { cwd: root, maxBuffer: 64 * 1024 * 1024 },
+      (err, stdout) => {
+        if (err) {
+          resolve(null); // Not a git repo (or git missing) — caller falls back to walking
+          return;
+        }
+        resolve(stdout.split("\0").filter(Boolean));
+      }
+    );
+  });
+}
+
+async function walkFiles(root: string): Promise<string[]> {
+  const files: string[] = [];
+  const scopes: { base: string; rules: IgnoreRule[] }[] = [];
+
+  const ignoredByScopes = (relPath: string, isDir: boolean) =>
+    scopes.some(({ base, rules }) => {
+      if (base && !relPath.startsWith(base + "/")) return false;
+      return isIgnored(rules, base ? relPath.slice(base.length + 1) : relPath, isDir);
+    });
+
+  const visit = async (relDir: string): Promise<void> => {
+    if (files.length >= MAX_CANDIDATES) return;
+    const absDir = path.join(root, relDir);
+
+    const gitignore = await readFile(path.join(absDir, ".gitignore"), "utf-8").catch(() => null);
+    const pushed = gitignore !== null;
+    if (pushed) scopes.push({ base: relDir, rules: parseGitignore(gitignore) });
+
+    const dirents = await readdir(absDir, { withFileTypes: true }).catch(() => []);
+    for (const d of dirents) {
+      if (files.length >= MAX_CANDIDATES) break;
+      const relPath = relDir ? `${relDir}/${d.name}` : d.name;
+      if (d.isDirectory()) {
+        if (ALWAYS_SKIP_DIRS.has(d.name) || ignoredByScopes(relPath, true)) continue;
+        await visit(relPath);
+      } else if (d.isFile() && !ignoredByScopes(relPath, false)) {
+        files.push(relPath);
+      }
+    }
+
+    if (pushed) scopes.pop();
+  };
+
+  await visit("");
+  return files;
+}
+
+/** List searchable files under `root`, relative to it, with binary extensions removed */
+export async function listCandidateFiles(root: string, binaryExtensions: Set<string>): Promise<string[]> {
+  const files = (await gitListFiles(root)) ?? (await walkFiles(root));
+  return files
+    .slice(0, MAX_CANDIDATES)
+    .filter((f) => !binaryExtensions.has(path.extname(f).toLowerCase()));
+}
+
+// ── Fuzzy filename matching ─────────────────────────────────────────
+
+/**
+ * Subsequence match with bonuses for consecutive characters, word boundaries
+ * and hits in the basename. Returns null when `query` is not a subsequence.
+ */
+export function fuzzyScore(query: string, candidate: string): number | null {
+  const q = query.toLowerCase().replace(/\s+/g, "");
+  if (!q) return null;
+  const c = candidate.toLowerCase();
+  const baseStart = c.lastIndexOf("/") + 1;
+
+  let score = 0;
+  let qi = 0;
+  let prev = -2;
+  for (let ci = 0; ci < c.length && qi < q.length; ci++) {
+    if (c[ci] !== q[qi]) continue;
+    score += 1;
+    if (ci === prev + 1) score += 5;
+    if (ci === 0 || "/._- ".includes(c[ci - 1])) score += 3;
+    if (ci >= baseStart) score += 2;
+    prev = ci;
+    qi++;
+  }
+  if (qi < q.length) return null;
+
+  // Exact basename substring beats a scattered match; shorter paths win ties
+  if (c.slice(baseStart).includes(q)) score += 10;
+  return score - c.length * 0.01;
+}
+
+// ── Content search ───────────────────────────────────────────────────
+
+export interface ContentMatch {
+  line: number;   // 1-based
+  column: number; // 1-based
+  text: string;
+}
+
+const MAX_LINE_PREVIEW = 300;
+
+async function looksBinary(absPath: string): Promise<boolean> {
+  const handle = await open(absPath, "r");
+  try {
+    const buf = Buffer.alloc(BINARY_SNIFF_BYTES);
+    const { bytesRead } = await handle.read(buf, 0, BINARY_SNIFF_BYTES, 0);
+    return buf.subarray(0, bytesRead).includes(0);
+  } finally {
+    await handle.close();
+  }
+}
+
+/** Finds up to `max` matching lines: [line index, 0-based column] pairs */
+export type LinesMatcher = (lines: string[], max: number) => [number, number][];
+
+// A user's regex can backtrack for ages, and it runs on the one server thread
+export const MAX_REGEX_LENGTH = 500;
+const MAX_REGEX_LINE_LENGTH = 2000;   // Longer lines are only searched this far
+const REGEX_FILE_TIMEOUT_MS = 1000;
+
+export class SearchTimeoutError extends Error {
+  constructor() {
+    super("Regex search took too long — try a simpler pattern");
+    this.name = "SearchTimeoutError";
+  }
+}
+
+// Runs in a vm context so the timeout can interrupt a runaway pattern
+const REGEX_SCAN = new vm.Script(`(() => {
+  const found = [];
+  for (let i = 0; i < lines.length && found.length < max; i++) {
+    const col = lines[i].slice(0, maxLine).search(re);
+    if (col >= 0) found.push([i, col]);
+  }
+  return found;
+})()`);
+
+function scanLines(lines: string[], max: number, find: (line: string) => number): [number, number][] {
+  const found: [number, number][] = [];
+  for (let i = 0; i < lines.length && found.length < max; i++) {
+    const col = find(lines[i]);
+    if (col >= 0) found.push([i, col]);
+  }
+  return found;
+}
+
+/** Build the matcher for a literal or regex query; throws on an invalid or overlong regex */
+export function buildMatcher(query: string, opts: { regex?: boolean; caseSensitive?: boolean }): LinesMatcher {
+  if (opts.regex) {
+    if (query.length > MAX_REGEX_LENGTH) throw new Error(`Pattern is longer than ${MAX_REGEX_LENGTH} characters`);
+    const re = new RegExp(query, opts.caseSensitive ? "" : "i"); // throws on invalid pattern
+    const context = vm.createContext({ re, lines: [], max: 0, maxLine: MAX_REGEX_LINE_LENGTH });
+    return (lines, max) => {
+      Object.assign(context, { lines, max });
+      try {
+        return Array.from(REGEX_SCAN.runInContext(context, { timeout: REGEX_FILE_TIMEOUT_MS }) as [number, number][]);
+      } catch (err: unknown) {
+        if ((err as NodeJS.ErrnoException).code === "ERR_SCRIPT_EXECUTION_TIMEOUT") throw new SearchTimeoutError();
+        throw err;
+      } finally {
+        context.lines = [];
+      }
+    };
+  }
+  if (opts.caseSensitive) return (lines, max) => scanLines(lines, max, (line) => line.indexOf(query));
+  const needle = query.toLowerCase();
+  return (lines, max) => scanLines(lines, max, (line) => line.toLowerCase().indexOf(needle));
+}
+
+/** Grep one file. Skips files that are too large or look binary. */
+export async function searchFileContent(
+  absPath: string,
+  matcher: LinesMatcher,
+  maxMatches: number
+): Promise<ContentMatch[]> {
+  const stats = await stat(absPath).catch(() => null);
+  if (!stats || !stats.isFile() || stats.size > MAX_SEARCH_FILE_SIZE) return [];
+  if (await looksBinary(absPath).catch(() => true)) return [];
+
+  const content = await readFile(absPath, "utf-8");
+  const lines = content.split("\n");
+  return matcher(lines, maxMatches).map(([i, col]) => {
+    const text = lines[i].replace(/\r$/, "");
+    return {
+      line: i + 1,
+      column: col + 1,
+      text: text.length > MAX_LINE_PREVIEW ? text.slice(0, MAX_LINE_PREVIEW) + "…" : text,
+    };
+  });
+}
@@ -0,0 +1,142 @@
+import { describe, it, expect } from "vitest";
+import { parseStatus, parseUnifiedDiff, parseNumstat, parseLog, parseBranches } from "./git.js";
+
+describe("parseStatus", () => {
+  it("parses branch headers and ahead/behind", () => {
+    const out = [
+      "# branch.oid abc123",
+      "# branch.head main",
+      "# branch.upstream origin/main",
+      "# branch.ab +2 -1",
+      "",
+    ].join("\0");
+    const status = parseStatus(out);
+    expect(status).toMatchObject({ branch: "main", upstream: "origin/main", ahead: 2, behind: 1, files: [] });
+  });
+
+  it("reports a detached HEAD as null branch", () => {
+    expect(parseStatus("# branch.head (detached)\0").branch).toBeNull();
+  });
+
+  it("parses ordinary, renamed, unmerged and untracked entries", () => {
+    const out = [
+      "1 .M N... 100644 100644 100644 aaa bbb src/a file.ts",
+      "2 R. N... 100644 100644 100644 aaa bbb R100 new.ts",
+      "old.ts",
+      "u UU N... 100644 100644 100644 100644 aaa bbb ccc conflict.ts",
+      "? notes.md",
+      "",
+    ].join("\0");
+    const { files } = parseStatus(out);
+
+    expect(files[0]).toMatchObject({ path: "src/a file.ts", index: ".", worktree: "M", staged: false, unstaged: true });
+    expect(files[1]).toMatchObject({ path: "new.ts", origPath: "old.ts", index: "R", staged: true, unstaged: false });
+    expect(files[2]).toMatchObject({ path: "conflict.ts", conflicted: true });
+    expect(files[3]).toMatchObject({ path: "notes.md", untracked: true, staged: false });
+  });
+});
+
+describe("parseUnifiedDiff", () => {
+  const diff = [
+    "diff --git a/src/app.ts b/src/app.ts",
+    "index 1111111..2222222 100644",
+    "--- a/src/app.ts",
+    "+++ b/src/app.ts",
+    "@@ -1,3 +1,4 @@ function main()",
+    " const a = 1;",
+    "-const b = 2;",
+    "+const b = 3;",
+    "+const c = 4;",
+    " export {};",
+    "\\ No newline at end of file",
+    "diff --git a/new.txt b/new.txt",
+    "new file mode 100644",
+    "--- /dev/null",
+    "+++ b/new.txt",
+    "@@ -0,0 +1 @@",
+    "+hello",
+    "diff --git a/logo.png b/logo.png",
+    "Binary files a/logo.png and b/logo.png differ",
+    "",
+  ].join("\n");
+
+  it("splits files and tracks line numbers per side", () => {
+    const files = parseUnifiedDiff(diff);
+    expect(files).toHaveLength(3);
+
+    const [app] = files;
+    expect(app).toMatchObject({ oldPath: "src/app.ts", newPath: "src/app.ts", insertions: 2, deletions: 1 });
+    expect(app.hunks).toHaveLength(1);
+    expect(app.hunks[0].lines).toEqual([
+      { type: "context", text: "const a = 1;", oldLine: 1, newLine: 1 },
+      { type: "del", text: "const b = 2;", oldLine: 2, newLine: null },
+      { type: "add", text: "const b = 3;", oldLine: null, newLine: 2 },
+      { type: "add", text: "const c = 4;", oldLine: null, newLine: 3 },
+      { type: "context", text: "export {};", oldLine: 3, newLine: 4 },
+    ]);
+  });
+
+  it("marks added and binary files", () => {
+    const [, added, binary] = parseUnifiedDiff(diff);
+    expect(added).toMatchObject({ oldPath: null, newPath: "new.txt", insertions: 1 });
+    expect(binary).toMatchObject({ binary: true, hunks: [] });
+  });
+
+  it("keeps content lines that look like file headers inside a hunk", () => {
+    const [file] = parseUnifiedDiff(
+      ["diff --git a/x b/x", "--- a/x", "+++ b/x", "@@ -1 +1 @@", "--- old", "+++ new", ""].join("\n")
+    );
+    expect(file.oldPath).toBe("x");
+    expect(file.hunks[0].lines.map((l) => l.type)).toEqual(["del", "add"]);
+  });
+
+  it("returns an empty list for empty output", () => {
+    expect(parseUnifiedDiff("")).toEqual([]);
+  });
+});
+
+describe("parseNumstat", () => {
+  it("parses counts, binary files and renames", () => {
+    const out = ["3\t1\tsrc/a.ts", "-\t-\tlogo.png", "0\t0\t", "old.ts", "new.ts", ""].join("\0");
+    expect(parseNumstat(out)).toEqual([
+      { path: "src/a.ts", insertions: 3, deletions: 1, binary: false },
+      { path: "logo.png", insertions: 0, deletions: 0, binary: true },
+      { path: "new.ts", insertions: 0, deletions: 0, binary: false },
+    ]);
+  });
+});
+
+describe("parseLog", () => {
+  it("splits on record and unit separators", () => {
+    const out =
+      "aaa\x1fa\x1fAda\x1fada@example.com\x1f2026-01-01T00:00:00+00:00\x1fFix: it | works\x1e\n" +
+      "bbb\x1fb\x1fBob\x1fbob@example.com\x1f2025-12-31T00:00:00+00:00\x1fInitial\x1e\n";
+    const commits = parseLog(out);
+    expect(commits).toHaveLength(2);
+    expect(commits[0]).toEqual({
+      hash: "aaa",
+      shortHash: "a",
+      author: "Ada",
+      email: "ada@example.com",
+      date: "2026-01-01T00:00:00+00:00",
+      subject: "Fix: it | works",
+    });
+  });
+});
+
+describe("parseBranches", () => {
+  it("marks the current branch and skips remote HEAD pointers", () => {
+    const out = [
+      "*\0refs/heads/main\0main",
+      " \0refs/heads/feature\0feature",
+      " \0refs/remotes/origin/HEAD\0origin/HEAD",
+      " \0refs/remotes/origin/main\0origin/main",
+      "",
+    ].join("\n");
+    expect(parseBranches(out)).toEqual([
+      { name: "main", current: true, remote: false },
+      { name: "feature", current: false, remote: false },
+      { name: "origin/main", current: false, remote: true },
+    ]);
+  });
+});
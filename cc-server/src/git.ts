@@ -0,0 +1,325 @@
+/**
+ * Git helpers — thin wrappers over the git CLI plus parsers for its
+ * machine-readable output (porcelain v2 status, unified diff, log).
+ *
+ * Everything shells out via execFile (no shell), so user-supplied paths and
+ * messages are passed as argv and never interpreted.
+ */
+
+import { execFile } from "child_process";
+import fsPromises from "fs/promises";
+import path from "path";
+
+const MAX_OUTPUT_BYTES = 32 * 1024 * 1024;
+
+export class GitError extends Error {
+  constructor(message: string, readonly code: number | null) {
+    super(message);
+    this.name = "GitError";
+  }
+}
+
+/**
+ * Run git in `cwd`. Rejects with GitError (stderr as message) on a non-zero
+ * exit, unless the code is listed in `okCodes` (e.g. `diff --no-index` exits 1
+ * when the files differ).
+ */
+export function runGit(cwd: string, args: string[], okCodes: number[] = []): Promise<string> {
+  return new Promise((resolve, reject) => {
+    execFile(
+      "git",
+      args,
+      {
+        cwd,
+        maxBuffer: MAX_OUTPUT_BYTES,
+        // Never block on an editor or credential prompt — there's nobody to answer it
+        env: { ...process.env, GIT_TERMINAL_PROMPT: "0", GIT_EDITOR: "true", LC_ALL: "C" },
+      },
+      (err, stdout, stderr) => {
+        if (err) {
+          const code = typeof err.code === "number" ? err.code : null;
+          if (code !== null && okCodes.includes(code)) {
+            resolve(stdout);
+            return;
+          }
+          reject(new GitError((stderr || err.message).trim(), code));
+          return;
+        }
+        resolve(stdout);
+      }
+    );
+  });
+}
+
+/**
+ * Keep `dir` (relative to `cwd`) out of `git status` by listing it in the
+ * repo's .git/info/exclude, without touching the user's .gitignore
+ */
+export async function excludeFromStatus(cwd: string, dir: string): Promise<void> {
+  const [excludePath, prefix] = (await runGit(cwd, ["rev-parse", "--git-path", "info/exclude", "--show-prefix"])).split("\n");
+  const excludeFile = path.resolve(cwd, excludePath);
+  const entry = `/${prefix}${dir}/`;
+  let current = "";
+  try {
+    current = await fsPromises.readFile(excludeFile, "utf-8");
+  } catch (err: unknown) {
+    if ((err as NodeJS.ErrnoException).code !== "ENOENT") throw err;
+  }
+  if (current.split("\n").some((line) => line.trim() === entry)) return;
+  await fsPromises.mkdir(path.dirname(excludeFile), { recursive: true });
+  await fsPromises.appendFile(excludeFile, `${current && !current.endsWith("\n") ? "\n" : ""}${entry}\n`);
+}
+
+// ── Status (porcelain v2) ───────────────────────────────────────────
+
+export interface GitFileStatus {
+  path: string;
+  origPath?: string;     // Source path for renames/copies
+  index: string;         // Staged status letter ("." = unchanged)
+  worktree: string;      // Unstaged status letter ("." = unchanged)
+  staged: boolean;
+  unstaged: boolean;
+  untracked: boolean;
+  conflicted: boolean;
+}
+
+export interface GitStatus {
+  branch: string | null;   // null when HEAD is detached
+  upstream: string | null;
+  ahead: number;
+  behind: number;
+  files: GitFileStatus[];
+}
+
+/** Parse `git status --porcelain=v2 --branch -z` */
+export function parseStatus(output: string): GitStatus {
+  const status: GitStatus = { branch: null, upstream: null, ahead: 0, behind: 0, files: [] };
+  const records = output.split("\0");
+
+  for (let i = 0; i < records.length; i++) {
+    const rec = records[i];
+    if (!rec) continue;
+
+    if (rec.startsWith("# branch.head ")) {
+      const head = rec.slice("# branch.head ".length);
+      status.branch = head === "(detached)" ? null : head;
+    } else if (rec.startsWith("# branch.upstream ")) {
+      status.upstream = rec.slice("# branch.upstream ".length);
+    } else if (rec.startsWith("# branch.ab ")) {
+      const m = rec.match(/\+(\d+) -(\d+)/);
+      if (m) {
+        status.ahead = parseInt(m[1], 10);
+        status.behind = parseInt(m[2], 10);
+      }
+    } else if (rec.startsWith("1 ")) {
+      // 1 XY sub mH mI mW hH hI path
+      const parts = rec.split(" ");
+      const xy = parts[1];
+      status.files.push(fileStatus(parts.slice(8).join(" "), xy));
+    } else if (rec.startsWith("2 ")) {
+      // 2 XY sub mH mI mW hH hI Xscore path \0 origPath
+      const parts = rec.split(" ");
+      const xy = parts[1];
+      const entry = fileStatus(parts.slice(9).join(" "), xy);
+      entry.origPath = records[++i];
+      status.files.push(entry);
+    } else if (rec.startsWith("u ")) {
+      // u XY sub m1 m2 m3 mW h1 h2 h3 path
+      const parts = rec.split(" ");
+      const entry = fileStatus(parts.slice(10).join(" "), parts[1]);
+      entry.conflicted = true;
+      status.files.push(entry);
+    } else if (rec.startsWith("? ")) {
+      status.files.push({
+        path: rec.slice(2),
+        index: "?",
+        worktree: "?",
+        staged: false,
+        unstaged: true,
+        untracked: true,
+        conflicted: false,
+      });
+    }
+  }
+
+  return status;
+}
+
+function fileStatus(path: string, xy: string): GitFileStatus {
+  return {
+    path,
+    index: xy[0],
+    worktree: xy[1],
+    staged: xy[0] !== ".",
+    unstaged: xy[1] !== ".",
+    untracked: false,
+    conflicted: false,
+  };
+}
+
+// ── Unified diff ─────────────────────────────────────────────────────
+
+export interface DiffLine {
+  type: "context" | "add" | "del";
+  text: string;
+  oldLine: number | null;
+  newLine: number | null;
+}
+
+export interface DiffHunk {
+  header: string;
+  oldStart: number;
+  newStart: number;
+  lines: DiffLine[];
+}
+
+export interface FileDiff {
+  oldPath: string | null;  // null for added files
+  newPath: string | null;  // null for deleted files
+  binary: boolean;
+  hunks: DiffHunk[];
+  insertions: number;
+  deletions: number;
+}
+
+function stripDiffPrefix(p: string): string | null {
+  if (p === "/dev/null") return null;
+  return p.replace(/^[ab]\//, "");
+}
+
+/** Parse `git diff` output (one or more files) into structured hunks */
+export function parseUnifiedDiff(diff: string): FileDiff[] {
+  const files: FileDiff[] = [];
+  let file: FileDiff | null = null;
+  let hunk: DiffHunk | null = null;
+  let oldLine = 0;
+  let newLine = 0;
+
+  for (const line of diff.split("\n")) {
+    if (line.startsWith("diff --git ")) {
+      const m = line.match(/^diff --git a\/(.*) b\/(.*)$/);
+      file = {
+        oldPath: m ? m[1] : null,
+        newPath: m ? m[2] : null,
+        binary: false,
+        hunks: [],
+        insertions: 0,
+        deletions: 0,
+      };
+      files.push(file);
+      hunk = null;
+      continue;
+    }
+    if (!file) continue;
+
+    if (!hunk) {
+      if (line.startsWith("--- ")) {
+        file.oldPath = stripDiffPrefix(line.slice(4));
+      } else if (line.startsWith("+++ ")) {
+        file.newPath = stripDiffPrefix(line.slice(4));
+      } else if (line.startsWith("Binary files ")) {
+        file.binary = true;
+      } else if (line.startsWith("new file mode")) {
+        file.oldPath = null;
+      } else if (line.startsWith("deleted file mode")) {
+        file.newPath = null;
+      }
+    }
+
+    const hunkHeader = line.match(/^@@ -(\d+)(?:,\d+)? \+(\d+)(?:,\d+)? @@/);
+    if (hunkHeader) {
+      oldLine = parseInt(hunkHeader[1], 10);
+      newLine = parseInt(hunkHeader[2], 10);
+      hunk = { header: line, oldStart: oldLine, newStart: newLine, lines: [] };
+      file.hunks.push(hunk);
+      continue;
+    }
+    if (!hunk) continue;
+
+    if (line.startsWith("+")) {
+      hunk.lines.push({ type: "add", text: line.slice(1), oldLine: null, newLine: newLine++ });
+      file.insertions++;
+    } else if (line.startsWith("-")) {
+      hunk.lines.push({ type: "del", text: line.slice(1), oldLine: oldLine++, newLine: null });
+      file.deletions++;
+    } else if (line.startsWith(" ")) {
+      hunk.lines.push({ type: "context", text: line.slice(1), oldLine: oldLine++, newLine: newLine++ });
+    }
+    // "\ No newline at end of file" and blank trailing lines are ignored
+  }
+
+  return files;
+}
+
+/** Per-file insertions/deletions from `git diff --numstat -z` */
+export function parseNumstat(output: string): { path: string; insertions: number; deletions: number; binary: boolean }[] {
+  const result: { path: string; insertions: number; deletions: number; binary: boolean }[] = [];
+  const records = output.split("\0");
+  for (let i = 0; i < records.length; i++) {
+    const rec = records[i];
+    if (!rec) continue;
+    const m = rec.match(/^(-|\d+)\t(-|\d+)\t(.*)$/);
+    if (!m) continue;
+    let filePath = m[3];
+    // Renames: path field is empty and the next two records are old/new paths
+    if (filePath === "") {
+      i += 2;
+      filePath = records[i];
+    }
+    const binary = m[1] === "-";
+    result.push({
+      path: filePath,
+      insertions: binary ? 0 : parseInt(m[1], 10),
+      deletions: binary ? 0 : parseInt(m[2], 10),
+      binary,
+    });
+  }
+  return result;
+}
+
+// ── Log ──────────────────────────────────────────────────────────────
+
+export interface GitCommit {
+  hash: string;
+  shortHash: string;
+  author: string;
+  email: string;
+  date: string;   // ISO 8601
+  subject: string;
+}
+
+// Unit/record separators keep subjects with arbitrary characters intact
+export const LOG_FORMAT = "%H%x1f%h%x1f%an%x1f%ae%x1f%aI%x1f%s%x1e";
+
+export function parseLog(output: string): GitCommit[] {
+  return output
+    .split("\x1e")
+    .map((r) => r.trim())
+    .filter(Boolean)
+    .map((r) => {
+      const [hash, shortHash, author, email, date, subject] = r.split("\x1f");
+      return { hash, shortHash, author, email, date, subject };
+    });
+}
+
+// ── Branches ─────────────────────────────────────────────────────────
+
+export interface GitBranch {
+  name: string;
+  current: boolean;
+  remote: boolean;
+}
+
+export const BRANCH_FORMAT = "%(HEAD)%00%(refname)%00%(refname:short)";
+
+export function parseBranches(output: string): GitBranch[] {
+  return output
+    .split("\n")
+    .filter(Boolean)
+    .map((line) => {
+      const [head, ref, name] = line.split("\0");
+      return { name, current: head === "*", remote: ref.startsWith("refs/remotes/") };
+    })
+    // "origin/HEAD" is a symbolic pointer, not a real branch
+    .filter((b) => !(b.remote && b.name.endsWith("/HEAD")));
+}
@@ -0,0 +1,60 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { readFile, readdir, writeFile } from "fs/promises";
+import path from "path";
+import { createTempDir, cleanupTempDir } from "./test-utils.js";
+import { JsonStore } from "./json-store.js";
+
+describe("JsonStore", () => {
+  let tmpDir: string;
+  let store: JsonStore<string[]>;
+
+  beforeEach(async () => {
+    tmpDir = await createTempDir();
+    store = new JsonStore<string[]>("items.json", () => []);
+    store.setDir(path.join(tmpDir, "data"));
+  });
+
+  afterEach(async () => {
+    await cleanupTempDir(tmpDir);
+  });
+
+  async function onDisk(): Promise<string[]> {
+    return JSON.parse(await readFile(path.join(tmpDir, "data", "items.json"), "utf-8"));
+  }
+
+  it("starts empty and reads back what was written", async () => {
+    expect(await store.load()).toEqual([]);
+    expect(store.current).toEqual([]);
+    await store.replace(["a"]);
+
+    store.setDir(path.join(tmpDir, "data"));
+    expect(store.current).toBeNull();
+    expect(await store.load()).toEqual(["a"]);
+  });
+
+  it("keeps every concurrent update", async () => {
+    await Promise.all(Array.from({ length: 20 }, (_, i) => store.update((items) => [...items, String(i)])));
+    expect((await store.load()).sort()).toEqual(Array.from({ length: 20 }, (_, i) => String(i)).sort());
+    expect((await onDisk()).sort()).toEqual([...(await store.load())].sort());
+    expect(await readdir(path.join(tmpDir, "data"))).toEqual(["items.json"]);
+  });
+
+  it("shares one read between concurrent first loads", async () => {
+    await writeFile(path.join(tmpDir, "items.json"), JSON.stringify(["x"]));
+    store.setDir(tmpDir);
+    const [a, b] = await Promise.all([store.load(), store.load()]);
+    expect(a).toBe(b);
+    expect(a).toEqual(["x"]);
+  });
+
+  it("writes the value as it was when the save was queued", async () => {
+    const items = await store.load();
+    items.push("first");
+    const saved = store.save();
+    items.push("second");
+    await saved;
+    expect(await onDisk()).toEqual(["first"]);
+    await store.save();
+    expect(await onDisk()).toEqual(["first", "second"]);
+  });
+});
@@ -0,0 +1,87 @@
+/**
+ * JsonStore — one JSON file under data/, read once and then served from memory.
+ *
+ * Writes are chained so concurrent callers can't interleave their .tmp files,
+ * and each write takes a snapshot of the value at the time it was queued.
+ * Concurrent first loads share a single read, so everyone holds the same
+ * object. Read-modify-write goes through update(), which hands the callback
+ * the value as it is when the callback runs — not a copy from before another
+ * caller's change.
+ */
+
+import fsPromises from "fs/promises";
+import path from "path";
+import { fileURLToPath } from "url";
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+const DEFAULT_DATA_DIR = path.resolve(__dirname, "../../data");
+
+export class JsonStore<T> {
+  private dir = DEFAULT_DATA_DIR;
+  private cache: { value: T } | null = null;
+  private loading: Promise<T> | null = null;
+  private writing: Promise<void> = Promise.resolve();
+
+  constructor(
+    private readonly file: string,
+    private readonly empty: () => T
+  ) {}
+
+  /** Point the store somewhere else (tests) — forgets the cached value */
+  setDir(dir: string): void {
+    this.dir = dir;
+    this.cache = null;
+    this.loading = null;
+  }
+
+  /** The cached value, or null before the first load */
+  get current(): T | null {
+    return this.cache ? this.cache.value : null;
+  }
+
+  async load(): Promise<T> {
+    if (!this.cache) {
+      const loading = (this.loading ??= this.read());
+      const value = await loading;
+      if (this.loading === loading) this.loading = null;
+      this.cache ??= { value };
+    }
+    return this.cache.value;
+  }
+
+  /** Replace the value and queue the write */
+  replace(next: T): Promise<void> {
+    this.cache = { value: next };
+    return this.save();
+  }
+
+  /** Write the current value — after changing it in place */
+  save(): Promise<void> {
+    if (!this.cache) return this.writing;
+    const snapshot = JSON.stringify(this.cache.value, null, 2);
+    const target = path.join(this.dir, this.file);
+    this.writing = this.writing.catch(() => {}).then(async () => {
+      await fsPromises.mkdir(path.dirname(target), { recursive: true });
+      await fsPromises.writeFile(target + ".tmp", snapshot, "utf-8");
+      await fsPromises.rename(target + ".tmp", target);
+    });
+    return this.writing;
+  }
+
+  /** Compute the new value from the latest one and write it; resolves once it's on disk */
+  async update(fn: (current: T) => T): Promise<T> {
+    await this.load();
+    const next = fn(this.cache!.value);
+    await this.replace(next);
+    return next;
+  }
+
+  private async read(): Promise<T> {
+    try {
+      return JSON.parse(await fsPromises.readFile(path.join(this.dir, this.file), "utf-8")) as T;
+    } catch (err: unknown) {
+      if ((err as NodeJS.ErrnoException).code !== "ENOENT") throw err;
+      return this.empty();
+    }
+  }
+}
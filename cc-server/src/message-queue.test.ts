@@ -0,0 +1,47 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import {
+  getQueue,
+  enqueueMessage,
+  updateQueuedMessage,
+  removeQueuedMessage,
+  takeNextQueued,
+  clearQueue,
+  MAX_QUEUED_MESSAGES,
+} from "./message-queue.js";
+
+const SID = "session-1";
+
+describe("message queue", () => {
+  beforeEach(() => {
+    clearQueue(SID);
+    clearQueue("other");
+  });
+
+  it("delivers prompts oldest first, per session", () => {
+    enqueueMessage(SID, "first");
+    enqueueMessage("other", "elsewhere");
+    enqueueMessage(SID, "second");
+
+    expect(takeNextQueued(SID)?.message).toBe("first");
+    expect(takeNextQueued(SID)?.message).toBe("second");
+    expect(takeNextQueued(SID)).toBeUndefined();
+    expect(getQueue("other").map((q) => q.message)).toEqual(["elsewhere"]);
+  });
+
+  it("edits and cancels queued prompts by id", () => {
+    const a = enqueueMessage(SID, "run the tests")!;
+    const b = enqueueMessage(SID, "then lint")!;
+
+    expect(updateQueuedMessage(SID, a.id, "run the unit tests")?.message).toBe("run the unit tests");
+    expect(removeQueuedMessage(SID, b.id)).toBe(true);
+    expect(removeQueuedMessage(SID, b.id)).toBe(false);
+    expect(updateQueuedMessage(SID, "missing", "x")).toBeNull();
+    expect(getQueue(SID)).toEqual([{ ...a, message: "run the unit tests" }]);
+  });
+
+  it("refuses prompts past the cap", () => {
+    for (let i = 0; i < MAX_QUEUED_MESSAGES; i++) enqueueMessage(SID, `msg ${i}`);
+    expect(enqueueMessage(SID, "one too many")).toBeNull();
+    expect(getQueue(SID)).toHaveLength(MAX_QUEUED_MESSAGES);
+  });
+});
@@ -0,0 +1,66 @@
+/**
+ * Follow-up queue — prompts typed while a query is still running.
+ *
+ * Each session has a FIFO of pending prompts. When a query finishes cleanly
+ * the chat route takes the next one and runs it as a new query on the same
+ * SSE stream, so it reads as the next user turn. Aborted or failed queries
+ * leave the queue alone. In memory only — a restart ends the running query
+ * the queue was waiting on anyway.
+ */
+
+import crypto from "crypto";
+
+export interface QueuedMessage {
+  id: string;
+  message: string;
+  createdAt: number;
+}
+
+export const MAX_QUEUED_MESSAGES = 20;
+
+const queues = new Map<string, QueuedMessage[]>();
+
+export function getQueue(sessionId: string): QueuedMessage[] {
+  return [...(queues.get(sessionId) ?? [])];
+}
+
+/** Append a prompt; null when the queue is full */
+export function enqueueMessage(sessionId: string, message: string): QueuedMessage | null {
+  const queue = queues.get(sessionId) ?? [];
+  if (queue.length >= MAX_QUEUED_MESSAGES) return null;
+  const item = { id: crypto.randomUUID(), message, createdAt: Date.now() };
+  queues.set(sessionId, [...queue, item]);
+  return item;
+}
+
+export function updateQueuedMessage(sessionId: string, id: string, message: string): QueuedMessage | null {
+  const queue = queues.get(sessionId) ?? [];
+  const existing = queue.find((q) => q.id === id);
+  if (!existing) return null;
+  const updated = { ...existing, message };
+  queues.set(sessionId, queue.map((q) => (q.id === id ? updated : q)));
+  return updated;
+}
+
+export function removeQueuedMessage(sessionId: string, id: string): boolean {
+  const queue = queues.get(sessionId) ?? [];
+  const remaining = queue.filter((q) => q.id !== id);
+  if (remaining.length === queue.length) return false;
+  if (remaining.length > 0) queues.set(sessionId, remaining);
+  else queues.delete(sessionId);
+  return true;
+}
+
+/** Take the oldest prompt off the queue */
+export function takeNextQueued(sessionId: string): QueuedMessage | undefined {
+  const queue = queues.get(sessionId);
+  if (!queue?.length) return undefined;
+  const [next, ...rest] = queue;
+  if (rest.length > 0) queues.set(sessionId, rest);
+  else queues.delete(sessionId);
+  return next;
+}
+
+export function clearQueue(sessionId: string): void {
+  queues.delete(sessionId);
+}
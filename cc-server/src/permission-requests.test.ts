@@ -0,0 +1,110 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { denial, finalInput, ruleToRemember, startExpiryTimers, type PermissionRequestInfo } from "./permission-requests.js";
+
+const request: PermissionRequestInfo = {
+  toolName: "Bash",
+  input: { command: "rm -rf build", description: "Clean" },
+  cwd: "/work/app",
+  suggestedRule: "Bash(rm:*)",
+};
+
+describe("finalInput", () => {
+  it("puts the edited fields over the original input", () => {
+    expect(finalInput(request.input, undefined)).toBe(request.input);
+    expect(finalInput(request.input, { command: "npm run clean" })).toEqual({ command: "npm run clean", description: "Clean" });
+  });
+});
+
+describe("ruleToRemember", () => {
+  it("saves the offered rule when the input wasn't edited", () => {
+    expect(ruleToRemember(request, {})).toBe("Bash(rm:*)");
+    expect(ruleToRemember(request, { rule: "Bash(rm:*)" })).toBe("Bash(rm:*)");
+  });
+
+  it("suggests the rule from the edited input", () => {
+    const updatedInput = { command: "npm run clean" };
+    expect(ruleToRemember(request, { updatedInput })).toBe("Bash(npm run:*)");
+    // The client sends the offered rule back untouched when the user didn't change it
+    expect(ruleToRemember(request, { rule: "Bash(rm:*)", updatedInput })).toBe("Bash(npm run:*)");
+  });
+
+  it("keeps a rule the user wrote", () => {
+    expect(ruleToRemember(request, { rule: " Bash(npm run clean) ", updatedInput: { command: "npm run clean" } })).toBe(
+      "Bash(npm run clean)"
+    );
+  });
+
+  it("follows an edited file path", () => {
+    const edit = { toolName: "Edit", input: { file_path: "/work/app/src/a.ts" }, cwd: "/work/app", suggestedRule: "Edit(src/**)" };
+    expect(ruleToRemember(edit, { updatedInput: { file_path: "/work/app/docs/a.md" } })).toBe("Edit(docs/**)");
+  });
+});
+
+describe("denial", () => {
+  it("passes the user's reason on to the agent", () => {
+    expect(denial({ message: "  use pnpm instead " })).toEqual({ behavior: "deny", message: "User denied permission: use pnpm instead" });
+    expect(denial({ message: "   " })).toEqual({ behavior: "deny", message: "User denied permission" });
+    expect(denial({ message: 42 })).toEqual({ behavior: "deny", message: "User denied permission" });
+  });
+
+  it("stops the turn only when asked to", () => {
+    expect(denial({})).not.toHaveProperty("interrupt");
+    expect(denial({ interrupt: false })).not.toHaveProperty("interrupt");
+    expect(denial({ message: "wrong branch", interrupt: true })).toEqual({
+      behavior: "deny",
+      message: "User denied permission: wrong branch",
+      interrupt: true,
+    });
+  });
+});
+
+describe("startExpiryTimers", () => {
+  beforeEach(() => vi.useFakeTimers());
+  afterEach(() => vi.useRealTimers());
+
+  function start(expiry: "deny" | "wait" | "plan", timeoutSec = 60) {
+    const calls: string[] = [];
+    const expire = vi.fn((_result, toPlan: boolean) => calls.push(toPlan ? "expire (plan)" : "expire"));
+    const timers = startExpiryTimers({
+      expiry,
+      timeoutSec,
+      warn: () => calls.push("warn"),
+      switchToPlan: () => calls.push("plan"),
+      expire,
+    });
+    return { calls, expire, timers };
+  }
+
+  it("warns at 75% of the timeout and denies when it runs out", () => {
+    const { calls, expire } = start("deny");
+    vi.advanceTimersByTime(44_999);
+    expect(calls).toEqual([]);
+    vi.advanceTimersByTime(1);
+    expect(calls).toEqual(["warn"]);
+    vi.advanceTimersByTime(15_000);
+    expect(calls).toEqual(["warn", "expire"]);
+    expect(expire).toHaveBeenCalledWith({ behavior: "deny", message: "Permission request timed out" }, false);
+  });
+
+  it("switches to plan mode before denying under the plan policy", () => {
+    const { calls, expire } = start("plan");
+    vi.advanceTimersByTime(60_000);
+    expect(calls).toEqual(["warn", "plan", "expire (plan)"]);
+    expect(expire.mock.calls[0][0].message).toMatch(/switched to plan mode/);
+  });
+
+  it("never expires under the wait policy", () => {
+    const { calls, timers } = start("wait");
+    expect(timers).toEqual([]);
+    vi.advanceTimersByTime(24 * 60 * 60 * 1000);
+    expect(calls).toEqual([]);
+  });
+
+  it("does nothing once the timers are cleared by an answer", () => {
+    const { calls, timers } = start("plan");
+    vi.advanceTimersByTime(50_000);
+    timers.forEach(clearTimeout);
+    vi.advanceTimersByTime(60_000);
+    expect(calls).toEqual(["warn"]);
+  });
+});
@@ -0,0 +1,89 @@
+/**
+ * Permission requests — turning the user's answer to a canUseTool prompt into
+ * what the agent gets back and what an "always" answer saves.
+ */
+
+import type { PermissionResult } from "@anthropic-ai/claude-agent-sdk";
+import { suggestRule } from "./permission-rules.js";
+import type { SessionState } from "./session-store.js";
+
+export type PermissionExpiry = NonNullable<SessionState["permissionExpiry"]>;
+
+/** What the prompt was about, as kept while it waits for an answer */
+export interface PermissionRequestInfo {
+  toolName: string;
+  input: Record<string, unknown>;
+  cwd: string;
+  suggestedRule: string;  // Offered with the prompt, from the original input
+}
+
+/** The input the tool runs with: the original, with the fields the user edited on top */
+export function finalInput(
+  input: Record<string, unknown>,
+  updatedInput: Record<string, unknown> | undefined
+): Record<string, unknown> {
+  return updatedInput ? { ...input, ...updatedInput } : input;
+}
+
+/**
+ * Rule to save for an "always" answer. A rule the user wrote wins; otherwise
+ * (none sent, or the offered one sent back as is) it's suggested from the
+ * input the tool actually runs with, so editing `rm -rf build` into
+ * `npm run clean` doesn't save `Bash(rm:*)`.
+ */
+export function ruleToRemember(
+  request: PermissionRequestInfo,
+  answer: { rule?: string; updatedInput?: Record<string, unknown> }
+): string {
+  const rule = answer.rule?.trim();
+  if (rule && rule !== request.suggestedRule) return rule;
+  if (!answer.updatedInput) return request.suggestedRule;
+  return suggestRule(request.toolName, finalInput(request.input, answer.updatedInput), request.cwd);
+}
+
+/**
+ * What the agent gets back when the user says no. The reason, when given, is
+ * passed on so the agent can adjust; interrupt also ends the turn instead of
+ * letting the agent try something else.
+ */
+export function denial(answer: { message?: unknown; interrupt?: boolean }): PermissionResult {
+  const reason = typeof answer.message === "string" ? answer.message.trim() : "";
+  return {
+    behavior: "deny",
+    message: reason ? `User denied permission: ${reason}` : "User denied permission",
+    ...(answer.interrupt ? { interrupt: true } : {}),
+  };
+}
+
+/**
+ * Start the clock on an unanswered prompt: a warning at 75% of the timeout,
+ * then the expiry — which denies, and under the "plan" policy first switches
+ * the session to plan mode. "wait" never expires. Returns the timers so an
+ * answer (or an abort) can clear them.
+ */
+export function startExpiryTimers(options: {
+  expiry: PermissionExpiry;
+  timeoutSec: number;
+  warn: () => void;
+  switchToPlan: () => void;
+  expire: (result: PermissionResult, toPlan: boolean) => void;
+}): ReturnType<typeof setTimeout>[] {
+  const { expiry, timeoutSec } = options;
+  const timers: ReturnType<typeof setTimeout>[] = [];
+  if (expiry === "wait") return timers;
+
+  timers.push(setTimeout(options.warn, timeoutSec * 750));
+  timers.push(setTimeout(() => {
+    timers.forEach(clearTimeout);
+    const toPlan = expiry === "plan";
+    // Keep the agent working, but read-only until someone's back
+    if (toPlan) options.switchToPlan();
+    options.expire({
+      behavior: "deny",
+      message: toPlan
+        ? "Permission request timed out. The session has switched to plan mode — keep planning without running tools until the user is back."
+        : "Permission request timed out",
+    }, toPlan);
+  }, timeoutSec * 1000));
+  return timers;
+}
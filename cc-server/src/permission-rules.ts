@@ -0,0 +1,305 @@
+/**
+ * Permission rules — "always allow" / "always deny" by tool and input pattern.
+ *
+ * Rules use the Claude Code settings syntax: `Tool` matches every call of that
+ * tool, `Bash(npm test:*)` matches commands starting with "npm test",
+ * `Bash(git status)` matches that exact command, and file tools take a glob
+ * relative to the project (`Edit(src/**)`). WebFetch takes `domain:host`.
+ *
+ * Rules are either global (projectPath null) or scoped to one project, and
+ * live in data/permission-rules.json. Deny beats allow. A compound Bash
+ * command is only auto-allowed when every part of it is allowed, and never
+ * when it contains command substitution.
+ */
+
+import crypto from "crypto";
+import os from "os";
+import path from "path";
+import { JsonStore } from "./json-store.js";
+
+export type RuleBehavior = "allow" | "deny";
+
+export interface PermissionRule {
+  id: string;
+  tool: string;
+  pattern?: string;            // Absent = any input
+  behavior: RuleBehavior;
+  projectPath: string | null;  // null = all projects
+  createdAt: number;
+}
+
+// ── Storage ──────────────────────────────────────────────────────────
+
+const store = new JsonStore<PermissionRule[]>("permission-rules.json", () => []);
+
+/** Point the store somewhere else (tests) */
+export function setRulesDataDir(dir: string): void {
+  store.setDir(dir);
+}
+
+/** Global rules plus the project's own; every rule when projectPath is omitted */
+export async function getRules(projectPath?: string): Promise<PermissionRule[]> {
+  const all = await store.load();
+  if (projectPath === undefined) return [...all];
+  return all.filter((r) => r.projectPath === null || r.projectPath === projectPath);
+}
+
+/** Add a rule, replacing an existing one for the same tool, pattern and scope */
+export async function addRule(
+  spec: string,
+  behavior: RuleBehavior,
+  projectPath: string | null
+): Promise<PermissionRule> {
+  const parsed = parseRuleSpec(spec);
+  if (!parsed) throw new Error(`Invalid rule: ${spec}`);
+
+  const rule: PermissionRule = {
+    id: crypto.randomUUID(),
+    ...parsed,
+    behavior,
+    projectPath,
+    createdAt: Date.now(),
+  };
+  const same = (r: PermissionRule) =>
+    r.tool === rule.tool && r.pattern === rule.pattern && r.projectPath === rule.projectPath;
+  await store.update((all) => [...all.filter((r) => !same(r)), rule]);
+  return rule;
+}
+
+export async function removeRule(id: string): Promise<boolean> {
+  if (!(await store.load()).some((r) => r.id === id)) return false;
+  await store.update((all) => all.filter((r) => r.id !== id));
+  return true;
+}
+
+// ── Rule syntax ──────────────────────────────────────────────────────
+
+const FILE_TOOLS = new Set(["Read", "Edit", "MultiEdit", "Write", "NotebookEdit", "Glob", "Grep", "LS"]);
+
+/** `Bash(npm test:*)` → { tool: "Bash", pattern: "npm test:*" } */
+export function parseRuleSpec(spec: string): { tool: string; pattern?: string } | null {
+  const match = spec.trim().match(/^([A-Za-z0-9_.\-]+)(?:\((.*)\))?$/s);
+  if (!match) return null;
+  const [, tool, pattern] = match;
+  if (pattern === undefined) return { tool };
+  const trimmed = pattern.trim();
+  return trimmed && trimmed !== "*" ? { tool, pattern: trimmed } : { tool };
+}
+
+export function formatRule(rule: Pick<PermissionRule, "tool" | "pattern">): string {
+  return rule.pattern ? `${rule.tool}(${rule.pattern})` : rule.tool;
+}
+
+function wildcardRegex(pattern: string, separator: string | null): RegExp {
+  let out = "";
+  for (let i = 0; i < pattern.length; i++) {
+    const c = pattern[i];
+    if (c === "*" && pattern[i + 1] === "*" && separator) {
+      // "**/" matches zero or more directories, a trailing "**" matches everything
+      if (pattern[i + 2] === "/") {
+        out += "(?:.*/)?";
+        i += 2;
+      } else {
+        out += ".*";
+        i += 1;
+      }
+    } else if (c === "*") {
+      out += separator ? "[^/]*" : ".*";
+    } else if ("\\^$+?.()|{}[]".includes(c)) {
+      out += "\\" + c;
+    } else {
+      out += c;
+    }
+  }
+  return new RegExp(`^${out}$`, "s");
+}
+
+function matchCommand(pattern: string, command: string): boolean {
+  if (pattern.endsWith(":*")) {
+    const prefix = pattern.slice(0, -2).trim();
+    return command === prefix || command.startsWith(prefix + " ");
+  }
+  return pattern.includes("*") ? wildcardRegex(pattern, null).test(command) : command === pattern;
+}
+
+function matchPath(pattern: string, filePath: string, cwd: string): boolean {
+  const absolute = path.resolve(cwd, filePath);
+  if (pattern.startsWith("~/")) {
+    return wildcardRegex(path.join(os.homedir(), pattern.slice(2)), "/").test(absolute);
+  }
+  if (path.isAbsolute(pattern)) {
+    return wildcardRegex(pattern, "/").test(absolute);
+  }
+  const relative = path.relative(cwd, absolute);
+  if (relative.startsWith("..") || path.isAbsolute(relative)) return false; // Outside the project
+  return wildcardRegex(pattern, "/").test(relative);
+}
+
+function primaryInput(input: Record<string, unknown>): string | null {
+  const value = input.command ?? input.file_path ?? input.notebook_path ?? input.path ?? input.url ?? input.pattern;
+  return typeof value === "string" ? value : null;
+}
+
+/** Whether one input (a single Bash segment, for Bash) matches a rule */
+function matchesRule(rule: PermissionRule, toolName: string, value: string | null, cwd: string): boolean {
+  if (rule.tool !== toolName) return false;
+  if (!rule.pattern) return true;
+  if (value === null) return false;
+
+  if (toolName === "Bash") return matchCommand(rule.pattern, value);
+  if (toolName === "WebFetch" && rule.pattern.startsWith("domain:")) {
+    try {
+      const host = new URL(value).hostname;
+      const domain = rule.pattern.slice("domain:".length);
+      return host === domain || host.endsWith("." + domain);
+    } catch {
+      return false;
+    }
+  }
+  if (FILE_TOOLS.has(toolName)) return matchPath(rule.pattern, value, cwd);
+  return wildcardRegex(rule.pattern, null).test(value);
+}
+
+/** Split a shell command on &&, ||, ;, |, & and newlines (quotes respected, 2>&1 left alone) */
+export function splitCommand(command: string): string[] {
+  const parts: string[] = [];
+  let current = "";
+  let quote: string | null = null;
+  for (let i = 0; i < command.length; i++) {
+    const c = command[i];
+    if (quote) {
+      if (c === "\\" && quote === '"') {
+        current += c + (command[++i] ?? "");
+        continue;
+      }
+      if (c === quote) quote = null;
+      current += c;
+      continue;
+    }
+    if (c === "'" || c === '"') {
+      quote = c;
+      current += c;
+    } else if (c === "\\") {
+      current += c + (command[++i] ?? "");
+    } else if (c === ";" || c === "\n" || c === "|" || (c === "&" && command[i - 1] !== ">" && command[i + 1] !== ">")) {
+      if (command[i + 1] === c) i++; // && and ||
+      parts.push(current);
+      current = "";
+    } else {
+      current += c;
+    }
+  }
+  parts.push(current);
+  return parts.map((p) => p.trim()).filter(Boolean);
+}
+
+/** Whether a command writes to a file through > (quotes respected; /dev/null and 2>&1-style dups are fine) */
+function redirectsOutput(command: string): boolean {
+  let quote: string | null = null;
+  for (let i = 0; i < command.length; i++) {
+    const c = command[i];
+    if (quote) {
+      if (c === "\\" && quote === '"') i++;
+      else if (c === quote) quote = null;
+      continue;
+    }
+    if (c === "'" || c === '"') {
+      quote = c;
+      continue;
+    }
+    if (c === "\\") {
+      i++;
+      continue;
+    }
+    if (c !== ">") continue;
+    if (command[i + 1] === ">" || command[i + 1] === "|") i++;
+    if (command[i + 1] === "&" && /^(\d+|-)([\s;&|]|$)/.test(command.slice(i + 2))) continue;
+    const target = command.slice(i + 1).trimStart().split(/[\s;&|]/)[0];
+    if (target !== "/dev/null") return true;
+  }
+  return false;
+}
+
+/**
+ * Decide a tool call from the rules, or null when the user should be asked.
+ * Returns the rule that decided it so the caller can log or report it.
+ */
+export function evaluateRules(
+  rules: PermissionRule[],
+  toolName: string,
+  input: Record<string, unknown>,
+  cwd: string
+): { behavior: RuleBehavior; rule: PermissionRule } | null {
+  const candidates = rules.filter((r) => r.tool === toolName);
+  if (candidates.length === 0) return null;
+
+  const value = primaryInput(input);
+  const denies = candidates.filter((r) => r.behavior === "deny");
+  const allows = candidates.filter((r) => r.behavior === "allow");
+
+  if (toolName === "Bash" && value !== null) {
+    const segments = splitCommand(value);
+    for (const segment of [value, ...segments]) {
+      const deny = denies.find((r) => matchesRule(r, toolName, segment, cwd));
+      if (deny) return { behavior: "deny", rule: deny };
+    }
+    // A bare `Bash` rule allows anything; patterns never vouch for $(...), backticks,
+    // process substitution or writing to a file
+    const anyBash = allows.find((r) => !r.pattern);
+    if (anyBash) return { behavior: "allow", rule: anyBash };
+    if (/\$\(|`|[<>]\(/.test(value) || redirectsOutput(value) || segments.length === 0) return null;
+    let decidedBy: PermissionRule | null = null;
+    for (const segment of segments) {
+      const allow = allows.find((r) => matchesRule(r, toolName, segment, cwd));
+      if (!allow) return null;
+      decidedBy ??= allow;
+    }
+    return decidedBy ? { behavior: "allow", rule: decidedBy } : null;
+  }
+
+  const deny = denies.find((r) => matchesRule(r, toolName, value, cwd));
+  if (deny) return { behavior: "deny", rule: deny };
+  const allow = allows.find((r) => matchesRule(r, toolName, value, cwd));
+  return allow ? { behavior: "allow", rule: allow } : null;
+}
+
+// Commands whose first argument is a subcommand worth keeping in the prefix
+const SUBCOMMAND_TOOLS = new Set([
+  "npm", "npx", "pnpm", "yarn", "bun", "git", "cargo", "go", "docker", "make", "pip", "uv",
+]);
+
+// Interpreters run arbitrary code whatever the arguments, so only the exact command is suggested
+const INTERPRETERS = new Set(["node", "python", "python3"]);
+
+/** Rule the "always" buttons offer for a request, e.g. `Bash(npm test:*)` or `Edit(src/**)` */
+export function suggestRule(toolName: string, input: Record<string, unknown>, cwd: string): string {
+  const value = primaryInput(input);
+  if (value === null) return toolName;
+
+  if (toolName === "Bash") {
+    const first = splitCommand(value)[0];
+    if (!first) return toolName;
+    const words = first.split(/\s+/);
+    if (INTERPRETERS.has(words[0])) return `Bash(${first})`;
+    // A flag isn't a subcommand: "npm -g" shouldn't become a prefix
+    const keep = SUBCOMMAND_TOOLS.has(words[0]) && words[1] && /^\w[\w:.-]*$/.test(words[1]) ? 2 : 1;
+    return `Bash(${words.slice(0, keep).join(" ")}:*)`;
+  }
+
+  if (toolName === "WebFetch") {
+    try {
+      return `WebFetch(domain:${new URL(value).hostname})`;
+    } catch {
+      return toolName;
+    }
+  }
+
+  if (FILE_TOOLS.has(toolName) && toolName !== "Glob" && toolName !== "Grep") {
+    const relative = path.relative(cwd, path.resolve(cwd, value));
+    if (relative.startsWith("..") || path.isAbsolute(relative)) return `${toolName}(${path.dirname(path.resolve(cwd, value))}/**)`;
+    const dir = path.dirname(relative);
+    return dir === "." ? `${toolName}(**)` : `${toolName}(${dir}/**)`;
+  }
+
+  return toolName;
+}
@@ -0,0 +1,34 @@
+/**
+ * Token prices — to estimate what a running query has cost so far. The SDK
+ * only reports the real cost when a turn ends, and that figure always wins
+ * over the estimate.
+ */
+
+export interface TokenUsage {
+  input_tokens?: number | null;
+  output_tokens?: number | null;
+  cache_creation_input_tokens?: number | null;
+  cache_read_input_tokens?: number | null;
+}
+
+// USD per million tokens; first match wins, unknown models are priced like Sonnet
+const PRICES: [RegExp, { input: number; output: number }][] = [
+  [/opus-4-[5-9]/, { input: 5, output: 25 }],
+  [/opus/, { input: 15, output: 75 }],
+  [/haiku-4/, { input: 1, output: 5 }],
+  [/haiku-3-5/, { input: 0.8, output: 4 }],
+  [/haiku/, { input: 0.25, output: 1.25 }],
+];
+const DEFAULT_PRICE = { input: 3, output: 15 };
+
+const CACHE_WRITE_FACTOR = 1.25;
+const CACHE_READ_FACTOR = 0.1;
+
+export function estimateCostUsd(model: string | undefined, usage: TokenUsage): number {
+  const price = PRICES.find(([pattern]) => model && pattern.test(model))?.[1] ?? DEFAULT_PRICE;
+  const inputTokens =
+    (usage.input_tokens ?? 0) +
+    (usage.cache_creation_input_tokens ?? 0) * CACHE_WRITE_FACTOR +
+    (usage.cache_read_input_tokens ?? 0) * CACHE_READ_FACTOR;
+  return (inputTokens * price.input + (usage.output_tokens ?? 0) * price.output) / 1_000_000;
+}
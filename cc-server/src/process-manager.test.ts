@@ -0,0 +1,165 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { mkdir, readFile } from "fs/promises";
+import path from "path";
+import { createTempDir, cleanupTempDir } from "./test-utils.js";
+import {
+  setProcessesDataDir,
+  validateProcessInput,
+  listProcesses,
+  createProcess,
+  deleteProcess,
+  startProcess,
+  stopProcess,
+  restartProcess,
+  getProcess,
+  getProcessLogs,
+} from "./process-manager.js";
+
+function logText(id: string): string[] {
+  return getProcessLogs(id).lines.map((l) => l.text);
+}
+
+describe("process manager", () => {
+  let tmpDir: string;
+  const originalBaseDir = process.env.BASE_DIR;
+  const started: string[] = [];
+
+  beforeEach(async () => {
+    tmpDir = await createTempDir();
+    await mkdir(path.join(tmpDir, "app"));
+    process.env.BASE_DIR = tmpDir;
+    setProcessesDataDir(path.join(tmpDir, "data"));
+  });
+
+  afterEach(async () => {
+    for (const id of started.splice(0)) await stopProcess(id, 100);
+    process.env.BASE_DIR = originalBaseDir;
+    if (originalBaseDir === undefined) delete process.env.BASE_DIR;
+    await cleanupTempDir(tmpDir);
+  });
+
+  async function define(name: string, command: string) {
+    const created = (await createProcess("app", name, command))!;
+    started.push(created.id);
+    return created;
+  }
+
+  it("validates definitions", () => {
+    expect(validateProcessInput({ name: "dev", command: "npm run dev" })).toBeNull();
+    expect(validateProcessInput({ name: " ", command: "npm run dev" })).toMatch(/name/);
+    expect(validateProcessInput({ name: "x".repeat(61), command: "npm run dev" })).toMatch(/name/);
+    expect(validateProcessInput({ name: "dev", command: "" })).toMatch(/command/);
+    expect(validateProcessInput({ name: "dev", command: "x".repeat(2001) })).toMatch(/command/);
+  });
+
+  it("keeps definitions per project, with unique names, on disk", async () => {
+    const dev = await define(" dev ", " npm run dev ");
+    expect(dev).toMatchObject({ name: "dev", command: "npm run dev", status: "stopped", uptimeMs: 0 });
+    expect(await createProcess("app", "dev", "vite")).toBeNull();
+    await createProcess("other", "dev", "vite");
+
+    setProcessesDataDir(path.join(tmpDir, "data"));
+    expect((await listProcesses("app")).map((p) => p.id)).toEqual([dev.id]);
+    expect(await listProcesses()).toHaveLength(2);
+    const stored = JSON.parse(await readFile(path.join(tmpDir, "data", "processes.json"), "utf-8"));
+    expect(stored).toHaveLength(2);
+  });
+
+  it("runs in the project folder, captures both streams and stops on request", async () => {
+    const { id } = await define("server", "pwd; echo oops >&2; printf partial; sleep 30");
+    const running = await startProcess(id);
+    expect(running).toMatchObject({ status: "running", exitCode: null });
+    expect(running!.pid).toBeGreaterThan(0);
+
+    await vi.waitFor(() => expect(getProcessLogs(id).lines.some((l) => l.stream === "stderr")).toBe(true));
+    const { lines } = getProcessLogs(id);
+    expect(lines[0]).toMatchObject({ stream: "system", text: "$ pwd; echo oops >&2; printf partial; sleep 30" });
+    expect(lines).toContainEqual(expect.objectContaining({ stream: "stdout", text: path.join(tmpDir, "app") }));
+    expect(lines).toContainEqual(expect.objectContaining({ stream: "stderr", text: "oops" }));
+    expect((await getProcess(id))!.uptimeMs).toBeGreaterThanOrEqual(0);
+
+    const stopped = await stopProcess(id);
+    expect(stopped).toMatchObject({ status: "stopped", exitCode: 143, pid: null, uptimeMs: 0 });
+    // The unfinished line is kept once the process is gone
+    expect(logText(id).slice(-2)).toEqual(["partial", "Stopped by SIGTERM"]);
+  });
+
+  it("records when a process exits on its own", async () => {
+    const { id } = await define("build", "echo done; exit 3");
+    await startProcess(id);
+    await vi.waitFor(async () => expect((await getProcess(id))!.status).toBe("exited"));
+    expect(await getProcess(id)).toMatchObject({ exitCode: 3, pid: null });
+    expect(logText(id)).toEqual(["$ echo done; exit 3", "done", "Exited with code 3"]);
+  });
+
+  it("sends SIGKILL when SIGTERM is ignored", async () => {
+    const { id } = await define("stubborn", "trap '' TERM; echo ready; while true; do sleep 0.1; done");
+    await startProcess(id);
+    await vi.waitFor(() => expect(logText(id)).toContain("ready"));
+
+    const stopped = await stopProcess(id, 100);
+    expect(stopped).toMatchObject({ status: "stopped", exitCode: 137 });
+    expect(logText(id).at(-1)).toBe("Stopped by SIGKILL");
+  });
+
+  it("restarts with the earlier logs kept and hands out new lines by cursor", async () => {
+    const { id } = await define("watch", "echo run; sleep 30");
+    await startProcess(id);
+    await vi.waitFor(() => expect(logText(id)).toContain("run"));
+    const { nextSeq } = getProcessLogs(id);
+
+    const restarted = await restartProcess(id, 100);
+    expect(restarted).toMatchObject({ status: "running", restarts: 1 });
+    await vi.waitFor(() => expect(logText(id).filter((t) => t === "run")).toHaveLength(2));
+
+    const newer = getProcessLogs(id, nextSeq - 1);
+    expect(newer.truncated).toBe(false);
+    expect(newer.lines.map((l) => l.text)).toEqual(["Stopped by SIGTERM", "$ echo run; sleep 30", "run"]);
+    expect(getProcessLogs(id, newer.nextSeq - 1).lines).toEqual([]);
+  });
+
+  it("starting a running process is a no-op", async () => {
+    const { id } = await define("dev", "sleep 30");
+    const first = await startProcess(id);
+    const second = await startProcess(id);
+    expect(second!.pid).toBe(first!.pid);
+    expect(second!.restarts).toBe(0);
+  });
+
+  it("spawns once when two starts overlap", async () => {
+    const { id } = await define("dev", "echo up; sleep 30");
+    const [first, second] = await Promise.all([startProcess(id), startProcess(id)]);
+    expect(second!.pid).toBe(first!.pid);
+    expect(first!.restarts).toBe(0);
+    await vi.waitFor(() => expect(logText(id)).toContain("up"));
+    expect(logText(id).filter((t) => t.startsWith("$ "))).toHaveLength(1);
+
+    await stopProcess(id);
+    expect(() => process.kill(first!.pid!, 0)).toThrow();
+  });
+
+  it("stops a process whose start was still under way", async () => {
+    const { id } = await define("dev", "sleep 30");
+    const starting = startProcess(id);
+    const stopped = await stopProcess(id, 100);
+    const { pid } = (await starting)!;
+    expect(stopped).toMatchObject({ status: "stopped", pid: null });
+    expect(() => process.kill(pid!, 0)).toThrow();
+  });
+
+  it("fails to start when the project folder is gone", async () => {
+    const { id } = (await createProcess("missing", "dev", "npm run dev"))!;
+    await expect(startProcess(id)).rejects.toThrow(/Project folder not found/);
+    expect((await getProcess(id))!.status).toBe("stopped");
+  });
+
+  it("stops a process when it's deleted", async () => {
+    const { id } = await define("dev", "sleep 30");
+    const { pid } = (await startProcess(id))!;
+    expect(await deleteProcess(id)).toBe(true);
+    expect(await deleteProcess(id)).toBe(false);
+    expect(await getProcess(id)).toBeNull();
+    expect(getProcessLogs(id)).toEqual({ lines: [], nextSeq: 0, truncated: false });
+    expect(() => process.kill(pid!, 0)).toThrow();
+  });
+});
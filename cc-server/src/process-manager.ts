@@ -0,0 +1,327 @@
+/**
+ * Process manager — named, long-lived services per project (`npm run dev`, a
+ * test watcher, `docker compose up`) that the terminal's orphan cleanup would
+ * otherwise kill.
+ *
+ * Definitions (project, name, command) live in data/processes.json; the
+ * processes themselves belong to cc-server and don't care whether any client
+ * is connected. Each keeps a ring buffer of its latest log lines — across
+ * restarts, so the output of a crash is still there afterwards. Nothing is
+ * started automatically when cc-server comes up, and everything is stopped
+ * when it exits.
+ */
+
+import { spawn, type ChildProcess } from "child_process";
+import crypto from "crypto";
+import fsPromises from "fs/promises";
+import os from "os";
+import path from "path";
+import { JsonStore } from "./json-store.js";
+import { commandEnv } from "./terminal-runner.js";
+
+export interface ProcessDefinition {
+  id: string;
+  projectPath: string;    // Relative to BASE_DIR
+  name: string;           // Unique within the project
+  command: string;
+  createdAt: number;
+}
+
+export type ProcessStatus = "running" | "stopping" | "stopped" | "exited";
+
+export interface ProcessInfo extends ProcessDefinition {
+  status: ProcessStatus;
+  pid: number | null;
+  startedAt: number | null;
+  exitedAt: number | null;
+  exitCode: number | null;   // 128 + signal number when it was killed by a signal
+  uptimeMs: number;          // 0 unless running
+  restarts: number;          // Starts after the first one
+}
+
+export interface ProcessLogLine {
+  seq: number;
+  stream: "stdout" | "stderr" | "system";
+  text: string;
+  time: number;
+}
+
+export const MAX_PROCESS_COMMAND_CHARS = 2000;
+const MAX_PROCESS_NAME_CHARS = 60;
+const MAX_LOG_LINES = 2000;
+const MAX_LINE_CHARS = 4000;
+const STOP_GRACE_MS = 5000;
+
+interface Runtime {
+  child: ChildProcess | null;
+  status: ProcessStatus;
+  startedAt: number | null;
+  exitedAt: number | null;
+  exitCode: number | null;
+  starts: number;
+  logs: ProcessLogLine[];
+  nextSeq: number;
+  partial: { stdout: string; stderr: string };
+  closed: Promise<void>;
+  killTimer: ReturnType<typeof setTimeout> | null;
+}
+
+const runtimes = new Map<string, Runtime>();
+// Starts still looking up the definition and folder — a second start joins the first instead of spawning again
+const starting = new Map<string, Promise<ProcessInfo | null>>();
+
+// ── Storage ──────────────────────────────────────────────────────────
+
+const store = new JsonStore<ProcessDefinition[]>("processes.json", () => []);
+
+/** Point the store somewhere else (tests) */
+export function setProcessesDataDir(dir: string): void {
+  store.setDir(dir);
+}
+
+// ── Runtime state ────────────────────────────────────────────────────
+
+function runtimeFor(id: string): Runtime {
+  let runtime = runtimes.get(id);
+  if (!runtime) {
+    runtime = {
+      child: null,
+      status: "stopped",
+      startedAt: null,
+      exitedAt: null,
+      exitCode: null,
+      starts: 0,
+      logs: [],
+      nextSeq: 0,
+      partial: { stdout: "", stderr: "" },
+      closed: Promise.resolve(),
+      killTimer: null,
+    };
+    runtimes.set(id, runtime);
+  }
+  return runtime;
+}
+
+function toInfo(def: ProcessDefinition): ProcessInfo {
+  const runtime = runtimeFor(def.id);
+  const alive = runtime.status === "running" || runtime.status === "stopping";
+  return {
+    ...def,
+    status: runtime.status,
+    pid: alive ? runtime.child?.pid ?? null : null,
+    startedAt: runtime.startedAt,
+    exitedAt: runtime.exitedAt,
+    exitCode: runtime.exitCode,
+    uptimeMs: alive && runtime.startedAt ? Date.now() - runtime.startedAt : 0,
+    restarts: Math.max(0, runtime.starts - 1),
+  };
+}
+
+function appendLine(runtime: Runtime, stream: ProcessLogLine["stream"], text: string) {
+  runtime.logs.push({ seq: runtime.nextSeq++, stream, text: text.slice(0, MAX_LINE_CHARS), time: Date.now() });
+  if (runtime.logs.length > MAX_LOG_LINES) runtime.logs.splice(0, runtime.logs.length - MAX_LOG_LINES);
+}
+
+/** Split a chunk into lines, holding back the unfinished last one until its newline arrives */
+function appendOutput(runtime: Runtime, stream: "stdout" | "stderr", chunk: string) {
+  const lines = (runtime.partial[stream] + chunk).split("\n");
+  let rest = lines.pop()!;
+  for (const line of lines) appendLine(runtime, stream, line.replace(/\r$/, ""));
+  // A progress bar that never prints a newline still has to show up eventually
+  while (rest.length > MAX_LINE_CHARS) {
+    appendLine(runtime, stream, rest.slice(0, MAX_LINE_CHARS));
+    rest = rest.slice(MAX_LINE_CHARS);
+  }
+  runtime.partial[stream] = rest;
+}
+
+function flushPartial(runtime: Runtime) {
+  for (const stream of ["stdout", "stderr"] as const) {
+    if (runtime.partial[stream]) appendLine(runtime, stream, runtime.partial[stream]);
+    runtime.partial[stream] = "";
+  }
+}
+
+/** The whole process group — the command runs detached, so this reaches npm → sh → node */
+function signalGroup(child: ChildProcess, sig: NodeJS.Signals) {
+  if (child.pid === undefined) return;
+  try {
+    process.kill(-child.pid, sig);
+  } catch {
+    child.kill(sig);
+  }
+}
+
+// ── Public API ───────────────────────────────────────────────────────
+
+/** Returns an error message, or null when the process definition is valid */
+export function validateProcessInput(input: { name?: unknown; command?: unknown }): string | null {
+  if (typeof input.name !== "string" || !input.name.trim()) return "name is required";
+  if (input.name.length > MAX_PROCESS_NAME_CHARS) return `name must be at most ${MAX_PROCESS_NAME_CHARS} characters`;
+  if (typeof input.command !== "string" || !input.command.trim()) return "command is required";
+  if (input.command.length > MAX_PROCESS_COMMAND_CHARS) {
+    return `command must be at most ${MAX_PROCESS_COMMAND_CHARS} characters`;
+  }
+  return null;
+}
+
+/** The project's processes (every project's when no path is given), oldest first */
+export async function listProcesses(projectPath?: string): Promise<ProcessInfo[]> {
+  const all = await store.load();
+  return all.filter((d) => projectPath === undefined || d.projectPath === projectPath).map(toInfo);
+}
+
+export async function getProcess(id: string): Promise<ProcessInfo | null> {
+  const def = (await store.load()).find((d) => d.id === id);
+  return def ? toInfo(def) : null;
+}
+
+/** Define a process for the project. Returns null if the project already has one by that name. */
+export async function createProcess(projectPath: string, name: string, command: string): Promise<ProcessInfo | null> {
+  const def: ProcessDefinition = {
+    id: crypto.randomUUID(),
+    projectPath,
+    name: name.trim(),
+    command: command.trim(),
+    createdAt: Date.now(),
+  };
+  let added = false;
+  await store.update((all) => {
+    // Checked here rather than up front, so two concurrent creates can't both take the name
+    if (all.some((d) => d.projectPath === projectPath && d.name === def.name)) return all;
+    added = true;
+    return [...all, def];
+  });
+  return added ? toInfo(def) : null;
+}
+
+/** Stop the process if it's running and forget it, logs included */
+export async function deleteProcess(id: string): Promise<boolean> {
+  if (!(await store.load()).some((d) => d.id === id)) return false;
+  await stopProcess(id);
+  runtimes.delete(id);
+  await store.update((all) => all.filter((d) => d.id !== id));
+  return true;
+}
+
+/** Start the process in its project folder. Starting one that's already running is a no-op. */
+export function startProcess(id: string): Promise<ProcessInfo | null> {
+  const inFlight = starting.get(id);
+  if (inFlight) return inFlight;
+  const start = launch(id).finally(() => starting.delete(id));
+  starting.set(id, start);
+  return start;
+}
+
+async function launch(id: string): Promise<ProcessInfo | null> {
+  const def = (await store.load()).find((d) => d.id === id);
+  if (!def) return null;
+  const runtime = runtimeFor(id);
+  if (runtime.status === "running") return toInfo(def);
+  // Still shutting down — let it finish so two copies never fight over a port
+  if (runtime.status === "stopping") await runtime.closed;
+
+  const baseDir = process.env.BASE_DIR;
+  if (!baseDir) throw new Error("BASE_DIR not configured on cc-server");
+  const cwd = path.resolve(baseDir, def.projectPath);
+  const stat = await fsPromises.stat(cwd).catch(() => null);
+  if (!stat?.isDirectory()) throw new Error(`Project folder not found: ${def.projectPath}`);
+
+  const child = spawn("bash", ["-c", def.command], {
+    cwd,
+    env: commandEnv(),
+    detached: true,
+    stdio: ["ignore", "pipe", "pipe"],
+  });
+  runtime.child = child;
+  runtime.status = "running";
+  runtime.startedAt = Date.now();
+  runtime.exitedAt = null;
+  runtime.exitCode = null;
+  runtime.starts++;
+  runtime.partial = { stdout: "", stderr: "" };
+  appendLine(runtime, "system", `$ ${def.command}`);
+
+  child.stdout!.setEncoding("utf-8");
+  child.stderr!.setEncoding("utf-8");
+  child.stdout!.on("data", (chunk: string) => appendOutput(runtime, "stdout", chunk));
+  child.stderr!.on("data", (chunk: string) => appendOutput(runtime, "stderr", chunk));
+
+  runtime.closed = new Promise((resolve) => {
+    const finish = (code: number | null, signal: NodeJS.Signals | null, error?: Error) => {
+      // The exit may be reported twice (error then close) — and a newer start may own the runtime by now
+      if (runtime.child !== child) return resolve();
+      if (runtime.killTimer) clearTimeout(runtime.killTimer);
+      runtime.killTimer = null;
+      flushPartial(runtime);
+      const exitCode = code ?? (signal ? 128 + (os.constants.signals[signal] ?? 0) : null);
+      appendLine(
+        runtime,
+        "system",
+        error ? `Failed to start: ${error.message}` : signal ? `Stopped by ${signal}` : `Exited with code ${code}`,
+      );
+      runtime.status = runtime.status === "stopping" ? "stopped" : "exited";
+      runtime.exitCode = exitCode;
+      runtime.exitedAt = Date.now();
+      runtime.child = null;
+      resolve();
+    };
+    child.on("close", (code, signal) => finish(code, signal));
+    child.on("error", (err) => finish(null, null, err));
+  });
+
+  return toInfo(def);
+}
+
+/** SIGTERM, then SIGKILL after the grace period. Resolves once the process has exited. */
+export async function stopProcess(id: string, graceMs = STOP_GRACE_MS): Promise<ProcessInfo | null> {
+  // A start under way would spawn after we looked — let it, then stop what it started
+  await starting.get(id)?.catch(() => {});
+  const def = (await store.load()).find((d) => d.id === id);
+  if (!def) return null;
+  const runtime = runtimeFor(id);
+  const child = runtime.child;
+  if (child && runtime.status === "running") {
+    runtime.status = "stopping";
+    signalGroup(child, "SIGTERM");
+    runtime.killTimer = setTimeout(() => {
+      runtime.killTimer = null;
+      if (runtime.child !== child) return;
+      appendLine(runtime, "system", `Still running after ${Math.round(graceMs / 1000)}s — sending SIGKILL`);
+      signalGroup(child, "SIGKILL");
+    }, graceMs);
+    runtime.killTimer.unref();
+  }
+  await runtime.closed;
+  return toInfo(def);
+}
+
+export async function restartProcess(id: string, graceMs = STOP_GRACE_MS): Promise<ProcessInfo | null> {
+  if (!(await stopProcess(id, graceMs))) return null;
+  return startProcess(id);
+}
+
+/**
+ * Buffered log lines after `after` (a seq from an earlier call), oldest first.
+ * `truncated` means lines the caller hasn't seen have already left the buffer.
+ */
+export function getProcessLogs(id: string, after?: number): { lines: ProcessLogLine[]; nextSeq: number; truncated: boolean } {
+  const runtime = runtimes.get(id);
+  if (!runtime) return { lines: [], nextSeq: 0, truncated: false };
+  const lines = after === undefined ? runtime.logs : runtime.logs.filter((l) => l.seq > after);
+  const firstSeq = runtime.logs.length > 0 ? runtime.logs[0].seq : runtime.nextSeq;
+  return {
+    lines,
+    nextSeq: runtime.nextSeq,
+    truncated: after !== undefined && firstSeq > after + 1,
+  };
+}
+
+/** Signal every running process to stop — synchronous, for process exit handlers */
+export function stopAllProcesses(): void {
+  for (const runtime of runtimes.values()) {
+    if (runtime.child && (runtime.status === "running" || runtime.status === "stopping")) {
+      signalGroup(runtime.child, "SIGTERM");
+    }
+  }
+}
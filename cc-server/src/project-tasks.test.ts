@@ -0,0 +1,115 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdir, writeFile } from "fs/promises";
+import path from "path";
+import { createTempDir, cleanupTempDir } from "./test-utils.js";
+import { discoverTasks, parseMakefile, parseJustfile } from "./project-tasks.js";
+
+describe("parseMakefile", () => {
+  it("lists explicit targets with their ## help", () => {
+    const tasks = parseMakefile([
+      ".PHONY: build test",
+      "CC := gcc",
+      "VERSION = 1.0",
+      "build: deps ## Compile everything",
+      "\t$(CC) -o app main.c",
+      "test lint:",
+      "%.o: %.c",
+      "main.o: main.c",
+      "build/out: build",
+      "build:",
+    ].join("\n"));
+
+    expect(tasks).toEqual([
+      { name: "build", command: "make build", source: "make", description: "Compile everything" },
+      { name: "test", command: "make test", source: "make" },
+      { name: "lint", command: "make lint", source: "make" },
+    ]);
+  });
+});
+
+describe("parseJustfile", () => {
+  it("lists public recipes with the comment above them", () => {
+    const tasks = parseJustfile([
+      "set dotenv-load",
+      "version := \"1.0\"",
+      "alias t := test",
+      "",
+      "# Run the test suite",
+      "test *args:",
+      "    cargo test {{args}}",
+      "",
+      "# Not about serve",
+      "",
+      "serve addr=\"localhost:8000\": build",
+      "    ./serve {{addr}}",
+      "[private]",
+      "helper:",
+      "_hidden:",
+      "@deploy:",
+    ].join("\n"));
+
+    expect(tasks).toEqual([
+      { name: "test", command: "just test", source: "just", description: "Run the test suite" },
+      { name: "serve", command: "just serve", source: "just" },
+      { name: "deploy", command: "just deploy", source: "just" },
+    ]);
+  });
+});
+
+describe("discoverTasks", () => {
+  let tmpDir: string;
+
+  beforeEach(async () => {
+    tmpDir = await createTempDir();
+  });
+
+  afterEach(async () => {
+    await cleanupTempDir(tmpDir);
+  });
+
+  it("returns nothing for a folder without task files", async () => {
+    expect(await discoverTasks(tmpDir)).toEqual([]);
+  });
+
+  it("runs package scripts with the package manager the lockfile points at", async () => {
+    await writeFile(path.join(tmpDir, "package.json"), JSON.stringify({ scripts: { "test:all": "vitest run", "dev server": "next dev" } }));
+    expect((await discoverTasks(tmpDir)).map((t) => t.command)).toEqual(["npm run test:all", "npm run 'dev server'"]);
+
+    await writeFile(path.join(tmpDir, "pnpm-lock.yaml"), "");
+    expect(await discoverTasks(tmpDir)).toContainEqual({
+      name: "test:all",
+      command: "pnpm run test:all",
+      source: "npm",
+      description: "vitest run",
+    });
+  });
+
+  it("combines every source in the folder", async () => {
+    await writeFile(path.join(tmpDir, "package.json"), JSON.stringify({ scripts: { build: "tsc" }, packageManager: "yarn@4.1.0" }));
+    await writeFile(path.join(tmpDir, "Makefile"), "docker:\n\tdocker compose up\n");
+    await writeFile(path.join(tmpDir, "justfile"), "fmt:\n    cargo fmt\n");
+    await writeFile(path.join(tmpDir, "Cargo.toml"), "[package]\nname = \"app\"\n");
+    await mkdir(path.join(tmpDir, "src"));
+    await writeFile(path.join(tmpDir, "src", "main.rs"), "fn main() {}\n");
+    await writeFile(path.join(tmpDir, "go.mod"), "module example.com/app\n");
+
+    expect((await discoverTasks(tmpDir)).map((t) => `${t.source}: ${t.command}`)).toEqual([
+      "npm: yarn build",
+      "make: make docker",
+      "just: just fmt",
+      "cargo: cargo build",
+      "cargo: cargo test",
+      "cargo: cargo check",
+      "cargo: cargo clippy",
+      "cargo: cargo run",
+      "go: go build ./...",
+      "go: go test ./...",
+      "go: go vet ./...",
+    ]);
+  });
+
+  it("ignores an unreadable package.json", async () => {
+    await writeFile(path.join(tmpDir, "package.json"), "{ not json");
+    expect(await discoverTasks(tmpDir)).toEqual([]);
+  });
+});
@@ -0,0 +1,157 @@
+/**
+ * Task discovery — the commands a project already defines, so the terminal can
+ * offer them as one-tap buttons: package.json scripts (run with the package
+ * manager the lockfile points at), Makefile targets, justfile recipes, and the
+ * standard cargo / go commands when there's a Cargo.toml or go.mod.
+ *
+ * Only the project folder itself is looked at, and files are read, never run.
+ */
+
+import fsPromises from "fs/promises";
+import path from "path";
+
+export type TaskSource = "npm" | "make" | "just" | "cargo" | "go";
+
+export interface ProjectTask {
+  name: string;
+  command: string;
+  source: TaskSource;
+  description?: string;
+}
+
+async function readIfExists(file: string): Promise<string | null> {
+  try {
+    return await fsPromises.readFile(file, "utf-8");
+  } catch {
+    return null;
+  }
+}
+
+async function exists(file: string): Promise<boolean> {
+  try {
+    await fsPromises.access(file);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** First of `names` present in the folder */
+async function readFirst(cwd: string, names: string[]): Promise<string | null> {
+  for (const name of names) {
+    const content = await readIfExists(path.join(cwd, name));
+    if (content !== null) return content;
+  }
+  return null;
+}
+
+function shellWord(word: string): string {
+  return /^[\w:.@/+-]+$/.test(word) ? word : `'${word.replace(/'/g, "'\\''")}'`;
+}
+
+async function packageScripts(cwd: string): Promise<ProjectTask[]> {
+  const raw = await readIfExists(path.join(cwd, "package.json"));
+  if (raw === null) return [];
+  let pkg: { scripts?: Record<string, unknown>; packageManager?: unknown };
+  try {
+    pkg = JSON.parse(raw);
+  } catch {
+    return [];
+  }
+  if (!pkg.scripts || typeof pkg.scripts !== "object") return [];
+
+  let manager = typeof pkg.packageManager === "string" ? pkg.packageManager.split("@")[0] : "";
+  if (!["npm", "pnpm", "yarn", "bun"].includes(manager)) {
+    if (await exists(path.join(cwd, "pnpm-lock.yaml"))) manager = "pnpm";
+    else if (await exists(path.join(cwd, "yarn.lock"))) manager = "yarn";
+    else if (await exists(path.join(cwd, "bun.lockb")) || await exists(path.join(cwd, "bun.lock"))) manager = "bun";
+    else manager = "npm";
+  }
+  const run = manager === "yarn" ? "yarn" : `${manager} run`;
+
+  return Object.entries(pkg.scripts)
+    .filter((entry): entry is [string, string] => typeof entry[1] === "string")
+    .map(([name, script]) => ({ name, command: `${run} ${shellWord(name)}`, source: "npm" as const, description: script }));
+}
+
+/** Explicit targets, skipping special (.PHONY), pattern (%.o) and file (main.o, build/x) targets */
+export function parseMakefile(content: string): ProjectTask[] {
+  const tasks: ProjectTask[] = [];
+  const seen = new Set<string>();
+  for (const line of content.split("\n")) {
+    const match = line.match(/^([A-Za-z0-9_][\w.-]*(?:[ \t]+[A-Za-z0-9_][\w.-]*)*)[ \t]*:(?![:=])(.*)$/);
+    if (!match) continue;
+    const help = match[2].match(/##\s*(.+)$/)?.[1].trim();
+    for (const name of match[1].split(/[ \t]+/)) {
+      if (seen.has(name) || /\.\w+$/.test(name)) continue;
+      seen.add(name);
+      tasks.push({ name, command: `make ${name}`, source: "make", ...(help ? { description: help } : {}) });
+    }
+  }
+  return tasks;
+}
+
+/** Public recipes, with the comment line above each as its description */
+export function parseJustfile(content: string): ProjectTask[] {
+  const tasks: ProjectTask[] = [];
+  let comment: string | undefined;
+  let isPrivate = false;
+  for (const line of content.split("\n")) {
+    if (/^#(?!!)/.test(line)) {
+      comment = line.replace(/^#\s*/, "").trim() || undefined;
+      continue;
+    }
+    if (/^\[.*\]\s*$/.test(line)) {
+      if (/\bprivate\b/.test(line)) isPrivate = true;
+      continue;
+    }
+    const match = line.match(/^@?([A-Za-z_][\w-]*)(?:[ \t]+[^:]*)?:(?!=)/);
+    const keyword = /^(set|alias|export|import|mod)\b/.test(line);
+    if (match && !keyword && !match[1].startsWith("_") && !isPrivate) {
+      tasks.push({ name: match[1], command: `just ${match[1]}`, source: "just", ...(comment ? { description: comment } : {}) });
+    }
+    // A doc comment or attribute only applies to the line right below it
+    if (!line.trim() || !/^\s/.test(line)) {
+      comment = undefined;
+      isPrivate = false;
+    }
+  }
+  return tasks;
+}
+
+async function cargoTasks(cwd: string): Promise<ProjectTask[]> {
+  const manifest = await readIfExists(path.join(cwd, "Cargo.toml"));
+  if (manifest === null) return [];
+  const commands = ["build", "test", "check", "clippy"];
+  if (/^\[\[bin\]\]/m.test(manifest) || await exists(path.join(cwd, "src", "main.rs"))) commands.push("run");
+  return commands.map((c) => ({ name: c, command: `cargo ${c}`, source: "cargo" as const }));
+}
+
+async function goTasks(cwd: string): Promise<ProjectTask[]> {
+  if (!(await exists(path.join(cwd, "go.mod")))) return [];
+  const tasks: ProjectTask[] = ["build", "test", "vet"].map((c) => ({
+    name: c,
+    command: `go ${c} ./...`,
+    source: "go" as const,
+  }));
+  if (await exists(path.join(cwd, "main.go"))) tasks.push({ name: "run", command: "go run .", source: "go" });
+  return tasks;
+}
+
+/** Everything runnable in the project folder, grouped by source */
+export async function discoverTasks(cwd: string): Promise<ProjectTask[]> {
+  const [npm, makefile, justfile, cargo, go] = await Promise.all([
+    packageScripts(cwd),
+    readFirst(cwd, ["GNUmakefile", "makefile", "Makefile"]),
+    readFirst(cwd, ["justfile", "Justfile", ".justfile"]),
+    cargoTasks(cwd),
+    goTasks(cwd),
+  ]);
+  return [
+    ...npm,
+    ...(makefile ? parseMakefile(makefile) : []),
+    ...(justfile ? parseJustfile(justfile) : []),
+    ...cargo,
+    ...go,
+  ];
+}
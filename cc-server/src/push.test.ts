@@ -0,0 +1,129 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { readFile } from "fs/promises";
+import path from "path";
+import { createTempDir, cleanupTempDir } from "./test-utils.js";
+import {
+  setPushDataDir,
+  getVapidKeys,
+  addSubscription,
+  removeSubscription,
+  getSubscriptions,
+  isValidSubscription,
+  pushPayloadForEvent,
+  chatUrl,
+} from "./push.js";
+
+const sub = (n: number) => ({
+  endpoint: `https://push.example.com/send/${n}`,
+  keys: { p256dh: `p256dh-${n}`, auth: `auth-${n}` },
+});
+
+describe("push store", () => {
+  let tmpDir: string;
+  const originalPublic = process.env.VAPID_PUBLIC_KEY;
+  const originalPrivate = process.env.VAPID_PRIVATE_KEY;
+
+  beforeEach(async () => {
+    tmpDir = await createTempDir();
+    setPushDataDir(tmpDir);
+    delete process.env.VAPID_PUBLIC_KEY;
+    delete process.env.VAPID_PRIVATE_KEY;
+  });
+
+  afterEach(async () => {
+    await cleanupTempDir(tmpDir);
+    if (originalPublic === undefined) delete process.env.VAPID_PUBLIC_KEY;
+    else process.env.VAPID_PUBLIC_KEY = originalPublic;
+    if (originalPrivate === undefined) delete process.env.VAPID_PRIVATE_KEY;
+    else process.env.VAPID_PRIVATE_KEY = originalPrivate;
+  });
+
+  it("generates VAPID keys once and reuses them after a restart", async () => {
+    const keys = await getVapidKeys();
+    expect(keys.publicKey).toMatch(/^[A-Za-z0-9_-]+$/);
+
+    setPushDataDir(tmpDir); // simulate restart — drops the in-memory copy
+    expect(await getVapidKeys()).toEqual(keys);
+  });
+
+  it("prefers keys from the environment", async () => {
+    process.env.VAPID_PUBLIC_KEY = "pub";
+    process.env.VAPID_PRIVATE_KEY = "priv";
+    expect(await getVapidKeys()).toEqual({ publicKey: "pub", privateKey: "priv" });
+  });
+
+  it("persists subscriptions, replacing duplicates by endpoint", async () => {
+    await addSubscription(sub(1));
+    await addSubscription(sub(2));
+    await addSubscription({ ...sub(1), keys: { p256dh: "new", auth: "new" } });
+
+    const saved = JSON.parse(await readFile(path.join(tmpDir, "push-subscriptions.json"), "utf-8"));
+    expect(saved.map((s: { endpoint: string }) => s.endpoint)).toEqual([sub(2).endpoint, sub(1).endpoint]);
+    expect(saved[1].keys.p256dh).toBe("new");
+  });
+
+  it("removes subscriptions by endpoint", async () => {
+    await addSubscription(sub(1));
+    expect(await removeSubscription(sub(1).endpoint)).toBe(true);
+    expect(await removeSubscription(sub(1).endpoint)).toBe(false);
+    expect(await getSubscriptions()).toEqual([]);
+  });
+
+  it("keeps every change when adds and removes overlap", async () => {
+    await Promise.all([addSubscription(sub(1)), addSubscription(sub(2)), addSubscription(sub(3))]);
+    await Promise.all([removeSubscription(sub(1).endpoint), removeSubscription(sub(3).endpoint), addSubscription(sub(4))]);
+
+    setPushDataDir(tmpDir);
+    expect((await getSubscriptions()).map((s) => s.endpoint)).toEqual([sub(2).endpoint, sub(4).endpoint]);
+  });
+});
+
+describe("isValidSubscription", () => {
+  it("requires an https endpoint and both keys", () => {
+    expect(isValidSubscription(sub(1))).toBe(true);
+    expect(isValidSubscription({ ...sub(1), endpoint: "http://insecure" })).toBe(false);
+    expect(isValidSubscription({ endpoint: sub(1).endpoint, keys: { p256dh: "x" } })).toBe(false);
+    expect(isValidSubscription(null)).toBe(false);
+  });
+});
+
+describe("pushPayloadForEvent", () => {
+  it("links to the project's chat tab", () => {
+    expect(chatUrl("work/my app")).toBe("/project/work%2Fmy%20app?tab=chat");
+    expect(chatUrl("app", "s-1")).toBe("/project/app?tab=chat&session=s-1");
+  });
+
+  it("describes permission requests with the command or file", () => {
+    const payload = pushPayloadForEvent(
+      "permission_request",
+      { requestId: "q1:r1", toolName: "Bash", input: { command: "npm   test" } },
+      "work/app",
+      "q1",
+      "s-1"
+    );
+    expect(payload).toEqual({
+      title: "app: permission needed",
+      body: "Bash — npm test",
+      url: "/project/work%2Fapp?tab=chat&session=s-1",
+      tag: "permission-q1:r1",
+    });
+  });
+
+  it("reports results and errors under one tag per query", () => {
+    expect(pushPayloadForEvent("result", { result: "All tests pass." }, "app", "q1")).toMatchObject({
+      title: "app: done",
+      body: "All tests pass.",
+      tag: "query-q1",
+    });
+    expect(pushPayloadForEvent("result", { isError: true, errors: ["budget exceeded"] }, "app", "q1")).toMatchObject({
+      title: "app: query failed",
+      body: "budget exceeded",
+    });
+    expect(pushPayloadForEvent("error", { error: "boom" }, "app", "q1")).toMatchObject({ title: "app: error", body: "boom" });
+  });
+
+  it("truncates long bodies and ignores other events", () => {
+    expect(pushPayloadForEvent("result", { result: "x".repeat(500) }, "app", "q1")!.body.length).toBe(140);
+    expect(pushPayloadForEvent("assistant", { text: "hi" }, "app", "q1")).toBeNull();
+  });
+});
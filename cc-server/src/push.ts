@@ -0,0 +1,175 @@
+/**
+ * Web Push — notify subscribed browsers when a query needs attention.
+ *
+ * VAPID keys come from VAPID_PUBLIC_KEY / VAPID_PRIVATE_KEY when set;
+ * otherwise a pair is generated on first use and kept in data/vapid.json so
+ * existing subscriptions stay valid across restarts. Subscriptions live in
+ * data/push-subscriptions.json. Endpoints the push service reports as gone
+ * (404/410) are pruned on send.
+ */
+
+import webpush from "web-push";
+import { JsonStore } from "./json-store.js";
+
+export interface PushSubscriptionJSON {
+  endpoint: string;
+  expirationTime?: number | null;
+  keys: { p256dh: string; auth: string };
+}
+
+export interface PushPayload {
+  title: string;
+  body: string;
+  url: string;   // Deep link opened when the notification is tapped
+  tag?: string;  // Same tag replaces an earlier notification instead of stacking
+}
+
+// ── Storage ──────────────────────────────────────────────────────────
+
+const vapidStore = new JsonStore<{ publicKey: string; privateKey: string } | null>("vapid.json", () => null);
+const subscriptionStore = new JsonStore<PushSubscriptionJSON[]>("push-subscriptions.json", () => []);
+
+let vapidKeys: { publicKey: string; privateKey: string } | null = null;
+
+/** Point the store somewhere else (tests) */
+export function setPushDataDir(dir: string): void {
+  vapidStore.setDir(dir);
+  subscriptionStore.setDir(dir);
+  vapidKeys = null;
+}
+
+// ── VAPID ────────────────────────────────────────────────────────────
+
+export async function getVapidKeys(): Promise<{ publicKey: string; privateKey: string }> {
+  if (vapidKeys) return vapidKeys;
+
+  const { VAPID_PUBLIC_KEY, VAPID_PRIVATE_KEY } = process.env;
+  if (VAPID_PUBLIC_KEY && VAPID_PRIVATE_KEY) {
+    vapidKeys = { publicKey: VAPID_PUBLIC_KEY, privateKey: VAPID_PRIVATE_KEY };
+    return vapidKeys;
+  }
+
+  const stored = await vapidStore.load();
+  if (stored?.publicKey && stored.privateKey) {
+    vapidKeys = stored;
+  } else {
+    vapidKeys = webpush.generateVAPIDKeys();
+    await vapidStore.replace(vapidKeys);
+    console.error("[push] generated VAPID keys (data/vapid.json)");
+  }
+  return vapidKeys;
+}
+
+// ── Subscriptions ────────────────────────────────────────────────────
+
+export function isValidSubscription(sub: unknown): sub is PushSubscriptionJSON {
+  const s = sub as PushSubscriptionJSON | null;
+  return (
+    typeof s?.endpoint === "string" &&
+    /^https:\/\//.test(s.endpoint) &&
+    typeof s.keys?.p256dh === "string" &&
+    typeof s.keys?.auth === "string"
+  );
+}
+
+export async function addSubscription(sub: PushSubscriptionJSON): Promise<void> {
+  await subscriptionStore.update((subs) => [...subs.filter((s) => s.endpoint !== sub.endpoint), sub]);
+}
+
+export async function removeSubscription(endpoint: string): Promise<boolean> {
+  if (!(await subscriptionStore.load()).some((s) => s.endpoint === endpoint)) return false;
+  await subscriptionStore.update((subs) => subs.filter((s) => s.endpoint !== endpoint));
+  return true;
+}
+
+export async function getSubscriptions(): Promise<PushSubscriptionJSON[]> {
+  return [...(await subscriptionStore.load())];
+}
+
+// ── Sending ──────────────────────────────────────────────────────────
+
+/** Send to every subscription. Never throws — a failed push must not break a query. */
+export async function sendPush(payload: PushPayload): Promise<void> {
+  try {
+    const subs = await getSubscriptions();
+    if (subs.length === 0) return;
+
+    const { publicKey, privateKey } = await getVapidKeys();
+    const options = {
+      vapidDetails: { subject: process.env.VAPID_SUBJECT || "mailto:admin@localhost", publicKey, privateKey },
+      TTL: 60 * 60,
+    };
+    const body = JSON.stringify(payload);
+
+    await Promise.all(
+      subs.map(async (sub) => {
+        try {
+          await webpush.sendNotification(sub, body, options);
+        } catch (err: unknown) {
+          const status = (err as { statusCode?: number }).statusCode;
+          if (status === 404 || status === 410) {
+            await removeSubscription(sub.endpoint);
+            console.error(`[push] pruned expired subscription ${sub.endpoint.slice(0, 60)}...`);
+          } else {
+            console.error(`[push] send failed (${status ?? "network"}): ${err instanceof Error ? err.message : err}`);
+          }
+        }
+      })
+    );
+  } catch (err: unknown) {
+    console.error(`[push] ${err instanceof Error ? err.message : err}`);
+  }
+}
+
+/** Chat tab deep link for a project, straight to the session when it's known (there may be several in parallel) */
+export function chatUrl(projectPath: string, sessionId?: string): string {
+  const session = sessionId ? `&session=${encodeURIComponent(sessionId)}` : "";
+  return `/project/${encodeURIComponent(projectPath)}?tab=chat${session}`;
+}
+
+function clip(text: string, max = 140): string {
+  const flat = text.replace(/\s+/g, " ").trim();
+  return flat.length > max ? flat.slice(0, max - 1) + "…" : flat;
+}
+
+/** Notification for a chat SSE event, or null for events nobody needs to be woken for */
+export function pushPayloadForEvent(
+  type: string,
+  data: unknown,
+  projectPath: string,
+  queryId: string,
+  sessionId?: string
+): PushPayload | null {
+  const name = projectPath.split("/").pop() || projectPath;
+  const url = chatUrl(projectPath, sessionId);
+  const d = (data ?? {}) as Record<string, unknown>;
+
+  switch (type) {
+    case "permission_request": {
+      const input = (d.input ?? {}) as Record<string, unknown>;
+      const detail = input.command ?? input.file_path ?? input.path ?? input.pattern ?? input.url;
+      return {
+        title: `${name}: permission needed`,
+        body: clip(`${d.toolName}${typeof detail === "string" ? ` — ${detail}` : ""}`),
+        url,
+        tag: `permission-${d.requestId}`,
+      };
+    }
+    case "result": {
+      const errors = Array.isArray(d.errors) ? (d.errors as string[]) : [];
+      if (d.isError) {
+        return { title: `${name}: query failed`, body: clip(errors.join("; ") || String(d.subtype ?? "Error")), url, tag: `query-${queryId}` };
+      }
+      return {
+        title: `${name}: done`,
+        body: clip(typeof d.result === "string" && d.result ? d.result : "Query finished"),
+        url,
+        tag: `query-${queryId}`,
+      };
+    }
+    case "error":
+      return { title: `${name}: error`, body: clip(String(d.error ?? "Unknown error")), url, tag: `query-${queryId}` };
+    default:
+      return null;
+  }
+}
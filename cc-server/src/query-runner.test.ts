@@ -5,6 +5,7 @@ import {
   getRunnerByQueryId,
   getRunnerBySessionId,
   updateRunnerSessionId,
+  listRunners,
   markRunnerCompleted,
   getRunnerStats,
 } from "./query-runner.js";
@@ -218,6 +219,30 @@ describe("QueryRunner", () => {
     });
   });
 
+  describe("costUsd", () => {
+    it("estimates the streaming turn from token usage", () => {
+      const runner = new QueryRunner("q1", "s1");
+      expect(runner.costUsd).toBe(0);
+      runner.startResponse("claude-opus-4-1", { input_tokens: 1000, cache_read_input_tokens: 10_000, output_tokens: 1 });
+      runner.updateResponse({ output_tokens: 500 });
+      // (1000 + 10000 × 0.1) × $15/M + 500 × $75/M
+      expect(runner.costUsd).toBeCloseTo(0.03 + 0.0375);
+
+      // The next response of the same turn adds to it
+      runner.startResponse("claude-opus-4-1", { input_tokens: 1000, output_tokens: 0 });
+      expect(runner.costUsd).toBeCloseTo(0.0675 + 0.015);
+    });
+
+    it("replaces the estimate with the SDK's cost when a turn finishes", () => {
+      const runner = new QueryRunner("q1", "s1");
+      runner.startResponse("claude-sonnet-4-5", { input_tokens: 100_000 });
+      runner.settleCost(0.5);
+      expect(runner.costUsd).toBe(0.5);
+      runner.updateResponse({ output_tokens: 1000 });  // Nothing streaming — ignored
+      expect(runner.costUsd).toBe(0.5);
+    });
+  });
+
   describe("firstBufferedIndex", () => {
     it("equals nextIndex when buffer is empty", () => {
       const runner = new QueryRunner("q1", "s1");
@@ -283,6 +308,17 @@ describe("Registry", () => {
 
     expect(getRunnerBySessionId(sessionId)).toBeUndefined();
     expect(getRunnerBySessionId(newSessionId)).toBe(runner);
+    expect(runner.sessionId).toBe(newSessionId);
+  });
+
+  it("listRunners includes every registered runner with its info", () => {
+    const { queryId, sessionId } = ids();
+    const info = { projectPath: "app", prompt: "Fix the build", startedAt: Date.now() };
+    const runner = new QueryRunner(queryId, sessionId, undefined, info);
+    registerRunner(runner);
+
+    expect(listRunners()).toContain(runner);
+    expect(runner.info).toEqual(info);
   });
 
   it("updateRunnerSessionId is a no-op when ids are the same", () => {
@@ -5,6 +5,8 @@
  * keeps running even when no SSE listeners are attached.
  */
 
+import { estimateCostUsd, type TokenUsage } from "./pricing.js";
+
 export interface IndexedEvent {
   index: number;
   type: string;
@@ -14,11 +16,20 @@ export interface IndexedEvent {
 export type RunnerStatus = "running" | "completed" | "error" | "aborted";
 export type EventListener = (event: IndexedEvent) => void;
 
+/** What the query is doing, for the server-wide list of running queries */
+export interface RunnerInfo {
+  projectPath: string;
+  prompt: string;       // Prompt text (or its attachments) as the user sent it
+  startedAt: number;
+  unattended?: boolean; // Scheduled run or headless task
+}
+
 const MAX_BUFFER_SIZE = 2000;
 
 export class QueryRunner {
   readonly queryId: string;
-  readonly sessionId: string;
+  sessionId: string;  // Placeholder (the queryId) until the SDK assigns the real one
+  readonly info: RunnerInfo | null;
 
   private eventBuffer: IndexedEvent[] = [];
   private nextIndex = 0;
@@ -26,10 +37,16 @@ export class QueryRunner {
   private _status: RunnerStatus = "running";
   private _abortController: AbortController | null = null;
 
-  constructor(queryId: string, sessionId: string, abortController?: AbortController) {
+  // Cost so far: turns the SDK has reported, then an estimate for the rest
+  private settledCostUsd = 0;
+  private estimatedCostUsd = 0;
+  private response: { model?: string; usage: TokenUsage } | null = null;  // Model response being streamed
+
+  constructor(queryId: string, sessionId: string, abortController?: AbortController, info?: RunnerInfo) {
     this.queryId = queryId;
     this.sessionId = sessionId;
     this._abortController = abortController ?? null;
+    this.info = info ?? null;
   }
 
   get status(): RunnerStatus {
@@ -96,6 +113,33 @@ export class QueryRunner {
     return { events, gap };
   }
 
+  /** What the query has cost so far, including an estimate for the turn in progress */
+  get costUsd(): number {
+    const streaming = this.response ? estimateCostUsd(this.response.model, this.response.usage) : 0;
+    return this.settledCostUsd + this.estimatedCostUsd + streaming;
+  }
+
+  /** A model response started (message_start) — usage has its input tokens */
+  startResponse(model: string | undefined, usage: TokenUsage): void {
+    if (this.response) this.estimatedCostUsd += estimateCostUsd(this.response.model, this.response.usage);
+    this.response = { model, usage: { ...usage } };
+  }
+
+  /** More of the response (message_delta) — its usage counts the output so far */
+  updateResponse(usage: TokenUsage): void {
+    if (!this.response) return;
+    for (const [key, value] of Object.entries(usage) as [keyof TokenUsage, number | null | undefined][]) {
+      if (typeof value === "number") this.response.usage[key] = value;
+    }
+  }
+
+  /** A turn finished — the SDK's cost for it replaces the estimate */
+  settleCost(totalCostUsd: number): void {
+    this.settledCostUsd += totalCostUsd;
+    this.estimatedCostUsd = 0;
+    this.response = null;
+  }
+
   setStatus(status: RunnerStatus): void {
     this._status = status;
   }
@@ -125,6 +169,8 @@ export function updateRunnerSessionId(queryId: string, oldSessionId: string, new
   if (oldSessionId !== newSessionId) {
     sessionToQuery.delete(oldSessionId);
     sessionToQuery.set(newSessionId, queryId);
+    const runner = activeRunners.get(queryId);
+    if (runner) runner.sessionId = newSessionId;
   }
 }
 
@@ -137,6 +183,11 @@ export function getRunnerBySessionId(sessionId: string): QueryRunner | undefined
   return queryId ? activeRunners.get(queryId) : undefined;
 }
 
+/** Every runner still in the registry — running, or finished within the reconnect window */
+export function listRunners(): QueryRunner[] {
+  return [...activeRunners.values()];
+}
+
 export function markRunnerCompleted(queryId: string): void {
   completedTimestamps.set(queryId, Date.now());
 }
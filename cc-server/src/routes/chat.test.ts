@@ -1,5 +1,5 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
-import { mkdir, writeFile } from "fs/promises";
+import { access, mkdir, writeFile } from "fs/promises";
 import path from "path";
 import {
   handleHelp,
@@ -11,11 +11,19 @@ import {
   expandSlashCommand,
   findCustomCommands,
   getSession,
+  saveSession,
+  handleActiveQueries,
+  handleRewind,
+  combineOutcomes,
   BUILTIN_COMMANDS,
   type CommandContext,
   type SessionState,
 } from "./chat.js";
 import { createMockRequest, createMockResponse, createTempDir, cleanupTempDir } from "../test-utils.js";
+import { QueryRunner, registerRunner } from "../query-runner.js";
+import { deleteSession } from "../session-store.js";
+import { enqueueMessage, getQueue } from "../message-queue.js";
+import { setTranscriptsDir } from "../transcript-store.js";
 
 const DEFAULT_MODEL = "claude-opus-4-6";
 
@@ -46,6 +54,23 @@ describe("Built-in commands", () => {
         { type: "assistant", data: { text: "Session cleared." } },
       ]);
     });
+
+    it("removes the session's transcript and queued follow-ups", async () => {
+      const tmpDir = await createTempDir();
+      setTranscriptsDir(tmpDir);
+      try {
+        const transcript = path.join(tmpDir, "clear-me.jsonl");
+        await writeFile(transcript, "{}\n", "utf-8");
+        enqueueMessage("clear-me", "and then run the tests");
+
+        await handleClear(createTestContext({ sessionId: "clear-me" }));
+
+        expect(getQueue("clear-me")).toEqual([]);
+        await expect(access(transcript)).rejects.toThrow();
+      } finally {
+        await cleanupTempDir(tmpDir);
+      }
+    });
   });
 
   describe("/help", () => {
@@ -104,6 +129,19 @@ describe("Built-in commands", () => {
       expect(text).toContain("5");
     });
 
+    it("shows the session title and summary", async () => {
+      const session = getSession(undefined, DEFAULT_MODEL);
+      session.title = "Fix login redirect";
+      session.summary = "Fix login redirect. 2 turns so far.";
+      const ctx = createTestContext({ session });
+
+      await handleStatus(ctx);
+
+      const text = (ctx.events[0].data as { text: string }).text;
+      expect(text).toContain("**Fix login redirect**");
+      expect(text).toContain("2 turns so far.");
+    });
+
     it("includes init data when available", async () => {
       const session = getSession(undefined, DEFAULT_MODEL);
       session.lastInit = {
@@ -430,3 +468,77 @@ describe("Chat utility endpoint validation patterns", () => {
     expect(session.permissionMode).toBe("plan");
   });
 });
+
+describe("POST /api/chat/rewind (handleRewind)", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    saveSession("s-rewind", { ...getSession(undefined, DEFAULT_MODEL), checkpoints: ["uuid-0", "uuid-1"] });
+  });
+
+  afterEach(() => {
+    deleteSession("s-rewind");
+    vi.useRealTimers();
+  });
+
+  it.each([1.5, -1, 2, "1"])("rejects checkpointIndex %j", async (checkpointIndex) => {
+    const res = createMockResponse();
+    await handleRewind(createMockRequest({ body: { sessionId: "s-rewind", checkpointIndex } }), res);
+    expect(res.status).toHaveBeenCalledWith(400);
+    expect(res.json.mock.calls[0][0].error).toMatch(/Invalid checkpoint index/);
+  });
+});
+
+describe("GET /api/chat/active", () => {
+  beforeEach(() => {
+    // saveSession schedules a debounced disk flush — keep it from firing
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    deleteSession("s-active-2");
+    vi.useRealTimers();
+  });
+
+  it("lists running queries with their project, prompt and session", () => {
+    const startedAt = Date.now() - 5000;
+    const fresh = new QueryRunner("q-active-1", "q-active-1", undefined, { projectPath: "app", prompt: "Fix the build", startedAt });
+    const known = new QueryRunner("q-active-2", "s-active-2", undefined, { projectPath: "api", prompt: "Nightly deps", startedAt, unattended: true });
+    const done = new QueryRunner("q-active-3", "s-active-3", undefined, { projectPath: "app", prompt: "Done already", startedAt });
+    done.setStatus("completed");
+    [fresh, known, done].forEach(registerRunner);
+    // Earlier turns of the session don't count; this query's finished turn plus the one streaming do
+    saveSession("s-active-2", { ...getSession(undefined, DEFAULT_MODEL), title: "Nightly deps", totalCostUsd: 5 });
+    known.settleCost(0.25);
+    known.startResponse("claude-sonnet-4-5", { input_tokens: 10_000, output_tokens: 1 });
+    known.updateResponse({ input_tokens: null, output_tokens: 2_000 });
+
+    const res = createMockResponse();
+    handleActiveQueries(createMockRequest(), res);
+    const { queries } = res.json.mock.calls[0][0];
+    const ours = queries.filter((q: { queryId: string }) => q.queryId.startsWith("q-active-"));
+
+    expect(ours).toHaveLength(2);
+    expect(ours.find((q: { queryId: string }) => q.queryId === "q-active-1")).toMatchObject({
+      sessionId: null,
+      projectPath: "app",
+      title: "Fix the build",
+      pendingPermissions: 0,
+      unattended: false,
+    });
+    const scheduled = ours.find((q: { queryId: string }) => q.queryId === "q-active-2");
+    expect(scheduled).toMatchObject({ sessionId: "s-active-2", unattended: true });
+    expect(scheduled.costUsd).toBeCloseTo(0.25 + 0.03 + 0.03);
+    expect(scheduled.elapsedMs).toBeGreaterThanOrEqual(5000);
+  });
+});
+
+describe("combineOutcomes", () => {
+  it("adds up cost and turns and keeps the last query's result", () => {
+    const first = { queryId: "q1", sessionId: "s1", status: "completed" as const, costUsd: 0.1, numTurns: 2, result: "Done" };
+    const followUp = { queryId: "q2", sessionId: "s1", status: "error" as const, costUsd: 0.05, numTurns: 1, error: "max_turns" };
+    const combined = combineOutcomes(first, followUp);
+    expect(combined).toEqual({ queryId: "q1", sessionId: "s1", status: "error", costUsd: expect.any(Number), numTurns: 3, error: "max_turns" });
+    expect(combined.costUsd).toBeCloseTo(0.15);
+    expect(combineOutcomes({ ...first, numTurns: undefined }, { ...followUp, numTurns: undefined }).numTurns).toBeUndefined();
+  });
+});
@@ -1,6 +1,6 @@
 import { Router } from "express";
 import { query } from "@anthropic-ai/claude-agent-sdk";
-import type { PermissionResult, Query } from "@anthropic-ai/claude-agent-sdk";
+import type { PermissionResult, Query, SDKUserMessage } from "@anthropic-ai/claude-agent-sdk";
 import crypto from "crypto";
 import path from "path";
 import fs from "fs/promises";
@@ -10,7 +10,11 @@ import {
   getSession,
   saveSession,
   deleteSession,
+  getAllSessions,
   getSessionCount,
+  listSessions,
+  getForkTree,
+  titleFromPrompt,
   type SessionState,
 } from "../session-store.js";
 import {
@@ -20,10 +24,47 @@ import {
   getRunnerByQueryId,
   getRunnerBySessionId,
   markRunnerCompleted,
+  listRunners,
   getRunnerStats,
   type IndexedEvent,
   type EventListener,
+  type RunnerStatus,
 } from "../query-runner.js";
+import { fallbackSummary, summarizeWithModel, type TurnInfo } from "../session-summary.js";
+import { ChangeTracker, rememberDiffs, getRememberedDiff } from "../change-tracker.js";
+import { buildCheckpointTimeline } from "../checkpoints.js";
+import { sendPush, pushPayloadForEvent, chatUrl } from "../push.js";
+import { createWorktree, removeWorktree, WorktreeError, type SessionWorktree } from "../worktrees.js";
+import { getRules, addRule, evaluateRules, suggestRule, formatRule } from "../permission-rules.js";
+import { denial, finalInput, ruleToRemember, startExpiryTimers, type PermissionRequestInfo } from "../permission-requests.js";
+import {
+  validateAttachments,
+  prepareAttachments,
+  promptWithContent,
+  describeAttachments,
+  type AttachmentRecord,
+  type ContentBlock,
+} from "../attachments.js";
+import {
+  getQueue,
+  enqueueMessage,
+  updateQueuedMessage,
+  removeQueuedMessage,
+  takeNextQueued,
+  clearQueue,
+  MAX_QUEUED_MESSAGES,
+  type QueuedMessage,
+} from "../message-queue.js";
+import {
+  appendTranscript,
+  forkTranscript,
+  deleteTranscript,
+  readTranscript,
+  findForkPoint,
+  isValidSessionId,
+  type ForkPoint,
+  TRANSCRIPT_EVENT_TYPES,
+} from "../transcript-store.js";
 
 const router = Router();
 const DEFAULT_MODEL = "claude-opus-4-6";
@@ -31,16 +72,20 @@ const DEFAULT_MODEL = "claude-opus-4-6";
 // ── Active query tracking (for abort + mode changes) ────────────────
 const activeAborts = new Map<string, AbortController>();
 const activeQueries = new Map<string, Query>(); // sessionId → active query (for setPermissionMode)
+const queriesById = new Map<string, Query>();    // queryId → SDK query (for graceful interrupt)
 
 // ── Pending permission requests ─────────────────────────────────────
-interface PendingPermission {
+interface PendingPermission extends PermissionRequestInfo {
   resolve: (result: PermissionResult) => void;
   reject: (err: Error) => void;
-  timeout: ReturnType<typeof setTimeout>;
-  input: Record<string, unknown>;
+  timers: ReturnType<typeof setTimeout>[];  // Expiry warning + expiry (none when waiting indefinitely)
+  projectPath: string;
 }
 const pendingPermissions = new Map<string, PendingPermission>();
 
+const DEFAULT_PERMISSION_TIMEOUT_SEC = 120;
+const VALID_EXPIRY_POLICIES = new Set(["deny", "wait", "plan"]);
+
 // Re-export for tests and other modules
 export { getSession, saveSession, type SessionState };
 
@@ -266,9 +311,11 @@ export async function handleMcp(ctx: CommandContext) {
 }
 
 export async function handleClear(ctx: CommandContext) {
-  // Delete session state from memory (and disk via session-store)
+  // Delete session state from memory (and disk via session-store), its transcript, and any queued follow-ups
   if (ctx.sessionId) {
     deleteSession(ctx.sessionId);
+    clearQueue(ctx.sessionId);
+    await deleteTranscript(ctx.sessionId);
     console.error(`[chat] cleared session state for ${ctx.sessionId}`);
   }
   ctx.sendEvent("assistant", { text: "Session cleared." });
@@ -281,6 +328,8 @@ export async function handleStatus(ctx: CommandContext) {
   const remaining = contextWindow > 0 ? ((contextWindow - contextTokens) / 1000).toFixed(0) : "?";
 
   let text = "## Session Status\n\n";
+  if (ctx.session.title) text += `**${ctx.session.title}**\n\n`;
+  if (ctx.session.summary) text += `${ctx.session.summary}\n\n`;
   text += `- **Context:** ${pct}% used (${remaining}k remaining)\n`;
   text += `- **Model:** ${model}\n`;
   text += `- **Mode:** ${permissionMode}\n`;
@@ -350,18 +399,62 @@ function subscribeResponse(
 // ── POST /api/chat — SSE streaming response ────────────────────────
 router.post("/", async (req, res) => {
   const baseDir = process.env.BASE_DIR!;
-  const { message, sessionId, projectPath, continue: continueSession, forkSession, outputFormat } = req.body as ChatRequest;
+  const { sessionId, projectPath, continue: continueSession, forkSession, forkFromQueryId, outputFormat, attachments, worktree: useWorktree } = req.body as ChatRequest;
+  const message = req.body.message ?? "";
 
-  if (!message || !projectPath) {
-    res.status(400).json({ error: "message and projectPath are required" });
+  if ((!message && !attachments?.length) || !projectPath) {
+    res.status(400).json({ error: "message (or attachments) and projectPath are required" });
+    return;
+  }
+  const attachmentError = validateAttachments(attachments);
+  if (attachmentError) {
+    res.status(400).json({ error: attachmentError });
     return;
   }
 
-  const cwd = path.resolve(baseDir, projectPath);
-  if (!cwd.startsWith(path.resolve(baseDir))) {
+  const projectCwd = path.resolve(baseDir, projectPath);
+  if (!projectCwd.startsWith(path.resolve(baseDir))) {
     res.status(403).json({ error: "Path traversal not allowed" });
     return;
   }
+  // A session started in its own worktree (and any fork of it) keeps running there
+  const existingWorktree = sessionId ? getSession(sessionId, DEFAULT_MODEL).worktree : undefined;
+  let cwd = existingWorktree ? path.resolve(baseDir, existingWorktree.cwd) : projectCwd;
+
+  // Forking from an earlier prompt — resolve where to cut the parent session
+  let forkPoint: ForkPoint | null = null;
+  if (forkSession && sessionId && forkFromQueryId) {
+    forkPoint = await findForkPoint(sessionId, forkFromQueryId).catch(() => null);
+    if (!forkPoint) {
+      res.status(400).json({ error: "Can't fork from this message" });
+      return;
+    }
+  }
+
+  let worktree: SessionWorktree | undefined;
+  if (useWorktree && !sessionId) {
+    try {
+      worktree = await createWorktree(baseDir, projectCwd, crypto.randomUUID().slice(0, 8));
+      cwd = path.resolve(baseDir, worktree.cwd);
+      console.error(`[chat] created worktree ${worktree.path} on ${worktree.branch}`);
+    } catch (err: unknown) {
+      const message = err instanceof Error ? err.message : "Unknown error";
+      res.status(err instanceof WorktreeError ? 400 : 500).json({ error: message });
+      return;
+    }
+  }
+
+  let content: ContentBlock[] | undefined;
+  let attachmentRecords: AttachmentRecord[] | undefined;
+  if (attachments?.length) {
+    try {
+      ({ content, records: attachmentRecords } = await prepareAttachments(attachments, cwd));
+    } catch (err: unknown) {
+      if (worktree) await removeWorktree(baseDir, worktree);
+      res.status(500).json({ error: err instanceof Error ? err.message : "Unknown error" });
+      return;
+    }
+  }
 
   res.writeHead(200, {
     "Content-Type": "text/event-stream",
@@ -375,7 +468,7 @@ router.post("/", async (req, res) => {
   };
 
   // ── Check for built-in commands first ──────────────────────────
-  if (message.startsWith("/")) {
+  if (message.startsWith("/") && !content) {
     const cmdMatch = message.match(/^\/(\S+)\s*(.*)/s);
     if (cmdMatch) {
       const [, cmdName, cmdArgs] = cmdMatch;
@@ -396,6 +489,66 @@ router.post("/", async (req, res) => {
     }
   }
 
+  await runQuery(
+    { message, content, attachmentRecords, sessionId, projectPath, cwd, continueSession, forkSession, forkPoint, outputFormat, worktree },
+    res
+  );
+});
+
+interface QueryParams {
+  message: string;
+  settings?: Pick<SessionState, "permissionMode" | "budgetCapUsd" | "maxTurns">;  // Applied to a new session
+  worktree?: SessionWorktree;               // New session only: the worktree `cwd` points into
+  unattended?: boolean;                     // Nobody to answer permission prompts — deny what rules don't allow
+  onStart?: (queryId: string) => void;      // Called once the runner is registered
+  onSession?: (sessionId: string) => void;  // Called once the SDK assigns the session ID
+  content?: ContentBlock[];                 // Attachment blocks sent ahead of the prompt
+  attachmentRecords?: AttachmentRecord[];
+  sessionId?: string;
+  projectPath: string;
+  cwd: string;
+  continueSession?: boolean;
+  forkSession?: boolean;
+  forkPoint: ForkPoint | null;
+  outputFormat?: ChatRequest["outputFormat"];
+}
+
+export interface QueryOutcome {
+  queryId: string;
+  sessionId?: string;
+  status: RunnerStatus;
+  costUsd: number;
+  numTurns?: number;
+  result?: string;
+  error?: string;
+}
+
+// A run that drained queued follow-ups: costs and turns add up, the last query decides the rest
+export function combineOutcomes(first: QueryOutcome, followUp: QueryOutcome): QueryOutcome {
+  return {
+    ...followUp,
+    queryId: first.queryId,
+    sessionId: followUp.sessionId ?? first.sessionId,
+    costUsd: first.costUsd + followUp.costUsd,
+    numTurns: first.numTurns === undefined && followUp.numTurns === undefined
+      ? undefined
+      : (first.numTurns ?? 0) + (followUp.numTurns ?? 0),
+  };
+}
+
+/**
+ * Run one prompt through the SDK, streaming to an already-open SSE response
+ * (or to the runner's buffer alone when `res` is null). When it finishes
+ * cleanly and the session has queued follow-ups, the next one runs on the
+ * same response.
+ */
+async function runQuery(params: QueryParams, res: import("express").Response | null): Promise<QueryOutcome> {
+  const baseDir = process.env.BASE_DIR!;
+  const {
+    message, content, attachmentRecords, sessionId, projectPath, cwd, continueSession, forkSession, forkPoint, outputFormat,
+    settings, worktree, unattended, onStart, onSession,
+  } = params;
+
   // ── Check for custom .md commands ──────────────────────────────
   let prompt = message;
   const expanded = await expandSlashCommand(message, cwd);
@@ -404,27 +557,54 @@ router.post("/", async (req, res) => {
   }
 
   // ── Send to SDK ────────────────────────────────────────────────
-  const session = getSession(sessionId, DEFAULT_MODEL);
+  // A fork gets its own copy so lineage and stats don't leak back into the parent.
+  // Checkpoints after the fork point belong to the parent's later turns — drop them all.
+  const parentSession = getSession(sessionId, DEFAULT_MODEL);
+  const session = forkSession
+    ? {
+        ...parentSession,
+        checkpoints: forkPoint ? [] : [...(parentSession.checkpoints || [])],
+        checkpointTurns: forkPoint ? [] : [...(parentSession.checkpointTurns || [])],
+      }
+    : parentSession;
+  if (settings && !sessionId) Object.assign(session, settings);
+  if (worktree && !sessionId) session.worktree = worktree;
+  // Chatting in a scheduled run's session makes it one to keep
+  if (unattended) session.unattended = true;
+  else delete session.unattended;
+  session.projectPath = projectPath;
+  // An attachment-only prompt is labelled by its files in titles and summaries
+  const promptLabel = message || describeAttachments(attachmentRecords ?? []);
+  if (!session.title) session.title = titleFromPrompt(promptLabel);
   const queryId = crypto.randomUUID();
   const abortController = new AbortController();
   activeAborts.set(queryId, abortController);
   let resultSessionId = sessionId;
+  const changeTracker = new ChangeTracker(cwd, path.resolve(baseDir));
 
   // Create QueryRunner — decouples query lifecycle from SSE connection
-  const runner = new QueryRunner(queryId, sessionId || queryId, abortController);
+  const runner = new QueryRunner(queryId, sessionId || queryId, abortController, {
+    projectPath,
+    prompt: promptLabel,
+    startedAt: Date.now(),
+    ...(unattended ? { unattended } : {}),
+  });
   registerRunner(runner);
+  onStart?.(queryId);
 
   // Subscribe this SSE response as a listener on the runner
-  const { listener, heartbeat } = subscribeResponse(res, runner);
+  const subscription = res ? subscribeResponse(res, runner) : null;
+  const outcome: QueryOutcome = { queryId, status: "running", costUsd: 0 };
 
   // Clean up abort + pending permissions for this query (called when query ends)
   const cleanupQuery = () => {
     activeAborts.delete(queryId);
+    queriesById.delete(queryId);
     if (resultSessionId) activeQueries.delete(resultSessionId);
     // Deny all pending permissions for this query
     for (const [reqId, pending] of pendingPermissions) {
       if (reqId.startsWith(queryId)) {
-        clearTimeout(pending.timeout);
+        pending.timers.forEach(clearTimeout);
         pending.resolve({ behavior: "deny", message: "Query aborted", interrupt: true });
         pendingPermissions.delete(reqId);
       }
@@ -432,17 +612,41 @@ router.post("/", async (req, res) => {
   };
 
   // Client disconnect: remove listener but do NOT abort the query
-  res.on("close", () => {
+  const unsubscribe = () => {
+    if (!subscription) return;
+    clearInterval(subscription.heartbeat);
+    runner.removeListener(subscription.listener);
+  };
+  res?.on("close", () => {
     console.error(`[chat] client disconnected from query ${queryId} (query continues running)`);
-    clearInterval(heartbeat);
-    runner.removeListener(listener);
+    unsubscribe();
   });
 
+  // Transcript — new and forked sessions only learn their ID at init, so buffer until then
+  let transcriptSessionId: string | null = sessionId && !forkSession ? sessionId : null;
+  const pendingTranscript: { type: string; data: unknown; queryId: string; timestamp: number }[] = [];
+  const recordTranscript = (type: string, data: unknown) => {
+    if (!TRANSCRIPT_EVENT_TYPES.has(type)) return;
+    const entry = { type, data, queryId, timestamp: Date.now() };
+    if (transcriptSessionId) {
+      appendTranscript(transcriptSessionId, [entry]);
+    } else {
+      pendingTranscript.push(entry);
+    }
+  };
+
   // Use runner.bufferEvent as the sendEvent for the SDK loop
   const sendEvent = (type: string, data: unknown) => {
     runner.bufferEvent(type, data);
+    recordTranscript(type, data);
+    // Phone is probably in a pocket — push the events that need a human
+    const push = pushPayloadForEvent(type, data, projectPath, queryId, transcriptSessionId ?? undefined);
+    if (push) sendPush(push);
   };
 
+  recordTranscript("user", attachmentRecords ? { text: message, attachments: attachmentRecords } : { text: message });
+
+  let next: QueuedMessage | undefined;
   try {
     console.error(`[chat] prompt=${prompt.slice(0, 200)}${prompt.length > 200 ? "..." : ""}`);
     console.error(`[chat] cwd=${cwd} sessionId=${sessionId || "new"} model=${session.model} mode=${session.permissionMode}`);
@@ -451,9 +655,12 @@ router.post("/", async (req, res) => {
 
     // Build session resume/continue/fork options
     const sessionOptions: Record<string, unknown> = {};
-    if (sessionId) {
+    if (forkPoint && !forkPoint.resumeAt) {
+      // Forking before the first turn — nothing to carry over, start clean
+    } else if (sessionId) {
       sessionOptions.resume = sessionId;
       if (forkSession) sessionOptions.forkSession = true;
+      if (forkPoint?.resumeAt) sessionOptions.resumeSessionAt = forkPoint.resumeAt;
     } else if (continueSession) {
       sessionOptions.continue = true;
     }
@@ -464,7 +671,7 @@ router.post("/", async (req, res) => {
       : undefined;
 
     const response = query({
-      prompt,
+      prompt: content ? promptWithContent(content, prompt) : prompt,
       options: {
         cwd,
         ...sessionOptions,
@@ -489,32 +696,62 @@ router.post("/", async (req, res) => {
         ...(outputFormat ? { outputFormat } : {}),
         includePartialMessages: true,
         abortController,
-        canUseTool: (toolName, input, options) => {
+        canUseTool: async (toolName, input, options) => {
+          // Saved "always" rules answer without asking (an unreadable rules file just means asking)
+          const rules = await getRules(projectPath).catch(() => []);
+          const ruled = evaluateRules(rules, toolName, input, cwd);
+          if (ruled) {
+            console.error(`[chat] permission ${toolName} → ${ruled.behavior} by rule ${formatRule(ruled.rule)}`);
+            return ruled.behavior === "allow"
+              ? { behavior: "allow", updatedInput: input }
+              : { behavior: "deny", message: `Denied by permission rule ${formatRule(ruled.rule)}` };
+          }
+
+          if (unattended) {
+            console.error(`[chat] permission ${toolName} → deny (unattended run)`);
+            return {
+              behavior: "deny",
+              message: "This is an unattended run and nobody is available to approve this. Carry on without it if you can, and say in your final answer what needed approval.",
+            };
+          }
+
+          const suggestedRule = suggestRule(toolName, input, cwd);
           return new Promise<PermissionResult>((resolve, reject) => {
             const requestId = `${queryId}:${crypto.randomUUID()}`;
 
-            // Warn at 90s that permission is expiring
-            const warning = setTimeout(() => {
-              sendEvent("permission_warning", {
-                requestId,
-                message: "Permission request expiring soon...",
-              });
-            }, 90_000);
-
-            // Auto-deny after 120s (mobile users may switch apps and come back)
-            const timeout = setTimeout(() => {
-              console.error(`[chat] permission timeout for ${requestId}`);
-              clearTimeout(warning);
-              pendingPermissions.delete(requestId);
-              resolve({ behavior: "deny", message: "Permission request timed out" });
-            }, 120_000);
+            // Mobile users may switch apps and come back — what happens when nobody answers is a session setting
+            const timeoutSec = session.permissionTimeoutSec ?? DEFAULT_PERMISSION_TIMEOUT_SEC;
+            const expiry = session.permissionExpiry ?? "deny";
+            const timers = startExpiryTimers({
+              expiry,
+              timeoutSec,
+              warn: () => sendEvent("permission_warning", { requestId, message: "Permission request expiring soon..." }),
+              switchToPlan: () => {
+                session.permissionMode = "plan";
+                if (resultSessionId) saveSession(resultSessionId, session);
+                response.setPermissionMode("plan").catch((err) => {
+                  console.error(`[chat] setPermissionMode failed: ${err}`);
+                });
+              },
+              expire: (result, toPlan) => {
+                console.error(`[chat] permission timeout for ${requestId} (${expiry})`);
+                pendingPermissions.delete(requestId);
+                sendEvent("permission_expired", { requestId, policy: expiry, ...(toPlan ? { mode: "plan" } : {}) });
+                sendPush({
+                  title: `${projectPath.split("/").pop() || projectPath}: permission timed out`,
+                  body: `${toolName} was denied after ${timeoutSec}s without an answer${toPlan ? " — switched to plan mode" : ""}`,
+                  url: chatUrl(projectPath, transcriptSessionId ?? undefined),
+                  tag: `permission-${requestId}`,
+                });
+                resolve(result);
+              },
+            });
 
-            pendingPermissions.set(requestId, { resolve, reject, timeout, input });
+            pendingPermissions.set(requestId, { resolve, reject, timers, toolName, input, cwd, projectPath, suggestedRule });
 
             // Check if already aborted before registering listener
             if (options.signal.aborted) {
-              clearTimeout(timeout);
-              clearTimeout(warning);
+              timers.forEach(clearTimeout);
               pendingPermissions.delete(requestId);
               resolve({ behavior: "deny", message: "Query aborted", interrupt: true });
               return;
@@ -523,8 +760,7 @@ router.post("/", async (req, res) => {
             // Listen for abort to auto-deny
             options.signal.addEventListener("abort", () => {
               if (pendingPermissions.has(requestId)) {
-                clearTimeout(timeout);
-                clearTimeout(warning);
+                timers.forEach(clearTimeout);
                 pendingPermissions.delete(requestId);
                 resolve({ behavior: "deny", message: "Query aborted", interrupt: true });
               }
@@ -536,6 +772,9 @@ router.post("/", async (req, res) => {
               toolName,
               input,
               decisionReason: options.decisionReason,
+              suggestedRule,
+              expiresAt: expiry === "wait" ? null : Date.now() + timeoutSec * 1000,
+              expiry,
             });
           });
         },
@@ -546,6 +785,10 @@ router.post("/", async (req, res) => {
                 toolName: input.hook_event_name === "PreToolUse" ? (input as any).tool_name : undefined,
                 toolInput: input.hook_event_name === "PreToolUse" ? (input as any).tool_input : undefined,
               });
+              // Snapshot files before the tool touches them (awaited — the tool waits for the hook)
+              if (input.hook_event_name === "PreToolUse") {
+                await changeTracker.beforeTool(input.tool_name, input.tool_input).catch(() => {});
+              }
               return { continue: true };
             }],
           }],
@@ -553,7 +796,11 @@ router.post("/", async (req, res) => {
             hooks: [async (input) => {
               sendEvent("hook_post_tool_use", {
                 toolName: input.hook_event_name === "PostToolUse" ? (input as any).tool_name : undefined,
+                toolUseId: input.hook_event_name === "PostToolUse" ? (input as any).tool_use_id : undefined,
               });
+              if (input.hook_event_name === "PostToolUse") {
+                changeTracker.confirmTool(input.tool_name, input.tool_input, input.tool_use_id);
+              }
               return { continue: true };
             }],
           }],
@@ -561,8 +808,11 @@ router.post("/", async (req, res) => {
         stderr: (data: string) => console.error(`[chat][stderr] ${data}`),
       },
     });
+    queriesById.set(queryId, response);
 
     let eventCount = 0;
+    let lastAssistantUuid: string | undefined;
+    let resultIsError = false;
 
     // Fetch SDK metadata after init (non-blocking)
     const fetchSdkMetadata = async () => {
@@ -601,7 +851,9 @@ router.post("/", async (req, res) => {
         case "system": {
           if (m.subtype === "init") {
             resultSessionId = m.session_id;
+            outcome.sessionId = m.session_id;
             activeQueries.set(m.session_id, response);
+            onSession?.(m.session_id);
 
             // Update runner's sessionId mapping now that we have the real one
             if (m.session_id && m.session_id !== runner.sessionId) {
@@ -611,6 +863,14 @@ router.post("/", async (req, res) => {
             // Track fork lineage
             if (forkSession && sessionId && m.session_id !== sessionId) {
               session.forkedFrom = sessionId;
+              session.forkPoint = forkPoint?.seq;
+              forkTranscript(sessionId, m.session_id, forkPoint?.seq);
+            }
+
+            // Flush transcript entries recorded before the session ID was known
+            if (!transcriptSessionId) {
+              transcriptSessionId = m.session_id;
+              appendTranscript(m.session_id, pendingTranscript.splice(0));
             }
 
             // Track init data in session state
@@ -637,6 +897,7 @@ router.post("/", async (req, res) => {
               agents: m.agents,
               claudeCodeVersion: m.claude_code_version,
               cwd: m.cwd,
+              ...(session.worktree ? { worktree: session.worktree } : {}),
             });
 
             // Fetch supported models + live MCP status (non-blocking)
@@ -656,10 +917,13 @@ router.post("/", async (req, res) => {
         }
 
         case "assistant": {
+          // Remembered on the result so a later fork can resume right after this turn
+          if (m.uuid) lastAssistantUuid = m.uuid;
           for (const block of msg.message.content) {
             if (block.type === "text") {
               sendEvent("assistant", { text: block.text });
             } else if (block.type === "tool_use") {
+              changeTracker.recordToolCall(block.id, block.name, block.input);
               sendEvent("tool_call", {
                 name: block.name,
                 input: block.input,
@@ -674,6 +938,10 @@ router.post("/", async (req, res) => {
           // Track user message UUIDs for file checkpointing
           if (m.uuid && !m.isSynthetic) {
             if (!session.checkpoints) session.checkpoints = [];
+            // The turn's first checkpoint is its entry on the timeline
+            if (!session.checkpointTurns?.some((t) => t.queryId === queryId)) {
+              session.checkpointTurns = [...(session.checkpointTurns || []), { queryId, index: session.checkpoints.length }];
+            }
             session.checkpoints.push(m.uuid);
           }
           for (const block of m.message.content) {
@@ -707,6 +975,12 @@ router.post("/", async (req, res) => {
         case "result": {
           console.error(`[chat] RESULT: subtype=${m.subtype} is_error=${m.is_error} num_turns=${m.num_turns} duration_ms=${m.duration_ms}`);
           if (m.errors) console.error(`[chat] ERRORS: ${JSON.stringify(m.errors)}`);
+          resultIsError = m.is_error;
+          outcome.costUsd += m.total_cost_usd || 0;
+          runner.settleCost(m.total_cost_usd || 0);
+          outcome.numTurns = m.num_turns;
+          if (typeof m.result === "string") outcome.result = m.result;
+          if (m.is_error) outcome.error = m.errors?.join("\n") || m.subtype;
 
           // Track cost, message count, and context window size
           if (m.total_cost_usd) session.totalCostUsd += m.total_cost_usd;
@@ -715,7 +989,40 @@ router.post("/", async (req, res) => {
             const modelData = Object.values(m.modelUsage)[0] as { contextWindow?: number } | undefined;
             if (modelData?.contextWindow) session.contextWindow = modelData.contextWindow;
           }
-          if (resultSessionId) saveSession(resultSessionId, session);
+
+          // Rolling title/summary — deterministic now, optionally refined by a cheap model
+          const turn: TurnInfo = {
+            title: session.title || titleFromPrompt(promptLabel),
+            previousSummary: session.summary,
+            prompt: promptLabel,
+            result: typeof m.result === "string" ? m.result : undefined,
+            turns: session.messageCount,
+          };
+          session.summary = fallbackSummary(turn);
+          if (resultSessionId) {
+            saveSession(resultSessionId, session);
+            const summarySessionId = resultSessionId;
+            summarizeWithModel(turn, cwd).then((refined) => {
+              // Skip if the session was deleted or cleared meanwhile
+              if (!refined || !getAllSessions().has(summarySessionId)) return;
+              if (refined.title) session.title = refined.title;
+              if (refined.summary) session.summary = refined.summary;
+              saveSession(summarySessionId, session);
+            });
+          }
+
+          // Per-turn change summary — sent just before the result it belongs to
+          if (changeTracker.hasChanges) {
+            try {
+              const { summary, diffs } = await changeTracker.summarize();
+              if (summary.files.length > 0) {
+                rememberDiffs(queryId, diffs);
+                sendEvent("files_changed", { queryId, ...summary });
+              }
+            } catch (err: unknown) {
+              console.error(`[chat] change summary failed: ${err instanceof Error ? err.message : err}`);
+            }
+          }
 
           sendEvent("result", {
             subtype: m.subtype,
@@ -730,6 +1037,9 @@ router.post("/", async (req, res) => {
             contextWindow: session.contextWindow,
             sessionCostUsd: session.totalCostUsd,
             checkpoints: session.checkpoints || [],
+            title: session.title,
+            summary: session.summary,
+            assistantUuid: lastAssistantUuid,
           });
           break;
         }
@@ -750,6 +1060,7 @@ router.post("/", async (req, res) => {
           if (eventType === "message_start") {
             const usage = event.message?.usage;
             if (usage) {
+              runner.startResponse(event.message.model, usage);
               session.contextTokens =
                 (usage.input_tokens || 0) +
                 (usage.cache_creation_input_tokens || 0) +
@@ -760,6 +1071,8 @@ router.post("/", async (req, res) => {
                 contextWindow: session.contextWindow,
               });
             }
+          } else if (eventType === "message_delta") {
+            if (event.usage) runner.updateResponse(event.usage);
           } else if (eventType === "content_block_start") {
             const block = event.content_block;
             sendEvent("stream_event", {
@@ -797,20 +1110,236 @@ router.post("/", async (req, res) => {
     if (eventCount === 0) {
       sendEvent("error", { error: "SDK returned no events" });
     }
+    // Clean finish — the next queued follow-up (if any) becomes the next user turn
+    if (eventCount > 0 && !resultIsError && !abortController.signal.aborted && resultSessionId) {
+      next = takeNextQueued(resultSessionId);
+      if (next) sendEvent("queue_next", { id: next.id, message: next.message, sessionId: resultSessionId });
+    }
     sendEvent("done", {});
     runner.setStatus("completed");
     markRunnerCompleted(queryId);
+    outcome.status = abortController.signal.aborted ? "aborted" : eventCount === 0 || resultIsError ? "error" : "completed";
+    if (eventCount === 0) outcome.error = "SDK returned no events";
   } catch (err: unknown) {
     const errMsg = err instanceof Error ? err.stack || err.message : String(err);
     console.error(`[chat] ERROR: ${errMsg}`);
     sendEvent("error", { error: errMsg });
     runner.setStatus("error");
     markRunnerCompleted(queryId);
+    outcome.status = abortController.signal.aborted ? "aborted" : "error";
+    outcome.error = err instanceof Error ? err.message : String(err);
   } finally {
     cleanupQuery();
-    // End any still-connected responses
-    try { res.end(); } catch { /* already closed */ }
   }
+
+  if (next && resultSessionId) {
+    console.error(`[chat] running queued follow-up ${next.id} for ${resultSessionId}`);
+    unsubscribe();
+    const followUp = await runQuery({ message: next.message, sessionId: resultSessionId, projectPath, cwd, forkPoint: null, unattended }, res);
+    return combineOutcomes(outcome, followUp);
+  }
+
+  // End any still-connected responses
+  try { res?.end(); } catch { /* already closed */ }
+  return outcome;
+}
+
+export interface UnattendedQuery {
+  prompt: string;
+  projectPath: string;
+  settings: NonNullable<QueryParams["settings"]>;
+  onStart?: (queryId: string) => void;
+  onSession?: (sessionId: string) => void;
+}
+
+/**
+ * Run a prompt in a new session with nobody watching (scheduled runs, tasks). It
+ * goes through a QueryRunner like any chat, so a phone can open the session
+ * and follow along, but permission prompts are denied unless a rule allows
+ * the call. Resolves when the query finishes.
+ */
+export async function runUnattendedQuery({ prompt, projectPath, settings, onStart, onSession }: UnattendedQuery): Promise<QueryOutcome> {
+  const baseDir = process.env.BASE_DIR!;
+  const cwd = path.resolve(baseDir, projectPath);
+  if (!cwd.startsWith(path.resolve(baseDir))) throw new Error("Path traversal not allowed");
+  return runQuery({ message: prompt, projectPath, cwd, forkPoint: null, settings, unattended: true, onStart, onSession }, null);
+}
+
+// ── GET /api/chat/history — paginated transcript for a session ──────
+const DEFAULT_HISTORY_LIMIT = 200;
+const MAX_HISTORY_LIMIT = 1000;
+
+router.get("/history", async (req, res) => {
+  const sessionId = req.query.sessionId as string | undefined;
+  if (!sessionId) {
+    res.status(400).json({ error: "sessionId is required" });
+    return;
+  }
+  if (!isValidSessionId(sessionId)) {
+    res.status(400).json({ error: "Invalid sessionId" });
+    return;
+  }
+
+  const limit = Math.min(Math.max(parseInt(req.query.limit as string, 10) || DEFAULT_HISTORY_LIMIT, 1), MAX_HISTORY_LIMIT);
+  const beforeParam = parseInt(req.query.before as string, 10);
+  const before = Number.isNaN(beforeParam) ? undefined : beforeParam;
+
+  try {
+    const page = await readTranscript(sessionId, { before, limit });
+    if (!page) {
+      res.status(404).json({ error: "No history for this session" });
+      return;
+    }
+    res.json({ sessionId, ...page });
+  } catch (err: unknown) {
+    const message = err instanceof Error ? err.message : "Unknown error";
+    res.status(500).json({ error: message });
+  }
+});
+
+// ── GET /api/chat/sessions — session browser for one project ───────
+router.get("/sessions", (req, res) => {
+  const projectPath = req.query.projectPath as string | undefined;
+  if (!projectPath) {
+    res.status(400).json({ error: "projectPath is required" });
+    return;
+  }
+
+  const sessions = listSessions(projectPath, req.query.q as string | undefined).map((s) => ({
+    ...s,
+    queryActive: getRunnerBySessionId(s.sessionId)?.status === "running",
+  }));
+  res.json({ sessions });
+});
+
+// ── GET /api/chat/fork-tree — every branch related to a session ─────
+router.get("/fork-tree", (req, res) => {
+  const sessionId = req.query.sessionId as string | undefined;
+  if (!sessionId) {
+    res.status(400).json({ error: "sessionId is required" });
+    return;
+  }
+
+  const root = getForkTree(sessionId);
+  if (!root) {
+    res.status(404).json({ error: "Session not found" });
+    return;
+  }
+  res.json({ sessionId, root });
+});
+
+// ── DELETE /api/chat/sessions — drop session state and its transcript ──
+router.delete("/sessions", async (req, res) => {
+  const sessionId = req.query.sessionId as string | undefined;
+  if (!sessionId) {
+    res.status(400).json({ error: "sessionId is required" });
+    return;
+  }
+  if (!isValidSessionId(sessionId)) {
+    res.status(400).json({ error: "Invalid sessionId" });
+    return;
+  }
+  if (getRunnerBySessionId(sessionId)?.status === "running") {
+    res.status(409).json({ error: "Session has a running query — abort it first" });
+    return;
+  }
+
+  try {
+    const { worktree } = getSession(sessionId, DEFAULT_MODEL);
+    deleteSession(sessionId);
+    clearQueue(sessionId);
+    await deleteTranscript(sessionId);
+    console.error(`[chat] deleted session ${sessionId}`);
+    // Forks share their parent's worktree — it goes with the last of them, and only if nothing is uncommitted
+    const shared = worktree && [...getAllSessions().values()].some((s) => s.worktree?.path === worktree.path);
+    if (worktree && !shared && !(await removeWorktree(process.env.BASE_DIR!, worktree))) {
+      console.error(`[chat] kept worktree ${worktree.path} — it has uncommitted changes`);
+    }
+    res.json({ ok: true });
+  } catch (err: unknown) {
+    const message = err instanceof Error ? err.message : "Unknown error";
+    res.status(500).json({ error: message });
+  }
+});
+
+// ── /api/chat/queue — follow-ups typed while a query is running ─────
+router.get("/queue", (req, res) => {
+  const sessionId = req.query.sessionId as string | undefined;
+  if (!sessionId) {
+    res.status(400).json({ error: "sessionId is required" });
+    return;
+  }
+  res.json({ sessionId, queue: getQueue(sessionId) });
+});
+
+router.post("/queue", (req, res) => {
+  const { sessionId, message } = req.body as { sessionId?: string; message?: string };
+  if (!sessionId || !message?.trim()) {
+    res.status(400).json({ error: "sessionId and message are required" });
+    return;
+  }
+  const command = message.match(/^\/(\S+)/)?.[1];
+  if (command && BUILTIN_COMMANDS[command.toLowerCase()]) {
+    res.status(400).json({ error: `/${command} can't be queued — send it when the query finishes` });
+    return;
+  }
+  if (getRunnerBySessionId(sessionId)?.status !== "running") {
+    res.status(409).json({ error: "No query running — send the message directly" });
+    return;
+  }
+
+  const item = enqueueMessage(sessionId, message.trim());
+  if (!item) {
+    res.status(429).json({ error: `Queue is full (${MAX_QUEUED_MESSAGES} messages)` });
+    return;
+  }
+  console.error(`[chat] queued follow-up ${item.id} for ${sessionId}`);
+  res.json({ item, queue: getQueue(sessionId) });
+});
+
+router.patch("/queue", (req, res) => {
+  const { sessionId, id, message } = req.body as { sessionId?: string; id?: string; message?: string };
+  if (!sessionId || !id || !message?.trim()) {
+    res.status(400).json({ error: "sessionId, id and message are required" });
+    return;
+  }
+  const item = updateQueuedMessage(sessionId, id, message.trim());
+  if (!item) {
+    res.status(404).json({ error: "Queued message not found — it may already have been sent" });
+    return;
+  }
+  res.json({ item, queue: getQueue(sessionId) });
+});
+
+router.delete("/queue", (req, res) => {
+  const sessionId = req.query.sessionId as string | undefined;
+  const id = req.query.id as string | undefined;
+  if (!sessionId || !id) {
+    res.status(400).json({ error: "sessionId and id are required" });
+    return;
+  }
+  if (!removeQueuedMessage(sessionId, id)) {
+    res.status(404).json({ error: "Queued message not found — it may already have been sent" });
+    return;
+  }
+  res.json({ ok: true, queue: getQueue(sessionId) });
+});
+
+// ── GET /api/chat/changes — diff of one file from a query's change summary ──
+router.get("/changes", (req, res) => {
+  const queryId = req.query.queryId as string | undefined;
+  const filePath = req.query.path as string | undefined;
+  if (!queryId || !filePath) {
+    res.status(400).json({ error: "queryId and path are required" });
+    return;
+  }
+
+  const diff = getRememberedDiff(queryId, filePath);
+  if (!diff) {
+    res.status(404).json({ error: "Diff not available (server restarted or too old)" });
+    return;
+  }
+  res.json({ diff });
 });
 
 // ── GET /api/chat/status — lightweight query status check ──────────
@@ -821,9 +1350,14 @@ router.get("/status", (req, res) => {
     return;
   }
 
+  const session = getAllSessions().get(sessionId);
+  const sessionInfo = {
+    costUsd: session?.totalCostUsd ?? 0,
+    ...(session?.worktree ? { worktree: session.worktree } : {}),
+  };
   const runner = getRunnerBySessionId(sessionId);
   if (!runner) {
-    res.json({ queryActive: false, queryId: null, eventCount: 0, status: "none" });
+    res.json({ queryActive: false, queryId: null, eventCount: 0, status: "none", ...sessionInfo });
     return;
   }
 
@@ -832,9 +1366,43 @@ router.get("/status", (req, res) => {
     queryId: runner.queryId,
     eventCount: runner.eventCount,
     status: runner.status,
+    ...sessionInfo,
   });
 });
 
+// ── GET /api/chat/active — every running query, server-wide ─────────
+export function handleActiveQueries(_req: import("express").Request, res: import("express").Response) {
+  const now = Date.now();
+  const queries = listRunners()
+    .filter((runner) => runner.status === "running" && runner.info)
+    .map((runner) => {
+      const info = runner.info!;
+      // Until the SDK's init the runner only knows its placeholder ID
+      const sessionId = runner.sessionId === runner.queryId ? null : runner.sessionId;
+      const session = sessionId ? getAllSessions().get(sessionId) : undefined;
+      let pending = 0;
+      for (const reqId of pendingPermissions.keys()) {
+        if (reqId.startsWith(`${runner.queryId}:`)) pending++;
+      }
+      return {
+        queryId: runner.queryId,
+        sessionId,
+        projectPath: info.projectPath,
+        title: session?.title ?? titleFromPrompt(info.prompt),
+        prompt: info.prompt,
+        startedAt: info.startedAt,
+        elapsedMs: now - info.startedAt,
+        costUsd: runner.costUsd,  // This query so far, estimated until its turn finishes
+        pendingPermissions: pending,
+        unattended: !!info.unattended,
+        ...(session?.worktree ? { worktree: session.worktree } : {}),
+      };
+    })
+    .sort((a, b) => a.startedAt - b.startedAt);
+  res.json({ queries });
+}
+router.get("/active", handleActiveQueries);
+
 // ── POST /api/chat/reconnect — replay + subscribe to running query ──
 router.post("/reconnect", (req, res) => {
   const { sessionId, fromIndex } = req.body as { sessionId?: string; fromIndex?: number };
@@ -905,22 +1473,16 @@ router.post("/abort", async (req, res) => {
   }
 
   // Graceful interrupt: try response.interrupt() first
-  if (graceful) {
-    // Find the session that owns this query via activeQueries
-    for (const [sessionId, q] of activeQueries) {
-      // Match by checking if this query's abort controller matches
-      if (activeAborts.has(queryId)) {
-        try {
-          await q.interrupt();
-          console.error(`[chat] graceful interrupt for query ${queryId} (session=${sessionId})`);
-          res.json({ ok: true, method: "interrupt" });
-          return;
-        } catch (err) {
-          console.error(`[chat] interrupt() failed, falling through to hard abort: ${err}`);
-          // Fall through to hard abort
-          break;
-        }
-      }
+  const q = graceful ? queriesById.get(queryId) : undefined;
+  if (q) {
+    try {
+      await q.interrupt();
+      console.error(`[chat] graceful interrupt for query ${queryId}`);
+      res.json({ ok: true, method: "interrupt" });
+      return;
+    } catch (err) {
+      console.error(`[chat] interrupt() failed, falling through to hard abort: ${err}`);
+      // Fall through to hard abort
     }
   }
 
@@ -942,9 +1504,70 @@ router.post("/abort", async (req, res) => {
   res.json({ ok: true, method: "abort" });
 });
 
-// ── POST /api/chat/rewind — rewind files to a previous checkpoint ───
-router.post("/rewind", async (req, res) => {
-  const { sessionId, checkpointIndex } = req.body as { sessionId?: string; checkpointIndex?: number };
+// ── Transient SDK session for control calls on idle sessions ───────
+// Resumes the session with an input stream that never sends a message, so
+// control requests like rewindFiles work without starting a turn.
+async function withIdleSession<T>(sessionId: string, cwd: string, fn: (q: Query) => Promise<T>): Promise<T> {
+  const abortController = new AbortController();
+  let closeInput!: () => void;
+  const inputClosed = new Promise<void>((resolve) => {
+    closeInput = resolve;
+  });
+  async function* noInput(): AsyncGenerator<SDKUserMessage> {
+    await inputClosed;
+  }
+
+  const q = query({
+    prompt: noInput(),
+    options: {
+      resume: sessionId,
+      cwd,
+      enableFileCheckpointing: true,
+      abortController,
+      stderr: (data: string) => console.error(`[chat][idle][stderr] ${data}`),
+    },
+  });
+  try {
+    return await fn(q);
+  } finally {
+    closeInput();
+    abortController.abort();
+  }
+}
+
+// ── GET /api/chat/checkpoints — rewind timeline for a session ───────
+router.get("/checkpoints", async (req, res) => {
+  const sessionId = req.query.sessionId as string | undefined;
+  if (!sessionId) {
+    res.status(400).json({ error: "sessionId is required" });
+    return;
+  }
+  if (!isValidSessionId(sessionId)) {
+    res.status(400).json({ error: "Invalid sessionId" });
+    return;
+  }
+
+  const session = getAllSessions().get(sessionId);
+  if (!session) {
+    res.status(404).json({ error: "Session not found" });
+    return;
+  }
+
+  try {
+    const page = await readTranscript(sessionId, { limit: Number.MAX_SAFE_INTEGER });
+    res.json({ sessionId, checkpoints: buildCheckpointTimeline(session, page?.entries ?? []) });
+  } catch (err: unknown) {
+    const message = err instanceof Error ? err.message : "Unknown error";
+    res.status(500).json({ error: message });
+  }
+});
+
+// ── POST /api/chat/rewind — restore files to a checkpoint ───────────
+// Uses the running query when there is one, otherwise resumes the session
+// transiently. `dryRun` previews the restore without touching files.
+export async function handleRewind(req: import("express").Request, res: import("express").Response) {
+  const baseDir = process.env.BASE_DIR!;
+  const { sessionId, checkpointIndex, dryRun } = req.body as { sessionId?: string; checkpointIndex?: number; dryRun?: boolean };
 
   if (!sessionId) {
     res.status(400).json({ error: "sessionId is required" });
@@ -960,32 +1583,43 @@ router.post("/rewind", async (req, res) => {
 
   // Default: rewind to last checkpoint; or use specific index
   const targetIdx = checkpointIndex !== undefined ? checkpointIndex : checkpoints.length - 1;
-  if (targetIdx < 0 || targetIdx >= checkpoints.length) {
+  if (!Number.isInteger(targetIdx) || targetIdx < 0 || targetIdx >= checkpoints.length) {
     res.status(400).json({ error: `Invalid checkpoint index: ${targetIdx}` });
     return;
   }
 
   const targetUuid = checkpoints[targetIdx];
 
-  // Need an active query to call rewindFiles
   const activeQuery = activeQueries.get(sessionId);
-  if (!activeQuery) {
-    res.status(400).json({ error: "No active query — rewind requires an active SDK session" });
+  if (!activeQuery && getRunnerBySessionId(sessionId)?.status === "running") {
+    res.status(409).json({ error: "Query is starting — try again in a moment" });
+    return;
+  }
+  if (!activeQuery && !session.projectPath) {
+    res.status(400).json({ error: "Session has no project recorded — send a message first" });
     return;
   }
 
   try {
-    const result = await activeQuery.rewindFiles(targetUuid);
+    const rewind = (q: Query) => q.rewindFiles(targetUuid, { dryRun: !!dryRun });
+    const result = activeQuery
+      ? await rewind(activeQuery)
+      : await withIdleSession(sessionId, path.resolve(baseDir, session.worktree?.cwd ?? session.projectPath!), rewind);
+
     if (result.canRewind) {
-      // Truncate checkpoints to remove entries after the rewind target
-      session.checkpoints = checkpoints.slice(0, targetIdx);
-      saveSession(sessionId, session);
-      console.error(`[chat] rewind to checkpoint ${targetIdx} (uuid=${targetUuid}): ${result.filesChanged?.length || 0} files changed`);
+      if (!dryRun) {
+        // Truncate checkpoints to remove entries after the rewind target
+        session.checkpoints = checkpoints.slice(0, targetIdx);
+        session.checkpointTurns = session.checkpointTurns?.filter((t) => t.index < targetIdx);
+        saveSession(sessionId, session);
+        console.error(`[chat] rewind to checkpoint ${targetIdx} (uuid=${targetUuid}): ${result.filesChanged?.length || 0} files changed`);
+      }
       res.json({
         ok: true,
+        dryRun: !!dryRun,
         checkpointIndex: targetIdx,
         uuid: targetUuid,
-        remainingCheckpoints: session.checkpoints.length,
+        remainingCheckpoints: dryRun ? checkpoints.length : targetIdx,
         filesChanged: result.filesChanged,
         insertions: result.insertions,
         deletions: result.deletions,
@@ -998,19 +1632,30 @@ router.post("/rewind", async (req, res) => {
     console.error(`[chat] rewind failed: ${errMsg}`);
     res.status(500).json({ error: errMsg });
   }
-});
+}
+
+router.post("/rewind", handleRewind);
 
 // ── POST /api/chat/permission — respond to a permission request ─────
-router.post("/permission", (req, res) => {
-  const { requestId, behavior } = req.body as {
+router.post("/permission", async (req, res) => {
+  const { requestId, behavior, remember, rule, updatedInput, message, interrupt } = req.body as {
     requestId?: string;
     behavior?: "allow" | "deny";
+    remember?: "project" | "global";  // Also save an "always" rule for this decision
+    rule?: string;                    // Rule to save (defaults to one suggested from the final input)
+    updatedInput?: Record<string, unknown>;  // Input fields the user edited before allowing
+    message?: string;     // Denial reason passed to the agent
+    interrupt?: boolean;  // Denial also stops the turn
   };
 
   if (!requestId || !behavior) {
     res.status(400).json({ error: "requestId and behavior are required" });
     return;
   }
+  if (updatedInput !== undefined && (!updatedInput || typeof updatedInput !== "object" || Array.isArray(updatedInput))) {
+    res.status(400).json({ error: "updatedInput must be an object" });
+    return;
+  }
 
   const pending = pendingPermissions.get(requestId);
   if (!pending) {
@@ -1018,17 +1663,39 @@ router.post("/permission", (req, res) => {
     return;
   }
 
-  clearTimeout(pending.timeout);
+  // Save the rule before answering — a bad pattern shouldn't cost the user their answer
+  let savedRule: string | undefined;
+  let ruleError: string | undefined;
+  if (remember) {
+    try {
+      const saved = await addRule(ruleToRemember(pending, { rule, updatedInput }), behavior, remember === "project" ? pending.projectPath : null);
+      savedRule = formatRule(saved);
+    } catch (err: unknown) {
+      ruleError = err instanceof Error ? err.message : "Unknown error";
+    }
+    // The request may have timed out or been aborted while the rule was written
+    if (!pendingPermissions.has(requestId)) {
+      res.status(404).json({ error: "Permission request not found or already resolved", rule: savedRule, ruleError });
+      return;
+    }
+  }
+
+  pending.timers.forEach(clearTimeout);
   pendingPermissions.delete(requestId);
 
   if (behavior === "allow") {
-    pending.resolve({ behavior: "allow", updatedInput: pending.input });
+    pending.resolve({ behavior: "allow", updatedInput: finalInput(pending.input, updatedInput) });
   } else {
-    pending.resolve({ behavior: "deny", message: "User denied permission" });
+    pending.resolve(denial({ message, interrupt }));
   }
 
-  console.error(`[chat] permission ${requestId} → ${behavior}`);
-  res.json({ ok: true });
+  // Anyone else following the query (another device, a later attach) drops the prompt too
+  getRunnerByQueryId(requestId.split(":")[0])?.bufferEvent("permission_resolved", { requestId, behavior });
+
+  console.error(
+    `[chat] permission ${requestId} → ${behavior}${updatedInput ? " (edited)" : ""}${interrupt ? " (interrupt)" : ""}${savedRule ? ` (always: ${savedRule})` : ""}`
+  );
+  res.json({ ok: true, ...(savedRule ? { rule: savedRule } : {}), ...(ruleError ? { ruleError } : {}) });
 });
 
 // ── POST /api/chat/mode — change permission mode mid-session ─────────
@@ -1064,17 +1731,30 @@ router.post("/mode", async (req, res) => {
 
 // ── POST /api/chat/settings — update session settings ────────────────
 router.post("/settings", (req, res) => {
-  const { sessionId, budgetCapUsd, maxTurns, maxThinkingTokens } = req.body as {
+  const { sessionId, budgetCapUsd, maxTurns, maxThinkingTokens, permissionTimeoutSec, permissionExpiry } = req.body as {
     sessionId?: string;
     budgetCapUsd?: number | null;
     maxTurns?: number | null;
     maxThinkingTokens?: number | null;
+    permissionTimeoutSec?: number | null;
+    permissionExpiry?: SessionState["permissionExpiry"] | null;
   };
 
   if (!sessionId) {
     res.status(400).json({ error: "sessionId is required" });
     return;
   }
+  if (
+    permissionTimeoutSec != null &&
+    (typeof permissionTimeoutSec !== "number" || !Number.isFinite(permissionTimeoutSec) || permissionTimeoutSec < 10 || permissionTimeoutSec > 86_400)
+  ) {
+    res.status(400).json({ error: "permissionTimeoutSec must be between 10 and 86400" });
+    return;
+  }
+  if (permissionExpiry != null && !VALID_EXPIRY_POLICIES.has(permissionExpiry)) {
+    res.status(400).json({ error: `permissionExpiry must be one of: ${[...VALID_EXPIRY_POLICIES].join(", ")}` });
+    return;
+  }
 
   const session = getSession(sessionId, DEFAULT_MODEL);
 
@@ -1087,15 +1767,26 @@ router.post("/settings", (req, res) => {
   if (maxThinkingTokens !== undefined) {
     session.maxThinkingTokens = maxThinkingTokens === null ? undefined : maxThinkingTokens;
   }
+  if (permissionTimeoutSec !== undefined) {
+    session.permissionTimeoutSec = permissionTimeoutSec === null ? undefined : Math.round(permissionTimeoutSec);
+  }
+  if (permissionExpiry !== undefined) {
+    session.permissionExpiry = permissionExpiry === null ? undefined : permissionExpiry;
+  }
 
   saveSession(sessionId, session);
-  console.error(`[chat] settings updated for ${sessionId}: budget=${session.budgetCapUsd} turns=${session.maxTurns} thinking=${session.maxThinkingTokens}`);
+  console.error(
+    `[chat] settings updated for ${sessionId}: budget=${session.budgetCapUsd} turns=${session.maxTurns} thinking=${session.maxThinkingTokens} ` +
+    `permissionTimeout=${session.permissionTimeoutSec ?? DEFAULT_PERMISSION_TIMEOUT_SEC}s expiry=${session.permissionExpiry ?? "deny"}`
+  );
 
   res.json({
     ok: true,
     budgetCapUsd: session.budgetCapUsd ?? null,
     maxTurns: session.maxTurns ?? null,
     maxThinkingTokens: session.maxThinkingTokens ?? null,
+    permissionTimeoutSec: session.permissionTimeoutSec ?? DEFAULT_PERMISSION_TIMEOUT_SEC,
+    permissionExpiry: session.permissionExpiry ?? "deny",
   });
 });
 
@@ -1,8 +1,8 @@
 import { describe, it, expect, beforeEach, afterEach } from "vitest";
-import { mkdir, writeFile } from "fs/promises";
+import { mkdir, readFile, stat, utimes, writeFile } from "fs/promises";
 import path from "path";
 import { createMockRequest, createMockResponse, createTempDir, cleanupTempDir } from "../test-utils.js";
-import { handleReadFile } from "./file.js";
+import { handleReadFile, handleWriteFile, handleCreateFile, handleDeleteFile } from "./file.js";
 
 describe("GET /api/file (handleReadFile)", () => {
   let tmpDir: string;
@@ -41,6 +41,7 @@ describe("GET /api/file (handleReadFile)", () => {
       content: 'const x: number = 42;\nexport default x;\n',
       path: "example.ts",
       language: "typescript",
+      mtime: expect.any(String),
     });
   });
 
@@ -138,6 +139,7 @@ describe("GET /api/file (handleReadFile)", () => {
       content: '{"key": "value"}',
       path: "subdir/nested.json",
       language: "json",
+      mtime: expect.any(String),
     });
   });
 
@@ -152,3 +154,219 @@ describe("GET /api/file (handleReadFile)", () => {
     expect(res.json).toHaveBeenCalledWith({ error: "Binary files are not supported" });
   });
 });
+
+describe("PUT /api/file (handleWriteFile)", () => {
+  let tmpDir: string;
+  const originalBaseDir = process.env.BASE_DIR;
+
+  beforeEach(async () => {
+    tmpDir = await createTempDir();
+    process.env.BASE_DIR = tmpDir;
+    await mkdir(path.join(tmpDir, "subdir"));
+    await writeFile(path.join(tmpDir, "config.json"), '{"a": 1}');
+  });
+
+  afterEach(async () => {
+    await cleanupTempDir(tmpDir);
+    if (originalBaseDir !== undefined) {
+      process.env.BASE_DIR = originalBaseDir;
+    } else {
+      delete process.env.BASE_DIR;
+    }
+  });
+
+  it("overwrites an existing file and returns the new mtime", async () => {
+    const req = createMockRequest({ body: { path: "config.json", content: '{"a": 2}' } });
+    const res = createMockResponse();
+
+    await handleWriteFile(req, res);
+
+    expect(res.json).toHaveBeenCalledWith({ ok: true, path: "config.json", mtime: expect.any(String) });
+    expect(await readFile(path.join(tmpDir, "config.json"), "utf-8")).toBe('{"a": 2}');
+  });
+
+  it("accepts the write when mtime matches", async () => {
+    const { mtime } = await stat(path.join(tmpDir, "config.json"));
+    const req = createMockRequest({ body: { path: "config.json", content: "x", mtime: mtime.toISOString() } });
+    const res = createMockResponse();
+
+    await handleWriteFile(req, res);
+
+    expect(res.status).not.toHaveBeenCalled();
+    expect(await readFile(path.join(tmpDir, "config.json"), "utf-8")).toBe("x");
+  });
+
+  it("returns 409 when the file changed since it was read", async () => {
+    const stale = new Date("2020-01-01T00:00:00.000Z");
+    const current = new Date("2024-06-01T00:00:00.000Z");
+    await utimes(path.join(tmpDir, "config.json"), current, current);
+
+    const req = createMockRequest({ body: { path: "config.json", content: "x", mtime: stale.toISOString() } });
+    const res = createMockResponse();
+
+    await handleWriteFile(req, res);
+
+    expect(res.status).toHaveBeenCalledWith(409);
+    expect(res.json).toHaveBeenCalledWith({ error: "File changed on disk", mtime: current.toISOString() });
+    expect(await readFile(path.join(tmpDir, "config.json"), "utf-8")).toBe('{"a": 1}');
+  });
+
+  it("returns 404 for nonexistent file", async () => {
+    const req = createMockRequest({ body: { path: "missing.ts", content: "x" } });
+    const res = createMockResponse();
+
+    await handleWriteFile(req, res);
+
+    expect(res.status).toHaveBeenCalledWith(404);
+    expect(res.json).toHaveBeenCalledWith({ error: "File not found" });
+  });
+
+  it("returns 400 when content is missing", async () => {
+    const req = createMockRequest({ body: { path: "config.json" } });
+    const res = createMockResponse();
+
+    await handleWriteFile(req, res);
+
+    expect(res.status).toHaveBeenCalledWith(400);
+    expect(res.json).toHaveBeenCalledWith({ error: "path and content are required" });
+  });
+
+  it("returns 400 for directories", async () => {
+    const req = createMockRequest({ body: { path: "subdir", content: "x" } });
+    const res = createMockResponse();
+
+    await handleWriteFile(req, res);
+
+    expect(res.status).toHaveBeenCalledWith(400);
+    expect(res.json).toHaveBeenCalledWith({ error: "Path is a directory" });
+  });
+
+  it("returns 403 for path traversal", async () => {
+    const req = createMockRequest({ body: { path: "../../etc/passwd", content: "x" } });
+    const res = createMockResponse();
+
+    await handleWriteFile(req, res);
+
+    expect(res.status).toHaveBeenCalledWith(403);
+    expect(res.json).toHaveBeenCalledWith({ error: "Path traversal not allowed" });
+  });
+});
+
+describe("POST /api/file (handleCreateFile)", () => {
+  let tmpDir: string;
+  const originalBaseDir = process.env.BASE_DIR;
+
+  beforeEach(async () => {
+    tmpDir = await createTempDir();
+    process.env.BASE_DIR = tmpDir;
+    await writeFile(path.join(tmpDir, "existing.md"), "# Keep me");
+  });
+
+  afterEach(async () => {
+    await cleanupTempDir(tmpDir);
+    if (originalBaseDir !== undefined) {
+      process.env.BASE_DIR = originalBaseDir;
+    } else {
+      delete process.env.BASE_DIR;
+    }
+  });
+
+  it("creates an empty file by default", async () => {
+    const req = createMockRequest({ body: { path: "notes.txt" } });
+    const res = createMockResponse();
+
+    await handleCreateFile(req, res);
+
+    expect(res.json).toHaveBeenCalledWith({ ok: true, path: "notes.txt", mtime: expect.any(String) });
+    expect(await readFile(path.join(tmpDir, "notes.txt"), "utf-8")).toBe("");
+  });
+
+  it("returns 409 instead of overwriting an existing file", async () => {
+    const req = createMockRequest({ body: { path: "existing.md", content: "replaced" } });
+    const res = createMockResponse();
+
+    await handleCreateFile(req, res);
+
+    expect(res.status).toHaveBeenCalledWith(409);
+    expect(res.json).toHaveBeenCalledWith({ error: "File already exists" });
+    expect(await readFile(path.join(tmpDir, "existing.md"), "utf-8")).toBe("# Keep me");
+  });
+
+  it("returns 404 when the parent directory is missing", async () => {
+    const req = createMockRequest({ body: { path: "nope/file.ts" } });
+    const res = createMockResponse();
+
+    await handleCreateFile(req, res);
+
+    expect(res.status).toHaveBeenCalledWith(404);
+    expect(res.json).toHaveBeenCalledWith({ error: "Parent directory not found" });
+  });
+
+  it("returns 403 for path traversal", async () => {
+    const req = createMockRequest({ body: { path: "../outside.txt" } });
+    const res = createMockResponse();
+
+    await handleCreateFile(req, res);
+
+    expect(res.status).toHaveBeenCalledWith(403);
+  });
+});
+
+describe("DELETE /api/file (handleDeleteFile)", () => {
+  let tmpDir: string;
+  const originalBaseDir = process.env.BASE_DIR;
+
+  beforeEach(async () => {
+    tmpDir = await createTempDir();
+    process.env.BASE_DIR = tmpDir;
+    await mkdir(path.join(tmpDir, "subdir"));
+    await writeFile(path.join(tmpDir, "old.ts"), "export {};");
+  });
+
+  afterEach(async () => {
+    await cleanupTempDir(tmpDir);
+    if (originalBaseDir !== undefined) {
+      process.env.BASE_DIR = originalBaseDir;
+    } else {
+      delete process.env.BASE_DIR;
+    }
+  });
+
+  it("deletes a file", async () => {
+    const req = createMockRequest({ query: { path: "old.ts" } });
+    const res = createMockResponse();
+
+    await handleDeleteFile(req, res);
+
+    expect(res.json).toHaveBeenCalledWith({ ok: true, path: "old.ts" });
+    await expect(stat(path.join(tmpDir, "old.ts"))).rejects.toThrow();
+  });
+
+  it("refuses to delete directories", async () => {
+    const req = createMockRequest({ query: { path: "subdir" } });
+    const res = createMockResponse();
+
+    await handleDeleteFile(req, res);
+
+    expect(res.status).toHaveBeenCalledWith(400);
+    expect(res.json).toHaveBeenCalledWith({ error: "Path is a directory" });
+  });
+
+  it("returns 404 for nonexistent file", async () => {
+    const req = createMockRequest({ query: { path: "gone.ts" } });
+    const res = createMockResponse();
+
+    await handleDeleteFile(req, res);
+
+    expect(res.status).toHaveBeenCalledWith(404);
+  });
+
+  it("returns 403 for path traversal", async () => {
+    const req = createMockRequest({ query: { path: "../../etc/hosts" } });
+    const res = createMockResponse();
+
+    await handleDeleteFile(req, res);
+
+    expect(res.status).toHaveBeenCalledWith(403);
+  });
+});
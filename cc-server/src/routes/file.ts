@@ -1,5 +1,5 @@
 import { Router } from "express";
-import { readFile, stat } from "fs/promises";
+import { readFile, stat, unlink, writeFile } from "fs/promises";
 import path from "path";
 
 const router = Router();
@@ -33,7 +33,7 @@ const EXTENSION_LANGUAGES: Record<string, string> = {
   ".svg": "xml",
 };
 
-const BINARY_EXTENSIONS = new Set([
+export const BINARY_EXTENSIONS = new Set([
   ".png", ".jpg", ".jpeg", ".gif", ".webp", ".ico",
   ".woff", ".woff2", ".ttf", ".eot",
   ".mp3", ".mp4", ".wav", ".webm",
@@ -78,7 +78,7 @@ export async function handleReadFile(req: import("express").Request, res: import
     const content = await readFile(resolved, "utf-8");
     const language = EXTENSION_LANGUAGES[ext] || "text";
 
-    res.json({ content, path: relativePath, language });
+    res.json({ content, path: relativePath, language, mtime: stats.mtime.toISOString() });
   } catch (err: unknown) {
     const message = err instanceof Error ? err.message : "Unknown error";
     if (message.includes("ENOENT")) {
@@ -91,4 +91,146 @@ export async function handleReadFile(req: import("express").Request, res: import
 
 router.get("/", handleReadFile);
 
+// PUT /api/file — overwrite an existing file
+// Body: { path, content, mtime? } — when mtime is given, the write is rejected
+// with 409 if the file changed on disk since it was read (optimistic concurrency)
+export async function handleWriteFile(req: import("express").Request, res: import("express").Response) {
+  const baseDir = process.env.BASE_DIR!;
+  const { path: relativePath, content, mtime } = req.body as {
+    path?: string;
+    content?: string;
+    mtime?: string;
+  };
+
+  if (!relativePath || typeof content !== "string") {
+    res.status(400).json({ error: "path and content are required" });
+    return;
+  }
+
+  // Security: prevent path traversal
+  const resolved = path.resolve(baseDir, relativePath);
+  if (!resolved.startsWith(path.resolve(baseDir))) {
+    res.status(403).json({ error: "Path traversal not allowed" });
+    return;
+  }
+
+  if (BINARY_EXTENSIONS.has(path.extname(resolved).toLowerCase())) {
+    res.status(400).json({ error: "Binary files are not supported" });
+    return;
+  }
+
+  if (Buffer.byteLength(content, "utf-8") > MAX_FILE_SIZE) {
+    res.status(400).json({ error: "File too large (max 1MB)" });
+    return;
+  }
+
+  try {
+    const before = await stat(resolved);
+    if (before.isDirectory()) {
+      res.status(400).json({ error: "Path is a directory" });
+      return;
+    }
+
+    // Conflict: someone (usually the agent) wrote the file after the client read it
+    if (mtime && before.mtime.toISOString() !== mtime) {
+      res.status(409).json({ error: "File changed on disk", mtime: before.mtime.toISOString() });
+      return;
+    }
+
+    await writeFile(resolved, content, "utf-8");
+    const after = await stat(resolved);
+
+    res.json({ ok: true, path: relativePath, mtime: after.mtime.toISOString() });
+  } catch (err: unknown) {
+    const message = err instanceof Error ? err.message : "Unknown error";
+    if (message.includes("ENOENT")) {
+      res.status(404).json({ error: "File not found" });
+    } else {
+      res.status(500).json({ error: message });
+    }
+  }
+}
+
+router.put("/", handleWriteFile);
+
+// POST /api/file — create a new file (fails if it already exists)
+export async function handleCreateFile(req: import("express").Request, res: import("express").Response) {
+  const baseDir = process.env.BASE_DIR!;
+  const { path: relativePath, content = "" } = req.body as { path?: string; content?: string };
+
+  if (!relativePath || typeof content !== "string") {
+    res.status(400).json({ error: "path is required" });
+    return;
+  }
+
+  // Security: prevent path traversal
+  const resolved = path.resolve(baseDir, relativePath);
+  if (!resolved.startsWith(path.resolve(baseDir))) {
+    res.status(403).json({ error: "Path traversal not allowed" });
+    return;
+  }
+
+  if (BINARY_EXTENSIONS.has(path.extname(resolved).toLowerCase())) {
+    res.status(400).json({ error: "Binary files are not supported" });
+    return;
+  }
+
+  try {
+    // "wx" — fail with EEXIST instead of clobbering an existing file
+    await writeFile(resolved, content, { encoding: "utf-8", flag: "wx" });
+    const stats = await stat(resolved);
+
+    res.json({ ok: true, path: relativePath, mtime: stats.mtime.toISOString() });
+  } catch (err: unknown) {
+    const message = err instanceof Error ? err.message : "Unknown error";
+    if (message.includes("EEXIST")) {
+      res.status(409).json({ error: "File already exists" });
+    } else if (message.includes("ENOENT")) {
+      res.status(404).json({ error: "Parent directory not found" });
+    } else {
+      res.status(500).json({ error: message });
+    }
+  }
+}
+
+router.post("/", handleCreateFile);
+
+// DELETE /api/file?path=relative/path/to/file
+export async function handleDeleteFile(req: import("express").Request, res: import("express").Response) {
+  const baseDir = process.env.BASE_DIR!;
+  const relativePath = req.query.path as string;
+
+  if (!relativePath) {
+    res.status(400).json({ error: "path query parameter is required" });
+    return;
+  }
+
+  // Security: prevent path traversal
+  const resolved = path.resolve(baseDir, relativePath);
+  if (!resolved.startsWith(path.resolve(baseDir))) {
+    res.status(403).json({ error: "Path traversal not allowed" });
+    return;
+  }
+
+  try {
+    const stats = await stat(resolved);
+    if (stats.isDirectory()) {
+      res.status(400).json({ error: "Path is a directory" });
+      return;
+    }
+
+    await unlink(resolved);
+    res.json({ ok: true, path: relativePath });
+  } catch (err: unknown) {
+    const message = err instanceof Error ? err.message : "Unknown error";
+    if (message.includes("ENOENT")) {
+      res.status(404).json({ error: "File not found" });
+    } else {
+      res.status(500).json({ error: message });
+    }
+  }
+}
+
+router.delete("/", handleDeleteFile);
+
 export default router;
@@ -1,8 +1,8 @@
 import { describe, it, expect, beforeEach, afterEach } from "vitest";
-import { mkdir, writeFile } from "fs/promises";
+import { mkdir, readFile, stat, writeFile } from "fs/promises";
 import path from "path";
 import { createMockRequest, createMockResponse, createTempDir, cleanupTempDir } from "../test-utils.js";
-import { handleListFiles, handleMkdir } from "./files.js";
+import { handleListFiles, handleMkdir, handleRename, handleSearch } from "./files.js";
 
 describe("GET /api/files (handleListFiles)", () => {
   let tmpDir: string;
@@ -225,3 +225,176 @@ describe("POST /api/files/mkdir (handleMkdir)", () => {
     expect(res.json).toHaveBeenCalledWith({ ok: true, name: "child" });
   });
 });
+
+describe("POST /api/files/rename (handleRename)", () => {
+  let tmpDir: string;
+  const originalBaseDir = process.env.BASE_DIR;
+
+  beforeEach(async () => {
+    tmpDir = await createTempDir();
+    process.env.BASE_DIR = tmpDir;
+    await mkdir(path.join(tmpDir, "src"));
+    await writeFile(path.join(tmpDir, "src", "old.ts"), "export const a = 1;");
+    await writeFile(path.join(tmpDir, "src", "taken.ts"), "export const b = 2;");
+  });
+
+  afterEach(async () => {
+    await cleanupTempDir(tmpDir);
+    if (originalBaseDir !== undefined) {
+      process.env.BASE_DIR = originalBaseDir;
+    } else {
+      delete process.env.BASE_DIR;
+    }
+  });
+
+  it("renames a file", async () => {
+    const req = createMockRequest({ body: { from: "src/old.ts", to: "src/new.ts" } });
+    const res = createMockResponse();
+
+    await handleRename(req, res);
+
+    expect(res.json).toHaveBeenCalledWith({ ok: true, from: "src/old.ts", to: "src/new.ts" });
+    expect(await readFile(path.join(tmpDir, "src", "new.ts"), "utf-8")).toBe("export const a = 1;");
+    await expect(stat(path.join(tmpDir, "src", "old.ts"))).rejects.toThrow();
+  });
+
+  it("returns 409 when the target exists", async () => {
+    const req = createMockRequest({ body: { from: "src/old.ts", to: "src/taken.ts" } });
+    const res = createMockResponse();
+
+    await handleRename(req, res);
+
+    expect(res.status).toHaveBeenCalledWith(409);
+    expect(res.json).toHaveBeenCalledWith({ error: "Target already exists" });
+    expect(await readFile(path.join(tmpDir, "src", "taken.ts"), "utf-8")).toBe("export const b = 2;");
+  });
+
+  it("returns 404 when the source is missing", async () => {
+    const req = createMockRequest({ body: { from: "src/missing.ts", to: "src/other.ts" } });
+    const res = createMockResponse();
+
+    await handleRename(req, res);
+
+    expect(res.status).toHaveBeenCalledWith(404);
+    expect(res.json).toHaveBeenCalledWith({ error: "Source not found" });
+  });
+
+  it("returns 400 when from or to is missing", async () => {
+    const req = createMockRequest({ body: { from: "src/old.ts" } });
+    const res = createMockResponse();
+
+    await handleRename(req, res);
+
+    expect(res.status).toHaveBeenCalledWith(400);
+  });
+
+  it("blocks path traversal on the target", async () => {
+    const req = createMockRequest({ body: { from: "src/old.ts", to: "../../tmp/escaped.ts" } });
+    const res = createMockResponse();
+
+    await handleRename(req, res);
+
+    expect(res.status).toHaveBeenCalledWith(403);
+    expect(res.json).toHaveBeenCalledWith({ error: "Path traversal not allowed" });
+  });
+});
+
+describe("GET /api/files/search (handleSearch)", () => {
+  let tmpDir: string;
+  const originalBaseDir = process.env.BASE_DIR;
+
+  beforeEach(async () => {
+    tmpDir = await createTempDir();
+    process.env.BASE_DIR = tmpDir;
+    await mkdir(path.join(tmpDir, "proj", "src", "routes"), { recursive: true });
+    await writeFile(path.join(tmpDir, "proj", "src", "routes", "chat.ts"), "export const route = 'chat';\n// TODO: stream\n");
+    await writeFile(path.join(tmpDir, "proj", "src", "server.ts"), "import chat from './routes/chat';\n");
+    await writeFile(path.join(tmpDir, "proj", "icon.png"), "TODO");
+  });
+
+  afterEach(async () => {
+    await cleanupTempDir(tmpDir);
+    if (originalBaseDir !== undefined) {
+      process.env.BASE_DIR = originalBaseDir;
+    } else {
+      delete process.env.BASE_DIR;
+    }
+  });
+
+  it("streams fuzzy filename matches relative to BASE_DIR", async () => {
+    const req = createMockRequest({ query: { path: "proj", q: "chat" } });
+    const res = createMockResponse();
+
+    await handleSearch(req, res);
+
+    const events = res._parseSSEEvents();
+    expect(events[0]).toEqual({ type: "file", data: { path: "proj/src/routes/chat.ts" } });
+    expect(events[events.length - 1]).toEqual({ type: "done", data: { count: 1, truncated: false } });
+    expect(res.end).toHaveBeenCalled();
+  });
+
+  it("streams content matches with line numbers and skips binary extensions", async () => {
+    const req = createMockRequest({ query: { path: "proj", q: "todo", mode: "content" } });
+    const res = createMockResponse();
+
+    await handleSearch(req, res);
+
+    const events = res._parseSSEEvents();
+    expect(events).toEqual([
+      { type: "match", data: { path: "proj/src/routes/chat.ts", line: 2, column: 4, text: "// TODO: stream" } },
+      { type: "done", data: { count: 1, truncated: false } },
+    ]);
+  });
+
+  it("supports regex content search", async () => {
+    const req = createMockRequest({ query: { path: "proj", q: "^import\\s+chat", mode: "content", regex: "1" } });
+    const res = createMockResponse();
+
+    await handleSearch(req, res);
+
+    const matches = res._parseSSEEvents().filter((e: { type: string }) => e.type === "match");
+    expect(matches).toHaveLength(1);
+    expect(matches[0].data.path).toBe("proj/src/server.ts");
+  });
+
+  it("returns 400 for an invalid regex", async () => {
+    const req = createMockRequest({ query: { path: "proj", q: "(", mode: "content", regex: "1" } });
+    const res = createMockResponse();
+
+    await handleSearch(req, res);
+
+    expect(res.status).toHaveBeenCalledWith(400);
+    expect(res.writeHead).not.toHaveBeenCalled();
+  });
+
+  it("ends the search with an error when a regex backtracks for too long", async () => {
+    await writeFile(path.join(tmpDir, "proj", "slow.txt"), "a".repeat(40) + "!\n");
+    const req = createMockRequest({ query: { path: "proj", q: "(a+)+$", mode: "content", regex: "1" } });
+    const res = createMockResponse();
+
+    await handleSearch(req, res);
+
+    const events = res._parseSSEEvents();
+    expect(events[events.length - 1]).toEqual({ type: "error", data: { error: "Regex search took too long — try a simpler pattern" } });
+    expect(res.end).toHaveBeenCalled();
+  });
+
+  it("returns 400 when q is missing", async () => {
+    const req = createMockRequest({ query: { path: "proj" } });
+    const res = createMockResponse();
+
+    await handleSearch(req, res);
+
+    expect(res.status).toHaveBeenCalledWith(400);
+    expect(res.json).toHaveBeenCalledWith({ error: "q query parameter is required" });
+  });
+
+  it("returns 403 for path traversal", async () => {
+    const req = createMockRequest({ query: { path: "../..", q: "passwd" } });
+    const res = createMockResponse();
+
+    await handleSearch(req, res);
+
+    expect(res.status).toHaveBeenCalledWith(403);
+  });
+});
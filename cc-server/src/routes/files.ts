@@ -1,7 +1,16 @@
 import { Router } from "express";
-import { mkdir, readdir, stat } from "fs/promises";
+import { mkdir, readdir, rename, stat } from "fs/promises";
 import path from "path";
 import type { FileEntry } from "../types.js";
+import { BINARY_EXTENSIONS } from "./file.js";
+import {
+  listCandidateFiles,
+  fuzzyScore,
+  buildMatcher,
+  searchFileContent,
+  SearchTimeoutError,
+  type LinesMatcher,
+} from "../file-search.js";
 
 const router = Router();
 
@@ -91,4 +100,171 @@ export async function handleMkdir(req: import("express").Request, res: import("e
 
 router.post("/mkdir", handleMkdir);
 
+// POST /api/files/rename — rename or move a file/folder within BASE_DIR
+export async function handleRename(req: import("express").Request, res: import("express").Response) {
+  const baseDir = process.env.BASE_DIR!;
+  const from = (req.body.from as string) || "";
+  const to = (req.body.to as string) || "";
+
+  if (!from || !to) {
+    res.status(400).json({ error: "from and to are required" });
+    return;
+  }
+
+  // Security: both ends must stay inside BASE_DIR
+  const source = path.resolve(baseDir, from);
+  const target = path.resolve(baseDir, to);
+  if (!source.startsWith(path.resolve(baseDir)) || !target.startsWith(path.resolve(baseDir))) {
+    res.status(403).json({ error: "Path traversal not allowed" });
+    return;
+  }
+
+  if (source === path.resolve(baseDir)) {
+    res.status(400).json({ error: "Cannot rename the base directory" });
+    return;
+  }
+
+  try {
+    await stat(source);
+  } catch {
+    res.status(404).json({ error: "Source not found" });
+    return;
+  }
+
+  // rename() silently replaces files on POSIX — refuse instead
+  const existing = await stat(target).catch(() => null);
+  if (existing) {
+    res.status(409).json({ error: "Target already exists" });
+    return;
+  }
+
+  try {
+    await rename(source, target);
+    res.json({ ok: true, from, to });
+  } catch (err: unknown) {
+    const message = err instanceof Error ? err.message : "Unknown error";
+    if (message.includes("ENOENT")) {
+      res.status(404).json({ error: "Target directory not found" });
+    } else {
+      res.status(500).json({ error: message });
+    }
+  }
+}
+
+router.post("/rename", handleRename);
+
+const MAX_NAME_RESULTS = 100;
+const MAX_CONTENT_MATCHES = 500;
+const MAX_MATCHES_PER_FILE = 20;
+
+// GET /api/files/search?path=project&q=query&mode=name|content&regex=1&caseSensitive=1
+// Streams results as SSE: "file" events (name mode), "match" events (content mode), then "done"
+export async function handleSearch(req: import("express").Request, res: import("express").Response) {
+  const baseDir = process.env.BASE_DIR!;
+  const relativePath = (req.query.path as string) || "";
+  const q = (req.query.q as string) || "";
+  const mode = (req.query.mode as string) || "name";
+  const useRegex = req.query.regex === "1" || req.query.regex === "true";
+  const caseSensitive = req.query.caseSensitive === "1" || req.query.caseSensitive === "true";
+
+  if (!q) {
+    res.status(400).json({ error: "q query parameter is required" });
+    return;
+  }
+  if (mode !== "name" && mode !== "content") {
+    res.status(400).json({ error: "mode must be one of: name, content" });
+    return;
+  }
+
+  // Security: prevent path traversal
+  const root = path.resolve(baseDir, relativePath);
+  if (!root.startsWith(path.resolve(baseDir))) {
+    res.status(403).json({ error: "Path traversal not allowed" });
+    return;
+  }
+
+  let matcher: LinesMatcher | null = null;
+  if (mode === "content") {
+    try {
+      matcher = buildMatcher(q, { regex: useRegex, caseSensitive });
+    } catch (err: unknown) {
+      const message = err instanceof Error ? err.message : "Invalid regex";
+      res.status(400).json({ error: `Invalid regex: ${message}` });
+      return;
+    }
+  }
+
+  const rootStats = await stat(root).catch(() => null);
+  if (!rootStats?.isDirectory()) {
+    res.status(404).json({ error: "Directory not found" });
+    return;
+  }
+
+  res.writeHead(200, {
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache",
+    Connection: "keep-alive",
+    "X-Accel-Buffering": "no",
+  });
+
+  let closed = false;
+  res.on("close", () => { closed = true; });
+
+  const sendEvent = (type: string, data: unknown) => {
+    if (closed) return;
+    res.write(`data: ${JSON.stringify({ type, data })}\n\n`);
+  };
+
+  // Results are relative to BASE_DIR so the client can open them directly
+  const toClientPath = (rel: string) => (relativePath ? `${relativePath}/${rel}` : rel);
+
+  try {
+    const candidates = await listCandidateFiles(root, BINARY_EXTENSIONS);
+
+    if (mode === "name") {
+      const scored: { path: string; score: number }[] = [];
+      for (const rel of candidates) {
+        const score = fuzzyScore(q, rel);
+        if (score !== null) scored.push({ path: rel, score });
+      }
+      scored.sort((a, b) => b.score - a.score);
+      for (const { path: rel } of scored.slice(0, MAX_NAME_RESULTS)) {
+        sendEvent("file", { path: toClientPath(rel) });
+      }
+      sendEvent("done", { count: Math.min(scored.length, MAX_NAME_RESULTS), truncated: scored.length > MAX_NAME_RESULTS });
+    } else {
+      let count = 0;
+      let truncated = false;
+      for (const rel of candidates) {
+        if (closed) break;
+        if (count >= MAX_CONTENT_MATCHES) {
+          truncated = true;
+          break;
+        }
+        const matches = await searchFileContent(
+          path.join(root, rel),
+          matcher!,
+          Math.min(MAX_MATCHES_PER_FILE, MAX_CONTENT_MATCHES - count)
+        ).catch((err: unknown) => {
+          // A runaway pattern ends the search; an unreadable file is just skipped
+          if (err instanceof SearchTimeoutError) throw err;
+          return [];
+        });
+        for (const m of matches) {
+          sendEvent("match", { path: toClientPath(rel), ...m });
+        }
+        count += matches.length;
+      }
+      sendEvent("done", { count, truncated });
+    }
+  } catch (err: unknown) {
+    const message = err instanceof Error ? err.message : "Unknown error";
+    sendEvent("error", { error: message });
+  } finally {
+    res.end();
+  }
+}
+
+router.get("/search", handleSearch);
+
 export default router;
@@ -0,0 +1,293 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdir, readFile, writeFile } from "fs/promises";
+import path from "path";
+import { createMockRequest, createMockResponse, createTempDir, cleanupTempDir } from "../test-utils.js";
+import { runGit } from "../git.js";
+import {
+  handleStatus,
+  handleDiff,
+  handleLog,
+  handleBranches,
+  handleCheckout,
+  handleStage,
+  handleUnstage,
+  handleCommit,
+} from "./git.js";
+
+const GIT_IDENTITY = {
+  GIT_AUTHOR_NAME: "Test",
+  GIT_AUTHOR_EMAIL: "test@example.com",
+  GIT_COMMITTER_NAME: "Test",
+  GIT_COMMITTER_EMAIL: "test@example.com",
+};
+
+describe("/api/git", () => {
+  let tmpDir: string;
+  let repo: string;
+  const originalEnv: Record<string, string | undefined> = {};
+
+  beforeEach(async () => {
+    tmpDir = await createTempDir();
+    for (const key of ["BASE_DIR", ...Object.keys(GIT_IDENTITY)]) originalEnv[key] = process.env[key];
+    process.env.BASE_DIR = tmpDir;
+    Object.assign(process.env, GIT_IDENTITY);
+
+    // tmpDir/project — a repo with one commit on "main"
+    repo = path.join(tmpDir, "project");
+    await mkdir(repo);
+    await runGit(repo, ["init", "-q", "-b", "main"]);
+    await writeFile(path.join(repo, "app.ts"), "const a = 1;\nconst b = 2;\n");
+    await runGit(repo, ["add", "app.ts"]);
+    await runGit(repo, ["commit", "-q", "-m", "Initial commit"]);
+  });
+
+  afterEach(async () => {
+    await cleanupTempDir(tmpDir);
+    for (const [key, value] of Object.entries(originalEnv)) {
+      if (value !== undefined) {
+        process.env[key] = value;
+      } else {
+        delete process.env[key];
+      }
+    }
+  });
+
+  describe("GET /status (handleStatus)", () => {
+    it("reports branch and changed files", async () => {
+      await writeFile(path.join(repo, "app.ts"), "const a = 1;\nconst b = 3;\n");
+      await writeFile(path.join(repo, "notes.md"), "# Notes\n");
+
+      const res = createMockResponse();
+      await handleStatus(createMockRequest({ query: { projectPath: "project" } }), res);
+
+      const status = res.json.mock.calls[0][0];
+      expect(status.branch).toBe("main");
+      expect(status.files).toEqual(
+        expect.arrayContaining([
+          expect.objectContaining({ path: "app.ts", worktree: "M", unstaged: true }),
+          expect.objectContaining({ path: "notes.md", untracked: true }),
+        ])
+      );
+    });
+
+    it("returns paths relative to a project nested inside the repo", async () => {
+      await mkdir(path.join(repo, "pkg"));
+      await writeFile(path.join(repo, "pkg", "index.ts"), "export {};\n");
+      await writeFile(path.join(repo, "app.ts"), "changed\n");
+
+      const res = createMockResponse();
+      await handleStatus(createMockRequest({ query: { projectPath: "project/pkg" } }), res);
+
+      const { files } = res.json.mock.calls[0][0];
+      expect(files).toEqual([expect.objectContaining({ path: "index.ts", untracked: true })]);
+    });
+
+    it("returns 400 outside a git repo", async () => {
+      await mkdir(path.join(tmpDir, "plain"));
+      const res = createMockResponse();
+      await handleStatus(createMockRequest({ query: { projectPath: "plain" } }), res);
+
+      expect(res.status).toHaveBeenCalledWith(400);
+      expect(res.json).toHaveBeenCalledWith({ error: "Not a git repository" });
+    });
+
+    it("blocks path traversal", async () => {
+      const res = createMockResponse();
+      await handleStatus(createMockRequest({ query: { projectPath: "../../etc" } }), res);
+
+      expect(res.status).toHaveBeenCalledWith(403);
+    });
+  });
+
+  describe("GET /diff (handleDiff)", () => {
+    it("returns parsed hunks for an unstaged change", async () => {
+      await writeFile(path.join(repo, "app.ts"), "const a = 1;\nconst b = 3;\n");
+
+      const res = createMockResponse();
+      await handleDiff(createMockRequest({ query: { projectPath: "project", path: "app.ts" } }), res);
+
+      const { files, staged } = res.json.mock.calls[0][0];
+      expect(staged).toBe(false);
+      expect(files).toHaveLength(1);
+      expect(files[0]).toMatchObject({ newPath: "app.ts", insertions: 1, deletions: 1 });
+      expect(files[0].hunks[0].lines).toEqual(
+        expect.arrayContaining([
+          expect.objectContaining({ type: "del", text: "const b = 2;" }),
+          expect.objectContaining({ type: "add", text: "const b = 3;" }),
+        ])
+      );
+    });
+
+    it("diffs untracked files against an empty file", async () => {
+      await writeFile(path.join(repo, "new.txt"), "hello\n");
+
+      const res = createMockResponse();
+      await handleDiff(createMockRequest({ query: { projectPath: "project", path: "new.txt" } }), res);
+
+      const { files } = res.json.mock.calls[0][0];
+      expect(files[0]).toMatchObject({ oldPath: null, newPath: "new.txt", insertions: 1 });
+    });
+
+    it("shows staged changes only when staged=1", async () => {
+      await writeFile(path.join(repo, "app.ts"), "staged\n");
+      await runGit(repo, ["add", "app.ts"]);
+
+      const unstagedRes = createMockResponse();
+      await handleDiff(createMockRequest({ query: { projectPath: "project", path: "app.ts" } }), unstagedRes);
+      expect(unstagedRes.json.mock.calls[0][0].files).toEqual([]);
+
+      const stagedRes = createMockResponse();
+      await handleDiff(createMockRequest({ query: { projectPath: "project", path: "app.ts", staged: "1" } }), stagedRes);
+      expect(stagedRes.json.mock.calls[0][0].files[0]).toMatchObject({ insertions: 1, deletions: 2 });
+    });
+
+    it("blocks file paths outside the project", async () => {
+      const res = createMockResponse();
+      await handleDiff(createMockRequest({ query: { projectPath: "project", path: "../secret" } }), res);
+
+      expect(res.status).toHaveBeenCalledWith(403);
+    });
+  });
+
+  describe("GET /log (handleLog)", () => {
+    it("returns commits newest first", async () => {
+      await writeFile(path.join(repo, "app.ts"), "second\n");
+      await runGit(repo, ["commit", "-q", "-am", "Second commit"]);
+
+      const res = createMockResponse();
+      await handleLog(createMockRequest({ query: { projectPath: "project" } }), res);
+
+      const { commits } = res.json.mock.calls[0][0];
+      expect(commits.map((c: { subject: string }) => c.subject)).toEqual(["Second commit", "Initial commit"]);
+      expect(commits[0]).toMatchObject({ author: "Test", hash: expect.stringMatching(/^[0-9a-f]{40}$/) });
+    });
+
+    it("respects limit", async () => {
+      await writeFile(path.join(repo, "app.ts"), "second\n");
+      await runGit(repo, ["commit", "-q", "-am", "Second commit"]);
+
+      const res = createMockResponse();
+      await handleLog(createMockRequest({ query: { projectPath: "project", limit: "1" } }), res);
+
+      expect(res.json.mock.calls[0][0].commits).toHaveLength(1);
+    });
+
+    it("returns an empty log for a repo with no commits", async () => {
+      const fresh = path.join(tmpDir, "fresh");
+      await mkdir(fresh);
+      await runGit(fresh, ["init", "-q"]);
+
+      const res = createMockResponse();
+      await handleLog(createMockRequest({ query: { projectPath: "fresh" } }), res);
+
+      expect(res.json).toHaveBeenCalledWith({ commits: [] });
+    });
+  });
+
+  describe("branches and checkout", () => {
+    it("lists local branches with the current one marked", async () => {
+      await runGit(repo, ["branch", "feature"]);
+
+      const res = createMockResponse();
+      await handleBranches(createMockRequest({ query: { projectPath: "project" } }), res);
+
+      expect(res.json).toHaveBeenCalledWith({
+        branches: [
+          { name: "feature", current: false, remote: false },
+          { name: "main", current: true, remote: false },
+        ],
+      });
+    });
+
+    it("switches to an existing branch", async () => {
+      await runGit(repo, ["branch", "feature"]);
+
+      const res = createMockResponse();
+      await handleCheckout(createMockRequest({ body: { projectPath: "project", branch: "feature" } }), res);
+
+      expect(res.json).toHaveBeenCalledWith({ ok: true, branch: "feature" });
+      expect((await runGit(repo, ["branch", "--show-current"])).trim()).toBe("feature");
+    });
+
+    it("creates a new branch", async () => {
+      const res = createMockResponse();
+      await handleCheckout(createMockRequest({ body: { projectPath: "project", branch: "fix/thing", create: true } }), res);
+
+      expect(res.json).toHaveBeenCalledWith({ ok: true, branch: "fix/thing" });
+      expect((await runGit(repo, ["branch", "--show-current"])).trim()).toBe("fix/thing");
+    });
+
+    it("rejects option-like and invalid branch names", async () => {
+      const dashRes = createMockResponse();
+      await handleCheckout(createMockRequest({ body: { projectPath: "project", branch: "--orphan" } }), dashRes);
+      expect(dashRes.status).toHaveBeenCalledWith(400);
+
+      const invalidRes = createMockResponse();
+      await handleCheckout(createMockRequest({ body: { projectPath: "project", branch: "a..b", create: true } }), invalidRes);
+      expect(invalidRes.status).toHaveBeenCalledWith(400);
+      expect(invalidRes.json).toHaveBeenCalledWith({ error: "Invalid branch name" });
+    });
+
+    it("returns 400 for an unknown branch", async () => {
+      const res = createMockResponse();
+      await handleCheckout(createMockRequest({ body: { projectPath: "project", branch: "nope" } }), res);
+
+      expect(res.status).toHaveBeenCalledWith(400);
+    });
+  });
+
+  describe("stage, unstage and commit", () => {
+    it("stages and unstages files", async () => {
+      await writeFile(path.join(repo, "new.txt"), "hello\n");
+
+      const stageRes = createMockResponse();
+      await handleStage(createMockRequest({ body: { projectPath: "project", paths: ["new.txt"] } }), stageRes);
+      expect(stageRes.json).toHaveBeenCalledWith({ ok: true });
+      expect(await runGit(repo, ["diff", "--cached", "--name-only"])).toBe("new.txt\n");
+
+      const unstageRes = createMockResponse();
+      await handleUnstage(createMockRequest({ body: { projectPath: "project", paths: ["new.txt"] } }), unstageRes);
+      expect(unstageRes.json).toHaveBeenCalledWith({ ok: true });
+      expect(await runGit(repo, ["diff", "--cached", "--name-only"])).toBe("");
+    });
+
+    it("rejects empty or escaping path lists", async () => {
+      const emptyRes = createMockResponse();
+      await handleStage(createMockRequest({ body: { projectPath: "project", paths: [] } }), emptyRes);
+      expect(emptyRes.status).toHaveBeenCalledWith(400);
+
+      const escapeRes = createMockResponse();
+      await handleStage(createMockRequest({ body: { projectPath: "project", paths: ["../outside"] } }), escapeRes);
+      expect(escapeRes.status).toHaveBeenCalledWith(400);
+    });
+
+    it("commits staged changes", async () => {
+      await writeFile(path.join(repo, "app.ts"), "committed\n");
+      await runGit(repo, ["add", "app.ts"]);
+
+      const res = createMockResponse();
+      await handleCommit(createMockRequest({ body: { projectPath: "project", message: "Update app" } }), res);
+
+      expect(res.json).toHaveBeenCalledWith({
+        ok: true,
+        commit: expect.objectContaining({ subject: "Update app", author: "Test" }),
+      });
+      expect(await runGit(repo, ["show", "HEAD:app.ts"])).toBe(await readFile(path.join(repo, "app.ts"), "utf-8"));
+    });
+
+    it("refuses to commit with nothing staged", async () => {
+      const res = createMockResponse();
+      await handleCommit(createMockRequest({ body: { projectPath: "project", message: "Empty" } }), res);
+
+      expect(res.status).toHaveBeenCalledWith(400);
+      expect(res.json).toHaveBeenCalledWith({ error: "Nothing staged to commit" });
+    });
+
+    it("requires a message", async () => {
+      const res = createMockResponse();
+      await handleCommit(createMockRequest({ body: { projectPath: "project", message: "  " } }), res);
+
+      expect(res.status).toHaveBeenCalledWith(400);
+    });
+  });
+});
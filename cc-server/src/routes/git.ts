@@ -0,0 +1,290 @@
+import { Router } from "express";
+import path from "path";
+import {
+  runGit,
+  GitError,
+  parseStatus,
+  parseUnifiedDiff,
+  parseLog,
+  parseBranches,
+  LOG_FORMAT,
+  BRANCH_FORMAT,
+} from "../git.js";
+
+const router = Router();
+
+const DEFAULT_LOG_LIMIT = 50;
+const MAX_LOG_LIMIT = 200;
+
+/**
+ * Resolve `projectPath` (relative to BASE_DIR) to an absolute directory.
+ * Sends a 403 and returns null on traversal.
+ */
+function resolveProject(projectPath: string, res: import("express").Response): string | null {
+  const baseDir = process.env.BASE_DIR!;
+  const resolved = path.resolve(baseDir, projectPath);
+  if (!resolved.startsWith(path.resolve(baseDir))) {
+    res.status(403).json({ error: "Path traversal not allowed" });
+    return null;
+  }
+  return resolved;
+}
+
+/** File paths from the client are relative to the project and must stay inside it */
+function validFilePaths(projectDir: string, paths: unknown): paths is string[] {
+  return (
+    Array.isArray(paths) &&
+    paths.length > 0 &&
+    paths.every(
+      (p) => typeof p === "string" && p !== "" && path.resolve(projectDir, p).startsWith(projectDir + path.sep)
+    )
+  );
+}
+
+function sendGitError(res: import("express").Response, err: unknown) {
+  const message = err instanceof Error ? err.message : "Unknown error";
+  if (err instanceof GitError) {
+    if (message.includes("not a git repository")) {
+      res.status(400).json({ error: "Not a git repository" });
+    } else {
+      res.status(400).json({ error: message });
+    }
+  } else if (message.includes("ENOENT")) {
+    res.status(404).json({ error: "Project not found" });
+  } else {
+    res.status(500).json({ error: message });
+  }
+}
+
+/**
+ * git reports paths relative to the repo root; the client works relative to
+ * the project directory, which may be a subdirectory of the repo.
+ */
+async function repoPrefix(projectDir: string): Promise<string> {
+  return (await runGit(projectDir, ["rev-parse", "--show-prefix"])).trim();
+}
+
+function stripPrefix(prefix: string, p: string): string {
+  return prefix && p.startsWith(prefix) ? p.slice(prefix.length) : p;
+}
+
+// GET /api/git/status?projectPath=
+export async function handleStatus(req: import("express").Request, res: import("express").Response) {
+  const projectDir = resolveProject((req.query.projectPath as string) || "", res);
+  if (!projectDir) return;
+
+  try {
+    const prefix = await repoPrefix(projectDir);
+    // List untracked files individually rather than collapsing them into their directory
+    const output = await runGit(projectDir, [
+      "status",
+      "--porcelain=v2",
+      "--branch",
+      "--untracked-files=all",
+      "-z",
+      "--",
+      ".",
+    ]);
+    const status = parseStatus(output);
+    for (const f of status.files) {
+      f.path = stripPrefix(prefix, f.path);
+      if (f.origPath) f.origPath = stripPrefix(prefix, f.origPath);
+    }
+    res.json(status);
+  } catch (err: unknown) {
+    sendGitError(res, err);
+  }
+}
+
+// GET /api/git/diff?projectPath=&path=&staged=1
+export async function handleDiff(req: import("express").Request, res: import("express").Response) {
+  const projectDir = resolveProject((req.query.projectPath as string) || "", res);
+  if (!projectDir) return;
+
+  const filePath = req.query.path as string | undefined;
+  if (filePath !== undefined && !validFilePaths(projectDir, [filePath])) {
+    res.status(403).json({ error: "Path traversal not allowed" });
+    return;
+  }
+  const staged = req.query.staged === "1" || req.query.staged === "true";
+
+  try {
+    const prefix = await repoPrefix(projectDir);
+    let output: string;
+
+    if (filePath && !staged) {
+      // Untracked files have no index entry, so `git diff` shows nothing — diff against /dev/null instead
+      const untracked = await runGit(projectDir, ["ls-files", "--others", "--exclude-standard", "--", filePath]);
+      output = untracked.trim()
+        ? await runGit(projectDir, ["diff", "--no-index", "--no-color", "--", "/dev/null", filePath], [1])
+        : await runGit(projectDir, ["diff", "--no-color", "--", filePath]);
+    } else {
+      const args = ["diff", "--no-color"];
+      if (staged) args.push("--cached");
+      args.push("--", filePath ?? ".");
+      output = await runGit(projectDir, args);
+    }
+
+    const files = parseUnifiedDiff(output).map((f) => ({
+      ...f,
+      oldPath: f.oldPath && stripPrefix(prefix, f.oldPath),
+      newPath: f.newPath && stripPrefix(prefix, f.newPath),
+    }));
+    res.json({ files, staged });
+  } catch (err: unknown) {
+    sendGitError(res, err);
+  }
+}
+
+// GET /api/git/log?projectPath=&limit=&skip=
+export async function handleLog(req: import("express").Request, res: import("express").Response) {
+  const projectDir = resolveProject((req.query.projectPath as string) || "", res);
+  if (!projectDir) return;
+
+  const limit = Math.min(Math.max(parseInt(req.query.limit as string, 10) || DEFAULT_LOG_LIMIT, 1), MAX_LOG_LIMIT);
+  const skip = Math.max(parseInt(req.query.skip as string, 10) || 0, 0);
+
+  try {
+    const output = await runGit(projectDir, [
+      "log",
+      `--format=${LOG_FORMAT}`,
+      `--max-count=${limit}`,
+      `--skip=${skip}`,
+    ]);
+    res.json({ commits: parseLog(output) });
+  } catch (err: unknown) {
+    // Fresh repo with no commits yet — that's an empty log, not an error
+    if (err instanceof GitError && err.message.includes("does not have any commits")) {
+      res.json({ commits: [] });
+      return;
+    }
+    sendGitError(res, err);
+  }
+}
+
+// GET /api/git/branches?projectPath=
+export async function handleBranches(req: import("express").Request, res: import("express").Response) {
+  const projectDir = resolveProject((req.query.projectPath as string) || "", res);
+  if (!projectDir) return;
+
+  try {
+    const output = await runGit(projectDir, [
+      "for-each-ref",
+      `--format=${BRANCH_FORMAT}`,
+      "refs/heads",
+      "refs/remotes",
+    ]);
+    res.json({ branches: parseBranches(output) });
+  } catch (err: unknown) {
+    sendGitError(res, err);
+  }
+}
+
+// POST /api/git/checkout { projectPath, branch, create? }
+export async function handleCheckout(req: import("express").Request, res: import("express").Response) {
+  const { projectPath, branch, create } = req.body;
+
+  if (!branch || typeof branch !== "string") {
+    res.status(400).json({ error: "branch is required" });
+    return;
+  }
+  // A leading dash would be parsed as an option
+  if (branch.startsWith("-")) {
+    res.status(400).json({ error: "Invalid branch name" });
+    return;
+  }
+
+  const projectDir = resolveProject(projectPath || "", res);
+  if (!projectDir) return;
+
+  try {
+    if (create) {
+      await runGit(projectDir, ["check-ref-format", "--branch", branch]).catch(() => {
+        throw new GitError("Invalid branch name", 128);
+      });
+      await runGit(projectDir, ["checkout", "-b", branch]);
+    } else {
+      await runGit(projectDir, ["checkout", branch, "--"]);
+    }
+    res.json({ ok: true, branch });
+  } catch (err: unknown) {
+    sendGitError(res, err);
+  }
+}
+
+// POST /api/git/stage { projectPath, paths: string[] }
+export async function handleStage(req: import("express").Request, res: import("express").Response) {
+  const { projectPath, paths } = req.body;
+  const projectDir = resolveProject(projectPath || "", res);
+  if (!projectDir) return;
+
+  if (!validFilePaths(projectDir, paths)) {
+    res.status(400).json({ error: "paths must be a non-empty list of project files" });
+    return;
+  }
+
+  try {
+    // `git add` also stages deletions of tracked files
+    await runGit(projectDir, ["add", "--", ...paths]);
+    res.json({ ok: true });
+  } catch (err: unknown) {
+    sendGitError(res, err);
+  }
+}
+
+// POST /api/git/unstage { projectPath, paths: string[] }
+export async function handleUnstage(req: import("express").Request, res: import("express").Response) {
+  const { projectPath, paths } = req.body;
+  const projectDir = resolveProject(projectPath || "", res);
+  if (!projectDir) return;
+
+  if (!validFilePaths(projectDir, paths)) {
+    res.status(400).json({ error: "paths must be a non-empty list of project files" });
+    return;
+  }
+
+  try {
+    // `reset -- <paths>` works on an unborn branch too, unlike `restore --staged`
+    await runGit(projectDir, ["reset", "-q", "--", ...paths]);
+    res.json({ ok: true });
+  } catch (err: unknown) {
+    sendGitError(res, err);
+  }
+}
+
+// POST /api/git/commit { projectPath, message }
+export async function handleCommit(req: import("express").Request, res: import("express").Response) {
+  const { projectPath, message } = req.body;
+
+  if (!message || typeof message !== "string" || !message.trim()) {
+    res.status(400).json({ error: "message is required" });
+    return;
+  }
+
+  const projectDir = resolveProject(projectPath || "", res);
+  if (!projectDir) return;
+
+  try {
+    const staged = await runGit(projectDir, ["diff", "--cached", "--name-only"]);
+    if (!staged.trim()) {
+      res.status(400).json({ error: "Nothing staged to commit" });
+      return;
+    }
+    await runGit(projectDir, ["commit", "-q", "-m", message]);
+    const [commit] = parseLog(await runGit(projectDir, ["log", `--format=${LOG_FORMAT}`, "--max-count=1"]));
+    res.json({ ok: true, commit });
+  } catch (err: unknown) {
+    sendGitError(res, err);
+  }
+}
+
+router.get("/status", handleStatus);
+router.get("/diff", handleDiff);
+router.get("/log", handleLog);
+router.get("/branches", handleBranches);
+router.post("/checkout", handleCheckout);
+router.post("/stage", handleStage);
+router.post("/unstage", handleUnstage);
+router.post("/commit", handleCommit);
+
+export default router;
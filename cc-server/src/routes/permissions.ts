@@ -0,0 +1,68 @@
+import { Router } from "express";
+import { getRules, addRule, removeRule, parseRuleSpec, formatRule, type PermissionRule } from "../permission-rules.js";
+
+const router = Router();
+
+const toJson = (rule: PermissionRule) => ({ ...rule, rule: formatRule(rule) });
+
+export async function handleListRules(req: import("express").Request, res: import("express").Response) {
+  const projectPath = req.query.projectPath as string | undefined;
+
+  try {
+    const rules = await getRules(projectPath);
+    res.json({ rules: rules.map(toJson) });
+  } catch (err: unknown) {
+    const message = err instanceof Error ? err.message : "Unknown error";
+    res.status(500).json({ error: message });
+  }
+}
+
+export async function handleAddRule(req: import("express").Request, res: import("express").Response) {
+  const { rule, behavior, projectPath } = req.body as {
+    rule?: string;
+    behavior?: string;
+    projectPath?: string | null;
+  };
+
+  if (!rule || (behavior !== "allow" && behavior !== "deny")) {
+    res.status(400).json({ error: "rule and behavior (allow or deny) are required" });
+    return;
+  }
+  if (!parseRuleSpec(rule)) {
+    res.status(400).json({ error: `Invalid rule: ${rule}. Use Tool or Tool(pattern)` });
+    return;
+  }
+
+  try {
+    const saved = await addRule(rule, behavior, projectPath || null);
+    res.json({ rule: toJson(saved) });
+  } catch (err: unknown) {
+    const message = err instanceof Error ? err.message : "Unknown error";
+    res.status(500).json({ error: message });
+  }
+}
+
+export async function handleDeleteRule(req: import("express").Request, res: import("express").Response) {
+  const id = req.query.id as string | undefined;
+  if (!id) {
+    res.status(400).json({ error: "id is required" });
+    return;
+  }
+
+  try {
+    if (!(await removeRule(id))) {
+      res.status(404).json({ error: "Rule not found" });
+      return;
+    }
+    res.json({ ok: true });
+  } catch (err: unknown) {
+    const message = err instanceof Error ? err.message : "Unknown error";
+    res.status(500).json({ error: message });
+  }
+}
+
+router.get("/rules", handleListRules);
+router.post("/rules", handleAddRule);
+router.delete("/rules", handleDeleteRule);
+
+export default router;
@@ -0,0 +1,105 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { mkdir } from "fs/promises";
+import path from "path";
+import { createMockRequest, createMockResponse, createTempDir, cleanupTempDir } from "../test-utils.js";
+import { setProcessesDataDir, stopProcess } from "../process-manager.js";
+import {
+  handleListProcesses,
+  handleCreateProcess,
+  handleDeleteProcess,
+  handleStartProcess,
+  handleStopProcess,
+  handleRestartProcess,
+  handleProcessLogs,
+} from "./processes.js";
+
+describe("/api/processes", () => {
+  let tmpDir: string;
+  const originalBaseDir = process.env.BASE_DIR;
+  const created: string[] = [];
+
+  beforeEach(async () => {
+    tmpDir = await createTempDir();
+    await mkdir(path.join(tmpDir, "app"));
+    process.env.BASE_DIR = tmpDir;
+    setProcessesDataDir(path.join(tmpDir, "data"));
+  });
+
+  afterEach(async () => {
+    for (const id of created.splice(0)) await stopProcess(id, 100);
+    process.env.BASE_DIR = originalBaseDir;
+    if (originalBaseDir === undefined) delete process.env.BASE_DIR;
+    await cleanupTempDir(tmpDir);
+  });
+
+  async function create(body: Record<string, unknown>) {
+    const res = createMockResponse();
+    await handleCreateProcess(createMockRequest({ body }), res);
+    const id = res.json.mock.calls[0]?.[0]?.process?.id;
+    if (id) created.push(id);
+    return res;
+  }
+
+  it("validates new processes", async () => {
+    expect((await create({ name: "dev", command: "npm run dev" })).status).toHaveBeenCalledWith(400);
+    expect((await create({ projectPath: "app", command: "npm run dev" })).status).toHaveBeenCalledWith(400);
+    expect((await create({ projectPath: "../elsewhere", name: "dev", command: "npm run dev" })).status).toHaveBeenCalledWith(403);
+  });
+
+  it("rejects a second process with the same name in a project", async () => {
+    await create({ projectPath: "app", name: "dev", command: "sleep 30", start: false });
+    const res = await create({ projectPath: "app", name: "dev", command: "vite" });
+    expect(res.status).toHaveBeenCalledWith(409);
+  });
+
+  it("starts, lists, stops, restarts and deletes a process", async () => {
+    const res = await create({ projectPath: "app", name: "dev", command: "echo listening; sleep 30" });
+    const { process: started } = res.json.mock.calls[0][0];
+    expect(started).toMatchObject({ name: "dev", status: "running" });
+
+    const listed = createMockResponse();
+    await handleListProcesses(createMockRequest({ query: { projectPath: "app" } }), listed);
+    expect(listed.json.mock.calls[0][0].processes).toEqual([expect.objectContaining({ id: started.id, status: "running" })]);
+
+    await vi.waitFor(async () => {
+      const logs = createMockResponse();
+      await handleProcessLogs(createMockRequest({ query: { id: started.id, after: "0" } }), logs);
+      expect(logs.json.mock.calls[0][0].lines).toEqual([expect.objectContaining({ seq: 1, stream: "stdout", text: "listening" })]);
+    });
+
+    const stopped = createMockResponse();
+    await handleStopProcess(createMockRequest({ body: { id: started.id } }), stopped);
+    expect(stopped.json.mock.calls[0][0].process).toMatchObject({ status: "stopped", exitCode: 143 });
+
+    const restarted = createMockResponse();
+    await handleRestartProcess(createMockRequest({ body: { id: started.id } }), restarted);
+    expect(restarted.json.mock.calls[0][0].process).toMatchObject({ status: "running", restarts: 1 });
+
+    const deleted = createMockResponse();
+    await handleDeleteProcess(createMockRequest({ query: { id: started.id } }), deleted);
+    expect(deleted.json).toHaveBeenCalledWith({ ok: true });
+  });
+
+  it("returns 404 for unknown processes", async () => {
+    for (const handler of [handleStartProcess, handleStopProcess, handleRestartProcess]) {
+      const res = createMockResponse();
+      await handler(createMockRequest({ body: { id: "nope" } }), res);
+      expect(res.status).toHaveBeenCalledWith(404);
+    }
+    const logs = createMockResponse();
+    await handleProcessLogs(createMockRequest({ query: { id: "nope" } }), logs);
+    expect(logs.status).toHaveBeenCalledWith(404);
+    const deleted = createMockResponse();
+    await handleDeleteProcess(createMockRequest({ query: { id: "nope" } }), deleted);
+    expect(deleted.status).toHaveBeenCalledWith(404);
+  });
+
+  it("requires an id and an integer log cursor", async () => {
+    const start = createMockResponse();
+    await handleStartProcess(createMockRequest(), start);
+    expect(start.status).toHaveBeenCalledWith(400);
+    const logs = createMockResponse();
+    await handleProcessLogs(createMockRequest({ query: { id: "x", after: "soon" } }), logs);
+    expect(logs.status).toHaveBeenCalledWith(400);
+  });
+});
@@ -0,0 +1,152 @@
+import { Router } from "express";
+import path from "path";
+import {
+  listProcesses,
+  getProcess,
+  createProcess,
+  deleteProcess,
+  startProcess,
+  stopProcess,
+  restartProcess,
+  getProcessLogs,
+  validateProcessInput,
+} from "../process-manager.js";
+
+const router = Router();
+
+function outsideBaseDir(projectPath: string): boolean {
+  const baseDir = path.resolve(process.env.BASE_DIR!);
+  return !path.resolve(baseDir, projectPath).startsWith(baseDir);
+}
+
+// GET /api/processes?projectPath= — the project's services with status and uptime
+export async function handleListProcesses(req: import("express").Request, res: import("express").Response) {
+  const projectPath = req.query.projectPath as string | undefined;
+  try {
+    res.json({ processes: await listProcesses(projectPath) });
+  } catch (err: unknown) {
+    const message = err instanceof Error ? err.message : "Unknown error";
+    res.status(500).json({ error: message });
+  }
+}
+
+// POST /api/processes { projectPath, name, command, start? } — define a service, started right away unless start is false
+export async function handleCreateProcess(req: import("express").Request, res: import("express").Response) {
+  const { projectPath, name, command, start } = req.body as {
+    projectPath?: string;
+    name?: string;
+    command?: string;
+    start?: boolean;
+  };
+  if (!projectPath) {
+    res.status(400).json({ error: "projectPath is required" });
+    return;
+  }
+  const invalid = validateProcessInput({ name, command });
+  if (invalid) {
+    res.status(400).json({ error: invalid });
+    return;
+  }
+  if (outsideBaseDir(projectPath)) {
+    res.status(403).json({ error: "Path traversal not allowed" });
+    return;
+  }
+
+  try {
+    const created = await createProcess(projectPath, name!, command!);
+    if (!created) {
+      res.status(409).json({ error: `This project already has a process named "${name!.trim()}"` });
+      return;
+    }
+    res.json({ process: start === false ? created : await startProcess(created.id) });
+  } catch (err: unknown) {
+    const message = err instanceof Error ? err.message : "Unknown error";
+    res.status(500).json({ error: message });
+  }
+}
+
+// DELETE /api/processes?id= — stop the service and forget it
+export async function handleDeleteProcess(req: import("express").Request, res: import("express").Response) {
+  const id = req.query.id as string | undefined;
+  if (!id) {
+    res.status(400).json({ error: "id is required" });
+    return;
+  }
+
+  try {
+    const removed = await deleteProcess(id);
+    if (!removed) {
+      res.status(404).json({ error: "Process not found" });
+      return;
+    }
+    res.json({ ok: true });
+  } catch (err: unknown) {
+    const message = err instanceof Error ? err.message : "Unknown error";
+    res.status(500).json({ error: message });
+  }
+}
+
+const ACTIONS = { start: startProcess, stop: stopProcess, restart: restartProcess };
+
+function handleAction(action: keyof typeof ACTIONS) {
+  return async (req: import("express").Request, res: import("express").Response) => {
+    const { id } = req.body as { id?: string };
+    if (!id) {
+      res.status(400).json({ error: "id is required" });
+      return;
+    }
+
+    try {
+      const info = await ACTIONS[action](id);
+      if (!info) {
+        res.status(404).json({ error: "Process not found" });
+        return;
+      }
+      res.json({ process: info });
+    } catch (err: unknown) {
+      const message = err instanceof Error ? err.message : "Unknown error";
+      res.status(500).json({ error: message });
+    }
+  };
+}
+
+// POST /api/processes/{start,stop,restart} { id } — stop and restart wait for the old process to exit
+export const handleStartProcess = handleAction("start");
+export const handleStopProcess = handleAction("stop");
+export const handleRestartProcess = handleAction("restart");
+
+// GET /api/processes/logs?id=&after= — buffered log lines, only those after the given seq when there is one
+export async function handleProcessLogs(req: import("express").Request, res: import("express").Response) {
+  const id = req.query.id as string | undefined;
+  if (!id) {
+    res.status(400).json({ error: "id is required" });
+    return;
+  }
+  const afterParam = req.query.after as string | undefined;
+  const after = afterParam === undefined ? undefined : Number(afterParam);
+  if (after !== undefined && !Number.isInteger(after)) {
+    res.status(400).json({ error: "after must be an integer" });
+    return;
+  }
+
+  try {
+    if (!(await getProcess(id))) {
+      res.status(404).json({ error: "Process not found" });
+      return;
+    }
+    res.json(getProcessLogs(id, after));
+  } catch (err: unknown) {
+    const message = err instanceof Error ? err.message : "Unknown error";
+    res.status(500).json({ error: message });
+  }
+}
+
+router.get("/", handleListProcesses);
+router.post("/", handleCreateProcess);
+router.delete("/", handleDeleteProcess);
+router.post("/start", handleStartProcess);
+router.post("/stop", handleStopProcess);
+router.post("/restart", handleRestartProcess);
+router.get("/logs", handleProcessLogs);
+
+export default router;
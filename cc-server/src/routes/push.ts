@@ -0,0 +1,68 @@
+import { Router } from "express";
+import {
+  getVapidKeys,
+  addSubscription,
+  removeSubscription,
+  isValidSubscription,
+  sendPush,
+} from "../push.js";
+
+const router = Router();
+
+export async function handleVapidPublicKey(_req: import("express").Request, res: import("express").Response) {
+  try {
+    const { publicKey } = await getVapidKeys();
+    res.json({ publicKey });
+  } catch (err: unknown) {
+    const message = err instanceof Error ? err.message : "Unknown error";
+    res.status(500).json({ error: message });
+  }
+}
+
+export async function handleSubscribe(req: import("express").Request, res: import("express").Response) {
+  const { subscription } = req.body as { subscription?: unknown };
+  if (!isValidSubscription(subscription)) {
+    res.status(400).json({ error: "A push subscription with endpoint and keys is required" });
+    return;
+  }
+
+  try {
+    await addSubscription({
+      endpoint: subscription.endpoint,
+      expirationTime: subscription.expirationTime ?? null,
+      keys: { p256dh: subscription.keys.p256dh, auth: subscription.keys.auth },
+    });
+    res.json({ ok: true });
+  } catch (err: unknown) {
+    const message = err instanceof Error ? err.message : "Unknown error";
+    res.status(500).json({ error: message });
+  }
+}
+
+export async function handleUnsubscribe(req: import("express").Request, res: import("express").Response) {
+  const { endpoint } = req.body as { endpoint?: string };
+  if (!endpoint) {
+    res.status(400).json({ error: "endpoint is required" });
+    return;
+  }
+
+  try {
+    const removed = await removeSubscription(endpoint);
+    res.json({ ok: true, removed });
+  } catch (err: unknown) {
+    const message = err instanceof Error ? err.message : "Unknown error";
+    res.status(500).json({ error: message });
+  }
+}
+
+export async function handleTest(_req: import("express").Request, res: import("express").Response) {
+  await sendPush({ title: "Code Anvil", body: "Notifications are working", url: "/", tag: "test" });
+  res.json({ ok: true });
+}
+
+router.get("/vapid-public-key", handleVapidPublicKey);
+router.post("/subscribe", handleSubscribe);
+router.post("/unsubscribe", handleUnsubscribe);
+router.post("/test", handleTest);
+
+export default router;
@@ -0,0 +1,149 @@
+import { Router } from "express";
+import path from "path";
+import {
+  listSchedules,
+  createSchedule,
+  updateSchedule,
+  deleteSchedule,
+  listRuns,
+  runSchedule,
+  getSchedule,
+  validateScheduleInput,
+  type ScheduleInput,
+  type SchedulePatch,
+} from "../scheduler.js";
+
+const router = Router();
+
+function outsideBaseDir(projectPath: string): boolean {
+  const baseDir = path.resolve(process.env.BASE_DIR!);
+  return !path.resolve(baseDir, projectPath).startsWith(baseDir);
+}
+
+export async function handleListSchedules(req: import("express").Request, res: import("express").Response) {
+  const projectPath = req.query.projectPath as string | undefined;
+  try {
+    res.json({ schedules: await listSchedules(projectPath) });
+  } catch (err: unknown) {
+    const message = err instanceof Error ? err.message : "Unknown error";
+    res.status(500).json({ error: message });
+  }
+}
+
+export async function handleCreateSchedule(req: import("express").Request, res: import("express").Response) {
+  const input = req.body as ScheduleInput;
+  const invalid = validateScheduleInput(input);
+  if (invalid) {
+    res.status(400).json({ error: invalid });
+    return;
+  }
+  if (outsideBaseDir(input.projectPath)) {
+    res.status(403).json({ error: "Path traversal not allowed" });
+    return;
+  }
+
+  try {
+    res.json({ schedule: await createSchedule(input) });
+  } catch (err: unknown) {
+    const message = err instanceof Error ? err.message : "Unknown error";
+    res.status(500).json({ error: message });
+  }
+}
+
+export async function handleUpdateSchedule(req: import("express").Request, res: import("express").Response) {
+  const { id, ...patch } = req.body as SchedulePatch & { id?: string };
+  if (!id) {
+    res.status(400).json({ error: "id is required" });
+    return;
+  }
+  const invalid = validateScheduleInput(patch, true);
+  if (invalid) {
+    res.status(400).json({ error: invalid });
+    return;
+  }
+  if (patch.projectPath !== undefined && outsideBaseDir(patch.projectPath)) {
+    res.status(403).json({ error: "Path traversal not allowed" });
+    return;
+  }
+
+  try {
+    const schedule = await updateSchedule(id, patch);
+    if (!schedule) {
+      res.status(404).json({ error: "Schedule not found" });
+      return;
+    }
+    res.json({ schedule });
+  } catch (err: unknown) {
+    const message = err instanceof Error ? err.message : "Unknown error";
+    res.status(500).json({ error: message });
+  }
+}
+
+export async function handleDeleteSchedule(req: import("express").Request, res: import("express").Response) {
+  const id = req.query.id as string | undefined;
+  if (!id) {
+    res.status(400).json({ error: "id is required" });
+    return;
+  }
+
+  try {
+    const removed = await deleteSchedule(id);
+    if (!removed) {
+      res.status(404).json({ error: "Schedule not found" });
+      return;
+    }
+    res.json({ ok: true });
+  } catch (err: unknown) {
+    const message = err instanceof Error ? err.message : "Unknown error";
+    res.status(500).json({ error: message });
+  }
+}
+
+export async function handleRunNow(req: import("express").Request, res: import("express").Response) {
+  const { id } = req.body as { id?: string };
+  if (!id) {
+    res.status(400).json({ error: "id is required" });
+    return;
+  }
+
+  try {
+    if (!(await getSchedule(id))) {
+      res.status(404).json({ error: "Schedule not found" });
+      return;
+    }
+    const run = await runSchedule(id, "manual");
+    if (!run) {
+      res.status(409).json({ error: "This schedule is already running" });
+      return;
+    }
+    res.json({ run });
+  } catch (err: unknown) {
+    const message = err instanceof Error ? err.message : "Unknown error";
+    res.status(500).json({ error: message });
+  }
+}
+
+export async function handleListRuns(req: import("express").Request, res: import("express").Response) {
+  const scheduleId = req.query.scheduleId as string | undefined;
+  const projectPath = req.query.projectPath as string | undefined;
+  if (!scheduleId && !projectPath) {
+    res.status(400).json({ error: "scheduleId or projectPath is required" });
+    return;
+  }
+
+  try {
+    res.json({ runs: await listRuns({ scheduleId, projectPath }) });
+  } catch (err: unknown) {
+    const message = err instanceof Error ? err.message : "Unknown error";
+    res.status(500).json({ error: message });
+  }
+}
+
+router.get("/", handleListSchedules);
+router.post("/", handleCreateSchedule);
+router.patch("/", handleUpdateSchedule);
+router.delete("/", handleDeleteSchedule);
+router.post("/run", handleRunNow);
+router.get("/runs", handleListRuns);
+
+export default router;
@@ -0,0 +1,82 @@
+import { Router } from "express";
+import path from "path";
+import { createTask, getTask, listTasks, cancelTask, validateTaskInput, type TaskInput } from "../tasks.js";
+
+const router = Router();
+
+function outsideBaseDir(projectPath: string): boolean {
+  const baseDir = path.resolve(process.env.BASE_DIR!);
+  return !path.resolve(baseDir, projectPath).startsWith(baseDir);
+}
+
+export async function handleCreateTask(req: import("express").Request, res: import("express").Response) {
+  const input = req.body as TaskInput;
+  const invalid = validateTaskInput(input);
+  if (invalid) {
+    res.status(400).json({ error: invalid });
+    return;
+  }
+  if (outsideBaseDir(input.projectPath)) {
+    res.status(403).json({ error: "Path traversal not allowed" });
+    return;
+  }
+
+  try {
+    // 202: the task runs in the background — poll GET /api/tasks/:id or wait for the callback
+    res.status(202).json({ task: await createTask(input) });
+  } catch (err: unknown) {
+    const message = err instanceof Error ? err.message : "Unknown error";
+    res.status(500).json({ error: message });
+  }
+}
+
+export async function handleListTasks(req: import("express").Request, res: import("express").Response) {
+  const projectPath = req.query.projectPath as string | undefined;
+  const limit = req.query.limit ? parseInt(req.query.limit as string, 10) : undefined;
+  if (limit !== undefined && !(limit > 0)) {
+    res.status(400).json({ error: "limit must be a positive integer" });
+    return;
+  }
+
+  try {
+    res.json({ tasks: await listTasks({ projectPath, limit }) });
+  } catch (err: unknown) {
+    const message = err instanceof Error ? err.message : "Unknown error";
+    res.status(500).json({ error: message });
+  }
+}
+
+export async function handleGetTask(req: import("express").Request, res: import("express").Response) {
+  try {
+    const task = await getTask(req.params.id as string);
+    if (!task) {
+      res.status(404).json({ error: "Task not found" });
+      return;
+    }
+    res.json({ task });
+  } catch (err: unknown) {
+    const message = err instanceof Error ? err.message : "Unknown error";
+    res.status(500).json({ error: message });
+  }
+}
+
+export async function handleCancelTask(req: import("express").Request, res: import("express").Response) {
+  try {
+    const task = await cancelTask(req.params.id as string);
+    if (!task) {
+      res.status(404).json({ error: "Task not found" });
+      return;
+    }
+    res.json({ task });
+  } catch (err: unknown) {
+    const message = err instanceof Error ? err.message : "Unknown error";
+    res.status(500).json({ error: message });
+  }
+}
+
+router.post("/", handleCreateTask);
+router.get("/", handleListTasks);
+router.get("/:id", handleGetTask);
+router.post("/:id/cancel", handleCancelTask);
+
+export default router;
@@ -1,6 +1,21 @@
-import { describe, it, expect, beforeEach, afterEach } from "vitest";
-import { createMockRequest, createMockResponse } from "../test-utils.js";
-import { handleTerminalPost, handleTerminalStatus, handleTerminalReconnect } from "./terminal.js";
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { mkdir, writeFile } from "fs/promises";
+import path from "path";
+import { createMockRequest, createMockResponse, createTempDir, cleanupTempDir } from "../test-utils.js";
+import { setSnippetsDataDir } from "../snippets.js";
+import {
+  handleTerminalPost,
+  handleTerminalStatus,
+  handleTerminalReconnect,
+  handleTerminalShell,
+  handleTerminalInput,
+  handleTerminalResize,
+  handleTerminalSignal,
+  handleTerminalTasks,
+  handleListSnippets,
+  handleAddSnippet,
+  handleDeleteSnippet,
+} from "./terminal.js";
 
 describe("POST /api/terminal (handleTerminalPost)", () => {
   const originalBaseDir = process.env.BASE_DIR;
@@ -58,6 +73,106 @@ describe("POST /api/terminal (handleTerminalPost)", () => {
   });
 });
 
+describe("one-shot command environment", () => {
+  let tmpDir: string;
+  const saved = { BASE_DIR: process.env.BASE_DIR, TERMINAL_TERM: process.env.TERMINAL_TERM, FORCE_COLOR: process.env.FORCE_COLOR };
+
+  beforeEach(async () => {
+    tmpDir = await createTempDir();
+    process.env.BASE_DIR = tmpDir;
+    delete process.env.FORCE_COLOR;
+  });
+
+  afterEach(async () => {
+    await cleanupTempDir(tmpDir);
+    for (const [key, value] of Object.entries(saved)) {
+      if (value !== undefined) {
+        process.env[key] = value;
+      } else {
+        delete process.env[key];
+      }
+    }
+  });
+
+  async function run(command: string) {
+    const res = createMockResponse();
+    handleTerminalPost(createMockRequest({ body: { command, projectPath: "." } }), res);
+    await vi.waitFor(() => expect(res.end).toHaveBeenCalled(), { timeout: 5000 });
+    return res._parseSSEEvents().filter((e) => e.type === "stdout").map((e) => e.data).join("");
+  }
+
+  it("asks tools for colored output by default", async () => {
+    delete process.env.TERMINAL_TERM;
+    expect(await run('printf "%s %s" "$TERM" "$FORCE_COLOR"')).toBe("xterm-256color 1");
+  });
+
+  it("keeps output plain with TERMINAL_TERM=dumb", async () => {
+    process.env.TERMINAL_TERM = "dumb";
+    expect(await run('printf "%s %s" "$TERM" "${FORCE_COLOR:-unset}"')).toBe("dumb unset");
+  });
+});
+
+describe("input and signals for one-shot commands", () => {
+  let tmpDir: string;
+  const originalBaseDir = process.env.BASE_DIR;
+
+  beforeEach(async () => {
+    tmpDir = await createTempDir();
+    process.env.BASE_DIR = tmpDir;
+  });
+
+  afterEach(async () => {
+    await cleanupTempDir(tmpDir);
+    process.env.BASE_DIR = originalBaseDir;
+    if (originalBaseDir === undefined) delete process.env.BASE_DIR;
+  });
+
+  function start(command: string) {
+    const res = createMockResponse();
+    handleTerminalPost(createMockRequest({ body: { command, projectPath: "." } }), res);
+    const commandId = res._parseSSEEvents()[0].data.commandId as string;
+    const post = (handler: typeof handleTerminalInput, body: Record<string, unknown>) => {
+      const r = createMockResponse();
+      handler(createMockRequest({ body: { commandId, ...body } }), r);
+      return r;
+    };
+    const exit = async () => {
+      await vi.waitFor(() => expect(res.end).toHaveBeenCalled(), { timeout: 5000 });
+      const events = res._parseSSEEvents();
+      return {
+        stdout: events.filter((e) => e.type === "stdout").map((e) => e.data).join(""),
+        exit: events.find((e) => e.type === "exit")!.data,
+      };
+    };
+    return { post, exit };
+  }
+
+  it("writes lines to stdin and closes it on eof", async () => {
+    const cmd = start('read -r answer; echo "answer: $answer"; cat');
+    expect(cmd.post(handleTerminalInput, { data: "y\n" }).json).toHaveBeenCalledWith({ ok: true });
+    cmd.post(handleTerminalInput, { data: "more\n", eof: true });
+
+    expect(await cmd.exit()).toEqual({ stdout: "answer: y\nmore\n", exit: { code: 0, signal: null } });
+    expect(cmd.post(handleTerminalInput, { data: "late\n" }).status).toHaveBeenCalledWith(409);
+  });
+
+  it("interrupts the whole command, not just bash", async () => {
+    // bash stays in front of sleep here, so signalling bash alone would leave sleep running
+    const cmd = start("sleep 30; echo never");
+    expect(cmd.post(handleTerminalSignal, { signal: "SIGINT" }).json).toHaveBeenCalledWith({ ok: true });
+
+    const { stdout, exit } = await cmd.exit();
+    expect(stdout).toBe("");
+    expect(exit).toEqual({ code: 130, signal: "SIGINT" });
+  });
+
+  it("rejects unknown signals", () => {
+    const res = createMockResponse();
+    handleTerminalSignal(createMockRequest({ body: { commandId: "x", signal: "SIGHUP" } }), res);
+    expect(res.status).toHaveBeenCalledWith(400);
+  });
+});
+
 describe("GET /api/terminal/status (handleTerminalStatus)", () => {
   it("returns 400 without commandId", () => {
     const req = createMockRequest({ query: {} });
@@ -105,3 +220,139 @@ describe("POST /api/terminal/reconnect (handleTerminalReconnect)", () => {
     expect(res.json).toHaveBeenCalledWith({ error: "No active or recent command with this ID" });
   });
 });
+
+describe("interactive shells", () => {
+  let tmpDir: string;
+  const originalBaseDir = process.env.BASE_DIR;
+  const originalShell = process.env.SHELL;
+
+  beforeEach(async () => {
+    tmpDir = await createTempDir();
+    process.env.BASE_DIR = tmpDir;
+    process.env.SHELL = "/bin/bash";
+  });
+
+  afterEach(async () => {
+    await cleanupTempDir(tmpDir);
+    process.env.BASE_DIR = originalBaseDir;
+    if (originalBaseDir === undefined) delete process.env.BASE_DIR;
+    process.env.SHELL = originalShell;
+    if (originalShell === undefined) delete process.env.SHELL;
+  });
+
+  it("validates the shell request", () => {
+    const res = createMockResponse();
+    handleTerminalShell(createMockRequest({ body: {} }), res);
+    expect(res.status).toHaveBeenCalledWith(400);
+
+    const badSize = createMockResponse();
+    handleTerminalShell(createMockRequest({ body: { projectPath: ".", cols: 0, rows: 24 } }), badSize);
+    expect(badSize.status).toHaveBeenCalledWith(400);
+
+    const traversal = createMockResponse();
+    handleTerminalShell(createMockRequest({ body: { projectPath: "../.." } }), traversal);
+    expect(traversal.status).toHaveBeenCalledWith(403);
+  });
+
+  it("rejects input and resizes for unknown commands", () => {
+    const input = createMockResponse();
+    handleTerminalInput(createMockRequest({ body: { commandId: "nonexistent", data: "ls\r" } }), input);
+    expect(input.status).toHaveBeenCalledWith(404);
+
+    const noData = createMockResponse();
+    handleTerminalInput(createMockRequest({ body: { commandId: "nonexistent" } }), noData);
+    expect(noData.status).toHaveBeenCalledWith(400);
+
+    const resize = createMockResponse();
+    handleTerminalResize(createMockRequest({ body: { commandId: "nonexistent", cols: 80, rows: 24 } }), resize);
+    expect(resize.status).toHaveBeenCalledWith(404);
+  });
+
+  it("keeps the working directory and environment between inputs", async () => {
+    await mkdir(path.join(tmpDir, "app", "src"), { recursive: true });
+    const res = createMockResponse();
+    handleTerminalShell(createMockRequest({ body: { projectPath: "app", cols: 100, rows: 30 } }), res);
+
+    const [start] = res._parseSSEEvents();
+    expect(start).toMatchObject({ type: "command_start", data: { interactive: true } });
+    const commandId = start.data.commandId as string;
+    const output = () => res._parseSSEEvents().filter((e) => e.type === "output").map((e) => e.data).join("");
+    const send = (data: string) => {
+      const inputRes = createMockResponse();
+      handleTerminalInput(createMockRequest({ body: { commandId, data } }), inputRes);
+      expect(inputRes.json).toHaveBeenCalledWith({ ok: true });
+    };
+
+    send("cd src && export GREETING=hello\r");
+    send("echo \"$GREETING from $(basename \"$PWD\")\"\r");
+    await vi.waitFor(() => expect(output()).toContain("hello from src"), { timeout: 5000 });
+
+    const resizeRes = createMockResponse();
+    handleTerminalResize(createMockRequest({ body: { commandId, cols: 120, rows: 40 } }), resizeRes);
+    expect(resizeRes.json).toHaveBeenCalledWith({ ok: true });
+
+    send("exit 3\r");
+    await vi.waitFor(() => {
+      expect(res._parseSSEEvents().at(-1)).toMatchObject({ type: "exit", data: { code: 3 } });
+    }, { timeout: 5000 });
+    expect(res.end).toHaveBeenCalled();
+  });
+});
+
+describe("task palette", () => {
+  let tmpDir: string;
+  const originalBaseDir = process.env.BASE_DIR;
+
+  beforeEach(async () => {
+    tmpDir = await createTempDir();
+    process.env.BASE_DIR = tmpDir;
+    setSnippetsDataDir(path.join(tmpDir, "data"));
+  });
+
+  afterEach(async () => {
+    await cleanupTempDir(tmpDir);
+    process.env.BASE_DIR = originalBaseDir;
+    if (originalBaseDir === undefined) delete process.env.BASE_DIR;
+  });
+
+  it("lists the project's tasks", async () => {
+    await mkdir(path.join(tmpDir, "app"));
+    await writeFile(path.join(tmpDir, "app", "package.json"), JSON.stringify({ scripts: { test: "vitest run" } }));
+    const res = createMockResponse();
+
+    await handleTerminalTasks(createMockRequest({ query: { projectPath: "app" } }), res);
+
+    expect(res.json).toHaveBeenCalledWith({
+      tasks: [{ name: "test", command: "npm run test", source: "npm", description: "vitest run" }],
+    });
+  });
+
+  it("rejects projects outside BASE_DIR", async () => {
+    const res = createMockResponse();
+    await handleTerminalTasks(createMockRequest({ query: { projectPath: "../elsewhere" } }), res);
+    expect(res.status).toHaveBeenCalledWith(403);
+  });
+
+  it("saves, lists and deletes snippets", async () => {
+    const bad = createMockResponse();
+    await handleAddSnippet(createMockRequest({ body: { projectPath: "app" } }), bad);
+    expect(bad.status).toHaveBeenCalledWith(400);
+
+    const added = createMockResponse();
+    await handleAddSnippet(createMockRequest({ body: { projectPath: "app", command: "docker compose up" } }), added);
+    const { snippet } = added.json.mock.calls[0][0];
+    expect(snippet).toMatchObject({ projectPath: "app", name: "docker compose up", command: "docker compose up" });
+
+    const listed = createMockResponse();
+    await handleListSnippets(createMockRequest({ query: { projectPath: "app" } }), listed);
+    expect(listed.json).toHaveBeenCalledWith({ snippets: [snippet] });
+
+    const deleted = createMockResponse();
+    await handleDeleteSnippet(createMockRequest({ query: { id: snippet.id } }), deleted);
+    expect(deleted.json).toHaveBeenCalledWith({ ok: true });
+
+    const missing = createMockResponse();
+    await handleDeleteSnippet(createMockRequest({ query: { id: snippet.id } }), missing);
+    expect(missing.status).toHaveBeenCalledWith(404);
+  });
+});
@@ -2,7 +2,11 @@ import { Router } from "express";
 import { spawn } from "child_process";
 import path from "path";
 import crypto from "crypto";
-import { TerminalRunner, type TerminalEventListener } from "../terminal-runner.js";
+import os from "os";
+import * as pty from "node-pty";
+import { discoverTasks } from "../project-tasks.js";
+import { getSnippets, addSnippet, removeSnippet, validateSnippetInput } from "../snippets.js";
+import { TerminalRunner, TERMINAL_SIGNALS, commandEnv, type TerminalEventListener, type TerminalSignal } from "../terminal-runner.js";
 
 const router = Router();
 
@@ -13,6 +17,7 @@ const completedTimestamps = new Map<string, number>();
 
 const COMPLETED_TTL_MS = 5 * 60 * 1000;
 const ORPHAN_TTL_MS = 30 * 60 * 1000; // Kill orphaned processes after 30min
+const MAX_INPUT_CHARS = 64 * 1024;
 
 // Cleanup completed terminals and orphaned processes
 setInterval(() => {
@@ -30,7 +35,7 @@ setInterval(() => {
 
   // Kill orphaned running processes (no listeners for 30min)
   for (const [id, runner] of activeTerminals) {
-    if (runner.status === "running" && runner.listenerCount === 0 && runner.age > ORPHAN_TTL_MS) {
+    if (runner.status === "running" && runner.listenerCount === 0 && runner.detachedMs > ORPHAN_TTL_MS) {
       console.error(`[terminal] killing orphaned process ${id} (age: ${Math.round(runner.age / 60000)}min)`);
       runner.kill();
       activeTerminals.delete(id);
@@ -116,17 +121,21 @@ export function handleTerminalPost(req: import("express").Request, res: import("
     "X-Accel-Buffering": "no",
   });
 
-  // Send commandId to client for reconnection
-  runner.bufferEvent("command_start", { commandId });
-
   // Subscribe this response to the runner
   const { listener, heartbeat } = subscribeTerminalResponse(res, runner);
 
+  // Send commandId to client for reconnection
+  runner.bufferEvent("command_start", { commandId });
+
+  // Own process group, so signals reach whatever the command starts
   const child = spawn("bash", ["-c", command], {
     cwd,
-    env: { ...process.env, TERM: "dumb" },
+    env: commandEnv(),
+    detached: true,
   });
   runner.setChild(child);
+  // Writing after the command closed its stdin — the input is just dropped
+  child.stdin.on("error", () => {});
 
   console.error("[terminal] Child process PID:", child.pid);
 
@@ -140,10 +149,12 @@ export function handleTerminalPost(req: import("express").Request, res: import("
     runner.bufferEvent("stderr", chunk.toString());
   });
 
-  child.on("close", (code) => {
-    console.error("[terminal] Process exited with code:", code);
-    runner.bufferEvent("exit", { code });
-    runner.complete(code ?? 1);
+  child.on("close", (code, signal) => {
+    console.error("[terminal] Process exited with code:", code, signal ?? "");
+    // Killed by a signal: report it the way a shell would (SIGINT → 130)
+    const exitCode = code ?? (signal ? 128 + os.constants.signals[signal] : 1);
+    runner.bufferEvent("exit", { code: exitCode, signal });
+    runner.complete(exitCode);
     completedTimestamps.set(commandId, Date.now());
     // End all connected responses
     try { res.end(); } catch { /* already closed */ }
@@ -187,11 +198,170 @@ export function handleTerminalStatus(req: import("express").Request, res: import
     eventCount: runner.eventCount,
     status: runner.status,
     exitCode: runner.exitCode,
+    interactive: runner.interactive,
   });
 }
 
 router.get("/status", handleTerminalStatus);
 
+function validTerminalSize(cols: unknown, rows: unknown): boolean {
+  return Number.isInteger(cols) && Number.isInteger(rows)
+    && (cols as number) > 0 && (cols as number) <= 500
+    && (rows as number) > 0 && (rows as number) <= 200;
+}
+
+// POST /api/terminal/shell — start an interactive shell on a pseudo-terminal, stream its output as SSE.
+// Unlike one-shot commands, cd, exported variables and running programs persist between inputs.
+export function handleTerminalShell(req: import("express").Request, res: import("express").Response) {
+  const baseDir = process.env.BASE_DIR;
+  if (!baseDir) {
+    res.status(500).json({ error: "BASE_DIR not configured on cc-server" });
+    return;
+  }
+
+  const { projectPath, cols = 80, rows = 24 } = req.body as { projectPath?: string; cols?: number; rows?: number };
+  if (!projectPath) {
+    res.status(400).json({ error: "projectPath is required" });
+    return;
+  }
+  if (!validTerminalSize(cols, rows)) {
+    res.status(400).json({ error: "cols and rows must be positive integers" });
+    return;
+  }
+
+  const cwd = path.resolve(baseDir, projectPath);
+  if (!cwd.startsWith(path.resolve(baseDir))) {
+    res.status(403).json({ error: "Path traversal not allowed" });
+    return;
+  }
+
+  const shell = process.env.SHELL || "bash";
+  let term: pty.IPty;
+  try {
+    term = pty.spawn(shell, ["-l"], {
+      name: "xterm-256color",
+      cols,
+      rows,
+      cwd,
+      env: { ...process.env, TERM: "xterm-256color", COLORTERM: "truecolor" },
+    });
+  } catch (err: unknown) {
+    const message = err instanceof Error ? err.message : "Unknown error";
+    console.error("[terminal] Failed to start shell:", message);
+    res.status(500).json({ error: `Failed to start shell: ${message}` });
+    return;
+  }
+
+  const commandId = crypto.randomUUID();
+  const runner = new TerminalRunner(commandId, shell);
+  runner.setPty(term);
+  activeTerminals.set(commandId, runner);
+  console.error(`[terminal] shell ${commandId} started in ${cwd} (pid ${term.pid})`);
+
+  res.writeHead(200, {
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache",
+    Connection: "keep-alive",
+    "X-Accel-Buffering": "no",
+  });
+
+  const { listener, heartbeat } = subscribeTerminalResponse(res, runner);
+  runner.bufferEvent("command_start", { commandId, interactive: true });
+
+  term.onData((data) => runner.bufferEvent("output", data));
+  term.onExit(({ exitCode }) => {
+    console.error(`[terminal] shell ${commandId} exited with code ${exitCode}`);
+    runner.bufferEvent("exit", { code: exitCode });
+    runner.complete(exitCode);
+    completedTimestamps.set(commandId, Date.now());
+    try { res.end(); } catch { /* already closed */ }
+  });
+
+  // Client disconnect: the shell keeps running until it exits or is orphaned
+  res.on("close", () => {
+    clearInterval(heartbeat);
+    runner.removeListener(listener);
+  });
+}
+
+router.post("/shell", handleTerminalShell);
+
+// POST /api/terminal/input — send keystrokes to a shell or text to a command's stdin; `eof` closes the input (Ctrl-D)
+export function handleTerminalInput(req: import("express").Request, res: import("express").Response) {
+  const { commandId, data, eof } = req.body as { commandId?: string; data?: string; eof?: boolean };
+  if (!commandId || (typeof data !== "string" && eof !== true)) {
+    res.status(400).json({ error: "commandId and data are required" });
+    return;
+  }
+  if (data && data.length > MAX_INPUT_CHARS) {
+    res.status(413).json({ error: "Input too large" });
+    return;
+  }
+
+  const runner = activeTerminals.get(commandId);
+  if (!runner) {
+    res.status(404).json({ error: "No active or recent command with this ID" });
+    return;
+  }
+  const accepted = (typeof data !== "string" || runner.write(data)) && (!eof || runner.endInput());
+  if (!accepted) {
+    res.status(409).json({ error: "Command is not accepting input" });
+    return;
+  }
+  res.json({ ok: true });
+}
+
+router.post("/input", handleTerminalInput);
+
+// POST /api/terminal/signal — interrupt, terminate or kill a running command
+export function handleTerminalSignal(req: import("express").Request, res: import("express").Response) {
+  const { commandId, signal } = req.body as { commandId?: string; signal?: string };
+  if (!commandId || !TERMINAL_SIGNALS.includes(signal as TerminalSignal)) {
+    res.status(400).json({ error: `commandId and signal (${TERMINAL_SIGNALS.join(", ")}) are required` });
+    return;
+  }
+
+  const runner = activeTerminals.get(commandId);
+  if (!runner) {
+    res.status(404).json({ error: "No active or recent command with this ID" });
+    return;
+  }
+  if (!runner.signal(signal as TerminalSignal)) {
+    res.status(409).json({ error: "Command is not running" });
+    return;
+  }
+  console.error(`[terminal] sent ${signal} to ${commandId}`);
+  res.json({ ok: true });
+}
+
+router.post("/signal", handleTerminalSignal);
+
+// POST /api/terminal/resize — match the shell's window size to the client's terminal
+export function handleTerminalResize(req: import("express").Request, res: import("express").Response) {
+  const { commandId, cols, rows } = req.body as { commandId?: string; cols?: number; rows?: number };
+  if (!commandId) {
+    res.status(400).json({ error: "commandId is required" });
+    return;
+  }
+  if (!validTerminalSize(cols, rows)) {
+    res.status(400).json({ error: "cols and rows must be positive integers" });
+    return;
+  }
+
+  const runner = activeTerminals.get(commandId);
+  if (!runner) {
+    res.status(404).json({ error: "No active or recent command with this ID" });
+    return;
+  }
+  if (!runner.resize(cols as number, rows as number)) {
+    res.status(409).json({ error: "Command has no terminal to resize" });
+    return;
+  }
+  res.json({ ok: true });
+}
+
+router.post("/resize", handleTerminalResize);
+
 // POST /api/terminal/reconnect — replay + subscribe to running command
 export function handleTerminalReconnect(req: import("express").Request, res: import("express").Response) {
   const { commandId, fromIndex } = req.body as { commandId?: string; fromIndex?: number };
@@ -254,4 +424,97 @@ export function handleTerminalReconnect(req: import("express").Request, res: imp
 
 router.post("/reconnect", handleTerminalReconnect);
 
+// ── Task palette — discovered project tasks and saved snippets ──────
+
+/** The project folder, or null once a response has been sent */
+function resolveProjectDir(projectPath: string | undefined, res: import("express").Response): string | null {
+  const baseDir = process.env.BASE_DIR;
+  if (!baseDir) {
+    res.status(500).json({ error: "BASE_DIR not configured on cc-server" });
+    return null;
+  }
+  if (!projectPath) {
+    res.status(400).json({ error: "projectPath is required" });
+    return null;
+  }
+  const cwd = path.resolve(baseDir, projectPath);
+  if (!cwd.startsWith(path.resolve(baseDir))) {
+    res.status(403).json({ error: "Path traversal not allowed" });
+    return null;
+  }
+  return cwd;
+}
+
+// GET /api/terminal/tasks?projectPath= — package.json scripts, Makefile targets, justfile recipes, cargo/go commands
+export async function handleTerminalTasks(req: import("express").Request, res: import("express").Response) {
+  const cwd = resolveProjectDir(req.query.projectPath as string | undefined, res);
+  if (!cwd) return;
+
+  try {
+    res.json({ tasks: await discoverTasks(cwd) });
+  } catch (err: unknown) {
+    const message = err instanceof Error ? err.message : "Unknown error";
+    res.status(500).json({ error: message });
+  }
+}
+
+router.get("/tasks", handleTerminalTasks);
+
+// GET /api/terminal/snippets?projectPath= — the project's saved commands
+export async function handleListSnippets(req: import("express").Request, res: import("express").Response) {
+  const projectPath = req.query.projectPath as string | undefined;
+  if (!resolveProjectDir(projectPath, res)) return;
+
+  try {
+    res.json({ snippets: await getSnippets(projectPath!) });
+  } catch (err: unknown) {
+    const message = err instanceof Error ? err.message : "Unknown error";
+    res.status(500).json({ error: message });
+  }
+}
+
+router.get("/snippets", handleListSnippets);
+
+// POST /api/terminal/snippets — save a command for the project
+export async function handleAddSnippet(req: import("express").Request, res: import("express").Response) {
+  const { projectPath, command, name } = req.body as { projectPath?: string; command?: string; name?: string };
+  const invalid = validateSnippetInput({ command, name });
+  if (invalid) {
+    res.status(400).json({ error: invalid });
+    return;
+  }
+  if (!resolveProjectDir(projectPath, res)) return;
+
+  try {
+    res.json({ snippet: await addSnippet(projectPath!, command!, name) });
+  } catch (err: unknown) {
+    const message = err instanceof Error ? err.message : "Unknown error";
+    res.status(500).json({ error: message });
+  }
+}
+
+router.post("/snippets", handleAddSnippet);
+
+// DELETE /api/terminal/snippets?id=
+export async function handleDeleteSnippet(req: import("express").Request, res: import("express").Response) {
+  const id = req.query.id as string | undefined;
+  if (!id) {
+    res.status(400).json({ error: "id is required" });
+    return;
+  }
+
+  try {
+    if (!(await removeSnippet(id))) {
+      res.status(404).json({ error: "Snippet not found" });
+      return;
+    }
+    res.json({ ok: true });
+  } catch (err: unknown) {
+    const message = err instanceof Error ? err.message : "Unknown error";
+    res.status(500).json({ error: message });
+  }
+}
+
+router.delete("/snippets", handleDeleteSnippet);
+
 export default router;
@@ -0,0 +1,36 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { createMockRequest, createMockResponse } from "../test-utils.js";
+import { MAX_AUDIO_BYTES } from "../transcribe.js";
+import { handleTranscribe } from "./transcribe.js";
+
+describe("POST /api/transcribe", () => {
+  const original = { ...process.env };
+
+  beforeEach(() => {
+    delete process.env.TRANSCRIBE_COMMAND;
+    delete process.env.WHISPER_CPP_BIN;
+    delete process.env.WHISPER_CPP_MODEL;
+  });
+
+  afterEach(() => {
+    process.env = { ...original };
+  });
+
+  it("names both ways to configure an engine when none is set", async () => {
+    const res = createMockResponse();
+    await handleTranscribe(createMockRequest({ body: { audio: "aGk=" } }), res);
+    expect(res.status).toHaveBeenCalledWith(503);
+    const { error } = res.json.mock.calls[0][0];
+    expect(error).toContain("TRANSCRIBE_COMMAND");
+    expect(error).toContain("WHISPER_CPP_BIN");
+  });
+
+  it("rejects recordings the proxy couldn't carry", async () => {
+    process.env.TRANSCRIBE_COMMAND = "stt {input}";
+    const res = createMockResponse();
+    const audio = Buffer.alloc(MAX_AUDIO_BYTES + 1).toString("base64");
+    await handleTranscribe(createMockRequest({ body: { audio } }), res);
+    expect(res.status).toHaveBeenCalledWith(400);
+    expect(res.json).toHaveBeenCalledWith({ error: "Recording must be under 3MB" });
+  });
+});
@@ -0,0 +1,47 @@
+import { Router } from "express";
+import { engineFromEnv, transcribeAudio, MAX_AUDIO_BYTES } from "../transcribe.js";
+
+const router = Router();
+
+export function handleTranscribeStatus(_req: import("express").Request, res: import("express").Response) {
+  const engine = engineFromEnv();
+  res.json({ available: engine !== null, engine: engine?.name ?? null });
+}
+
+export async function handleTranscribe(req: import("express").Request, res: import("express").Response) {
+  const engine = engineFromEnv();
+  if (!engine) {
+    res.status(503).json({ error: "Voice input isn't configured — set TRANSCRIBE_COMMAND, or WHISPER_CPP_BIN and WHISPER_CPP_MODEL" });
+    return;
+  }
+
+  const { audio, language } = req.body as { audio?: string; language?: string };
+  if (typeof audio !== "string" || !audio) {
+    res.status(400).json({ error: "audio (base64) is required" });
+    return;
+  }
+  if (language !== undefined && (typeof language !== "string" || !/^(auto|[a-z]{2,3})$/.test(language))) {
+    res.status(400).json({ error: "language must be \"auto\" or a language code like \"en\"" });
+    return;
+  }
+
+  const bytes = Buffer.from(audio, "base64");
+  if (bytes.length === 0 || bytes.length > MAX_AUDIO_BYTES) {
+    res.status(400).json({ error: `Recording must be under ${MAX_AUDIO_BYTES / 1024 / 1024}MB` });
+    return;
+  }
+
+  const started = Date.now();
+  try {
+    const text = await transcribeAudio(engine, bytes, language);
+    res.json({ text, engine: engine.name, durationMs: Date.now() - started });
+  } catch (err: unknown) {
+    const message = err instanceof Error ? err.message : "Unknown error";
+    res.status(500).json({ error: message });
+  }
+}
+
+router.get("/", handleTranscribeStatus);
+router.post("/", handleTranscribe);
+
+export default router;
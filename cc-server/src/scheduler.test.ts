@@ -0,0 +1,136 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { readFile } from "fs/promises";
+import path from "path";
+import { createTempDir, cleanupTempDir, controllableLauncher } from "./test-utils.js";
+import { nextCronRun } from "./cron.js";
+import {
+  setSchedulesDataDir,
+  startScheduler,
+  stopScheduler,
+  createSchedule,
+  updateSchedule,
+  deleteSchedule,
+  listSchedules,
+  listRuns,
+  runSchedule,
+  runDueSchedules,
+  validateScheduleInput,
+  type ScheduleInput,
+  type ScheduleLauncher,
+} from "./scheduler.js";
+
+const NIGHTLY: ScheduleInput = {
+  name: "Nightly deps",
+  cron: "0 3 * * *",
+  projectPath: "app",
+  prompt: "Update dependencies and run the tests",
+  permissionMode: "acceptEdits",
+  maxTurns: 20,
+  enabled: true,
+};
+
+/** Launcher whose runs finish when the test says so */
+const launcher = () =>
+  controllableLauncher<ScheduleLauncher>((i, _schedule, onSession) => onSession(`session-${i}`));
+
+describe("scheduler", () => {
+  let tmpDir: string;
+
+  beforeEach(async () => {
+    tmpDir = await createTempDir();
+    setSchedulesDataDir(tmpDir);
+  });
+
+  afterEach(async () => {
+    stopScheduler();
+    await cleanupTempDir(tmpDir);
+  });
+
+  it("validates schedules", () => {
+    expect(validateScheduleInput(NIGHTLY)).toBeNull();
+    expect(validateScheduleInput({ ...NIGHTLY, cron: "nightly" })).toMatch(/5 fields/);
+    expect(validateScheduleInput({ ...NIGHTLY, cron: "0 0 31 2 *" })).toMatch(/never runs/);
+    expect(validateScheduleInput({ ...NIGHTLY, permissionMode: "yolo" as never })).toMatch(/permissionMode/);
+    expect(validateScheduleInput({ maxTurns: 0 }, true)).toMatch(/maxTurns/);
+    expect(validateScheduleInput({ budgetCapUsd: null }, true)).toBeNull();
+  });
+
+  it("persists schedules with their next run time", async () => {
+    const schedule = await createSchedule(NIGHTLY);
+    expect(new Date(schedule.nextRunAt!).getHours()).toBe(3);
+
+    const stored = JSON.parse(await readFile(path.join(tmpDir, "schedules.json"), "utf-8"));
+    expect(stored.schedules).toEqual([schedule]);
+
+    const paused = await updateSchedule(schedule.id, { enabled: false, maxTurns: null });
+    expect(paused).toMatchObject({ enabled: false, nextRunAt: null });
+    expect(paused).not.toHaveProperty("maxTurns");
+  });
+
+  it("runs due schedules and records the outcome", async () => {
+    const { launch, finish } = launcher();
+    await startScheduler(launch);
+    const schedule = await createSchedule(NIGHTLY);
+
+    expect(await runDueSchedules(schedule.nextRunAt! - 1000)).toEqual([]);
+    const [run] = await runDueSchedules(schedule.nextRunAt!);
+    expect(run).toMatchObject({ scheduleId: schedule.id, trigger: "cron", status: "running" });
+    expect(launch).toHaveBeenCalledWith(expect.objectContaining({ prompt: NIGHTLY.prompt }), expect.any(Function));
+
+    // Moved on to the next night
+    const [rescheduled] = await listSchedules("app");
+    expect(rescheduled.nextRunAt).toBe(nextCronRun(NIGHTLY.cron, new Date(schedule.nextRunAt!))!.getTime());
+
+    finish(0, { status: "completed", costUsd: 0.42, numTurns: 7, result: "All green" });
+    await vi.waitFor(async () => {
+      const [done] = await listRuns({ scheduleId: schedule.id });
+      expect(done).toMatchObject({ status: "completed", sessionId: "session-0", costUsd: 0.42, result: "All green" });
+      expect(done.finishedAt).toBeGreaterThanOrEqual(done.startedAt);
+    });
+  });
+
+  it("never overlaps a schedule with itself", async () => {
+    const { launch, finish } = launcher();
+    await startScheduler(launch);
+    const schedule = await createSchedule(NIGHTLY);
+
+    expect(await runSchedule(schedule.id, "manual")).not.toBeNull();
+    expect(await runSchedule(schedule.id, "manual")).toBeNull();
+
+    finish(0, { status: "error", error: "Budget exceeded" });
+    await vi.waitFor(async () => expect((await listRuns({ projectPath: "app" }))[0].status).toBe("error"));
+    expect(await runSchedule(schedule.id, "manual")).not.toBeNull();
+    expect(launch).toHaveBeenCalledTimes(2);
+
+    // Let the second run's session write land before the temp dir goes
+    await vi.waitFor(async () => {
+      const stored = JSON.parse(await readFile(path.join(tmpDir, "schedules.json"), "utf-8"));
+      expect(stored.runs.map((r: { sessionId?: string }) => r.sessionId)).toContain("session-1");
+    });
+  });
+
+  it("marks runs interrupted by a restart as failed", async () => {
+    const { launch } = launcher();
+    await startScheduler(launch);
+    const schedule = await createSchedule(NIGHTLY);
+    await runSchedule(schedule.id, "manual");
+
+    // A new process loads the file with the run still marked running
+    stopScheduler();
+    setSchedulesDataDir(tmpDir);
+    await startScheduler(launcher().launch);
+    const [run] = await listRuns({ scheduleId: schedule.id });
+    expect(run).toMatchObject({ status: "error", error: "Server restarted during the run" });
+  });
+
+  it("drops run history with the schedule", async () => {
+    const { launch } = launcher();
+    await startScheduler(launch);
+    const schedule = await createSchedule(NIGHTLY);
+    await runSchedule(schedule.id, "manual");
+
+    expect(await deleteSchedule(schedule.id)).toBe(true);
+    expect(await listRuns({ projectPath: "app" })).toEqual([]);
+    expect(await deleteSchedule(schedule.id)).toBe(false);
+  });
+});
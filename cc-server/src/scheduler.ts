@@ -0,0 +1,308 @@
+/**
+ * Scheduled agent runs — "update dependencies and run tests" every night.
+ *
+ * A schedule is a cron expression plus a prompt, a project and fixed query
+ * settings (permission mode, budget cap, max turns). Schedules and the history
+ * of their runs live in data/schedules.json. The scheduler checks every
+ * SCHEDULER_INTERVAL_MS and hands due schedules to a launcher (chat.ts's
+ * unattended query), so each run is an ordinary session with a transcript.
+ *
+ * Runs missed while the server was down are skipped, not caught up, and a
+ * schedule never overlaps itself — a tick that finds it still running waits
+ * for its next time.
+ */
+
+import crypto from "crypto";
+import { nextCronRun, validateCron } from "./cron.js";
+import { JsonStore } from "./json-store.js";
+import { validateRunSettings, type SessionState } from "./session-store.js";
+
+export type PermissionMode = SessionState["permissionMode"];
+
+export interface Schedule {
+  id: string;
+  name: string;
+  cron: string;
+  projectPath: string;
+  prompt: string;
+  permissionMode: PermissionMode;
+  budgetCapUsd?: number;
+  maxTurns?: number;
+  enabled: boolean;
+  createdAt: number;
+  nextRunAt: number | null;  // null when disabled
+}
+
+export type ScheduleInput = Pick<
+  Schedule,
+  "name" | "cron" | "projectPath" | "prompt" | "permissionMode" | "budgetCapUsd" | "maxTurns" | "enabled"
+>;
+
+/** null budgetCapUsd/maxTurns clears the limit */
+export type SchedulePatch = Partial<Omit<ScheduleInput, "budgetCapUsd" | "maxTurns">> & {
+  budgetCapUsd?: number | null;
+  maxTurns?: number | null;
+};
+
+export type ScheduleRunStatus = "running" | "completed" | "error" | "aborted";
+
+export interface ScheduleRun {
+  id: string;
+  scheduleId: string;
+  projectPath: string;
+  trigger: "cron" | "manual";
+  status: ScheduleRunStatus;
+  startedAt: number;
+  finishedAt?: number;
+  sessionId?: string;  // Open it in chat for the transcript
+  costUsd?: number;
+  numTurns?: number;
+  result?: string;     // Final answer, truncated
+  error?: string;
+}
+
+export interface ScheduledRunOutcome {
+  status: Exclude<ScheduleRunStatus, "running">;
+  sessionId?: string;
+  costUsd?: number;
+  numTurns?: number;
+  result?: string;
+  error?: string;
+}
+
+/** Starts the agent for a schedule; `onSession` fires as soon as the session ID is known */
+export type ScheduleLauncher = (
+  schedule: Schedule,
+  onSession: (sessionId: string) => void
+) => Promise<ScheduledRunOutcome>;
+
+export const SCHEDULER_INTERVAL_MS = 30_000;
+export const MAX_RUNS_PER_SCHEDULE = 50;
+const MAX_RESULT_CHARS = 4000;
+
+// ── Storage ──────────────────────────────────────────────────────────
+
+interface ScheduleData {
+  schedules: Schedule[];
+  runs: ScheduleRun[];
+}
+
+// Runs change the data in place and then save; the store chains the writes
+const schedulesStore = new JsonStore<ScheduleData>("schedules.json", () => ({ schedules: [], runs: [] }));
+
+/** Point the store somewhere else (tests) */
+export function setSchedulesDataDir(dir: string): void {
+  schedulesStore.setDir(dir);
+}
+
+function computeNextRun(schedule: Pick<Schedule, "cron" | "enabled">, after = Date.now()): number | null {
+  if (!schedule.enabled) return null;
+  return nextCronRun(schedule.cron, new Date(after))?.getTime() ?? null;
+}
+
+// ── Schedules ────────────────────────────────────────────────────────
+
+/** Error message for a bad schedule (or patch, when `partial`), or null */
+export function validateScheduleInput(input: SchedulePatch, partial = false): string | null {
+  const has = (key: keyof SchedulePatch) => input[key] !== undefined;
+  if (!partial || has("name")) {
+    if (typeof input.name !== "string" || !input.name.trim()) return "name is required";
+  }
+  if (!partial || has("prompt")) {
+    if (typeof input.prompt !== "string" || !input.prompt.trim()) return "prompt is required";
+  }
+  if (!partial || has("projectPath")) {
+    if (typeof input.projectPath !== "string" || !input.projectPath) return "projectPath is required";
+  }
+  if (!partial || has("cron")) {
+    if (typeof input.cron !== "string") return "cron is required";
+    const cronError = validateCron(input.cron);
+    if (cronError) return cronError;
+    if (!nextCronRun(input.cron, new Date())) return "This cron expression never runs";
+  }
+  const settingsError = validateRunSettings(input);
+  if (settingsError) return settingsError;
+  if (has("enabled") && typeof input.enabled !== "boolean") return "enabled must be true or false";
+  return null;
+}
+
+export async function listSchedules(projectPath?: string): Promise<Schedule[]> {
+  const { schedules } = await schedulesStore.load();
+  return schedules.filter((s) => projectPath === undefined || s.projectPath === projectPath);
+}
+
+export async function getSchedule(id: string): Promise<Schedule | undefined> {
+  return (await schedulesStore.load()).schedules.find((s) => s.id === id);
+}
+
+export async function createSchedule(input: ScheduleInput): Promise<Schedule> {
+  const store = await schedulesStore.load();
+  const schedule: Schedule = {
+    id: crypto.randomUUID(),
+    name: input.name.trim(),
+    cron: input.cron.trim(),
+    projectPath: input.projectPath,
+    prompt: input.prompt.trim(),
+    permissionMode: input.permissionMode ?? "acceptEdits",
+    ...(input.budgetCapUsd ? { budgetCapUsd: input.budgetCapUsd } : {}),
+    ...(input.maxTurns ? { maxTurns: input.maxTurns } : {}),
+    enabled: input.enabled ?? true,
+    createdAt: Date.now(),
+    nextRunAt: null,
+  };
+  schedule.nextRunAt = computeNextRun(schedule);
+  store.schedules.push(schedule);
+  await schedulesStore.save();
+  return schedule;
+}
+
+export async function updateSchedule(id: string, patch: SchedulePatch): Promise<Schedule | null> {
+  const store = await schedulesStore.load();
+  const existing = store.schedules.find((s) => s.id === id);
+  if (!existing) return null;
+
+  const updated: Schedule = { ...existing };
+  if (patch.name !== undefined) updated.name = patch.name.trim();
+  if (patch.prompt !== undefined) updated.prompt = patch.prompt.trim();
+  if (patch.cron !== undefined) updated.cron = patch.cron.trim();
+  if (patch.projectPath !== undefined) updated.projectPath = patch.projectPath;
+  if (patch.permissionMode !== undefined) updated.permissionMode = patch.permissionMode;
+  if (patch.enabled !== undefined) updated.enabled = patch.enabled;
+  for (const key of ["budgetCapUsd", "maxTurns"] as const) {
+    const value = patch[key];
+    if (value === null) delete updated[key];
+    else if (value !== undefined) updated[key] = value;
+  }
+  updated.nextRunAt = computeNextRun(updated);
+
+  store.schedules = store.schedules.map((s) => (s.id === id ? updated : s));
+  await schedulesStore.save();
+  return updated;
+}
+
+/** Delete a schedule and its run history (the run sessions stay) */
+export async function deleteSchedule(id: string): Promise<boolean> {
+  const store = await schedulesStore.load();
+  const remaining = store.schedules.filter((s) => s.id !== id);
+  if (remaining.length === store.schedules.length) return false;
+  store.schedules = remaining;
+  store.runs = store.runs.filter((r) => r.scheduleId !== id);
+  await schedulesStore.save();
+  return true;
+}
+
+// ── Runs ─────────────────────────────────────────────────────────────
+
+/** Newest first, for one schedule or every schedule in a project */
+export async function listRuns(filter: { scheduleId?: string; projectPath?: string }): Promise<ScheduleRun[]> {
+  const { runs } = await schedulesStore.load();
+  return runs
+    .filter((r) => (!filter.scheduleId || r.scheduleId === filter.scheduleId) && (!filter.projectPath || r.projectPath === filter.projectPath))
+    .sort((a, b) => b.startedAt - a.startedAt);
+}
+
+let launcher: ScheduleLauncher | null = null;
+let timer: ReturnType<typeof setInterval> | null = null;
+
+async function updateRun(run: ScheduleRun): Promise<void> {
+  const store = await schedulesStore.load();
+  store.runs = store.runs.map((r) => (r.id === run.id ? run : r));
+  await schedulesStore.save();
+}
+
+/**
+ * Start a run now. Returns null when the schedule is missing or already
+ * running; otherwise the run record, while the agent carries on in the
+ * background.
+ */
+export async function runSchedule(id: string, trigger: ScheduleRun["trigger"]): Promise<ScheduleRun | null> {
+  if (!launcher) throw new Error("Scheduler is not running");
+  const store = await schedulesStore.load();
+  const schedule = store.schedules.find((s) => s.id === id);
+  if (!schedule) return null;
+  if (store.runs.some((r) => r.scheduleId === id && r.status === "running")) return null;
+
+  const run: ScheduleRun = {
+    id: crypto.randomUUID(),
+    scheduleId: id,
+    projectPath: schedule.projectPath,
+    trigger,
+    status: "running",
+    startedAt: Date.now(),
+  };
+  // Keep the newest runs of this schedule, drop the oldest
+  const older = store.runs.filter((r) => r.scheduleId === id).sort((a, b) => b.startedAt - a.startedAt);
+  const dropped = new Set(older.slice(MAX_RUNS_PER_SCHEDULE - 1).map((r) => r.id));
+  store.runs = [...store.runs.filter((r) => !dropped.has(r.id)), run];
+  await schedulesStore.save();
+
+  console.error(`[scheduler] ${trigger} run of "${schedule.name}" (${schedule.id})`);
+  const launch = launcher;
+  let current = run;
+  void (async () => {
+    let outcome: ScheduledRunOutcome;
+    try {
+      outcome = await launch(schedule, (sessionId) => {
+        current = { ...current, sessionId };
+        updateRun(current).catch(() => {});
+      });
+    } catch (err: unknown) {
+      outcome = { status: "error", error: err instanceof Error ? err.message : "Unknown error" };
+    }
+    current = {
+      ...current,
+      ...outcome,
+      sessionId: outcome.sessionId ?? current.sessionId,
+      result: outcome.result?.slice(0, MAX_RESULT_CHARS),
+      finishedAt: Date.now(),
+    };
+    console.error(`[scheduler] "${schedule.name}" finished: ${current.status}`);
+    await updateRun(current).catch((err) => console.error(`[scheduler] failed to record run: ${err}`));
+  })();
+
+  return run;
+}
+
+/** Start every enabled schedule whose time has come; exported for tests */
+export async function runDueSchedules(now = Date.now()): Promise<ScheduleRun[]> {
+  const store = await schedulesStore.load();
+  const started: ScheduleRun[] = [];
+  const due = store.schedules.filter((s) => s.enabled && s.nextRunAt !== null && s.nextRunAt <= now);
+  for (const schedule of due) {
+    const nextRunAt = computeNextRun(schedule, now);
+    store.schedules = store.schedules.map((s) => (s.id === schedule.id ? { ...s, nextRunAt } : s));
+    await schedulesStore.save();
+    const run = await runSchedule(schedule.id, "cron");
+    if (run) started.push(run);
+  }
+  return started;
+}
+
+/**
+ * Load schedules and start checking them. Runs left "running" by a previous
+ * process are marked as errors; missed times are skipped.
+ */
+export async function startScheduler(launch: ScheduleLauncher, intervalMs = SCHEDULER_INTERVAL_MS): Promise<void> {
+  launcher = launch;
+  const store = await schedulesStore.load();
+  const now = Date.now();
+  store.runs = store.runs.map((r) =>
+    r.status === "running" ? { ...r, status: "error", error: "Server restarted during the run", finishedAt: now } : r
+  );
+  store.schedules = store.schedules.map((s) =>
+    s.nextRunAt !== null && s.nextRunAt < now ? { ...s, nextRunAt: computeNextRun(s, now) } : s
+  );
+  await schedulesStore.save();
+
+  if (timer) clearInterval(timer);
+  timer = setInterval(() => {
+    runDueSchedules().catch((err) => console.error(`[scheduler] tick failed: ${err}`));
+  }, intervalMs);
+  timer.unref();
+}
+
+export function stopScheduler(): void {
+  if (timer) clearInterval(timer);
+  timer = null;
+  launcher = null;
+}
@@ -4,9 +4,19 @@ import cors from "cors";
 import { authMiddleware } from "./auth-middleware.js";
 import filesRouter from "./routes/files.js";
 import fileRouter from "./routes/file.js";
-import chatRouter, { getChatStats } from "./routes/chat.js";
+import chatRouter, { getChatStats, runUnattendedQuery } from "./routes/chat.js";
 import terminalRouter from "./routes/terminal.js";
+import gitRouter from "./routes/git.js";
+import pushRouter from "./routes/push.js";
+import permissionsRouter from "./routes/permissions.js";
+import transcribeRouter from "./routes/transcribe.js";
+import schedulesRouter from "./routes/schedules.js";
+import tasksRouter from "./routes/tasks.js";
+import processesRouter from "./routes/processes.js";
 import { loadFromDisk, cleanupStaleSessions } from "./session-store.js";
+import { startScheduler } from "./scheduler.js";
+import { startTasks } from "./tasks.js";
+import { stopAllProcesses } from "./process-manager.js";
 
 // ── Global error handlers — prevent silent crashes ──────────────────
 process.on("unhandledRejection", (reason) => {
@@ -20,6 +30,11 @@ const app = express();
 const port = parseInt(process.env.PORT || "3020", 10);
 
 app.use(cors());
+// Chat attachments and voice recordings come as base64; everything else keeps the default limit.
+// Bodies reach us through the frontend's proxy, which caps them at 4.5 MB anyway.
+const LARGE_BODY_LIMIT = "5mb";
+app.use("/api/chat", express.json({ limit: LARGE_BODY_LIMIT }));
+app.use("/api/transcribe", express.json({ limit: LARGE_BODY_LIMIT }));
 app.use(express.json());
 
 // Health check (no auth)
@@ -33,10 +48,45 @@ app.use("/api/files", filesRouter);
 app.use("/api/file", fileRouter);
 app.use("/api/chat", chatRouter);
 app.use("/api/terminal", terminalRouter);
+app.use("/api/git", gitRouter);
+app.use("/api/push", pushRouter);
+app.use("/api/permissions", permissionsRouter);
+app.use("/api/transcribe", transcribeRouter);
+app.use("/api/schedules", schedulesRouter);
+app.use("/api/tasks", tasksRouter);
+app.use("/api/processes", processesRouter);
 
 // ── Load persisted sessions, then start server ──────────────────────
 await loadFromDisk();
 
+// Scheduled runs go through the same query path as chat, just with nobody watching
+await startScheduler(async (schedule, onSession) => {
+  const outcome = await runUnattendedQuery({
+    prompt: schedule.prompt,
+    projectPath: schedule.projectPath,
+    settings: { permissionMode: schedule.permissionMode, budgetCapUsd: schedule.budgetCapUsd, maxTurns: schedule.maxTurns },
+    onSession,
+  });
+  const { status, sessionId, costUsd, numTurns, result, error } = outcome;
+  return { status: status === "running" ? "error" : status, sessionId, costUsd, numTurns, result, error };
+});
+
+// Headless tasks (CI, scripts) take the same path
+await startTasks(async (task, { onStart, onSession }) => {
+  const outcome = await runUnattendedQuery({
+    prompt: task.prompt,
+    projectPath: task.projectPath,
+    settings: { permissionMode: task.permissionMode, budgetCapUsd: task.budgetCapUsd, maxTurns: task.maxTurns },
+    onStart,
+    onSession,
+  });
+  const { status, sessionId, costUsd, numTurns, result, error } = outcome;
+  return { status: status === "running" ? "error" : status, sessionId, costUsd, numTurns, result, error };
+});
+
+// Managed processes run in their own process groups, so they'd outlive us otherwise
+process.on("exit", stopAllProcesses);
+
 app.listen(port, () => {
   console.error(`CC Server running on http://localhost:${port}`);
   console.error(`Base directory: ${process.env.BASE_DIR}`);
@@ -13,6 +13,8 @@ import fs from "fs";
 import fsPromises from "fs/promises";
 import path from "path";
 import { fileURLToPath } from "url";
+import { deleteTranscript } from "./transcript-store.js";
+import type { SessionWorktree } from "./worktrees.js";
 
 // ── Session state ────────────────────────────────────────────────────
 
@@ -25,6 +27,7 @@ export interface SessionState {
   contextWindow: number;   // Max context window for the model
   lastActivity: number;    // timestamp for TTL cleanup
   checkpoints?: string[];  // User message UUIDs for file checkpointing
+  checkpointTurns?: { queryId: string; index: number }[];  // First checkpoint of each prompt
 
   // Query controls (Batch 1)
   budgetCapUsd?: number;   // Per-session budget cap
@@ -33,8 +36,20 @@ export interface SessionState {
   // Mid-query controls (Batch 3)
   maxThinkingTokens?: number;  // Thinking budget cap
 
+  // Unanswered permission requests
+  permissionTimeoutSec?: number;                     // Default 120
+  permissionExpiry?: "deny" | "wait" | "plan";       // On timeout: deny, never expire, or deny + switch to plan mode
+
   // Session features (Batch 4)
   forkedFrom?: string;     // Parent session ID when forked
+  forkPoint?: number;      // Parent transcript seq the fork branched before (absent = forked at the end)
+
+  // Session browser
+  projectPath?: string;    // Project the session runs in (relative to BASE_DIR)
+  title?: string;          // Short label shown in the session picker
+  summary?: string;        // Rolling one-paragraph summary, refreshed after each result
+  worktree?: SessionWorktree;  // Runs in its own git worktree instead of the project folder
+  unattended?: boolean;    // Last run by a schedule or task, not by someone chatting — expires like scratch state
 
   // Bulky — not persisted, repopulated on next message
   supportedModels?: { id: string; name?: string }[];
@@ -50,6 +65,23 @@ export interface SessionState {
   };
 }
 
+export const PERMISSION_MODES: SessionState["permissionMode"][] = ["default", "acceptEdits", "plan", "bypassPermissions"];
+
+/** Error message for bad fixed settings on an unattended run (schedule, task), or null */
+export function validateRunSettings(input: { permissionMode?: unknown; budgetCapUsd?: unknown; maxTurns?: unknown }): string | null {
+  const { permissionMode, budgetCapUsd, maxTurns } = input;
+  if (permissionMode !== undefined && !PERMISSION_MODES.includes(permissionMode as SessionState["permissionMode"])) {
+    return `permissionMode must be one of: ${PERMISSION_MODES.join(", ")}`;
+  }
+  if (budgetCapUsd != null && !(typeof budgetCapUsd === "number" && budgetCapUsd > 0)) {
+    return "budgetCapUsd must be a positive number";
+  }
+  if (maxTurns != null && !(Number.isInteger(maxTurns) && (maxTurns as number) > 0)) {
+    return "maxTurns must be a positive integer";
+  }
+  return null;
+}
+
 // Fields to strip before writing to disk (bulky, repopulated on next message)
 const EPHEMERAL_FIELDS: (keyof SessionState)[] = ["supportedModels", "lastInit", "accountInfo"];
 
@@ -69,6 +101,20 @@ let flushTimer: ReturnType<typeof setTimeout> | null = null;
 
 const FLUSH_DEBOUNCE_MS = 5_000;
 const SESSION_TTL_MS = 24 * 60 * 60 * 1000; // 24 hours
+const BROWSABLE_SESSION_TTL_MS = 30 * 24 * 60 * 60 * 1000; // 30 days
+
+// Sessions someone chatted in are listed in the session browser and kept for a
+// month of inactivity; scratch state and schedule/task runs go after a day
+function isExpired(state: { title?: string; unattended?: boolean; lastActivity?: number }, now: number): boolean {
+  const ttl = state.title && !state.unattended ? BROWSABLE_SESSION_TTL_MS : SESSION_TTL_MS;
+  return now - (state.lastActivity ?? 0) > ttl;
+}
+
+function dropTranscript(sessionId: string): void {
+  deleteTranscript(sessionId).catch((err) => {
+    console.error(`[session-store] failed to delete transcript for ${sessionId}:`, err);
+  });
+}
 
 // ── Public API ────────────────────────────────────────────────────────
 
@@ -100,6 +146,101 @@ export function getAllSessions(): Map<string, SessionState> {
   return sessions;
 }
 
+export interface SessionSummary {
+  sessionId: string;
+  title: string;
+  summary?: string;
+  model: string;
+  lastActivity: number;
+  totalCostUsd: number;
+  messageCount: number;
+  forkedFrom?: string;
+}
+
+/** Sessions for one project, most recently active first, optionally filtered by title */
+export function listSessions(projectPath: string, search?: string): SessionSummary[] {
+  const needle = search?.trim().toLowerCase();
+  const result: SessionSummary[] = [];
+  for (const [sessionId, state] of sessions) {
+    if (state.projectPath !== projectPath) continue;
+    const title = state.title || "Untitled session";
+    if (needle && !title.toLowerCase().includes(needle)) continue;
+    result.push({
+      sessionId,
+      title,
+      summary: state.summary,
+      model: state.model,
+      lastActivity: state.lastActivity,
+      totalCostUsd: state.totalCostUsd,
+      messageCount: state.messageCount,
+      forkedFrom: state.forkedFrom,
+    });
+  }
+  return result.sort((a, b) => b.lastActivity - a.lastActivity);
+}
+
+export interface ForkNode {
+  sessionId: string;
+  title: string;
+  lastActivity: number;
+  messageCount: number;
+  totalCostUsd: number;
+  forkPoint?: number;
+  children: ForkNode[];
+}
+
+/**
+ * The fork tree containing a session: walk `forkedFrom` up to the oldest
+ * ancestor still in the store, then collect every descendant. Children are
+ * ordered by where they branched, then by creation (map insertion order).
+ */
+export function getForkTree(sessionId: string): ForkNode | null {
+  if (!sessions.has(sessionId)) return null;
+
+  let rootId = sessionId;
+  const seen = new Set([rootId]);
+  let parent = sessions.get(rootId)!.forkedFrom;
+  while (parent && sessions.has(parent) && !seen.has(parent)) {
+    rootId = parent;
+    seen.add(parent);
+    parent = sessions.get(parent)!.forkedFrom;
+  }
+
+  const childrenOf = new Map<string, string[]>();
+  for (const [id, state] of sessions) {
+    if (!state.forkedFrom) continue;
+    const list = childrenOf.get(state.forkedFrom) ?? [];
+    list.push(id);
+    childrenOf.set(state.forkedFrom, list);
+  }
+
+  const visited = new Set<string>();
+  const build = (id: string): ForkNode => {
+    visited.add(id);
+    const state = sessions.get(id)!;
+    const children = (childrenOf.get(id) ?? [])
+      .filter((c) => !visited.has(c))
+      .map(build)
+      .sort((a, b) => (a.forkPoint ?? Number.MAX_SAFE_INTEGER) - (b.forkPoint ?? Number.MAX_SAFE_INTEGER));
+    return {
+      sessionId: id,
+      title: state.title || "Untitled session",
+      lastActivity: state.lastActivity,
+      messageCount: state.messageCount,
+      totalCostUsd: state.totalCostUsd,
+      forkPoint: state.forkPoint,
+      children,
+    };
+  };
+  return build(rootId);
+}
+
+/** First line of a prompt, trimmed to fit a one-line picker row */
+export function titleFromPrompt(prompt: string, maxLength = 60): string {
+  const line = prompt.trim().split("\n")[0].replace(/\s+/g, " ");
+  return line.length > maxLength ? line.slice(0, maxLength - 1).trimEnd() + "…" : line;
+}
+
 export function getSessionCount(): number {
   return sessions.size;
 }
@@ -110,8 +251,9 @@ export function cleanupStaleSessions(): number {
   const now = Date.now();
   let cleaned = 0;
   for (const [id, state] of sessions) {
-    if (now - state.lastActivity > SESSION_TTL_MS) {
+    if (isExpired(state, now)) {
       sessions.delete(id);
+      dropTranscript(id);
       cleaned++;
     }
   }
@@ -203,7 +345,8 @@ export async function loadFromDisk(): Promise<void> {
 
     for (const [id, state] of Object.entries(parsed)) {
       // Skip sessions that have already expired
-      if (now - (state.lastActivity ?? 0) > SESSION_TTL_MS) {
+      if (isExpired(state, now)) {
+        dropTranscript(id);
         expired++;
         continue;
       }
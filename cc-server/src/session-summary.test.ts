@@ -0,0 +1,63 @@
+import { describe, it, expect, afterEach } from "vitest";
+import { fallbackSummary, parseSummaryResponse, summarizeWithModel } from "./session-summary.js";
+
+describe("fallbackSummary", () => {
+  it("describes the first turn with the result's opening sentence", () => {
+    const summary = fallbackSummary({
+      title: "Fix the login bug",
+      prompt: "Fix the login bug",
+      result: "## Done\n\nThe **redirect** now keeps the query string. I also added a test.",
+      turns: 1,
+    });
+    expect(summary).toBe("Fix the login bug. 1 turn so far. Done The redirect now keeps the query string.");
+  });
+
+  it("mentions the latest request on later turns", () => {
+    const summary = fallbackSummary({
+      title: "Fix the login bug",
+      previousSummary: "Fix the login bug. 1 turn so far.",
+      prompt: "Now run the tests\nand fix failures",
+      result: "All 12 tests pass.",
+      turns: 2,
+    });
+    expect(summary).toBe("Fix the login bug. 2 turns so far. Latest request: Now run the tests. All 12 tests pass.");
+  });
+
+  it("caps the paragraph length", () => {
+    const summary = fallbackSummary({ title: "t", prompt: "p", result: "x".repeat(5000), turns: 3 });
+    expect(summary.length).toBeLessThanOrEqual(600);
+  });
+});
+
+describe("parseSummaryResponse", () => {
+  it("extracts JSON wrapped in a code fence", () => {
+    expect(parseSummaryResponse('```json\n{"title": "Login fix", "summary": "Fixed  the\\nredirect."}\n```')).toEqual({
+      title: "Login fix",
+      summary: "Fixed the redirect.",
+    });
+  });
+
+  it("accepts a summary without a title", () => {
+    expect(parseSummaryResponse('{"summary": "Ran tests."}')).toEqual({ title: undefined, summary: "Ran tests." });
+  });
+
+  it("returns null for unusable replies", () => {
+    expect(parseSummaryResponse("Sure! Here is a summary.")).toBeNull();
+    expect(parseSummaryResponse("{not json}")).toBeNull();
+    expect(parseSummaryResponse('{"title": "", "summary": 3}')).toBeNull();
+  });
+});
+
+describe("summarizeWithModel", () => {
+  const original = process.env.SESSION_SUMMARY_MODEL;
+
+  afterEach(() => {
+    if (original === undefined) delete process.env.SESSION_SUMMARY_MODEL;
+    else process.env.SESSION_SUMMARY_MODEL = original;
+  });
+
+  it("resolves null without a configured model", async () => {
+    delete process.env.SESSION_SUMMARY_MODEL;
+    expect(await summarizeWithModel({ title: "t", prompt: "p", turns: 1 }, "/tmp")).toBeNull();
+  });
+});
@@ -0,0 +1,109 @@
+/**
+ * Session summaries — a rolling one-paragraph description of what a session
+ * has been about, refreshed after each result.
+ *
+ * The deterministic summary is always available. When SESSION_SUMMARY_MODEL is
+ * set, a one-turn, tool-less query to that (cheap) model rewrites the title and
+ * summary in the background; any failure just leaves the deterministic text.
+ */
+
+import { query } from "@anthropic-ai/claude-agent-sdk";
+import { titleFromPrompt } from "./session-store.js";
+
+export interface TurnInfo {
+  title: string;
+  previousSummary?: string;
+  prompt: string;
+  result?: string;
+  turns: number;
+}
+
+const MAX_SUMMARY_LENGTH = 600;
+const MODEL_TIMEOUT_MS = 30_000;
+
+function firstSentence(text: string, maxLength: number): string {
+  const flat = text.replace(/[#*`>_]/g, "").replace(/\s+/g, " ").trim();
+  const match = flat.match(/^.+?[.!?](?=\s|$)/);
+  const sentence = match ? match[0] : flat;
+  return sentence.length > maxLength ? sentence.slice(0, maxLength - 1).trimEnd() + "…" : sentence;
+}
+
+/** Summary built from the title and the latest turn — no model call */
+export function fallbackSummary(turn: TurnInfo): string {
+  let summary = `${turn.title}. ${turn.turns} ${turn.turns === 1 ? "turn" : "turns"} so far.`;
+  if (turn.turns > 1) summary += ` Latest request: ${titleFromPrompt(turn.prompt, 100)}.`;
+  if (turn.result) summary += ` ${firstSentence(turn.result, 240)}`;
+  return summary.slice(0, MAX_SUMMARY_LENGTH);
+}
+
+/** Extract {title, summary} from the model's reply, tolerating prose or code fences around the JSON */
+export function parseSummaryResponse(text: string): { title?: string; summary?: string } | null {
+  const json = text.match(/\{[\s\S]*\}/);
+  if (!json) return null;
+  try {
+    const parsed = JSON.parse(json[0]) as { title?: unknown; summary?: unknown };
+    const title = typeof parsed.title === "string" && parsed.title.trim() ? titleFromPrompt(parsed.title) : undefined;
+    const summary =
+      typeof parsed.summary === "string" && parsed.summary.trim()
+        ? parsed.summary.replace(/\s+/g, " ").trim().slice(0, MAX_SUMMARY_LENGTH)
+        : undefined;
+    return title || summary ? { title, summary } : null;
+  } catch {
+    return null;
+  }
+}
+
+function buildPrompt(turn: TurnInfo, wantTitle: boolean): string {
+  return [
+    "You maintain the title and summary shown in a list of coding-assistant sessions.",
+    wantTitle
+      ? "Reply with JSON only: {\"title\": \"<3-8 word title>\", \"summary\": \"<one paragraph, at most 3 sentences>\"}."
+      : "Reply with JSON only: {\"summary\": \"<one paragraph, at most 3 sentences>\"}.",
+    "Fold the latest exchange into the previous summary; keep what still matters, drop what doesn't.",
+    "",
+    `Current title: ${turn.title}`,
+    `Previous summary: ${turn.previousSummary || "(none)"}`,
+    `Latest user request: ${turn.prompt.slice(0, 2000)}`,
+    `Latest assistant result: ${(turn.result || "(no text)").slice(0, 4000)}`,
+  ].join("\n");
+}
+
+/**
+ * Ask SESSION_SUMMARY_MODEL for an updated title (first turn only) and summary.
+ * Resolves null when no model is configured or the call fails.
+ */
+export async function summarizeWithModel(
+  turn: TurnInfo,
+  cwd: string
+): Promise<{ title?: string; summary?: string } | null> {
+  const model = process.env.SESSION_SUMMARY_MODEL;
+  if (!model) return null;
+
+  const abortController = new AbortController();
+  const timer = setTimeout(() => abortController.abort(), MODEL_TIMEOUT_MS);
+  try {
+    const response = query({
+      prompt: buildPrompt(turn, turn.turns === 1),
+      options: {
+        model,
+        cwd,
+        tools: [],
+        maxTurns: 1,
+        persistSession: false,
+        settingSources: [],
+        abortController,
+      },
+    });
+
+    let text = "";
+    for await (const msg of response) {
+      if (msg.type === "result" && msg.subtype === "success") text = msg.result;
+    }
+    return parseSummaryResponse(text);
+  } catch (err: unknown) {
+    console.error(`[session-summary] model call failed: ${err instanceof Error ? err.message : err}`);
+    return null;
+  } finally {
+    clearTimeout(timer);
+  }
+}
@@ -0,0 +1,47 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { readFile } from "fs/promises";
+import path from "path";
+import { createTempDir, cleanupTempDir } from "./test-utils.js";
+import { setSnippetsDataDir, getSnippets, addSnippet, removeSnippet, validateSnippetInput } from "./snippets.js";
+
+describe("snippets", () => {
+  let tmpDir: string;
+
+  beforeEach(async () => {
+    tmpDir = await createTempDir();
+    setSnippetsDataDir(tmpDir);
+  });
+
+  afterEach(async () => {
+    await cleanupTempDir(tmpDir);
+  });
+
+  it("validates snippets", () => {
+    expect(validateSnippetInput({ command: "npm run test:all" })).toBeNull();
+    expect(validateSnippetInput({ command: "  " })).toMatch(/command/);
+    expect(validateSnippetInput({ command: "x".repeat(2001) })).toMatch(/command/);
+    expect(validateSnippetInput({ command: "ls", name: 3 })).toMatch(/name/);
+  });
+
+  it("keeps each project's snippets separate and on disk", async () => {
+    const tests = await addSnippet("app", " npm run test:all ", "All tests");
+    const compose = await addSnippet("app", "docker compose up");
+    await addSnippet("other", "make");
+
+    expect(compose.name).toBe("docker compose up");
+    expect((await getSnippets("app")).map((s) => s.command)).toEqual(["npm run test:all", "docker compose up"]);
+
+    // A fresh load reads the file
+    setSnippetsDataDir(tmpDir);
+    expect(await getSnippets("app")).toEqual([tests, compose]);
+    const stored = JSON.parse(await readFile(path.join(tmpDir, "snippets.json"), "utf-8"));
+    expect(stored).toHaveLength(3);
+  });
+
+  it("removes snippets", async () => {
+    const snippet = await addSnippet("app", "npm run lint");
+    expect(await removeSnippet(snippet.id)).toBe(true);
+    expect(await removeSnippet(snippet.id)).toBe(false);
+    expect(await getSnippets("app")).toEqual([]);
+  });
+});
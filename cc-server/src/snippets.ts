@@ -0,0 +1,63 @@
+/**
+ * Command snippets — saved terminal commands per project (`npm run test:all`,
+ * `docker compose up`), so every browser and phone shares the same list.
+ * They live in data/snippets.json and run through the normal terminal runner.
+ */
+
+import crypto from "crypto";
+import { JsonStore } from "./json-store.js";
+
+export interface Snippet {
+  id: string;
+  projectPath: string;
+  name: string;
+  command: string;
+  createdAt: number;
+}
+
+export const MAX_SNIPPET_COMMAND_CHARS = 2000;
+const MAX_SNIPPET_NAME_CHARS = 100;
+
+// ── Storage ──────────────────────────────────────────────────────────
+
+const store = new JsonStore<Snippet[]>("snippets.json", () => []);
+
+/** Point the store somewhere else (tests) */
+export function setSnippetsDataDir(dir: string): void {
+  store.setDir(dir);
+}
+
+/** Returns an error message, or null when the snippet is valid */
+export function validateSnippetInput(input: { name?: unknown; command?: unknown }): string | null {
+  if (typeof input.command !== "string" || !input.command.trim()) return "command is required";
+  if (input.command.length > MAX_SNIPPET_COMMAND_CHARS) return `command must be at most ${MAX_SNIPPET_COMMAND_CHARS} characters`;
+  if (input.name !== undefined && typeof input.name !== "string") return "name must be a string";
+  if (typeof input.name === "string" && input.name.length > MAX_SNIPPET_NAME_CHARS) {
+    return `name must be at most ${MAX_SNIPPET_NAME_CHARS} characters`;
+  }
+  return null;
+}
+
+/** The project's snippets, oldest first */
+export async function getSnippets(projectPath: string): Promise<Snippet[]> {
+  return (await store.load()).filter((s) => s.projectPath === projectPath);
+}
+
+/** Save a command for the project; the name defaults to the command itself */
+export async function addSnippet(projectPath: string, command: string, name?: string): Promise<Snippet> {
+  const snippet: Snippet = {
+    id: crypto.randomUUID(),
+    projectPath,
+    name: name?.trim() || command.trim(),
+    command: command.trim(),
+    createdAt: Date.now(),
+  };
+  await store.update((all) => [...all, snippet]);
+  return snippet;
+}
+
+export async function removeSnippet(id: string): Promise<boolean> {
+  if (!(await store.load()).some((s) => s.id === id)) return false;
+  await store.update((all) => all.filter((s) => s.id !== id));
+  return true;
+}
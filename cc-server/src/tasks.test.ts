@@ -0,0 +1,140 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import http from "http";
+import type { AddressInfo } from "net";
+import { createTempDir, cleanupTempDir, controllableLauncher } from "./test-utils.js";
+import {
+  setTasksDataDir,
+  startTasks,
+  stopTasks,
+  createTask,
+  getTask,
+  listTasks,
+  cancelTask,
+  signCallback,
+  validateTaskInput,
+  MAX_RUNNING_TASKS,
+  type TaskInput,
+  type TaskLauncher,
+} from "./tasks.js";
+
+const TASK: TaskInput = { projectPath: "app", prompt: "Fix the failing test", permissionMode: "acceptEdits" };
+
+/** Launcher whose tasks finish when the test says so */
+const launcher = () =>
+  controllableLauncher<TaskLauncher>((i, _task, { onStart, onSession }) => {
+    onStart(`query-${i}`);
+    onSession(`session-${i}`);
+  });
+
+/** Local server recording callback POSTs; answers with the given statuses in turn */
+async function callbackServer(statuses: number[] = [200]) {
+  const received: { body: string; signature?: string }[] = [];
+  const server = http.createServer((req, res) => {
+    let body = "";
+    req.on("data", (chunk) => (body += chunk));
+    req.on("end", () => {
+      received.push({ body, signature: req.headers["x-code-anvil-signature"] as string | undefined });
+      res.statusCode = statuses[Math.min(received.length, statuses.length) - 1];
+      res.end();
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/hook`;
+  return { url, received, close: () => new Promise((resolve) => server.close(resolve)) };
+}
+
+describe("tasks", () => {
+  let tmpDir: string;
+
+  beforeEach(async () => {
+    tmpDir = await createTempDir();
+    setTasksDataDir(tmpDir);
+    process.env.SHARED_SECRET = "test-secret";
+  });
+
+  afterEach(async () => {
+    stopTasks();
+    await cleanupTempDir(tmpDir);
+  });
+
+  it("validates tasks", () => {
+    expect(validateTaskInput(TASK)).toBeNull();
+    expect(validateTaskInput({ ...TASK, prompt: " " })).toMatch(/prompt/);
+    expect(validateTaskInput({ ...TASK, callbackUrl: "file:///etc/passwd" })).toMatch(/callbackUrl/);
+    expect(validateTaskInput({ ...TASK, callbackUrl: "https://ci.example.com/hook" })).toBeNull();
+    expect(validateTaskInput({ ...TASK, maxTurns: 1.5 })).toMatch(/maxTurns/);
+  });
+
+  it("runs a task and records its result", async () => {
+    const { launch, finish } = launcher();
+    await startTasks(launch);
+    const task = await createTask(TASK);
+    expect(task.status).toBe("queued");
+
+    await vi.waitFor(async () => {
+      expect(await getTask(task.id)).toMatchObject({ status: "running", queryId: "query-0", sessionId: "session-0" });
+    });
+
+    finish(0, { status: "completed", costUsd: 0.12, numTurns: 3, result: "Fixed" });
+    await vi.waitFor(async () => {
+      const done = await getTask(task.id);
+      expect(done).toMatchObject({ status: "completed", sessionId: "session-0", costUsd: 0.12, result: "Fixed" });
+      expect(done!.finishedAt).toBeGreaterThanOrEqual(done!.startedAt!);
+    });
+  });
+
+  it("queues tasks beyond the concurrency limit", async () => {
+    const { launch, finish } = launcher();
+    await startTasks(launch);
+    for (let i = 0; i <= MAX_RUNNING_TASKS; i++) await createTask({ ...TASK, prompt: `Task ${i}` });
+
+    await vi.waitFor(() => expect(launch).toHaveBeenCalledTimes(MAX_RUNNING_TASKS));
+    const [waiting] = await listTasks({ projectPath: "app", limit: 1 });
+    expect(waiting).toMatchObject({ prompt: `Task ${MAX_RUNNING_TASKS}`, status: "queued" });
+
+    finish(0, { status: "completed" });
+    await vi.waitFor(() => expect(launch).toHaveBeenCalledTimes(MAX_RUNNING_TASKS + 1));
+  });
+
+  it("cancels a queued task without running it", async () => {
+    const { launch } = launcher();
+    await startTasks(launch);
+    for (let i = 0; i < MAX_RUNNING_TASKS; i++) await createTask(TASK);
+    const queued = await createTask(TASK);
+
+    expect(await cancelTask(queued.id)).toMatchObject({ status: "aborted" });
+    expect(await cancelTask("missing")).toBeNull();
+    expect(launch).toHaveBeenCalledTimes(MAX_RUNNING_TASKS);
+  });
+
+  it("POSTs the signed task to the callback URL, retrying failures", async () => {
+    const hook = await callbackServer([500, 200]);
+    try {
+      const { launch, finish } = launcher();
+      await startTasks(launch, { retryDelaysMs: [10] });
+      const task = await createTask({ ...TASK, callbackUrl: hook.url });
+
+      await vi.waitFor(() => expect(launch).toHaveBeenCalled());
+      finish(0, { status: "error", error: "Budget exceeded" });
+
+      await vi.waitFor(async () => {
+        expect((await getTask(task.id))!.callback).toEqual({ status: "delivered", attempts: 2 });
+      });
+      const { body, signature } = hook.received[1];
+      expect(JSON.parse(body).task).toMatchObject({ id: task.id, status: "error", error: "Budget exceeded" });
+      expect(signature).toBe(signCallback(body, "test-secret"));
+    } finally {
+      await hook.close();
+    }
+  });
+
+  it("marks tasks interrupted by a restart as failed", async () => {
+    await startTasks(launcher().launch);
+    const task = await createTask(TASK);
+
+    stopTasks();
+    setTasksDataDir(tmpDir);
+    await startTasks(launcher().launch);
+    expect(await getTask(task.id)).toMatchObject({ status: "error", error: "Server restarted before the task finished" });
+  });
+});
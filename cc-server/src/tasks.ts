@@ -0,0 +1,260 @@
+/**
+ * Headless tasks — agent jobs started from CI or a script instead of a chat.
+ *
+ * POST /api/tasks returns a task ID straight away and the prompt runs as an
+ * unattended query (same QueryRunner and session store as chat, so the task's
+ * session shows up in the chat UI afterwards). Callers poll the task for its
+ * status, result and cost, or pass a callbackUrl to have the finished task
+ * POSTed to them.
+ *
+ * Callbacks carry an `X-Code-Anvil-Signature: sha256=<hex>` header, an HMAC of
+ * the body keyed with SHARED_SECRET, and are retried with backoff. At most
+ * MAX_RUNNING_TASKS run at once; the rest wait their turn. Tasks live in
+ * data/tasks.json — the newest MAX_STORED_TASKS are kept.
+ */
+
+import crypto from "crypto";
+import { JsonStore } from "./json-store.js";
+import { getRunnerByQueryId } from "./query-runner.js";
+import { validateRunSettings, type SessionState } from "./session-store.js";
+
+export type TaskStatus = "queued" | "running" | "completed" | "error" | "aborted";
+
+export interface TaskCallback {
+  status: "pending" | "delivered" | "failed";
+  attempts: number;
+  error?: string;
+}
+
+export interface Task {
+  id: string;
+  projectPath: string;
+  prompt: string;
+  permissionMode: SessionState["permissionMode"];
+  budgetCapUsd?: number;
+  maxTurns?: number;
+  callbackUrl?: string;
+  status: TaskStatus;
+  createdAt: number;
+  startedAt?: number;
+  finishedAt?: number;
+  queryId?: string;    // Live events via POST /api/chat/reconnect
+  sessionId?: string;  // Resume it in chat
+  costUsd?: number;
+  numTurns?: number;
+  result?: string;
+  error?: string;
+  callback?: TaskCallback;
+}
+
+export type TaskInput = Pick<Task, "projectPath" | "prompt" | "permissionMode" | "budgetCapUsd" | "maxTurns" | "callbackUrl">;
+
+export interface TaskOutcome {
+  status: Exclude<TaskStatus, "queued" | "running">;
+  sessionId?: string;
+  costUsd?: number;
+  numTurns?: number;
+  result?: string;
+  error?: string;
+}
+
+export interface TaskLaunchHooks {
+  onStart: (queryId: string) => void;
+  onSession: (sessionId: string) => void;
+}
+
+export type TaskLauncher = (task: Task, hooks: TaskLaunchHooks) => Promise<TaskOutcome>;
+
+export const MAX_RUNNING_TASKS = 3;
+export const MAX_STORED_TASKS = 500;
+const DEFAULT_RETRY_DELAYS_MS = [5_000, 30_000, 120_000];
+const CALLBACK_TIMEOUT_MS = 10_000;
+const TERMINAL: TaskStatus[] = ["completed", "error", "aborted"];
+
+// ── Storage ──────────────────────────────────────────────────────────
+
+const store = new JsonStore<Task[]>("tasks.json", () => []);
+
+/** Point the store somewhere else (tests) */
+export function setTasksDataDir(dir: string): void {
+  store.setDir(dir);
+}
+
+async function update(id: string, patch: Partial<Task>): Promise<Task | null> {
+  let updated: Task | null = null;
+  await store.update((all) => all.map((t) => (t.id === id ? (updated = { ...t, ...patch }) : t)));
+  return updated;
+}
+
+// ── Tasks ────────────────────────────────────────────────────────────
+
+/** Error message for a bad task, or null */
+export function validateTaskInput(input: Partial<TaskInput>): string | null {
+  if (typeof input.prompt !== "string" || !input.prompt.trim()) return "prompt is required";
+  if (typeof input.projectPath !== "string" || !input.projectPath) return "projectPath is required";
+  if (input.callbackUrl !== undefined) {
+    let url: URL | null = null;
+    try {
+      url = new URL(String(input.callbackUrl));
+    } catch {
+      // Falls through to the error below
+    }
+    if (!url || !["http:", "https:"].includes(url.protocol)) return "callbackUrl must be an http(s) URL";
+  }
+  return validateRunSettings(input);
+}
+
+export async function getTask(id: string): Promise<Task | undefined> {
+  return (await store.load()).find((t) => t.id === id);
+}
+
+/** Newest first */
+export async function listTasks(filter: { projectPath?: string; limit?: number } = {}): Promise<Task[]> {
+  const all = await store.load();
+  return all
+    .filter((t) => !filter.projectPath || t.projectPath === filter.projectPath)
+    .sort((a, b) => b.createdAt - a.createdAt)
+    .slice(0, filter.limit ?? MAX_STORED_TASKS);
+}
+
+let launcher: TaskLauncher | null = null;
+let retryDelaysMs = DEFAULT_RETRY_DELAYS_MS;
+
+/** Queue a task; it starts as soon as a slot is free */
+export async function createTask(input: TaskInput): Promise<Task> {
+  if (!launcher) throw new Error("Task runner is not started");
+  const task: Task = {
+    id: crypto.randomUUID(),
+    projectPath: input.projectPath,
+    prompt: input.prompt.trim(),
+    permissionMode: input.permissionMode ?? "acceptEdits",
+    ...(input.budgetCapUsd ? { budgetCapUsd: input.budgetCapUsd } : {}),
+    ...(input.maxTurns ? { maxTurns: input.maxTurns } : {}),
+    ...(input.callbackUrl ? { callbackUrl: input.callbackUrl } : {}),
+    status: "queued",
+    createdAt: Date.now(),
+  };
+
+  // Make room by forgetting the oldest finished tasks
+  await store.update((all) => {
+    const finished = all.filter((t) => TERMINAL.includes(t.status)).sort((a, b) => a.createdAt - b.createdAt);
+    const overflow = all.length + 1 - MAX_STORED_TASKS;
+    const dropped = new Set(finished.slice(0, Math.max(0, overflow)).map((t) => t.id));
+    return [...all.filter((t) => !dropped.has(t.id)), task];
+  });
+
+  startQueued();
+  return task;
+}
+
+/**
+ * Stop a task. A queued task is aborted on the spot; a running one is
+ * aborted through its QueryRunner and finishes (callback and all) as usual.
+ */
+export async function cancelTask(id: string): Promise<Task | null> {
+  const task = await getTask(id);
+  if (!task) return null;
+  if (task.status === "queued") {
+    const aborted = await update(id, { status: "aborted", finishedAt: Date.now(), error: "Cancelled before it started" });
+    if (aborted) void deliverCallback(aborted);
+    return aborted;
+  }
+  if (task.status === "running" && task.queryId) getRunnerByQueryId(task.queryId)?.abort();
+  return task;
+}
+
+/** Start queued tasks while there are free slots (synchronously, so none starts twice) */
+function startQueued(): void {
+  const tasks = store.current;
+  if (!tasks || !launcher) return;
+  const running = tasks.filter((t) => t.status === "running").length;
+  const waiting = tasks.filter((t) => t.status === "queued").sort((a, b) => a.createdAt - b.createdAt);
+  const starting = new Set(waiting.slice(0, Math.max(0, MAX_RUNNING_TASKS - running)).map((t) => t.id));
+  if (starting.size === 0) return;
+
+  const startedAt = Date.now();
+  const next = tasks.map((t): Task => (starting.has(t.id) ? { ...t, status: "running", startedAt } : t));
+  store.replace(next).catch((err) => console.error(`[tasks] failed to save: ${err}`));
+  for (const task of next.filter((t) => starting.has(t.id))) void runTask(task, launcher);
+}
+
+async function runTask(task: Task, launch: TaskLauncher): Promise<void> {
+  console.error(`[tasks] starting ${task.id} in ${task.projectPath}`);
+
+  let outcome: TaskOutcome;
+  try {
+    outcome = await launch(task, {
+      onStart: (queryId) => void update(task.id, { queryId }).catch(() => {}),
+      onSession: (sessionId) => void update(task.id, { sessionId }).catch(() => {}),
+    });
+  } catch (err: unknown) {
+    outcome = { status: "error", error: err instanceof Error ? err.message : "Unknown error" };
+  }
+
+  const current = await getTask(task.id);
+  const finished = await update(task.id, {
+    ...outcome,
+    sessionId: outcome.sessionId ?? current?.sessionId,
+    finishedAt: Date.now(),
+  }).catch((err) => {
+    console.error(`[tasks] failed to record ${task.id}: ${err}`);
+    return null;
+  });
+  console.error(`[tasks] ${task.id} finished: ${outcome.status}`);
+
+  startQueued();
+  if (finished) await deliverCallback(finished);
+}
+
+// ── Callbacks ────────────────────────────────────────────────────────
+
+/** HMAC-SHA256 of the body, keyed with SHARED_SECRET */
+export function signCallback(body: string, secret = process.env.SHARED_SECRET || ""): string {
+  return "sha256=" + crypto.createHmac("sha256", secret).update(body).digest("hex");
+}
+
+async function deliverCallback(task: Task): Promise<void> {
+  if (!task.callbackUrl) return;
+  const body = JSON.stringify({ task: { ...task, callback: undefined } });
+  let callback: TaskCallback = { status: "pending", attempts: 0 };
+
+  for (let attempt = 0; attempt <= retryDelaysMs.length; attempt++) {
+    if (attempt > 0) await new Promise((r) => setTimeout(r, retryDelaysMs[attempt - 1]));
+    try {
+      const res = await fetch(task.callbackUrl, {
+        method: "POST",
+        headers: { "Content-Type": "application/json", "X-Code-Anvil-Signature": signCallback(body) },
+        body,
+        signal: AbortSignal.timeout(CALLBACK_TIMEOUT_MS),
+      });
+      if (!res.ok) throw new Error(`HTTP ${res.status}`);
+      callback = { status: "delivered", attempts: attempt + 1 };
+      break;
+    } catch (err: unknown) {
+      callback = { status: "failed", attempts: attempt + 1, error: err instanceof Error ? err.message : String(err) };
+      console.error(`[tasks] callback for ${task.id} failed (attempt ${attempt + 1}): ${callback.error}`);
+    }
+  }
+  await update(task.id, { callback }).catch(() => {});
+}
+
+/**
+ * Start accepting tasks. Tasks left queued or running by a previous process
+ * are marked as errors.
+ */
+export async function startTasks(launch: TaskLauncher, options: { retryDelaysMs?: number[] } = {}): Promise<void> {
+  launcher = launch;
+  retryDelaysMs = options.retryDelaysMs ?? DEFAULT_RETRY_DELAYS_MS;
+  const now = Date.now();
+  await store.update((all) =>
+    all.map((t) =>
+      t.status === "queued" || t.status === "running"
+        ? { ...t, status: "error", error: "Server restarted before the task finished", finishedAt: now }
+        : t
+    )
+  );
+}
+
+export function stopTasks(): void {
+  launcher = null;
+}
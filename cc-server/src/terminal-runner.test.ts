@@ -186,6 +186,28 @@ describe("TerminalRunner", () => {
       runner.kill();
     });
 
+    it("escalates to SIGKILL when SIGTERM is ignored", () => {
+      vi.useFakeTimers();
+      try {
+        const stubborn = new TerminalRunner("cmd1", "trap '' TERM; sleep 100");
+        const stubbornChild = { killed: false, kill: vi.fn() };
+        stubborn.setChild(stubbornChild as any);
+        const polite = new TerminalRunner("cmd2", "sleep 100");
+        const politeChild = { killed: false, kill: vi.fn() };
+        polite.setChild(politeChild as any);
+
+        stubborn.kill(1000);
+        polite.kill(1000);
+        polite.complete(143);
+        vi.advanceTimersByTime(1000);
+
+        expect(stubbornChild.kill.mock.calls).toEqual([["SIGTERM"], ["SIGKILL"]]);
+        expect(politeChild.kill.mock.calls).toEqual([["SIGTERM"]]);
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+
     it("does nothing when child is already killed", () => {
       const runner = new TerminalRunner("cmd1", "cmd");
       const mockChild = {
@@ -200,6 +222,43 @@ describe("TerminalRunner", () => {
     });
   });
 
+  describe("interactive terminals", () => {
+    function mockPty() {
+      return { write: vi.fn(), resize: vi.fn(), kill: vi.fn() };
+    }
+
+    it("passes keystrokes and resizes to the pty", () => {
+      const runner = new TerminalRunner("cmd1", "bash");
+      const pty = mockPty();
+      runner.setPty(pty as any);
+
+      expect(runner.interactive).toBe(true);
+      expect(runner.write("ls\r")).toBe(true);
+      expect(runner.resize(120, 40)).toBe(true);
+      expect(pty.write).toHaveBeenCalledWith("ls\r");
+      expect(pty.resize).toHaveBeenCalledWith(120, 40);
+    });
+
+    it("refuses input once the shell has exited, or without a pty", () => {
+      const runner = new TerminalRunner("cmd1", "bash");
+      runner.setPty(mockPty() as any);
+      runner.complete(0);
+      expect(runner.write("ls\r")).toBe(false);
+
+      expect(new TerminalRunner("cmd2", "ls").write("y\n")).toBe(false);
+    });
+
+    it("kills the pty instead of a child process", () => {
+      const runner = new TerminalRunner("cmd1", "bash");
+      const pty = mockPty();
+      runner.setPty(pty as any);
+
+      runner.kill();
+
+      expect(pty.kill).toHaveBeenCalledWith("SIGTERM");
+    });
+  });
+
   describe("metadata", () => {
     it("exposes commandId and command", () => {
       const runner = new TerminalRunner("cmd-123", "npm test");
@@ -207,6 +266,26 @@ describe("TerminalRunner", () => {
       expect(runner.command).toBe("npm test");
     });
 
+    it("only counts detached time while no listener is attached", () => {
+      vi.useFakeTimers();
+      try {
+        const runner = new TerminalRunner("cmd1", "cmd");
+        const fn = () => {};
+        vi.advanceTimersByTime(5000);
+        expect(runner.detachedMs).toBe(5000);
+
+        runner.addListener(fn);
+        vi.advanceTimersByTime(5000);
+        expect(runner.detachedMs).toBe(0);
+
+        runner.removeListener(fn);
+        vi.advanceTimersByTime(1000);
+        expect(runner.detachedMs).toBe(1000);
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+
     it("tracks age", async () => {
       const runner = new TerminalRunner("cmd1", "cmd");
       expect(runner.age).toBeGreaterThanOrEqual(0);
@@ -3,9 +3,13 @@
  *
  * Events are buffered so clients can reconnect and catch up. The spawned process
  * keeps running even when no SSE listeners are attached.
+ *
+ * A runner drives either a one-shot `bash -c` child process or an interactive
+ * shell on a pseudo-terminal (which also takes keystrokes and resizes).
  */
 
 import type { ChildProcess } from "child_process";
+import type { IPty } from "node-pty";
 
 export interface IndexedTerminalEvent {
   index: number;
@@ -16,6 +20,18 @@ export interface IndexedTerminalEvent {
 export type TerminalEventListener = (event: IndexedTerminalEvent) => void;
 
 const MAX_BUFFER_SIZE = 1000;
+const KILL_GRACE_MS = 5000;
+
+export const TERMINAL_SIGNALS = ["SIGINT", "SIGTERM", "SIGKILL"] as const;
+export type TerminalSignal = (typeof TERMINAL_SIGNALS)[number];
+
+// One-shot commands aren't on a tty, so most tools would leave out their colors — ask for them,
+// since the client renders ANSI. TERMINAL_TERM=dumb brings back plain output.
+export function commandEnv(): NodeJS.ProcessEnv {
+  const term = process.env.TERMINAL_TERM || "xterm-256color";
+  if (term === "dumb") return { ...process.env, TERM: term };
+  return { FORCE_COLOR: "1", ...process.env, TERM: term };
+}
 
 export class TerminalRunner {
   readonly commandId: string;
@@ -27,7 +43,10 @@ export class TerminalRunner {
   private _status: "running" | "completed" | "error" = "running";
   private _exitCode: number | null = null;
   private _child: ChildProcess | null = null;
+  private _pty: IPty | null = null;
   private createdAt = Date.now();
+  private detachedAt: number | null = Date.now();
+  private killTimer: ReturnType<typeof setTimeout> | null = null;
 
   constructor(commandId: string, command: string) {
     this.commandId = commandId;
@@ -42,8 +61,12 @@ export class TerminalRunner {
   }
   get listenerCount() { return this.listeners.size; }
   get age() { return Date.now() - this.createdAt; }
+  /** How long the runner has gone without any listener (0 while one is attached) */
+  get detachedMs() { return this.detachedAt === null ? 0 : Date.now() - this.detachedAt; }
+  get interactive() { return this._pty !== null; }
 
   setChild(child: ChildProcess) { this._child = child; }
+  setPty(pty: IPty) { this._pty = pty; }
 
   bufferEvent(type: string, data: unknown): IndexedTerminalEvent {
     const event: IndexedTerminalEvent = { index: this.nextIndex++, type, data };
@@ -52,13 +75,19 @@ export class TerminalRunner {
       this.eventBuffer.shift();
     }
     for (const listener of this.listeners) {
-      try { listener(event); } catch { this.listeners.delete(listener); }
+      try { listener(event); } catch { this.removeListener(listener); }
     }
     return event;
   }
 
-  addListener(fn: TerminalEventListener) { this.listeners.add(fn); }
-  removeListener(fn: TerminalEventListener) { this.listeners.delete(fn); }
+  addListener(fn: TerminalEventListener) {
+    this.listeners.add(fn);
+    this.detachedAt = null;
+  }
+
+  removeListener(fn: TerminalEventListener) {
+    if (this.listeners.delete(fn) && this.listeners.size === 0) this.detachedAt = Date.now();
+  }
 
   replayFrom(fromIndex: number): { events: IndexedTerminalEvent[]; gap: boolean } {
     if (this.eventBuffer.length === 0) {
@@ -74,15 +103,86 @@ export class TerminalRunner {
   complete(exitCode: number) {
     this._status = "completed";
     this._exitCode = exitCode;
+    this.clearKillTimer();
   }
 
   fail() {
     this._status = "error";
+    this.clearKillTimer();
   }
 
-  kill() {
-    if (this._child && !this._child.killed) {
-      this._child.kill("SIGTERM");
+  /** Send keystrokes to the shell, or text to a command's stdin; false when nothing is there to take it */
+  write(data: string): boolean {
+    if (this._status !== "running") return false;
+    if (this._pty) {
+      this._pty.write(data);
+      return true;
     }
+    const stdin = this._child?.stdin;
+    if (!stdin || !stdin.writable) return false;
+    stdin.write(data);
+    return true;
+  }
+
+  /** End of input — Ctrl-D. Closes a command's stdin; a shell gets the EOF character. */
+  endInput(): boolean {
+    if (this._status !== "running") return false;
+    if (this._pty) {
+      this._pty.write("\x04");
+      return true;
+    }
+    const stdin = this._child?.stdin;
+    if (!stdin || !stdin.writable) return false;
+    stdin.end();
+    return true;
+  }
+
+  /**
+   * Signal the command. One-shot commands run in their own process group, so
+   * the signal reaches everything they started (npm → sh → node), not just bash.
+   */
+  signal(sig: TerminalSignal): boolean {
+    if (this._status !== "running") return false;
+    if (this._pty) {
+      this._pty.kill(sig);
+      return true;
+    }
+    if (!this._child) return false;
+    if (this._child.pid !== undefined) {
+      try {
+        process.kill(-this._child.pid, sig);
+        return true;
+      } catch {
+        // Not a group leader (or already gone) — signal the child itself
+      }
+    }
+    return this._child.kill(sig);
+  }
+
+  resize(cols: number, rows: number): boolean {
+    if (!this._pty || this._status !== "running") return false;
+    this._pty.resize(cols, rows);
+    return true;
+  }
+
+  /** SIGTERM, escalating to SIGKILL if the command is still running after `graceMs` */
+  kill(graceMs = KILL_GRACE_MS) {
+    if (this._status !== "running") return;
+    if (!this._pty && (!this._child || this._child.killed)) return;
+    this.signal("SIGTERM");
+
+    if (this.killTimer) return;
+    this.killTimer = setTimeout(() => {
+      this.killTimer = null;
+      if (this._status !== "running") return;
+      console.error(`[terminal] ${this.commandId} ignored SIGTERM — sending SIGKILL`);
+      this.signal("SIGKILL");
+    }, graceMs);
+    this.killTimer.unref();
+  }
+
+  private clearKillTimer() {
+    if (this.killTimer) clearTimeout(this.killTimer);
+    this.killTimer = null;
   }
 }
@@ -87,3 +87,20 @@ export async function withEnv(
     }
   }
 }
+
+/**
+ * A scheduler/task launcher whose runs stay open until the test finishes
+ * them. `begin` gets the run's index (0, 1, ...) and the launcher's arguments,
+ * to report the session and query ids the real one would.
+ */
+export function controllableLauncher<L extends (...args: any[]) => Promise<unknown>>(
+  begin: (index: number, ...args: Parameters<L>) => void
+) {
+  type Outcome = Awaited<ReturnType<L>>;
+  const finishers: ((outcome: Outcome) => void)[] = [];
+  const launch = vi.fn(((...args: Parameters<L>) => {
+    begin(finishers.length, ...args);
+    return new Promise<Outcome>((resolve) => finishers.push(resolve));
+  }) as L);
+  return { launch, finish: (i: number, outcome: Outcome) => finishers[i](outcome) };
+}
@@ -0,0 +1,36 @@
+import { describe, it, expect } from "vitest";
+import { engineFromEnv, cleanTranscript } from "./transcribe.js";
+
+describe("engineFromEnv", () => {
+  it("is null until an engine is configured", () => {
+    expect(engineFromEnv({})).toBeNull();
+    expect(engineFromEnv({ WHISPER_CPP_BIN: "/opt/whisper/whisper-cli" })).toBeNull();
+  });
+
+  it("runs whisper.cpp with the model and no timestamps", () => {
+    const engine = engineFromEnv({ WHISPER_CPP_BIN: "/opt/whisper/whisper-cli", WHISPER_CPP_MODEL: "/opt/ggml-base.en.bin" });
+    expect(engine?.name).toBe("whisper.cpp");
+    expect(engine?.command("/tmp/a.wav", "en")).toEqual({
+      bin: "/opt/whisper/whisper-cli",
+      args: ["-m", "/opt/ggml-base.en.bin", "-f", "/tmp/a.wav", "-l", "en", "-nt", "-np"],
+    });
+  });
+
+  it("prefers a custom command and fills in its placeholders", () => {
+    const engine = engineFromEnv({
+      TRANSCRIBE_COMMAND: "faster-whisper --lang={language} {input}",
+      WHISPER_CPP_BIN: "whisper-cli",
+      WHISPER_CPP_MODEL: "model.bin",
+    });
+    expect(engine?.name).toBe("command");
+    expect(engine?.command("/tmp/a.wav", "auto")).toEqual({ bin: "faster-whisper", args: ["--lang=auto", "/tmp/a.wav"] });
+  });
+});
+
+describe("cleanTranscript", () => {
+  it("joins lines and drops non-speech markers", () => {
+    expect(cleanTranscript("\n Fix the login bug\n and run the tests.\n")).toBe("Fix the login bug and run the tests.");
+    expect(cleanTranscript("[BLANK_AUDIO]\n")).toBe("");
+    expect(cleanTranscript(" (wind blowing)\n Deploy it.\n")).toBe("Deploy it.");
+  });
+});
@@ -0,0 +1,104 @@
+/**
+ * Speech-to-text for voice prompts, run locally on the server.
+ *
+ * The engine is picked from the environment:
+ *   TRANSCRIBE_COMMAND              any CLI that prints a transcript to stdout;
+ *                                   `{input}` and `{language}` are substituted
+ *   WHISPER_CPP_BIN + _MODEL        a whisper.cpp build (whisper-cli) and ggml model
+ *
+ * Browsers record webm/opus or mp4/aac, so audio is first converted with
+ * ffmpeg (FFMPEG_BIN) to the 16 kHz mono WAV both engines expect. Like git.ts,
+ * everything runs via execFile — the recording path is never seen by a shell.
+ */
+
+import { execFile } from "child_process";
+import fsPromises from "fs/promises";
+import os from "os";
+import path from "path";
+
+export const MAX_AUDIO_BYTES = 3 * 1024 * 1024;  // Sent as base64 — has to fit the proxy's 4.5 MB body limit
+const TRANSCRIBE_TIMEOUT_MS = 120_000;
+
+export class TranscribeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "TranscribeError";
+  }
+}
+
+export interface TranscriptionEngine {
+  name: "whisper.cpp" | "command";
+  /** argv for transcribing a 16 kHz mono WAV */
+  command(wavPath: string, language: string): { bin: string; args: string[] };
+}
+
+/** The configured engine, or null when voice input isn't set up */
+export function engineFromEnv(env: NodeJS.ProcessEnv = process.env): TranscriptionEngine | null {
+  const custom = env.TRANSCRIBE_COMMAND?.trim();
+  if (custom) {
+    const [bin, ...rest] = custom.split(/\s+/);
+    return {
+      name: "command",
+      command: (wavPath, language) => ({
+        bin,
+        args: rest.map((arg) => arg.replaceAll("{input}", wavPath).replaceAll("{language}", language)),
+      }),
+    };
+  }
+
+  const bin = env.WHISPER_CPP_BIN?.trim();
+  const model = env.WHISPER_CPP_MODEL?.trim();
+  if (bin && model) {
+    return {
+      name: "whisper.cpp",
+      // -nt: no timestamps, -np: only the transcript on stdout
+      command: (wavPath, language) => ({ bin, args: ["-m", model, "-f", wavPath, "-l", language, "-nt", "-np"] }),
+    };
+  }
+
+  return null;
+}
+
+/** Drop whisper's non-speech markers ("[BLANK_AUDIO]", "(wind blowing)") and line breaks */
+export function cleanTranscript(output: string): string {
+  return output
+    .replace(/\[[A-Z_ ]+\]/g, " ")
+    .replace(/^\s*\([^)]*\)\s*$/gm, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+function run(bin: string, args: string[]): Promise<string> {
+  return new Promise((resolve, reject) => {
+    execFile(bin, args, { timeout: TRANSCRIBE_TIMEOUT_MS, maxBuffer: 4 * 1024 * 1024 }, (err, stdout, stderr) => {
+      if (err) {
+        const reason = err.killed ? "timed out" : (stderr || err.message).trim().split("\n").pop();
+        reject(new TranscribeError(`${path.basename(bin)} failed: ${reason}`));
+        return;
+      }
+      resolve(stdout);
+    });
+  });
+}
+
+/** Convert a browser recording to WAV and run it through the engine */
+export async function transcribeAudio(
+  engine: TranscriptionEngine,
+  audio: Buffer,
+  language = process.env.TRANSCRIBE_LANGUAGE || "auto"
+): Promise<string> {
+  const dir = await fsPromises.mkdtemp(path.join(os.tmpdir(), "cc-voice-"));
+  try {
+    const input = path.join(dir, "recording");
+    const wav = path.join(dir, "recording.wav");
+    await fsPromises.writeFile(input, audio);
+    await run(process.env.FFMPEG_BIN || "ffmpeg", [
+      "-nostdin", "-loglevel", "error", "-i", input, "-ar", "16000", "-ac", "1", "-c:a", "pcm_s16le", wav,
+    ]);
+
+    const { bin, args } = engine.command(wav, language);
+    return cleanTranscript(await run(bin, args));
+  } finally {
+    await fsPromises.rm(dir, { recursive: true, force: true });
+  }
+}
@@ -0,0 +1,215 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { readFile, writeFile, mkdir } from "fs/promises";
+import path from "path";
+import { createTempDir, cleanupTempDir } from "./test-utils.js";
+import {
+  appendTranscript,
+  forkTranscript,
+  deleteTranscript,
+  readTranscript,
+  findForkPoint,
+  isValidSessionId,
+  setTranscriptsDir,
+} from "./transcript-store.js";
+
+describe("TranscriptStore", () => {
+  let tmpDir: string;
+  // Fresh IDs per test — the store caches next sequence numbers per session
+  let n = 0;
+  const sid = () => `session-${Date.now()}-${n++}`;
+
+  beforeEach(async () => {
+    tmpDir = await createTempDir();
+    setTranscriptsDir(tmpDir);
+  });
+
+  afterEach(async () => {
+    await cleanupTempDir(tmpDir);
+  });
+
+  it("appends transcript events with sequence numbers", async () => {
+    const id = sid();
+    await appendTranscript(id, [
+      { type: "user", data: { text: "hi" }, queryId: "q1" },
+      { type: "assistant", data: { text: "hello" }, queryId: "q1" },
+    ]);
+    await appendTranscript(id, [{ type: "result", data: { numTurns: 1 }, queryId: "q1" }]);
+
+    const page = await readTranscript(id, { limit: 100 });
+    expect(page).toMatchObject({ total: 3, hasMore: false });
+    expect(page!.entries.map((e) => [e.seq, e.type])).toEqual([
+      [0, "user"],
+      [1, "assistant"],
+      [2, "result"],
+    ]);
+    expect(page!.entries[0]).toMatchObject({ data: { text: "hi" }, queryId: "q1", timestamp: expect.any(Number) });
+  });
+
+  it("ignores streaming and status events", async () => {
+    const id = sid();
+    await appendTranscript(id, [
+      { type: "stream_event", data: {} },
+      { type: "context_update", data: {} },
+      { type: "assistant", data: { text: "kept" } },
+    ]);
+
+    const page = await readTranscript(id, { limit: 100 });
+    expect(page!.entries.map((e) => e.type)).toEqual(["assistant"]);
+  });
+
+  it("keeps order for appends fired without awaiting", async () => {
+    const id = sid();
+    for (let i = 0; i < 20; i++) {
+      appendTranscript(id, [{ type: "assistant", data: { text: String(i) } }]);
+    }
+
+    const page = await readTranscript(id, { limit: 100 });
+    expect(page!.entries.map((e) => (e.data as { text: string }).text)).toEqual(
+      Array.from({ length: 20 }, (_, i) => String(i))
+    );
+  });
+
+  it("pages backwards with before/limit", async () => {
+    const id = sid();
+    await appendTranscript(
+      id,
+      Array.from({ length: 10 }, (_, i) => ({ type: "assistant", data: { text: String(i) } }))
+    );
+
+    const latest = await readTranscript(id, { limit: 4 });
+    expect(latest!.entries.map((e) => e.seq)).toEqual([6, 7, 8, 9]);
+    expect(latest!.hasMore).toBe(true);
+
+    const older = await readTranscript(id, { before: 6, limit: 4 });
+    expect(older!.entries.map((e) => e.seq)).toEqual([2, 3, 4, 5]);
+
+    const oldest = await readTranscript(id, { before: 2, limit: 4 });
+    expect(oldest!.entries.map((e) => e.seq)).toEqual([0, 1]);
+    expect(oldest!.hasMore).toBe(false);
+  });
+
+  it("truncates huge tool results", async () => {
+    const id = sid();
+    await appendTranscript(id, [{ type: "tool_result", data: { toolUseId: "t", content: "x".repeat(200_000) } }]);
+
+    const page = await readTranscript(id, { limit: 1 });
+    const content = (page!.entries[0].data as { content: string }).content;
+    expect(content.length).toBeLessThan(110_000);
+    expect(content).toContain("[truncated]");
+  });
+
+  it("continues numbering from an existing file", async () => {
+    const id = sid();
+    await mkdir(tmpDir, { recursive: true });
+    await writeFile(
+      path.join(tmpDir, `${id}.jsonl`),
+      JSON.stringify({ seq: 0, type: "user", data: { text: "old" }, timestamp: 1 }) + "\n"
+    );
+
+    await appendTranscript(id, [{ type: "assistant", data: { text: "new" } }]);
+
+    const page = await readTranscript(id, { limit: 10 });
+    expect(page!.entries.map((e) => e.seq)).toEqual([0, 1]);
+  });
+
+  it("skips torn lines", async () => {
+    const id = sid();
+    await writeFile(
+      path.join(tmpDir, `${id}.jsonl`),
+      JSON.stringify({ seq: 0, type: "user", data: {}, timestamp: 1 }) + "\n{\"seq\":1,\"ty"
+    );
+
+    const page = await readTranscript(id, { limit: 10 });
+    expect(page!.entries).toHaveLength(1);
+  });
+
+  it("copies the parent transcript when forking", async () => {
+    const parent = sid();
+    const child = sid();
+    await appendTranscript(parent, [{ type: "user", data: { text: "shared" } }]);
+    await forkTranscript(parent, child);
+    await appendTranscript(child, [{ type: "user", data: { text: "child only" } }]);
+
+    const childPage = await readTranscript(child, { limit: 10 });
+    expect(childPage!.entries.map((e) => [e.seq, (e.data as { text: string }).text])).toEqual([
+      [0, "shared"],
+      [1, "child only"],
+    ]);
+    expect((await readTranscript(parent, { limit: 10 }))!.total).toBe(1);
+  });
+
+  it("copies only entries before the fork point", async () => {
+    const parent = sid();
+    const child = sid();
+    await appendTranscript(parent, [
+      { type: "user", data: { text: "first" } },
+      { type: "result", data: {} },
+      { type: "user", data: { text: "second" } },
+      { type: "result", data: {} },
+    ]);
+    await forkTranscript(parent, child, 2);
+    await appendTranscript(child, [{ type: "user", data: { text: "alternative" } }]);
+
+    const childPage = await readTranscript(child, { limit: 10 });
+    expect(childPage!.entries.map((e) => [e.seq, e.type])).toEqual([
+      [0, "user"],
+      [1, "result"],
+      [2, "user"],
+    ]);
+    expect((childPage!.entries[2].data as { text: string }).text).toBe("alternative");
+  });
+
+  describe("findForkPoint", () => {
+    it("resumes at the last assistant message before the prompt", async () => {
+      const id = sid();
+      await appendTranscript(id, [
+        { type: "user", data: { text: "one" }, queryId: "q1" },
+        { type: "result", data: { assistantUuid: "a1" }, queryId: "q1" },
+        { type: "user", data: { text: "two" }, queryId: "q2" },
+        { type: "result", data: { assistantUuid: "a2" }, queryId: "q2" },
+        { type: "user", data: { text: "three" }, queryId: "q3" },
+      ]);
+
+      expect(await findForkPoint(id, "q3")).toEqual({ seq: 4, resumeAt: "a2" });
+      expect(await findForkPoint(id, "q2")).toEqual({ seq: 2, resumeAt: "a1" });
+    });
+
+    it("forks the first prompt without a resume point", async () => {
+      const id = sid();
+      await appendTranscript(id, [
+        { type: "user", data: { text: "one" }, queryId: "q1" },
+        { type: "result", data: { assistantUuid: "a1" }, queryId: "q1" },
+      ]);
+      expect(await findForkPoint(id, "q1")).toEqual({ seq: 0, resumeAt: undefined });
+    });
+
+    it("returns null for unknown prompts and untracked earlier turns", async () => {
+      const id = sid();
+      await appendTranscript(id, [
+        { type: "user", data: { text: "old" }, queryId: "q1" },
+        { type: "result", data: {}, queryId: "q1" },
+        { type: "user", data: { text: "new" }, queryId: "q2" },
+      ]);
+      expect(await findForkPoint(id, "missing")).toBeNull();
+      expect(await findForkPoint(id, "q2")).toBeNull();
+      expect(await findForkPoint(sid(), "q1")).toBeNull();
+    });
+  });
+
+  it("returns null for unknown sessions and deletes transcripts", async () => {
+    const id = sid();
+    expect(await readTranscript(id, { limit: 10 })).toBeNull();
+
+    await appendTranscript(id, [{ type: "user", data: { text: "x" } }]);
+    await deleteTranscript(id);
+    expect(await readTranscript(id, { limit: 10 })).toBeNull();
+    await expect(readFile(path.join(tmpDir, `${id}.jsonl`))).rejects.toThrow();
+  });
+
+  it("rejects session IDs that could escape the directory", async () => {
+    expect(isValidSessionId("abc-123_DEF")).toBe(true);
+    expect(isValidSessionId("../etc/passwd")).toBe(false);
+    expect(isValidSessionId("a/b")).toBe(false);
+    expect(await readTranscript("../x", { limit: 1 })).toBeNull();
+  });
+});
@@ -0,0 +1,230 @@
+/**
+ * TranscriptStore — append-only conversation history per session.
+ *
+ * Every conversation-visible event (user prompt, assistant text, tool calls and
+ * results, result, change summary, errors) is appended as one JSON line to
+ * data/transcripts/<sessionId>.jsonl, so any device can reload the full
+ * conversation. Streaming deltas and status chatter are not stored — the
+ * `assistant` event already carries each full text block.
+ *
+ * Appends are chained per session so lines land in event order without
+ * blocking the SDK loop.
+ */
+
+import fsPromises from "fs/promises";
+import path from "path";
+import { fileURLToPath } from "url";
+
+// ── Entry shape ──────────────────────────────────────────────────────
+
+export const TRANSCRIPT_EVENT_TYPES = new Set([
+  "user",
+  "assistant",
+  "tool_call",
+  "tool_result",
+  "result",
+  "files_changed",
+  "error",
+]);
+
+export interface TranscriptEntry {
+  seq: number;          // 0-based position in the transcript
+  type: string;
+  data: unknown;
+  queryId?: string;
+  timestamp: number;
+}
+
+// Tool output can be enormous (cat of a log file) — the UI truncates anyway
+const MAX_TOOL_RESULT_CHARS = 100_000;
+
+// ── Storage path ──────────────────────────────────────────────────────
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+let transcriptsDir = path.resolve(__dirname, "../../data/transcripts");
+
+/** Point the store somewhere else (tests) */
+export function setTranscriptsDir(dir: string): void {
+  transcriptsDir = dir;
+}
+
+// Session IDs become file names — only allow what the SDK generates
+const SESSION_ID_RE = /^[A-Za-z0-9_-]+$/;
+
+export function isValidSessionId(sessionId: string): boolean {
+  return SESSION_ID_RE.test(sessionId);
+}
+
+function transcriptPath(sessionId: string): string {
+  return path.join(transcriptsDir, `${sessionId}.jsonl`);
+}
+
+// ── Writes ────────────────────────────────────────────────────────────
+
+const writeChains = new Map<string, Promise<void>>();
+const nextSeq = new Map<string, number>();
+
+async function countLines(sessionId: string): Promise<number> {
+  const raw = await fsPromises.readFile(transcriptPath(sessionId), "utf-8").catch(() => "");
+  return raw.split("\n").filter(Boolean).length;
+}
+
+function enqueue(sessionId: string, task: () => Promise<void>): Promise<void> {
+  const prev = writeChains.get(sessionId) ?? Promise.resolve();
+  const next = prev.then(task).catch((err) => {
+    console.error(`[transcript-store] write failed for ${sessionId}:`, err);
+  });
+  writeChains.set(sessionId, next);
+  // Drop the chain once idle so the map doesn't grow with every session ever seen
+  next.then(() => {
+    if (writeChains.get(sessionId) === next) writeChains.delete(sessionId);
+  });
+  return next;
+}
+
+function trimData(type: string, data: unknown): unknown {
+  if (type === "tool_result") {
+    const d = data as { content?: unknown };
+    if (typeof d?.content === "string" && d.content.length > MAX_TOOL_RESULT_CHARS) {
+      return { ...d, content: d.content.slice(0, MAX_TOOL_RESULT_CHARS) + "\n… [truncated]" };
+    }
+  }
+  return data;
+}
+
+/** Append events to a session's transcript (non-transcript event types are ignored) */
+export function appendTranscript(
+  sessionId: string,
+  events: { type: string; data: unknown; queryId?: string; timestamp?: number }[]
+): Promise<void> {
+  if (!isValidSessionId(sessionId)) return Promise.resolve();
+  const kept = events.filter((e) => TRANSCRIPT_EVENT_TYPES.has(e.type));
+  if (kept.length === 0) return Promise.resolve();
+
+  return enqueue(sessionId, async () => {
+    let seq = nextSeq.get(sessionId) ?? (await countLines(sessionId));
+    const lines = kept.map((e) => {
+      const entry: TranscriptEntry = {
+        seq: seq++,
+        type: e.type,
+        data: trimData(e.type, e.data),
+        ...(e.queryId ? { queryId: e.queryId } : {}),
+        timestamp: e.timestamp ?? Date.now(),
+      };
+      return JSON.stringify(entry) + "\n";
+    });
+    await fsPromises.mkdir(transcriptsDir, { recursive: true });
+    await fsPromises.appendFile(transcriptPath(sessionId), lines.join(""), "utf-8");
+    nextSeq.set(sessionId, seq);
+  });
+}
+
+/**
+ * Start a forked session's transcript as a copy of its parent's — only the
+ * entries before `beforeSeq` when forking from an earlier point.
+ */
+export function forkTranscript(parentId: string, childId: string, beforeSeq?: number): Promise<void> {
+  if (!isValidSessionId(parentId) || !isValidSessionId(childId) || parentId === childId) {
+    return Promise.resolve();
+  }
+  // Wait for the parent's pending writes, then copy under the child's chain
+  const parentDone = writeChains.get(parentId) ?? Promise.resolve();
+  return enqueue(childId, async () => {
+    await parentDone;
+    const raw = await fsPromises.readFile(transcriptPath(parentId), "utf-8").catch(() => "");
+    const lines = raw.split("\n").filter(Boolean);
+    const kept =
+      beforeSeq === undefined ? lines : parseEntries(raw).filter((e) => e.seq < beforeSeq).map((e) => JSON.stringify(e));
+    if (kept.length === 0) return;
+    await fsPromises.mkdir(transcriptsDir, { recursive: true });
+    await fsPromises.writeFile(transcriptPath(childId), kept.join("\n") + "\n", "utf-8");
+    nextSeq.set(childId, kept.length);
+  });
+}
+
+export function deleteTranscript(sessionId: string): Promise<void> {
+  if (!isValidSessionId(sessionId)) return Promise.resolve();
+  return enqueue(sessionId, async () => {
+    await fsPromises.rm(transcriptPath(sessionId), { force: true });
+    nextSeq.delete(sessionId);
+  });
+}
+
+// ── Reads ─────────────────────────────────────────────────────────────
+
+export interface TranscriptPage {
+  entries: TranscriptEntry[];
+  total: number;
+  hasMore: boolean;    // Older entries exist before this page
+}
+
+function parseEntries(raw: string): TranscriptEntry[] {
+  const entries: TranscriptEntry[] = [];
+  for (const line of raw.split("\n")) {
+    if (!line) continue;
+    try {
+      entries.push(JSON.parse(line) as TranscriptEntry);
+    } catch {
+      // Torn write from a crash — skip the line
+    }
+  }
+  return entries;
+}
+
+/**
+ * Read a page of the transcript, newest last. Without `before` this is the
+ * most recent `limit` entries; pass the first entry's seq as `before` to page
+ * backwards.
+ */
+export async function readTranscript(
+  sessionId: string,
+  opts: { before?: number; limit: number }
+): Promise<TranscriptPage | null> {
+  if (!isValidSessionId(sessionId)) return null;
+  // Don't read a half-written transcript
+  await writeChains.get(sessionId);
+
+  let raw: string;
+  try {
+    raw = await fsPromises.readFile(transcriptPath(sessionId), "utf-8");
+  } catch (err: unknown) {
+    if ((err as NodeJS.ErrnoException).code === "ENOENT") return null;
+    throw err;
+  }
+
+  const all = parseEntries(raw);
+  const end = opts.before !== undefined ? all.findIndex((e) => e.seq >= opts.before!) : -1;
+  const stop = end === -1 ? all.length : end;
+  const start = Math.max(0, stop - opts.limit);
+  return { entries: all.slice(start, stop), total: all.length, hasMore: start > 0 };
+}
+
+export interface ForkPoint {
+  seq: number;         // Seq of the user prompt being replaced — the fork keeps everything before it
+  resumeAt?: string;   // SDK assistant message UUID to resume at; absent when forking before the first turn
+}
+
+/**
+ * Locate the prompt sent by `queryId` and the conversation point just before
+ * it. Each `result` entry records the last assistant message UUID of its turn
+ * (`assistantUuid`); the latest one before the prompt is where the SDK
+ * session gets cut. Returns null when the prompt isn't in the transcript, or
+ * when earlier turns predate UUID tracking and can't be resumed.
+ */
+export async function findForkPoint(sessionId: string, queryId: string): Promise<ForkPoint | null> {
+  const page = await readTranscript(sessionId, { limit: Number.MAX_SAFE_INTEGER });
+  if (!page) return null;
+
+  const prompt = page.entries.find((e) => e.type === "user" && e.queryId === queryId);
+  if (!prompt) return null;
+
+  const earlier = page.entries.filter((e) => e.seq < prompt.seq);
+  let resumeAt: string | undefined;
+  for (const e of earlier) {
+    const uuid = (e.data as { assistantUuid?: unknown } | null)?.assistantUuid;
+    if (e.type === "result" && typeof uuid === "string") resumeAt = uuid;
+  }
+  if (!resumeAt && earlier.some((e) => e.type !== "user")) return null;
+
+  return { seq: prompt.seq, resumeAt };
+}
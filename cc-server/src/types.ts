@@ -22,7 +22,16 @@ export interface ChatRequest {
   projectPath: string;
   continue?: boolean;    // Resume most recent conversation
   forkSession?: boolean; // Fork to new session branch
+  forkFromQueryId?: string; // With forkSession: branch before the prompt sent by this query
   outputFormat?: { type: "json_schema"; schema: Record<string, unknown> };
+  attachments?: ChatAttachment[];
+  worktree?: boolean;    // New session: run it in its own git worktree
+}
+
+export interface ChatAttachment {
+  name: string;
+  mimeType: string;
+  data: string;  // base64
 }
 
 // SSE event types sent to the client
@@ -0,0 +1,80 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdir, readFile, writeFile } from "fs/promises";
+import path from "path";
+import { createTempDir, cleanupTempDir } from "./test-utils.js";
+import { runGit } from "./git.js";
+import { createWorktree, removeWorktree, WorktreeError } from "./worktrees.js";
+
+const GIT_IDENTITY = {
+  GIT_AUTHOR_NAME: "Test",
+  GIT_AUTHOR_EMAIL: "test@example.com",
+  GIT_COMMITTER_NAME: "Test",
+  GIT_COMMITTER_EMAIL: "test@example.com",
+};
+
+describe("session worktrees", () => {
+  let tmpDir: string;
+  let repo: string;
+  const originalEnv: Record<string, string | undefined> = {};
+
+  beforeEach(async () => {
+    tmpDir = await createTempDir();
+    for (const key of Object.keys(GIT_IDENTITY)) originalEnv[key] = process.env[key];
+    Object.assign(process.env, GIT_IDENTITY);
+
+    // tmpDir/repo — one commit, with the project living in repo/web
+    repo = path.join(tmpDir, "repo");
+    await mkdir(path.join(repo, "web"), { recursive: true });
+    await runGit(repo, ["init", "-q", "-b", "main"]);
+    await writeFile(path.join(repo, "web", "app.ts"), "export {};\n");
+    await runGit(repo, ["add", "."]);
+    await runGit(repo, ["commit", "-q", "-m", "Initial commit"]);
+  });
+
+  afterEach(async () => {
+    await cleanupTempDir(tmpDir);
+    for (const [key, value] of Object.entries(originalEnv)) {
+      if (value !== undefined) {
+        process.env[key] = value;
+      } else {
+        delete process.env[key];
+      }
+    }
+  });
+
+  it("checks out a new branch and keeps the project's subfolder as cwd", async () => {
+    const worktree = await createWorktree(tmpDir, path.join(repo, "web"), "abc123");
+    expect(worktree).toEqual({
+      path: path.join("repo", ".code-anvil", "worktrees", "abc123"),
+      cwd: path.join("repo", ".code-anvil", "worktrees", "abc123", "web"),
+      branch: "code-anvil/abc123",
+    });
+    expect(await readFile(path.join(tmpDir, worktree.cwd, "app.ts"), "utf-8")).toBe("export {};\n");
+    expect(await runGit(repo, ["branch", "--list", "code-anvil/abc123"])).toContain("code-anvil/abc123");
+  });
+
+  it("keeps the main repo's status clean", async () => {
+    await createWorktree(tmpDir, path.join(repo, "web"), "abc123");
+    await createWorktree(tmpDir, path.join(repo, "web"), "def456");
+    expect(await runGit(repo, ["status", "--porcelain"])).toBe("");
+    const exclude = await readFile(path.join(repo, ".git", "info", "exclude"), "utf-8");
+    expect(exclude.split("\n").filter((line) => line === "/.code-anvil/worktrees/")).toHaveLength(1);
+  });
+
+  it("rejects folders that aren't in a repo", async () => {
+    const plain = path.join(tmpDir, "plain");
+    await mkdir(plain);
+    await expect(createWorktree(plain, plain, "abc123")).rejects.toBeInstanceOf(WorktreeError);
+  });
+
+  it("only removes a worktree without local changes, keeping the branch", async () => {
+    const clean = await createWorktree(tmpDir, repo, "clean");
+    const dirty = await createWorktree(tmpDir, repo, "dirty");
+    await writeFile(path.join(tmpDir, dirty.cwd, "notes.md"), "work in progress\n");
+
+    expect(await removeWorktree(tmpDir, clean)).toBe(true);
+    expect(await removeWorktree(tmpDir, dirty)).toBe(false);
+    expect(await readFile(path.join(tmpDir, dirty.cwd, "notes.md"), "utf-8")).toBe("work in progress\n");
+    expect(await runGit(repo, ["branch", "--list", "code-anvil/clean"])).toContain("code-anvil/clean");
+  });
+});
@@ -0,0 +1,85 @@
+/**
+ * Session worktrees — a conversation can run in its own git worktree so
+ * several sessions can edit one project at the same time without stepping on
+ * each other's files (or mixing up each other's per-turn change summaries).
+ *
+ * A worktree is created at <repo>/.code-anvil/worktrees/<name> on a new
+ * branch code-anvil/<name> cut from the project's current HEAD, and the
+ * folder is listed in the repo's .git/info/exclude so it doesn't show up as
+ * untracked. Merging the branch back is left to the user.
+ */
+
+import fsPromises from "fs/promises";
+import path from "path";
+import { runGit, GitError, excludeFromStatus } from "./git.js";
+
+export const WORKTREES_DIR = ".code-anvil/worktrees";
+export const WORKTREE_BRANCH_PREFIX = "code-anvil/";
+
+export class WorktreeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "WorktreeError";
+  }
+}
+
+export interface SessionWorktree {
+  path: string;    // Worktree root, relative to BASE_DIR
+  cwd: string;     // Where the session runs (the project's folder inside the worktree), relative to BASE_DIR
+  branch: string;
+}
+
+/**
+ * Add a worktree for the git repo containing `projectCwd`. If the project is
+ * a subfolder of the repo, the session's cwd is the same subfolder inside the
+ * new worktree.
+ */
+export async function createWorktree(baseDir: string, projectCwd: string, name: string): Promise<SessionWorktree> {
+  let root: string;
+  try {
+    root = (await runGit(projectCwd, ["rev-parse", "--show-toplevel"])).trim();
+    await runGit(projectCwd, ["rev-parse", "--verify", "--quiet", "HEAD"]);
+  } catch (err: unknown) {
+    if (err instanceof GitError) throw new WorktreeError("A worktree needs a git repository with at least one commit");
+    throw err;
+  }
+
+  // git reports the real path — map the repo root back onto BASE_DIR's spelling of it
+  const subdir = path.relative(root, await fsPromises.realpath(projectCwd));
+  const rootInBase = subdir ? path.resolve(projectCwd, ...subdir.split(path.sep).map(() => "..")) : path.resolve(projectCwd);
+  const base = path.resolve(baseDir);
+  if (rootInBase !== base && !rootInBase.startsWith(base + path.sep)) {
+    throw new WorktreeError("The project's git repository is outside the base directory");
+  }
+
+  const worktreePath = path.join(rootInBase, WORKTREES_DIR, name);
+  const branch = WORKTREE_BRANCH_PREFIX + name;
+  try {
+    await excludeFromStatus(rootInBase, WORKTREES_DIR);
+    await runGit(rootInBase, ["worktree", "add", "-q", "-b", branch, worktreePath, "HEAD"]);
+  } catch (err: unknown) {
+    if (err instanceof GitError) throw new WorktreeError(`Couldn't create worktree: ${err.message}`);
+    throw err;
+  }
+
+  return {
+    path: path.relative(base, worktreePath),
+    cwd: path.relative(base, path.join(worktreePath, subdir)),
+    branch,
+  };
+}
+
+/**
+ * Remove a session's worktree. Git refuses while it has uncommitted or
+ * untracked changes, so nothing is lost — those are left for the user (false).
+ * The branch is always kept.
+ */
+export async function removeWorktree(baseDir: string, worktree: SessionWorktree): Promise<boolean> {
+  const worktreePath = path.resolve(baseDir, worktree.path);
+  try {
+    await runGit(worktreePath, ["worktree", "remove", worktreePath]);
+    return true;
+  } catch {
+    return false;
+  }
+}
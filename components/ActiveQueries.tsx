@@ -0,0 +1,134 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import Link from "next/link";
+import { Loader2, ShieldAlert, CalendarClock, GitBranch, ChevronRight } from "lucide-react";
+
+// Mirrors cc-server's GET /api/chat/active
+export interface ActiveQuery {
+  queryId: string;
+  sessionId: string | null;  // Null until the SDK assigns one
+  projectPath: string;
+  title: string;
+  prompt: string;
+  startedAt: number;
+  elapsedMs: number;
+  costUsd: number;
+  pendingPermissions: number;
+  unattended: boolean;
+  worktree?: { path: string; cwd: string; branch: string };
+}
+
+const POLL_MS = 3000;
+
+export function formatElapsed(ms: number): string {
+  const sec = Math.max(0, Math.floor(ms / 1000));
+  if (sec < 60) return `${sec}s`;
+  const min = Math.floor(sec / 60);
+  if (min < 60) return `${min}m ${sec % 60}s`;
+  return `${Math.floor(min / 60)}h ${min % 60}m`;
+}
+
+/** Every query running on the server, across projects — tap one to open its session */
+export function ActiveQueries() {
+  const [queries, setQueries] = useState<ActiveQuery[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [now, setNow] = useState(() => Date.now());
+
+  const fetchQueries = useCallback(async () => {
+    try {
+      const res = await fetch("/api/chat/active");
+      const data = await res.json();
+      if (!res.ok) {
+        setError(data.error || "Failed to load running queries");
+        return;
+      }
+      setError(null);
+      setQueries(data.queries);
+    } catch {
+      setError("Failed to connect to server");
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchQueries();
+    const poll = setInterval(fetchQueries, POLL_MS);
+    const tick = setInterval(() => setNow(Date.now()), 1000);
+    return () => {
+      clearInterval(poll);
+      clearInterval(tick);
+    };
+  }, [fetchQueries]);
+
+  if (queries === null && !error) {
+    return (
+      <div className="flex justify-center py-8">
+        <Loader2 size={18} className="animate-spin text-muted" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="divide-y divide-border">
+      {error && <div className="px-4 py-2 text-xs text-red-400">{error}</div>}
+      {queries?.length === 0 && (
+        <div className="px-4 py-8 text-sm text-muted text-center">Nothing is running right now</div>
+      )}
+      {queries?.map((q) => {
+        const projectName = q.projectPath.split("/").pop() || q.projectPath;
+        const body = (
+          <>
+            <div className="flex-1 min-w-0">
+              <div className="flex items-center gap-1.5 text-sm">
+                <span className="w-1.5 h-1.5 rounded-full bg-accent animate-pulse shrink-0" />
+                <span className="truncate">{q.title}</span>
+              </div>
+              <div className="flex items-center gap-2 text-[11px] text-muted mt-0.5">
+                <span className="truncate">{projectName}</span>
+                <span className="tabular-nums shrink-0">{formatElapsed(now - q.startedAt)}</span>
+                <span className="tabular-nums shrink-0">${q.costUsd.toFixed(2)}</span>
+                {q.unattended && (
+                  <span className="flex items-center gap-0.5 shrink-0">
+                    <CalendarClock size={11} />
+                    unattended
+                  </span>
+                )}
+              </div>
+              {q.worktree && (
+                <div className="flex items-center gap-1 text-[11px] text-muted mt-0.5 truncate">
+                  <GitBranch size={11} className="shrink-0" />
+                  <span className="truncate">{q.worktree.branch}</span>
+                </div>
+              )}
+              {q.pendingPermissions > 0 && (
+                <div className="flex items-center gap-1 text-[11px] text-amber-400 mt-0.5">
+                  <ShieldAlert size={11} />
+                  {q.pendingPermissions === 1 ? "Waiting for permission" : `${q.pendingPermissions} permission requests waiting`}
+                </div>
+              )}
+            </div>
+            {q.sessionId ? (
+              <ChevronRight size={16} className="text-muted shrink-0" />
+            ) : (
+              <span className="text-[11px] text-muted shrink-0">starting…</span>
+            )}
+          </>
+        );
+
+        return q.sessionId ? (
+          <Link
+            key={q.queryId}
+            href={`/project/${encodeURIComponent(q.projectPath)}?tab=chat&session=${encodeURIComponent(q.sessionId)}`}
+            className="flex items-center gap-3 px-4 py-3 hover:bg-card transition-colors"
+          >
+            {body}
+          </Link>
+        ) : (
+          <div key={q.queryId} className="flex items-center gap-3 px-4 py-3">
+            {body}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
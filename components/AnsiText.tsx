@@ -0,0 +1,32 @@
+"use client";
+
+import { useMemo, type CSSProperties } from "react";
+import { parseAnsi, type AnsiStyle } from "@/lib/ansi";
+
+function toCss(style: AnsiStyle): CSSProperties | undefined {
+  if (Object.keys(style).length === 0) return undefined;
+  const css: CSSProperties = {};
+  const fg = style.inverse ? style.bg ?? "var(--background)" : style.fg;
+  const bg = style.inverse ? style.fg ?? "var(--foreground)" : style.bg;
+  if (fg) css.color = fg;
+  if (bg) css.backgroundColor = bg;
+  if (style.bold) css.fontWeight = 600;
+  if (style.dim) css.opacity = 0.6;
+  if (style.italic) css.fontStyle = "italic";
+  const decorations = [style.underline && "underline", style.strikethrough && "line-through"].filter(Boolean);
+  if (decorations.length > 0) css.textDecoration = decorations.join(" ");
+  return css;
+}
+
+/** Command output with its ANSI colors rendered — place inside a <pre> */
+export function AnsiText({ text }: { text: string }) {
+  const segments = useMemo(() => parseAnsi(text), [text]);
+  return (
+    <>
+      {segments.map((segment, i) => {
+        const css = toCss(segment.style);
+        return css ? <span key={i} style={css}>{segment.text}</span> : segment.text;
+      })}
+    </>
+  );
+}
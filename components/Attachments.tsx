@@ -0,0 +1,68 @@
+"use client";
+
+import { FileText, Image as ImageIcon, X } from "lucide-react";
+import { formatBytes, type PendingAttachment } from "@/lib/attachments";
+import type { ChatMessageAttachment } from "@/lib/transcript";
+
+interface PendingAttachmentsProps {
+  items: PendingAttachment[];
+  error: string | null;
+  onRemove: (id: string) => void;
+}
+
+/** Files picked for the next message — thumbnails for images, chips for everything else */
+export function PendingAttachments({ items, error, onRemove }: PendingAttachmentsProps) {
+  if (items.length === 0 && !error) return null;
+
+  return (
+    <div className="mx-4 mt-2 space-y-1">
+      {items.length > 0 && (
+        <div className="flex gap-2 overflow-x-auto pb-1">
+          {items.map((a) => (
+            <div key={a.id} className="relative shrink-0">
+              {a.previewUrl ? (
+                // eslint-disable-next-line @next/next/no-img-element -- data: URL preview
+                <img src={a.previewUrl} alt={a.name} className="h-16 w-16 object-cover rounded-md border border-border" />
+              ) : (
+                <div className="flex flex-col justify-center h-16 w-28 px-2 bg-card border border-border rounded-md text-[11px]">
+                  <FileText size={14} className="text-muted mb-1" />
+                  <span className="truncate">{a.name}</span>
+                  <span className="text-muted">{formatBytes(a.size)}</span>
+                </div>
+              )}
+              <button
+                onClick={() => onRemove(a.id)}
+                className="absolute -top-1.5 -right-1.5 p-0.5 bg-background border border-border rounded-full text-muted hover:text-red-400"
+                aria-label={`Remove ${a.name}`}
+              >
+                <X size={11} />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+      {error && <p className="text-[11px] text-red-400">{error}</p>}
+    </div>
+  );
+}
+
+/** What was attached to a sent prompt — names only, the contents went to the server */
+export function AttachmentChips({ items }: { items: ChatMessageAttachment[] }) {
+  return (
+    <div className="flex flex-wrap justify-end gap-1 mb-1 max-w-[85%]">
+      {items.map((a, i) => {
+        const Icon = a.mimeType.startsWith("image/") ? ImageIcon : FileText;
+        return (
+          <span
+            key={`${a.name}-${i}`}
+            className="flex items-center gap-1 px-2 py-0.5 text-[11px] bg-card border border-border rounded-full"
+            title={formatBytes(a.size)}
+          >
+            <Icon size={11} className="text-muted shrink-0" />
+            <span className="truncate max-w-[10rem]">{a.name}</span>
+          </span>
+        );
+      })}
+    </div>
+  );
+}
@@ -1,22 +1,31 @@
 "use client";
 
 import { useState, useRef, useEffect, useCallback } from "react";
-import { Send, Plus, Square, WifiOff } from "lucide-react";
+import Link from "next/link";
+import { Send, Plus, Square, WifiOff, Loader2, History, GitFork, X, RotateCcw, ShieldCheck, ListPlus, Paperclip, CalendarClock, Activity, GitBranch } from "lucide-react";
 import { StreamingMessage } from "./StreamingMessage";
 import { ToolCallIndicator } from "./ToolCallIndicator";
-import { PermissionModal } from "./PermissionModal";
+import { PermissionModal, type AllowOptions, type DenyOptions } from "./PermissionModal";
 import type { ActivityState } from "./ActivityIndicator";
 import { StatusBar, type ConnectionState } from "./StatusBar";
 import type { ChatMode } from "./ModeSelector";
-import { ChatSettings } from "./ChatSettings";
+import { ChatSettings, type PermissionExpiry, type SessionSettingsChange } from "./ChatSettings";
+import { SessionPicker } from "./SessionPicker";
+import { ForkTree } from "./ForkTree";
+import { CheckpointTimeline } from "./CheckpointTimeline";
+import { PermissionRules } from "./PermissionRules";
+import { SchedulesPanel } from "./SchedulesPanel";
+import { PushToggle } from "./PushToggle";
+import { MessageQueue, type QueuedMessage } from "./MessageQueue";
+import { PendingAttachments, AttachmentChips } from "./Attachments";
+import { VoiceInput } from "./VoiceInput";
+import { FilesChangedCard } from "./FilesChangedCard";
+import type { FilesChangedSummary } from "@/lib/diff";
 import { parseSSEStream, type SSEMessage } from "@/lib/stream-parser";
+import { transcriptToMessages, type ChatMessage, type TranscriptEntry } from "@/lib/transcript";
+import { readFileAsAttachment, attachmentLimitError, type PendingAttachment } from "@/lib/attachments";
 
-interface MessageBlock {
-  id: string;
-  role: "user" | "assistant";
-  content: string;
-  toolCalls?: { name: string; input: Record<string, unknown>; id: string; result?: string; elapsedSeconds?: number }[];
-}
+type MessageBlock = ChatMessage;
 
 interface PermissionRequest {
   requestId: string;
@@ -24,6 +33,9 @@ interface PermissionRequest {
   toolName: string;
   input: Record<string, unknown>;
   decisionReason?: string;
+  suggestedRule?: string;
+  expiresAt?: number | null;  // null = waits until answered
+  expiry?: PermissionExpiry;
 }
 
 interface ChatInterfaceProps {
@@ -33,7 +45,10 @@ interface ChatInterfaceProps {
 }
 
 // ── localStorage persistence for chat history ──────────────────────
+// The server transcript (GET /api/chat/history) is the source of truth; this
+// is a cache so the last conversation shows instantly and works offline.
 const CHAT_STORAGE_PREFIX = "cc-chat-";
+const HISTORY_PAGE_SIZE = 200;
 
 interface PersistedChat {
   messages: MessageBlock[];
@@ -129,11 +144,15 @@ export function ChatInterface({
   const abortRef = useRef<AbortController | null>(null);
   const queryIdRef = useRef<string | null>(null);
   const streamingRef = useRef(false);
+  // Bumped whenever the chat moves to another session or stream — async work from the old one checks it and stands down
+  const streamGenRef = useRef(0);
   const assistantIdRef = useRef<string | null>(null);
   const wakeLockRef = useRef<WakeLockSentinel | null>(null);
   const [activityState, setActivityState] = useState<ActivityState>(null);
   const streamedTextRef = useRef(false);
   const [chatMode, setChatMode] = useState<ChatMode>("default");
+  // Set by "Fork from here" — the next send branches before this prompt
+  const [forkFrom, setForkFrom] = useState<{ messageId: string; queryId: string; content: string } | null>(null);
 
   // ── Reconnect state ──────────────────────────────────────────────
   const lastEventIndexRef = useRef(-1);
@@ -151,12 +170,32 @@ export function ChatInterface({
   const [sessionCost, setSessionCost] = useState(0);
   const [budgetCapUsd, setBudgetCapUsd] = useState<number | null>(null);
   const [maxTurns, setMaxTurns] = useState<number | null>(null);
+  const [permissionTimeoutSec, setPermissionTimeoutSec] = useState(120);
+  const [permissionExpiry, setPermissionExpiry] = useState<PermissionExpiry>("deny");
+
+  // ── Follow-up queue — prompts typed while a query runs ───────────
+  const [queuedMessages, setQueuedMessages] = useState<QueuedMessage[]>([]);
+  const [queueError, setQueueError] = useState<string | null>(null);
+  const [attachments, setAttachments] = useState<PendingAttachment[]>([]);
+  const [attachmentError, setAttachmentError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  // ── Git worktree — a new session can run in its own checkout ─────
+  const [useWorktree, setUseWorktree] = useState(false);
+  const [worktreeBranch, setWorktreeBranch] = useState<string | null>(null);
 
   const scrollToBottom = useCallback(() => {
     messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
   }, []);
 
+  // Set when older history is prepended — the user is reading up, don't yank them down
+  const skipAutoScrollRef = useRef(false);
+
   useEffect(() => {
+    if (skipAutoScrollRef.current) {
+      skipAutoScrollRef.current = false;
+      return;
+    }
     scrollToBottom();
   }, [messages, scrollToBottom]);
 
@@ -165,6 +204,42 @@ export function ChatInterface({
     savePersistedChat(projectPath, messages, sessionStats);
   }, [projectPath, messages, sessionStats]);
 
+  // ── Server transcript ─────────────────────────────────────────────
+  // Loaded entries, oldest first. Messages derived from them have "t-" ids;
+  // anything else in `messages` arrived live after the load.
+  const historyEntriesRef = useRef<TranscriptEntry[]>([]);
+  const [historyHasMore, setHistoryHasMore] = useState(false);
+  const [loadingHistory, setLoadingHistory] = useState(false);
+
+  // `runningQueryId`: a query still running in this session — its reply is replayed live, so only its prompt comes from the transcript
+  const loadHistory = useCallback(async (sid: string, earlier: boolean, runningQueryId?: string) => {
+    const params = new URLSearchParams({ sessionId: sid, limit: String(HISTORY_PAGE_SIZE) });
+    const oldest = historyEntriesRef.current[0];
+    if (earlier && oldest) params.set("before", String(oldest.seq));
+
+    setLoadingHistory(true);
+    try {
+      const res = await fetch(`/api/chat/history?${params.toString()}`);
+      if (!res.ok) return; // No transcript (older session) — keep the local cache
+      const page = await res.json() as { entries: TranscriptEntry[]; hasMore: boolean };
+      // A query started while we were loading — its live messages win
+      if (!earlier && streamingRef.current) return;
+
+      const entries = runningQueryId
+        ? page.entries.filter((e) => e.type === "user" || e.queryId !== runningQueryId)
+        : page.entries;
+      historyEntriesRef.current = earlier ? [...entries, ...historyEntriesRef.current] : entries;
+      setHistoryHasMore(page.hasMore);
+      const fromHistory = transcriptToMessages(historyEntriesRef.current);
+      if (earlier) skipAutoScrollRef.current = true;
+      setMessages((prev) => (earlier ? [...fromHistory, ...prev.filter((m) => !m.id.startsWith("t-"))] : fromHistory));
+    } catch {
+      // Offline — the local cache is still showing
+    } finally {
+      setLoadingHistory(false);
+    }
+  }, []);
+
   // Track the last user message for retry functionality
   const lastUserMessageRef = useRef<string | null>(null);
   const [connectionLost, setConnectionLost] = useState(false);
@@ -181,7 +256,15 @@ export function ChatInterface({
 
     switch (event.type) {
       case "query_start": {
-        queryIdRef.current = event.data.queryId as string;
+        const qid = event.data.queryId as string;
+        queryIdRef.current = qid;
+        // Tag the prompt with its query so it can be forked from later
+        setMessages((prev) => {
+          let idx = prev.length - 1;
+          while (idx >= 0 && prev[idx].role !== "user") idx--;
+          if (idx < 0 || prev[idx].queryId) return prev;
+          return prev.map((m, i) => (i === idx ? { ...m, queryId: qid } : m));
+        });
         break;
       }
       case "permission_request": {
@@ -191,14 +274,41 @@ export function ChatInterface({
           toolName: event.data.toolName as string,
           input: event.data.input as Record<string, unknown>,
           decisionReason: event.data.decisionReason as string | undefined,
+          suggestedRule: event.data.suggestedRule as string | undefined,
+          expiresAt: event.data.expiresAt as number | null | undefined,
+          expiry: event.data.expiry as PermissionExpiry | undefined,
         };
         setPermissionQueue((prev) => [...prev, req]);
         break;
       }
+      case "permission_resolved": {
+        const requestId = event.data.requestId as string;
+        setPermissionQueue((prev) => prev.filter((p) => p.requestId !== requestId));
+        break;
+      }
+      case "permission_expired": {
+        const requestId = event.data.requestId as string;
+        setPermissionQueue((prev) => prev.filter((p) => p.requestId !== requestId));
+        if (event.data.mode === "plan") setChatMode("plan");
+        setMessages((prev) => [
+          ...prev,
+          {
+            id: crypto.randomUUID(),
+            role: "assistant",
+            content:
+              event.data.mode === "plan"
+                ? "*Permission request timed out — denied and switched to plan mode.*"
+                : "*Permission request timed out and was denied.*",
+          },
+        ]);
+        break;
+      }
       case "init": {
         const newSessionId = event.data.sessionId as string;
         setSessionId(newSessionId);
         localStorage.setItem(`cc-session-${projectPath}`, newSessionId);
+        const worktree = event.data.worktree as { branch: string } | undefined;
+        if (worktree) setWorktreeBranch(worktree.branch);
         break;
       }
       case "assistant": {
@@ -337,6 +447,15 @@ export function ChatInterface({
         }
         break;
       }
+      case "files_changed": {
+        const filesChanged = event.data as unknown as FilesChangedSummary;
+        setMessages((prev) =>
+          prev.map((m) =>
+            m.id === currentAssistantId ? { ...m, filesChanged } : m
+          )
+        );
+        break;
+      }
       case "result": {
         const isError = event.data.isError as boolean | undefined;
         const errors = event.data.errors as string[] | undefined;
@@ -400,10 +519,28 @@ export function ChatInterface({
     }
   }, [projectPath]);
 
+  /** The server started a queued follow-up — show it as the next prompt with a fresh reply bubble */
+  const beginQueuedTurn = useCallback((data: Record<string, unknown>): string => {
+    const text = data.message as string;
+    setQueuedMessages((prev) => prev.filter((q) => q.id !== data.id));
+    const assistantId = crypto.randomUUID();
+    assistantIdRef.current = assistantId;
+    lastUserMessageRef.current = text;
+    streamedTextRef.current = false;
+    setMessages((prev) => [
+      ...prev,
+      { id: crypto.randomUUID(), role: "user", content: text },
+      { id: assistantId, role: "assistant", content: "", toolCalls: [] },
+    ]);
+    setActivityState("thinking");
+    return assistantId;
+  }, []);
+
   // ── Reconnect to a running or completed query ─────────────────────
-  const reconnectToQuery = useCallback(async (assistantId: string) => {
-    const sid = sessionId;
-    if (!sid) return;
+  // Resolves true once the replay reached the end of the query, false if the connection failed
+  const reconnectToQuery = useCallback(async (assistantId: string, sid = sessionId): Promise<boolean> => {
+    if (!sid) return false;
+    const gen = streamGenRef.current;
 
     setConnectionState("reconnecting");
 
@@ -423,23 +560,37 @@ export function ChatInterface({
 
       if (!res.ok || !res.body) {
         setConnectionState("disconnected");
-        return;
+        return false;
       }
 
       setConnectionState("connected");
       const reader = res.body.getReader();
+      let currentAssistantId = assistantId;
+      let chained = false;
 
       for await (const event of parseSSEStream(reader)) {
+        if (gen !== streamGenRef.current) return false;
         // Skip events we already processed (dedup safety)
         if (typeof event.index === "number" && event.index <= lastEventIndexRef.current) {
           continue;
         }
 
+        if (event.type === "queue_next") {
+          currentAssistantId = beginQueuedTurn(event.data);
+          chained = true;
+          continue;
+        }
+        if (event.type === "done" && chained) {
+          // The follow-up runs as a new query on this stream — its event indexes start over
+          chained = false;
+          lastEventIndexRef.current = -1;
+          continue;
+        }
         if (event.type === "reconnect_complete" || event.type === "done") {
-          break;
+          return true;
         }
 
-        handleSSEEvent(event, assistantId);
+        handleSSEEvent(event, currentAssistantId);
       }
     } catch (err) {
       if (err instanceof DOMException && err.name === "AbortError") {
@@ -448,7 +599,8 @@ export function ChatInterface({
         setConnectionState("disconnected");
       }
     }
-  }, [sessionId, handleSSEEvent]);
+    return false;
+  }, [sessionId, handleSSEEvent, beginQueuedTurn]);
 
   // ── Smart visibility handler — status check + reconnect ───────────
   useEffect(() => {
@@ -596,7 +748,7 @@ export function ChatInterface({
 
   const sendMessage = async (overrideText?: string) => {
     const trimmed = overrideText || input.trim();
-    if (!trimmed || isStreaming) return;
+    if ((!trimmed && attachments.length === 0) || isStreaming) return;
 
     // /clear — clear UI instantly + notify server to clean up session state
     if (trimmed.toLowerCase() === "/clear") {
@@ -613,16 +765,36 @@ export function ChatInterface({
       return;
     }
 
+    const sentAttachments = attachments;
     const userMessage: MessageBlock = {
       id: crypto.randomUUID(),
       role: "user",
       content: trimmed,
+      ...(sentAttachments.length
+        ? { attachments: sentAttachments.map(({ name, mimeType, size }) => ({ name, mimeType, size })) }
+        : {}),
     };
 
-    setMessages((prev) => [...prev, userMessage]);
+    // Forking replaces the chosen prompt and everything after it with the new one
+    const fork = forkFrom;
+    setForkFrom(null);
+    if (fork?.messageId.startsWith("t-")) {
+      const forkSeq = Number(fork.messageId.slice(2));
+      historyEntriesRef.current = historyEntriesRef.current.filter((e) => e.seq < forkSeq);
+      setHistoryHasMore(false);
+    }
+
+    setMessages((prev) => {
+      if (!fork) return [...prev, userMessage];
+      const idx = prev.findIndex((m) => m.id === fork.messageId);
+      return [...(idx >= 0 ? prev.slice(0, idx) : prev), userMessage];
+    });
     setInput("");
+    setAttachments([]);
+    setAttachmentError(null);
     setIsStreaming(true);
     streamingRef.current = true;
+    const gen = ++streamGenRef.current;
     lastUserMessageRef.current = trimmed;
     setConnectionLost(false);
     lastEventIndexRef.current = -1;
@@ -637,8 +809,8 @@ export function ChatInterface({
       // Non-critical
     }
 
-    // Create placeholder assistant message
-    const assistantId = crypto.randomUUID();
+    // Create placeholder assistant message (replaced when a queued follow-up takes over the stream)
+    let assistantId = crypto.randomUUID();
     assistantIdRef.current = assistantId;
     const assistantMessage: MessageBlock = {
       id: assistantId,
@@ -663,22 +835,46 @@ export function ChatInterface({
           projectPath,
           // Recovery: when sessionId is lost but chat has messages, try to continue
           ...(!sessionId && messages.length > 0 ? { continue: true } : {}),
+          ...(fork ? { forkSession: true, forkFromQueryId: fork.queryId } : {}),
+          ...(!sessionId && useWorktree ? { worktree: true } : {}),
+          ...(sentAttachments.length
+            ? { attachments: sentAttachments.map(({ name, mimeType, data }) => ({ name, mimeType, data })) }
+            : {}),
         }),
         signal: fetchAbort.signal,
       });
 
       if (!res.ok || !res.body) {
-        throw new Error("Failed to start chat");
+        const data = await res.json().catch(() => null);
+        throw new Error(data?.error || "Failed to start chat");
       }
 
       const reader = res.body.getReader();
+      let chained = false;
 
       for await (const event of parseSSEStream(reader)) {
-        if (event.type === "done") break;
+        // Switched to another session — the query carries on without us
+        if (gen !== streamGenRef.current) break;
+        if (event.type === "queue_next") {
+          assistantId = beginQueuedTurn(event.data);
+          chained = true;
+          continue;
+        }
+        if (event.type === "done") {
+          // The follow-up runs as a new query on this stream — its event indexes start over
+          if (chained) {
+            chained = false;
+            lastEventIndexRef.current = -1;
+            continue;
+          }
+          break;
+        }
         handleSSEEvent(event, assistantId);
       }
     } catch (err) {
-      if (err instanceof DOMException && err.name === "AbortError") {
+      if (gen !== streamGenRef.current) {
+        // Detached on purpose (switched session) — nothing to report
+      } else if (err instanceof DOMException && err.name === "AbortError") {
         // Could be user Stop, visibility reconnect, or network loss
         // Don't append "connection lost" — the visibility handler will reconnect
         if (connectionState === "reconnecting") {
@@ -722,21 +918,37 @@ export function ChatInterface({
         );
       }
     } finally {
-      setIsStreaming(false);
-      streamingRef.current = false;
-      abortRef.current = null;
-      queryIdRef.current = null;
-      assistantIdRef.current = null;
-      setActivityState(null);
-      streamedTextRef.current = false;
-      setPermissionQueue([]);
-      wakeLockRef.current?.release().catch(() => {});
-      wakeLockRef.current = null;
+      if (gen === streamGenRef.current) finishStreaming();
     }
   };
 
+  /** Back to idle once the followed query is over (or no longer followed) */
+  const finishStreaming = () => {
+    setIsStreaming(false);
+    streamingRef.current = false;
+    abortRef.current = null;
+    queryIdRef.current = null;
+    assistantIdRef.current = null;
+    setActivityState(null);
+    streamedTextRef.current = false;
+    setPermissionQueue([]);
+    wakeLockRef.current?.release().catch(() => {});
+    wakeLockRef.current = null;
+  };
+
   const startNewConversation = () => {
+    // A running query keeps going on the server — stop following it, it's still in Sessions and the Running list
+    streamGenRef.current++;
+    if (streamingRef.current) {
+      abortRef.current?.abort();
+      finishStreaming();
+      setIsInterrupting(false);
+    }
+    setConnectionLost(false);
     setMessages([]);
+    setForkFrom(null);
+    historyEntriesRef.current = [];
+    setHistoryHasMore(false);
     setSessionId(null);
     setSessionStats(null);
     setPermissionQueue([]);
@@ -744,6 +956,14 @@ export function ChatInterface({
     setSessionCost(0);
     setBudgetCapUsd(null);
     setMaxTurns(null);
+    setPermissionTimeoutSec(120);
+    setPermissionExpiry("deny");
+    setQueuedMessages([]);
+    setQueueError(null);
+    setAttachments([]);
+    setAttachmentError(null);
+    setUseWorktree(false);
+    setWorktreeBranch(null);
     setIsInterrupting(false);
     if (interruptTimerRef.current) {
       clearTimeout(interruptTimerRef.current);
@@ -754,6 +974,73 @@ export function ChatInterface({
     localStorage.removeItem(`${CHAT_STORAGE_PREFIX}${projectPath}`);
   };
 
+  // ── Session browser + checkpoint timeline ───────────────────────
+  const [panel, setPanel] = useState<"sessions" | "timeline" | "rules" | "schedules" | null>(null);
+  const togglePanel = (next: "sessions" | "timeline" | "rules" | "schedules") => setPanel((p) => (p === next ? null : next));
+
+  // Load a session's conversation; if a query is running in it, follow it live from its first event
+  const resumeSession = async (sid: string) => {
+    const gen = streamGenRef.current;
+    let runningQueryId: string | undefined;
+    try {
+      const res = await fetch(`/api/chat/status?sessionId=${encodeURIComponent(sid)}`);
+      if (res.ok) {
+        const status = await res.json();
+        if (gen !== streamGenRef.current) return;
+        setSessionCost(status.costUsd ?? 0);
+        setWorktreeBranch(status.worktree?.branch ?? null);
+        if (status.queryActive) runningQueryId = status.queryId;
+      }
+    } catch {
+      // Offline — show what the transcript has
+    }
+    await loadHistory(sid, false, runningQueryId);
+    if (!runningQueryId || gen !== streamGenRef.current) return;
+
+    const attachGen = ++streamGenRef.current;
+    const assistantId = crypto.randomUUID();
+    assistantIdRef.current = assistantId;
+    setMessages((prev) => [...prev, { id: assistantId, role: "assistant", content: "", toolCalls: [] }]);
+    setIsStreaming(true);
+    streamingRef.current = true;
+    setActivityState("thinking");
+    lastEventIndexRef.current = -1;
+    const completed = await reconnectToQuery(assistantId, sid);
+    if (attachGen !== streamGenRef.current) return;
+    finishStreaming();
+    if (!completed) setConnectionLost(true);
+  };
+
+  // Resume a past session, hop to another fork branch, or jump into one running elsewhere
+  const openSession = (id: string, costUsd?: number) => {
+    startNewConversation();
+    setPanel(null);
+    setSessionId(id);
+    if (costUsd !== undefined) setSessionCost(costUsd);
+    localStorage.setItem(`cc-session-${projectPath}`, id);
+    resumeSession(id);
+  };
+
+  // Load the full conversation from the server on mount (any device, any browser).
+  // The running-queries page links straight to a session with ?session=<id>.
+  useEffect(() => {
+    const params = new URLSearchParams(window.location.search);
+    const linked = params.get("session");
+    if (linked) {
+      params.delete("session");
+      const rest = params.toString();
+      window.history.replaceState(null, "", `${window.location.pathname}${rest ? `?${rest}` : ""}`);
+    }
+    if (linked && linked !== sessionId) openSession(linked);
+    else if (sessionId) resumeSession(sessionId);
+    // Only on mount — live events keep messages current after that
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  const handleSessionDeleted = (deletedId: string) => {
+    if (deletedId === sessionId) startNewConversation();
+  };
+
   const stopQuery = () => {
     const qId = queryIdRef.current;
 
@@ -833,23 +1120,33 @@ export function ChatInterface({
     sendMessage(lastMsg);
   };
 
-  const handlePermissionAllow = (requestId: string) => {
+  const respondPermission = (requestId: string, behavior: "allow" | "deny", options: AllowOptions & DenyOptions = {}) => {
+    const { remember, ...rest } = options;
     fetch("/api/chat/permission", {
       method: "POST",
       headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({ requestId, behavior: "allow" }),
-    }).catch(() => {});
+      body: JSON.stringify({
+        requestId,
+        behavior,
+        ...(remember ? { remember: remember.scope, rule: remember.rule } : {}),
+        ...rest,
+      }),
+    })
+      .then(async (res) => {
+        if (!remember) return;
+        const data = await res.json().catch(() => ({}));
+        if (!data.ruleError) return;
+        setMessages((prev) => [
+          ...prev,
+          { id: crypto.randomUUID(), role: "assistant", content: `*Couldn't save permission rule: ${data.ruleError}*` },
+        ]);
+      })
+      .catch(() => {});
     setPermissionQueue((prev) => prev.filter((p) => p.requestId !== requestId));
   };
 
-  const handlePermissionDeny = (requestId: string) => {
-    fetch("/api/chat/permission", {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({ requestId, behavior: "deny" }),
-    }).catch(() => {});
-    setPermissionQueue((prev) => prev.filter((p) => p.requestId !== requestId));
-  };
+  const handlePermissionAllow = (requestId: string, options?: AllowOptions) => respondPermission(requestId, "allow", options);
+  const handlePermissionDeny = (requestId: string, options?: DenyOptions) => respondPermission(requestId, "deny", options);
 
   const handleModeChange = (mode: ChatMode) => {
     setChatMode(mode);
@@ -860,10 +1157,12 @@ export function ChatInterface({
     }).catch(() => {});
   };
 
-  const handleSettingsChange = (settings: { budgetCapUsd?: number | null; maxTurns?: number | null }) => {
+  const handleSettingsChange = (settings: SessionSettingsChange) => {
     if (!sessionId) return;
     if (settings.budgetCapUsd !== undefined) setBudgetCapUsd(settings.budgetCapUsd);
     if (settings.maxTurns !== undefined) setMaxTurns(settings.maxTurns);
+    if (settings.permissionTimeoutSec !== undefined) setPermissionTimeoutSec(settings.permissionTimeoutSec);
+    if (settings.permissionExpiry !== undefined) setPermissionExpiry(settings.permissionExpiry);
     fetch("/api/chat/settings", {
       method: "POST",
       headers: { "Content-Type": "application/json" },
@@ -872,10 +1171,92 @@ export function ChatInterface({
   };
 
 
+  // ── Follow-up queue ───────────────────────────────────────────────
+  useEffect(() => {
+    setQueuedMessages([]);
+    setQueueError(null);
+    if (!sessionId) return;
+    fetch(`/api/chat/queue?sessionId=${encodeURIComponent(sessionId)}`)
+      .then((res) => (res.ok ? res.json() : null))
+      .then((data) => data && setQueuedMessages(data.queue))
+      .catch(() => {});
+  }, [sessionId]);
+
+  const updateQueue = async (request: Promise<Response>, fallbackError: string): Promise<boolean> => {
+    setQueueError(null);
+    try {
+      const res = await request;
+      const data = await res.json();
+      if (data.queue) setQueuedMessages(data.queue);
+      if (!res.ok) {
+        setQueueError(data.error || fallbackError);
+        return false;
+      }
+      return true;
+    } catch {
+      setQueueError("Failed to connect to server");
+      return false;
+    }
+  };
+
+  const queueMessage = async () => {
+    const text = input.trim();
+    if (!text || !sessionId) return;
+    const queued = await updateQueue(
+      fetch("/api/chat/queue", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ sessionId, message: text }),
+      }),
+      "Failed to queue message"
+    );
+    if (queued) setInput("");
+  };
+
+  const editQueued = (id: string, message: string) => {
+    if (!sessionId) return;
+    updateQueue(
+      fetch("/api/chat/queue", {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ sessionId, id, message }),
+      }),
+      "Failed to edit queued message"
+    );
+  };
+
+  const cancelQueued = (id: string) => {
+    if (!sessionId) return;
+    setQueuedMessages((prev) => prev.filter((q) => q.id !== id));
+    updateQueue(
+      fetch(`/api/chat/queue?sessionId=${encodeURIComponent(sessionId)}&id=${encodeURIComponent(id)}`, { method: "DELETE" }),
+      "Failed to cancel queued message"
+    );
+  };
+
+  const addAttachments = async (files: File[]) => {
+    const limitError = attachmentLimitError(attachments, files);
+    setAttachmentError(limitError);
+    if (limitError) return;
+    try {
+      const read = await Promise.all(files.map(readFileAsAttachment));
+      setAttachments((prev) => [...prev, ...read]);
+    } catch (err) {
+      setAttachmentError(err instanceof Error ? err.message : "Couldn't read file");
+    }
+  };
+
+  // Dictated text lands in the input for editing — never sent straight away
+  const insertTranscript = (text: string) => {
+    setInput((prev) => (prev.trim() ? `${prev.trimEnd()} ${text}` : text));
+    inputRef.current?.focus();
+  };
+
   const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
     if (e.key === "Enter" && !e.shiftKey) {
       e.preventDefault();
-      sendMessage();
+      if (isStreaming) queueMessage();
+      else sendMessage();
     }
   };
 
@@ -889,6 +1270,48 @@ export function ChatInterface({
             <p className="text-xs text-muted truncate">Code Anvil</p>
           </div>
           <div className="flex items-center gap-2 shrink-0">
+            <PushToggle />
+            {sessionId && (
+              <button
+                onClick={() => togglePanel("timeline")}
+                disabled={isStreaming}
+                className="flex items-center gap-1.5 px-3 py-1.5 text-xs text-muted hover:text-foreground border border-border rounded-md hover:bg-card transition-colors disabled:opacity-50"
+              >
+                <RotateCcw size={14} />
+                Checkpoints
+              </button>
+            )}
+            <button
+              onClick={() => togglePanel("rules")}
+              disabled={isStreaming}
+              className="flex items-center gap-1.5 px-3 py-1.5 text-xs text-muted hover:text-foreground border border-border rounded-md hover:bg-card transition-colors disabled:opacity-50"
+            >
+              <ShieldCheck size={14} />
+              Rules
+            </button>
+            <button
+              onClick={() => togglePanel("schedules")}
+              disabled={isStreaming}
+              className="flex items-center gap-1.5 px-3 py-1.5 text-xs text-muted hover:text-foreground border border-border rounded-md hover:bg-card transition-colors disabled:opacity-50"
+            >
+              <CalendarClock size={14} />
+              Schedules
+            </button>
+            <button
+              onClick={() => togglePanel("sessions")}
+              className="flex items-center gap-1.5 px-3 py-1.5 text-xs text-muted hover:text-foreground border border-border rounded-md hover:bg-card transition-colors"
+            >
+              <History size={14} />
+              Sessions
+            </button>
+            <Link
+              href="/active"
+              title="Running queries"
+              className="flex items-center gap-1.5 px-3 py-1.5 text-xs text-muted hover:text-foreground border border-border rounded-md hover:bg-card transition-colors"
+            >
+              <Activity size={14} />
+              Running
+            </Link>
             <button
               onClick={startNewConversation}
               className="flex items-center gap-1.5 px-3 py-1.5 text-xs text-muted hover:text-foreground border border-border rounded-md hover:bg-card transition-colors"
@@ -900,12 +1323,56 @@ export function ChatInterface({
         </header>
       )}
 
-      {/* Action bar — visible in embedded mode when session is active */}
-      {embedded && sessionId && !isStreaming && (
+      {/* Action bar — embedded mode; while a reply streams only session switching is offered */}
+      {embedded && (
         <div className="flex items-center justify-end gap-2 px-3 py-1.5 border-b border-border bg-card/50 shrink-0">
-          {sessionId && (
+          {!isStreaming && <PushToggle compact />}
+          {sessionId && !isStreaming && (
+            <button
+              onClick={() => togglePanel("timeline")}
+              className="flex items-center gap-1.5 px-2.5 py-1 text-xs text-muted hover:text-foreground border border-border rounded-md hover:bg-card transition-colors"
+            >
+              <RotateCcw size={13} />
+              Checkpoints
+            </button>
+          )}
+          {!isStreaming && (
+            <button
+              onClick={() => togglePanel("rules")}
+              className="flex items-center gap-1.5 px-2.5 py-1 text-xs text-muted hover:text-foreground border border-border rounded-md hover:bg-card transition-colors"
+            >
+              <ShieldCheck size={13} />
+              Rules
+            </button>
+          )}
+          {!isStreaming && (
+            <button
+              onClick={() => togglePanel("schedules")}
+              className="flex items-center gap-1.5 px-2.5 py-1 text-xs text-muted hover:text-foreground border border-border rounded-md hover:bg-card transition-colors"
+            >
+              <CalendarClock size={13} />
+              Schedules
+            </button>
+          )}
+          <Link
+            href="/active"
+            title="Running queries"
+            className="flex items-center gap-1.5 px-2.5 py-1 text-xs text-muted hover:text-foreground border border-border rounded-md hover:bg-card transition-colors"
+          >
+            <Activity size={13} />
+            Running
+          </Link>
+          <button
+            onClick={() => togglePanel("sessions")}
+            className="flex items-center gap-1.5 px-2.5 py-1 text-xs text-muted hover:text-foreground border border-border rounded-md hover:bg-card transition-colors"
+          >
+            <History size={13} />
+            Sessions
+          </button>
+          {(sessionId || isStreaming) && (
             <button
               onClick={startNewConversation}
+              title={isStreaming ? "Start another conversation — this one keeps running" : undefined}
               className="flex items-center gap-1.5 px-2.5 py-1 text-xs text-muted hover:text-foreground border border-border rounded-md hover:bg-card transition-colors"
             >
               <Plus size={13} />
@@ -915,6 +1382,46 @@ export function ChatInterface({
         </div>
       )}
 
+      {panel === "sessions" && (
+        <SessionPicker
+          projectPath={projectPath}
+          currentSessionId={sessionId}
+          onResume={(s) => openSession(s.sessionId, s.totalCostUsd)}
+          onDeleted={handleSessionDeleted}
+          onClose={() => setPanel(null)}
+        />
+      )}
+
+      {panel === "timeline" && sessionId && !isStreaming && (
+        <CheckpointTimeline
+          sessionId={sessionId}
+          projectPath={projectPath}
+          onRewound={(count) =>
+            setMessages((prev) => [
+              ...prev,
+              {
+                id: crypto.randomUUID(),
+                role: "assistant",
+                content: `*Rewound files to checkpoint — ${count} ${count === 1 ? "file" : "files"} restored.*`,
+              },
+            ])
+          }
+          onClose={() => setPanel(null)}
+        />
+      )}
+
+      {panel === "rules" && !isStreaming && (
+        <PermissionRules projectPath={projectPath} onClose={() => setPanel(null)} />
+      )}
+
+      {panel === "schedules" && !isStreaming && (
+        <SchedulesPanel projectPath={projectPath} onOpenRun={openSession} onClose={() => setPanel(null)} />
+      )}
+
+      {sessionId && !isStreaming && (
+        <ForkTree sessionId={sessionId} onSwitch={(node) => openSession(node.sessionId, node.totalCostUsd)} />
+      )}
+
       {/* Offline banner */}
       {isOffline && (
         <div className="flex items-center gap-2 px-4 py-2 bg-yellow-500/10 text-yellow-500 text-xs shrink-0">
@@ -932,13 +1439,42 @@ export function ChatInterface({
           </div>
         )}
 
+        {historyHasMore && sessionId && (
+          <div className="flex justify-center">
+            <button
+              onClick={() => loadHistory(sessionId, true)}
+              disabled={loadingHistory}
+              className="flex items-center gap-1.5 px-3 py-1.5 text-xs text-accent bg-accent/10 rounded-lg hover:bg-accent/20 disabled:opacity-50"
+            >
+              {loadingHistory && <Loader2 size={12} className="animate-spin" />}
+              Load earlier messages
+            </button>
+          </div>
+        )}
+
         {messages.map((msg, idx) => (
           <div key={msg.id}>
             {msg.role === "user" ? (
-              <div className="flex justify-end">
-                <div className="bg-accent/20 text-foreground rounded-2xl rounded-br-sm px-4 py-2.5 max-w-[85%] text-sm whitespace-pre-wrap">
-                  {msg.content}
-                </div>
+              <div className="flex flex-col items-end">
+                {msg.attachments && <AttachmentChips items={msg.attachments} />}
+                {msg.content && (
+                  <div className={`bg-accent/20 text-foreground rounded-2xl rounded-br-sm px-4 py-2.5 max-w-[85%] text-sm whitespace-pre-wrap ${forkFrom?.messageId === msg.id ? "ring-1 ring-accent" : ""}`}>
+                    {msg.content}
+                  </div>
+                )}
+                {msg.queryId && sessionId && !isStreaming && (
+                  <button
+                    onClick={() => {
+                      setForkFrom({ messageId: msg.id, queryId: msg.queryId!, content: msg.content });
+                      setInput(msg.content);
+                      inputRef.current?.focus();
+                    }}
+                    className="flex items-center gap-1 mt-1 px-1.5 text-[11px] text-muted hover:text-accent transition-colors"
+                  >
+                    <GitFork size={11} />
+                    Fork from here
+                  </button>
+                )}
               </div>
             ) : (
               <div className="max-w-full">
@@ -954,6 +1490,10 @@ export function ChatInterface({
                 ))}
                 {/* Text content */}
                 {msg.content && <StreamingMessage content={msg.content} />}
+                {/* Files changed this turn */}
+                {msg.filesChanged && (
+                  <FilesChangedCard summary={msg.filesChanged} projectPath={projectPath} />
+                )}
                 {/* Retry/Reconnect button when connection was lost */}
                 {connectionLost && !isStreaming && idx === messages.length - 1 && (
                   <button
@@ -1013,16 +1553,69 @@ export function ChatInterface({
           sessionCost={sessionCost}
           budgetCapUsd={budgetCapUsd}
           maxTurns={maxTurns}
+          permissionTimeoutSec={permissionTimeoutSec}
+          permissionExpiry={permissionExpiry}
           onSettingsChange={handleSettingsChange}
           disabled={isStreaming}
         />
+        {forkFrom && (
+          <div className="flex items-center gap-2 mx-4 mt-2 px-3 py-1.5 text-xs bg-accent/10 text-accent rounded-md">
+            <GitFork size={12} className="shrink-0" />
+            <span className="truncate flex-1">New branch replacing “{forkFrom.content}”</span>
+            <button onClick={() => setForkFrom(null)} className="p-0.5 hover:text-foreground" aria-label="Cancel fork">
+              <X size={12} />
+            </button>
+          </div>
+        )}
+        {worktreeBranch ? (
+          <div className="flex items-center gap-1.5 mx-4 mt-2 text-[11px] text-muted truncate">
+            <GitBranch size={11} className="shrink-0" />
+            <span className="truncate">Worktree on {worktreeBranch}</span>
+          </div>
+        ) : (
+          !sessionId && !isStreaming && messages.length === 0 && (
+            <button
+              onClick={() => setUseWorktree((v) => !v)}
+              title="Run this conversation in its own git worktree so it can work alongside others in this project"
+              className={`flex items-center gap-1.5 mx-4 mt-2 px-2 py-1 text-[11px] rounded-md border transition-colors ${useWorktree ? "border-accent text-accent bg-accent/10" : "border-border text-muted hover:text-foreground"}`}
+            >
+              <GitBranch size={11} />
+              {useWorktree ? "Own worktree: on" : "Own worktree"}
+            </button>
+          )
+        )}
+        <MessageQueue items={queuedMessages} error={queueError} onEdit={editQueued} onCancel={cancelQueued} />
+        <PendingAttachments
+          items={attachments}
+          error={attachmentError}
+          onRemove={(id) => setAttachments((prev) => prev.filter((a) => a.id !== id))}
+        />
         <div className="flex items-end gap-2 px-4 py-3">
+          <input
+            ref={fileInputRef}
+            type="file"
+            multiple
+            className="hidden"
+            onChange={(e) => {
+              addAttachments(Array.from(e.target.files ?? []));
+              e.target.value = "";
+            }}
+          />
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            disabled={isStreaming}
+            title="Attach images or files"
+            className="flex items-center justify-center w-10 h-10 text-muted hover:text-foreground disabled:opacity-30 transition-colors shrink-0"
+          >
+            <Paperclip size={18} />
+          </button>
+          <VoiceInput onTranscript={insertTranscript} disabled={isStreaming && !sessionId} />
           <textarea
             ref={inputRef}
             value={input}
             onChange={(e) => setInput(e.target.value)}
             onKeyDown={handleKeyDown}
-            placeholder="Message Code Anvil..."
+            placeholder={isStreaming ? "Queue a follow-up..." : "Message Code Anvil..."}
             rows={1}
             className="flex-1 bg-card border border-border rounded-xl px-4 py-3 text-sm resize-none focus:outline-none focus:ring-1 focus:ring-accent placeholder:text-muted/60"
             style={{ maxHeight: "120px" }}
@@ -1031,8 +1624,17 @@ export function ChatInterface({
               target.style.height = "auto";
               target.style.height = Math.min(target.scrollHeight, 120) + "px";
             }}
-            disabled={isStreaming}
+            disabled={isStreaming && !sessionId}
           />
+          {isStreaming && input.trim() && (
+            <button
+              onClick={queueMessage}
+              title="Queue — sent when the current reply finishes"
+              className="flex items-center justify-center w-10 h-10 bg-accent rounded-xl text-white hover:bg-accent/80 transition-colors shrink-0"
+            >
+              <ListPlus size={18} />
+            </button>
+          )}
           {isStreaming ? (
             <button
               onClick={stopQuery}
@@ -1044,7 +1646,7 @@ export function ChatInterface({
           ) : (
             <button
               onClick={() => sendMessage()}
-              disabled={!input.trim()}
+              disabled={!input.trim() && attachments.length === 0}
               className="flex items-center justify-center w-10 h-10 bg-accent rounded-xl text-white disabled:opacity-30 disabled:cursor-not-allowed hover:bg-accent/80 transition-colors shrink-0"
             >
               <Send size={18} />
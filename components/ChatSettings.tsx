@@ -4,6 +4,16 @@ import { useState, useCallback, useRef, useEffect } from "react";
 import { Settings, ChevronUp } from "lucide-react";
 import { ModeSelector, type ChatMode } from "./ModeSelector";
 
+/** What happens to a permission request nobody answers in time */
+export type PermissionExpiry = "deny" | "wait" | "plan";
+
+export interface SessionSettingsChange {
+  budgetCapUsd?: number | null;
+  maxTurns?: number | null;
+  permissionTimeoutSec?: number;
+  permissionExpiry?: PermissionExpiry;
+}
+
 interface ChatSettingsProps {
   mode: ChatMode;
   onModeChange: (mode: ChatMode) => void;
@@ -11,7 +21,9 @@ interface ChatSettingsProps {
   sessionCost: number;
   budgetCapUsd: number | null;
   maxTurns: number | null;
-  onSettingsChange: (settings: { budgetCapUsd?: number | null; maxTurns?: number | null }) => void;
+  permissionTimeoutSec: number;
+  permissionExpiry: PermissionExpiry;
+  onSettingsChange: (settings: SessionSettingsChange) => void;
   disabled?: boolean;
 }
 
@@ -29,6 +41,19 @@ const TURN_PRESETS = [
   { label: "Auto", value: null },
 ];
 
+const TIMEOUT_PRESETS = [
+  { label: "2m", value: 120 },
+  { label: "10m", value: 600 },
+  { label: "30m", value: 1800 },
+  { label: "1h", value: 3600 },
+];
+
+const EXPIRY_OPTIONS: { label: string; value: PermissionExpiry; hint: string }[] = [
+  { label: "Deny", value: "deny", hint: "Deny the request and let the agent carry on" },
+  { label: "Wait", value: "wait", hint: "Pause the query until you answer, however long it takes" },
+  { label: "Plan", value: "plan", hint: "Deny it and switch to plan mode so nothing else runs unattended" },
+];
+
 function CustomInput({
   value,
   onSave,
@@ -89,6 +114,8 @@ export function ChatSettings({
   sessionCost,
   budgetCapUsd,
   maxTurns,
+  permissionTimeoutSec,
+  permissionExpiry,
   onSettingsChange,
   disabled,
 }: ChatSettingsProps) {
@@ -224,6 +251,50 @@ export function ChatSettings({
               )}
             </div>
           </div>
+
+          {/* Permission timeout + expiry policy */}
+          <div>
+            <label className="text-[11px] text-muted block mb-1">Unanswered permission requests</label>
+            <div className="flex gap-1 items-center flex-wrap">
+              {EXPIRY_OPTIONS.map((option) => (
+                <button
+                  key={option.value}
+                  onClick={() => onSettingsChange({ permissionExpiry: option.value })}
+                  disabled={!sessionId}
+                  title={option.hint}
+                  className={`px-2.5 py-1 text-xs rounded-md transition-colors ${
+                    permissionExpiry === option.value
+                      ? "bg-accent text-white"
+                      : "bg-card border border-border text-muted hover:text-foreground"
+                  } ${!sessionId ? "opacity-50 cursor-not-allowed" : ""}`}
+                >
+                  {option.label}
+                </button>
+              ))}
+              {permissionExpiry !== "wait" && (
+                <>
+                  <span className="text-[11px] text-muted px-1">after</span>
+                  {TIMEOUT_PRESETS.map((preset) => (
+                    <button
+                      key={preset.label}
+                      onClick={() => onSettingsChange({ permissionTimeoutSec: preset.value })}
+                      disabled={!sessionId}
+                      className={`px-2.5 py-1 text-xs rounded-md transition-colors ${
+                        permissionTimeoutSec === preset.value
+                          ? "bg-accent text-white"
+                          : "bg-card border border-border text-muted hover:text-foreground"
+                      } ${!sessionId ? "opacity-50 cursor-not-allowed" : ""}`}
+                    >
+                      {preset.label}
+                    </button>
+                  ))}
+                </>
+              )}
+            </div>
+            <p className="text-[11px] text-muted mt-1">
+              {EXPIRY_OPTIONS.find((o) => o.value === permissionExpiry)?.hint}
+            </p>
+          </div>
         </div>
       )}
     </div>
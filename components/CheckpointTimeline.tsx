@@ -0,0 +1,206 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { RotateCcw, Eye, Loader2, X } from "lucide-react";
+
+// Mirrors cc-server's GET /api/chat/checkpoints
+interface CheckpointInfo {
+  index: number;
+  uuid: string;
+  queryId: string;
+  prompt: string | null;
+  timestamp: number | null;
+  files: { path: string; status: string; insertions: number; deletions: number }[];
+  insertions: number;
+  deletions: number;
+}
+
+interface RewindPreview {
+  filesChanged?: string[];
+  insertions?: number;
+  deletions?: number;
+}
+
+interface CheckpointTimelineProps {
+  sessionId: string;
+  projectPath: string;
+  onRewound: (filesChanged: number) => void;
+  onClose: () => void;
+}
+
+/** Per-prompt checkpoints, newest first — preview what a restore would touch, then rewind files */
+export function CheckpointTimeline({ sessionId, projectPath, onRewound, onClose }: CheckpointTimelineProps) {
+  const [checkpoints, setCheckpoints] = useState<CheckpointInfo[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [previews, setPreviews] = useState<Record<number, RewindPreview>>({});
+  const [busy, setBusy] = useState<number | null>(null);
+  const [confirmIndex, setConfirmIndex] = useState<number | null>(null);
+
+  const fetchCheckpoints = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const res = await fetch(`/api/chat/checkpoints?sessionId=${encodeURIComponent(sessionId)}`);
+      const data = await res.json();
+      if (!res.ok) {
+        setError(data.error || "Failed to load checkpoints");
+        return;
+      }
+      setCheckpoints(data.checkpoints);
+    } catch {
+      setError("Failed to connect to server");
+    } finally {
+      setLoading(false);
+    }
+  }, [sessionId]);
+
+  useEffect(() => {
+    fetchCheckpoints();
+  }, [fetchCheckpoints]);
+
+  const rewind = async (index: number, dryRun: boolean) => {
+    setBusy(index);
+    setError(null);
+    try {
+      const res = await fetch("/api/chat/rewind", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ sessionId, checkpointIndex: index, dryRun }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        setError(data.error || "Rewind failed");
+        return;
+      }
+      if (dryRun) {
+        setPreviews((prev) => ({ ...prev, [index]: data }));
+      } else {
+        setConfirmIndex(null);
+        setPreviews({});
+        onRewound(data.filesChanged?.length ?? 0);
+        await fetchCheckpoints();
+      }
+    } catch {
+      setError("Failed to connect to server");
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const displayPath = (p: string) => (p.startsWith(projectPath + "/") ? p.slice(projectPath.length + 1) : p);
+
+  return (
+    <div className="border-b border-border bg-card shrink-0 max-h-[60%] flex flex-col">
+      <div className="flex items-center gap-2 px-3 py-2 border-b border-border text-sm">
+        <RotateCcw size={14} className="text-muted shrink-0" />
+        <span className="flex-1">Checkpoints</span>
+        <button onClick={onClose} className="p-1 text-muted hover:text-foreground" aria-label="Close checkpoints">
+          <X size={14} />
+        </button>
+      </div>
+
+      <div className="overflow-y-auto divide-y divide-border">
+        {loading && (
+          <div className="flex justify-center py-4">
+            <Loader2 size={16} className="animate-spin text-muted" />
+          </div>
+        )}
+        {error && <div className="px-3 py-2 text-xs text-red-400">{error}</div>}
+        {!loading && checkpoints.length === 0 && (
+          <div className="px-3 py-4 text-xs text-muted text-center">No checkpoints yet</div>
+        )}
+
+        {!loading &&
+          [...checkpoints].reverse().map((cp) => {
+            const preview = previews[cp.index];
+            return (
+              <div key={cp.uuid} className="px-3 py-2 text-sm">
+                <div className="flex items-start gap-2">
+                  <div className="flex-1 min-w-0">
+                    <p className="truncate">{cp.prompt ?? "(prompt not in history)"}</p>
+                    <div className="flex items-center gap-2 text-[11px] text-muted mt-0.5">
+                      {cp.timestamp && <span>{new Date(cp.timestamp).toLocaleString()}</span>}
+                      <span>
+                        {cp.files.length} {cp.files.length === 1 ? "file" : "files"}
+                      </span>
+                      <span className="font-mono">
+                        <span className="text-green-400">+{cp.insertions}</span>{" "}
+                        <span className="text-red-400">−{cp.deletions}</span>
+                      </span>
+                    </div>
+                  </div>
+                  <button
+                    onClick={() => rewind(cp.index, true)}
+                    disabled={busy !== null}
+                    className="p-1.5 text-muted hover:text-foreground disabled:opacity-30 shrink-0"
+                    aria-label="Preview rewind"
+                  >
+                    {busy === cp.index && confirmIndex !== cp.index ? <Loader2 size={14} className="animate-spin" /> : <Eye size={14} />}
+                  </button>
+                  {confirmIndex === cp.index ? (
+                    <div className="flex items-center gap-1 shrink-0">
+                      <button
+                        onClick={() => rewind(cp.index, false)}
+                        disabled={busy !== null}
+                        className="px-2 py-1 text-xs text-amber-400 border border-amber-400/40 rounded-md hover:bg-amber-400/10 disabled:opacity-50"
+                      >
+                        Rewind
+                      </button>
+                      <button
+                        onClick={() => setConfirmIndex(null)}
+                        className="px-2 py-1 text-xs text-muted border border-border rounded-md hover:text-foreground"
+                      >
+                        Cancel
+                      </button>
+                    </div>
+                  ) : (
+                    <button
+                      onClick={() => setConfirmIndex(cp.index)}
+                      disabled={busy !== null}
+                      className="p-1.5 text-muted hover:text-amber-400 disabled:opacity-30 shrink-0"
+                      aria-label="Rewind files to before this prompt"
+                    >
+                      <RotateCcw size={14} />
+                    </button>
+                  )}
+                </div>
+
+                {cp.files.length > 0 && (
+                  <ul className="mt-1 text-[11px] text-muted font-mono">
+                    {cp.files.map((f) => (
+                      <li key={f.path} className="truncate">
+                        {f.status[0].toUpperCase()} {displayPath(f.path)}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+
+                {preview && (
+                  <div className="mt-1.5 px-2 py-1.5 rounded-md bg-background text-[11px]">
+                    {preview.filesChanged?.length ? (
+                      <>
+                        <p className="text-muted">
+                          Rewinding restores {preview.filesChanged.length}{" "}
+                          {preview.filesChanged.length === 1 ? "file" : "files"} (
+                          <span className="text-green-400">+{preview.insertions ?? 0}</span>{" "}
+                          <span className="text-red-400">−{preview.deletions ?? 0}</span>):
+                        </p>
+                        <ul className="font-mono">
+                          {preview.filesChanged.map((p) => (
+                            <li key={p} className="truncate">{displayPath(p)}</li>
+                          ))}
+                        </ul>
+                      </>
+                    ) : (
+                      <p className="text-muted">Files already match this checkpoint</p>
+                    )}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+      </div>
+    </div>
+  );
+}
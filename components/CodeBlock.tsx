@@ -1,6 +1,6 @@
 "use client";
 
-import { useState } from "react";
+import { useEffect, useRef, useState } from "react";
 import { Prism as SyntaxHighlighter } from "react-syntax-highlighter";
 import { oneDark } from "react-syntax-highlighter/dist/esm/styles/prism";
 import { Copy, Check } from "lucide-react";
@@ -8,10 +8,18 @@ import { Copy, Check } from "lucide-react";
 interface CodeBlockProps {
   code: string;
   language?: string;
+  highlightLine?: number; // 1-based — shows line numbers and scrolls this line into view
 }
 
-export function CodeBlock({ code, language = "text" }: CodeBlockProps) {
+export function CodeBlock({ code, language = "text", highlightLine }: CodeBlockProps) {
   const [copied, setCopied] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!highlightLine) return;
+    const el = containerRef.current?.querySelector(`[data-line="${highlightLine}"]`);
+    el?.scrollIntoView({ block: "center" });
+  }, [highlightLine, code]);
 
   const handleCopy = async () => {
     await navigator.clipboard.writeText(code);
@@ -20,7 +28,7 @@ export function CodeBlock({ code, language = "text" }: CodeBlockProps) {
   };
 
   return (
-    <div className="relative group rounded-lg overflow-hidden border border-border">
+    <div ref={containerRef} className="relative group rounded-lg overflow-hidden border border-border">
       <div className="flex items-center justify-between px-3 py-1.5 bg-[#1e1e1e] border-b border-border text-xs text-muted">
         <span>{language}</span>
         <button
@@ -40,6 +48,19 @@ export function CodeBlock({ code, language = "text" }: CodeBlockProps) {
           fontSize: "13px",
           background: "#1a1a1a",
         }}
+        showLineNumbers={!!highlightLine}
+        wrapLines={!!highlightLine}
+        lineProps={
+          highlightLine
+            ? (lineNumber: number) => ({
+                "data-line": lineNumber,
+                style: {
+                  display: "block",
+                  ...(lineNumber === highlightLine ? { background: "rgba(59, 130, 246, 0.2)" } : {}),
+                },
+              })
+            : undefined
+        }
       >
         {code}
       </SyntaxHighlighter>
@@ -0,0 +1,49 @@
+"use client";
+
+import { toSideBySide, type FileDiff, type SideBySideCell } from "@/lib/diff";
+
+const cellColors: Record<SideBySideCell["type"], string> = {
+  context: "",
+  del: "bg-red-500/15 text-red-200",
+  add: "bg-green-500/15 text-green-200",
+};
+
+function Cell({ cell, side }: { cell: SideBySideCell | null; side: "left" | "right" }) {
+  const border = side === "left" ? "border-r border-border" : "";
+  if (!cell) {
+    return <div className={`bg-background/60 ${border}`} />;
+  }
+  return (
+    <div className={`flex min-w-0 ${cellColors[cell.type]} ${border}`}>
+      <span className="w-7 shrink-0 pr-1 text-right text-muted/60 select-none">{cell.line}</span>
+      {/* Wrap instead of scrolling sideways — two columns have to fit a phone screen */}
+      <span className="flex-1 min-w-0 whitespace-pre-wrap break-all pr-1">{cell.text || " "}</span>
+    </div>
+  );
+}
+
+/** Side-by-side rendering of one file's diff — old on the left, new on the right */
+export function DiffView({ diff }: { diff: FileDiff }) {
+  if (diff.binary) {
+    return <div className="px-3 py-2 text-xs text-muted">Binary file changed</div>;
+  }
+  if (diff.hunks.length === 0) {
+    return <div className="px-3 py-2 text-xs text-muted">No content changes</div>;
+  }
+
+  return (
+    <div className="font-mono text-[11px] leading-snug bg-[#1a1a1a]">
+      {diff.hunks.map((hunk, h) => (
+        <div key={h}>
+          <div className="px-2 py-1 text-accent/80 bg-accent/5 border-y border-border truncate">{hunk.header}</div>
+          {toSideBySide(hunk).map((row, i) => (
+            <div key={i} className="grid grid-cols-2">
+              <Cell cell={row.left} side="left" />
+              <Cell cell={row.right} side="right" />
+            </div>
+          ))}
+        </div>
+      ))}
+    </div>
+  );
+}
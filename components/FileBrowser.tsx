@@ -4,6 +4,7 @@ import { useEffect, useRef, useState } from "react";
 import {
   Folder,
   FolderPlus,
+  FilePlus,
   FileText,
   FileCode,
   ChevronRight,
@@ -15,6 +16,7 @@ import {
 } from "lucide-react";
 import Link from "next/link";
 import { useRouter } from "next/navigation";
+import { FileSearch } from "./FileSearch";
 
 interface FileEntry {
   name: string;
@@ -25,10 +27,11 @@ interface FileEntry {
 
 interface FileBrowserProps {
   path: string;
-  onFileSelect?: (filePath: string) => void;
+  onFileSelect?: (filePath: string, line?: number) => void;
   onNavigate?: (dirPath: string) => void;
   onStartChat?: () => void;
   refreshKey?: number;
+  searchRoot?: string; // Directory searched by the search bar (defaults to path)
 }
 
 const CODE_EXTENSIONS = new Set([
@@ -48,17 +51,19 @@ function formatSize(bytes: number): string {
   return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
 }
 
-export function FileBrowser({ path, onFileSelect, onNavigate, onStartChat, refreshKey }: FileBrowserProps) {
+export function FileBrowser({ path, onFileSelect, onNavigate, onStartChat, refreshKey, searchRoot }: FileBrowserProps) {
   const router = useRouter();
   const isEmbedded = !!(onFileSelect || onNavigate);
   const [entries, setEntries] = useState<FileEntry[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
-  const [creatingFolder, setCreatingFolder] = useState(false);
-  const [newFolderName, setNewFolderName] = useState("");
-  const [mkdirError, setMkdirError] = useState<string | null>(null);
-  const [mkdirLoading, setMkdirLoading] = useState(false);
-  const newFolderInputRef = useRef<HTMLInputElement>(null);
+  const [creating, setCreating] = useState<"folder" | "file" | null>(null);
+  const [newName, setNewName] = useState("");
+  const [createError, setCreateError] = useState<string | null>(null);
+  const [createLoading, setCreateLoading] = useState(false);
+  const newNameInputRef = useRef<HTMLInputElement>(null);
+  const [searchQuery, setSearchQuery] = useState("");
+  const isSearching = searchQuery.trim().length > 0;
 
   const fetchEntries = (cancelled = false) => {
     fetch(`/api/files?path=${encodeURIComponent(path)}`)
@@ -93,16 +98,18 @@ export function FileBrowser({ path, onFileSelect, onNavigate, onStartChat, refre
   }, [path, refreshKey]);
 
   useEffect(() => {
-    if (creatingFolder) {
-      newFolderInputRef.current?.focus();
+    if (creating) {
+      newNameInputRef.current?.focus();
     }
-  }, [creatingFolder]);
+  }, [creating]);
+
+  const handleCreate = () => (creating === "file" ? handleCreateFile() : handleCreateFolder());
 
   const handleCreateFolder = async () => {
-    const name = newFolderName.trim();
+    const name = newName.trim();
     if (!name) return;
-    setMkdirError(null);
-    setMkdirLoading(true);
+    setCreateError(null);
+    setCreateLoading(true);
     try {
       const res = await fetch("/api/files/mkdir", {
         method: "POST",
@@ -111,27 +118,75 @@ export function FileBrowser({ path, onFileSelect, onNavigate, onStartChat, refre
       });
       const data = await res.json();
       if (!res.ok) {
-        setMkdirError(data.error || "Failed to create folder");
+        setCreateError(data.error || "Failed to create folder");
         return;
       }
-      setCreatingFolder(false);
-      setNewFolderName("");
-      setMkdirError(null);
+      setCreating(null);
+      setNewName("");
+      setCreateError(null);
       // Navigate into the new folder so user sees "Create Workspace" immediately
       const newPath = path ? `${path}/${name}` : name;
       const encodedPath = newPath.split("/").map(s => encodeURIComponent(s)).join("/");
       router.push(`/browse/${encodedPath}`);
     } catch {
-      setMkdirError("Failed to connect to server");
+      setCreateError("Failed to connect to server");
+    } finally {
+      setCreateLoading(false);
+    }
+  };
+
+  const handleCreateFile = async () => {
+    const name = newName.trim();
+    if (!name) return;
+    if (name.includes("/") || name.includes("..")) {
+      setCreateError("Invalid file name");
+      return;
+    }
+    setCreateError(null);
+    setCreateLoading(true);
+    const newPath = path ? `${path}/${name}` : name;
+    try {
+      const res = await fetch("/api/file", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ path: newPath, content: "" }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        setCreateError(data.error || "Failed to create file");
+        return;
+      }
+      setCreating(null);
+      setNewName("");
+      setCreateError(null);
+      // Open the new file straight away so it can be edited
+      if (onFileSelect) {
+        fetchEntries();
+        onFileSelect(newPath);
+      } else {
+        const encodedPath = newPath.split("/").map(s => encodeURIComponent(s)).join("/");
+        router.push(`/browse/${encodedPath}?view=true`);
+      }
+    } catch {
+      setCreateError("Failed to connect to server");
     } finally {
-      setMkdirLoading(false);
+      setCreateLoading(false);
     }
   };
 
-  const cancelCreateFolder = () => {
-    setCreatingFolder(false);
-    setNewFolderName("");
-    setMkdirError(null);
+  const cancelCreate = () => {
+    setCreating(null);
+    setNewName("");
+    setCreateError(null);
+  };
+
+  const handleSearchSelect = (filePath: string, line?: number) => {
+    if (onFileSelect) {
+      onFileSelect(filePath, line);
+    } else {
+      const encodedPath = filePath.split("/").map(s => encodeURIComponent(s)).join("/");
+      router.push(`/browse/${encodedPath}?view=true${line ? `&line=${line}` : ""}`);
+    }
   };
 
   // Check if this looks like a project directory (has package.json, Cargo.toml, etc.)
@@ -143,226 +198,262 @@ export function FileBrowser({ path, onFileSelect, onNavigate, onStartChat, refre
 
   return (
     <div>
-      {/* Workspace link — always visible on standalone browse pages when there ARE entries */}
-      {!isEmbedded && path && entries.length > 0 && (
-        <Link
-          href={`/project/${encodeURIComponent(path)}`}
-          className="flex items-center gap-3 px-4 py-3 mb-2 bg-accent/10 border border-accent/30 rounded-lg text-accent hover:bg-accent/20 transition-colors"
-        >
-          <MessageSquare size={20} />
-          <span className="font-medium">{isProject ? "Open Project Workspace" : "Open Workspace"}</span>
-          <ChevronRight size={16} className="ml-auto" />
-        </Link>
+      {/* Project-wide search — replaces the listing while a query is entered */}
+      {(searchRoot ?? path) && (
+        <FileSearch
+          root={searchRoot ?? path}
+          query={searchQuery}
+          onQueryChange={setSearchQuery}
+          onSelect={handleSearchSelect}
+        />
       )}
-
-      {/* Toolbar — New Folder + Refresh */}
-      {!isEmbedded && !loading && !error && !creatingFolder && (
-        <div className="flex items-center gap-1 mb-2">
-          <button
-            onClick={() => setCreatingFolder(true)}
-            className="flex items-center gap-2 px-4 py-2.5 text-sm text-muted hover:text-foreground hover:bg-card rounded-lg transition-colors"
-          >
-            <FolderPlus size={18} />
-            <span>New Folder</span>
-          </button>
-          <button
-            onClick={() => fetchEntries()}
-            title="Refresh"
-            className="p-2.5 text-muted hover:text-foreground hover:bg-card rounded-lg transition-colors ml-auto"
-          >
-            <RefreshCw size={16} />
-          </button>
-        </div>
-      )}
-      {/* Embedded refresh button */}
-      {isEmbedded && !loading && !error && (
-        <div className="flex justify-end px-2 py-1">
-          <button
-            onClick={() => fetchEntries()}
-            title="Refresh"
-            className="p-2 text-muted hover:text-foreground hover:bg-card rounded-lg transition-colors"
+      {!isSearching && (
+        <>
+        {/* Workspace link — always visible on standalone browse pages when there ARE entries */}
+        {!isEmbedded && path && entries.length > 0 && (
+          <Link
+            href={`/project/${encodeURIComponent(path)}`}
+            className="flex items-center gap-3 px-4 py-3 mb-2 bg-accent/10 border border-accent/30 rounded-lg text-accent hover:bg-accent/20 transition-colors"
           >
-            <RefreshCw size={14} />
-          </button>
-        </div>
-      )}
+            <MessageSquare size={20} />
+            <span className="font-medium">{isProject ? "Open Project Workspace" : "Open Workspace"}</span>
+            <ChevronRight size={16} className="ml-auto" />
+          </Link>
+        )}
 
-      {/* New folder input form */}
-      {creatingFolder && (
-        <div className="px-4 py-3 mb-2">
-          <div className="flex items-center gap-2">
-            <Folder size={20} className="text-accent shrink-0" />
-            <input
-              ref={newFolderInputRef}
-              type="text"
-              value={newFolderName}
-              onChange={(e) => { setNewFolderName(e.target.value); setMkdirError(null); }}
-              onKeyDown={(e) => {
-                if (e.key === "Enter") handleCreateFolder();
-                if (e.key === "Escape") cancelCreateFolder();
-              }}
-              placeholder="Folder name"
-              disabled={mkdirLoading}
-              className="flex-1 min-w-0 bg-background border border-border rounded px-2 py-1.5 text-sm focus:outline-none focus:border-accent"
-            />
+        {/* Toolbar — New Folder + New File + Refresh */}
+        {!isEmbedded && !loading && !error && !creating && (
+          <div className="flex items-center gap-1 mb-2">
             <button
-              onClick={handleCreateFolder}
-              disabled={mkdirLoading || !newFolderName.trim()}
-              className="p-1.5 text-green-400 hover:bg-green-400/10 rounded disabled:opacity-40"
+              onClick={() => setCreating("folder")}
+              className="flex items-center gap-2 px-4 py-2.5 text-sm text-muted hover:text-foreground hover:bg-card rounded-lg transition-colors"
             >
-              {mkdirLoading ? <Loader2 size={18} className="animate-spin" /> : <Check size={18} />}
+              <FolderPlus size={18} />
+              <span>New Folder</span>
             </button>
+            {path && (
+              <button
+                onClick={() => setCreating("file")}
+                className="flex items-center gap-2 px-4 py-2.5 text-sm text-muted hover:text-foreground hover:bg-card rounded-lg transition-colors"
+              >
+                <FilePlus size={18} />
+                <span>New File</span>
+              </button>
+            )}
             <button
-              onClick={cancelCreateFolder}
-              disabled={mkdirLoading}
-              className="p-1.5 text-red-400 hover:bg-red-400/10 rounded disabled:opacity-40"
+              onClick={() => fetchEntries()}
+              title="Refresh"
+              className="p-2.5 text-muted hover:text-foreground hover:bg-card rounded-lg transition-colors ml-auto"
             >
-              <X size={18} />
+              <RefreshCw size={16} />
             </button>
           </div>
-          {mkdirError && (
-            <div className="text-xs text-red-400 mt-1.5 ml-7">{mkdirError}</div>
-          )}
-        </div>
-      )}
+        )}
+        {/* Embedded toolbar — New File + Refresh */}
+        {isEmbedded && !loading && !error && !creating && (
+          <div className="flex justify-end px-2 py-1">
+            <button
+              onClick={() => setCreating("file")}
+              title="New file"
+              className="p-2 text-muted hover:text-foreground hover:bg-card rounded-lg transition-colors"
+            >
+              <FilePlus size={14} />
+            </button>
+            <button
+              onClick={() => fetchEntries()}
+              title="Refresh"
+              className="p-2 text-muted hover:text-foreground hover:bg-card rounded-lg transition-colors"
+            >
+              <RefreshCw size={14} />
+            </button>
+          </div>
+        )}
 
-      {/* Empty folder state — prominent CTA for both embedded workspace and browse pages */}
-      {/* Workspace embedded: show immediately (entries starts empty before API returns) */}
-      {onStartChat && entries.length === 0 && (
-        <div className="flex flex-col items-center justify-center py-16 px-4 gap-4">
-          <Folder size={48} className="text-muted/40" />
-          <p className="text-muted text-sm">This folder is empty</p>
-          <button
-            onClick={onStartChat}
-            className="inline-flex items-center gap-2 px-6 py-3 bg-accent text-background font-semibold rounded-lg hover:bg-accent/90 active:bg-accent/80 transition-colors text-base"
-          >
-            <MessageSquare size={20} />
-            Start Coding Here
-          </button>
-        </div>
-      )}
-      {/* Browse page: show once loading finishes and folder is empty */}
-      {!onStartChat && !loading && entries.length === 0 && path && !isEmbedded && (
-        <div className="flex flex-col items-center justify-center py-16 px-4 gap-4">
-          <Folder size={48} className="text-muted/40" />
-          <p className="text-muted text-sm">This folder is empty</p>
-          <Link
-            href={`/project/${encodeURIComponent(path)}`}
-            className="inline-flex items-center gap-2 px-6 py-3 bg-accent text-background font-semibold rounded-lg hover:bg-accent/90 active:bg-accent/80 transition-colors text-base"
-          >
-            <MessageSquare size={20} />
-            Start Coding Here
-          </Link>
-        </div>
-      )}
+        {/* New folder / new file input form */}
+        {creating && (
+          <div className="px-4 py-3 mb-2">
+            <div className="flex items-center gap-2">
+              {creating === "folder" ? (
+                <Folder size={20} className="text-accent shrink-0" />
+              ) : (
+                <FileText size={20} className="text-muted shrink-0" />
+              )}
+              <input
+                ref={newNameInputRef}
+                type="text"
+                value={newName}
+                onChange={(e) => { setNewName(e.target.value); setCreateError(null); }}
+                onKeyDown={(e) => {
+                  if (e.key === "Enter") handleCreate();
+                  if (e.key === "Escape") cancelCreate();
+                }}
+                placeholder={creating === "folder" ? "Folder name" : "File name"}
+                disabled={createLoading}
+                autoCapitalize="off"
+                autoCorrect="off"
+                spellCheck={false}
+                className="flex-1 min-w-0 bg-background border border-border rounded px-2 py-1.5 text-sm focus:outline-none focus:border-accent"
+              />
+              <button
+                onClick={handleCreate}
+                disabled={createLoading || !newName.trim()}
+                className="p-1.5 text-green-400 hover:bg-green-400/10 rounded disabled:opacity-40"
+              >
+                {createLoading ? <Loader2 size={18} className="animate-spin" /> : <Check size={18} />}
+              </button>
+              <button
+                onClick={cancelCreate}
+                disabled={createLoading}
+                className="p-1.5 text-red-400 hover:bg-red-400/10 rounded disabled:opacity-40"
+              >
+                <X size={18} />
+              </button>
+            </div>
+            {createError && (
+              <div className="text-xs text-red-400 mt-1.5 ml-7">{createError}</div>
+            )}
+          </div>
+        )}
 
-      {loading ? (
-        <div className="flex items-center justify-center py-20">
-          <Loader2 className="animate-spin text-muted" size={24} />
-        </div>
-      ) : error ? (
-        <div className="flex flex-col items-center justify-center py-12 gap-4">
-          <p className="text-red-400">{error}</p>
-          {!isEmbedded && path && (
+        {/* Empty folder state — prominent CTA for both embedded workspace and browse pages */}
+        {/* Workspace embedded: show immediately (entries starts empty before API returns) */}
+        {onStartChat && entries.length === 0 && (
+          <div className="flex flex-col items-center justify-center py-16 px-4 gap-4">
+            <Folder size={48} className="text-muted/40" />
+            <p className="text-muted text-sm">This folder is empty</p>
+            <button
+              onClick={onStartChat}
+              className="inline-flex items-center gap-2 px-6 py-3 bg-accent text-background font-semibold rounded-lg hover:bg-accent/90 active:bg-accent/80 transition-colors text-base"
+            >
+              <MessageSquare size={20} />
+              Start Coding Here
+            </button>
+          </div>
+        )}
+        {/* Browse page: show once loading finishes and folder is empty */}
+        {!onStartChat && !loading && entries.length === 0 && path && !isEmbedded && (
+          <div className="flex flex-col items-center justify-center py-16 px-4 gap-4">
+            <Folder size={48} className="text-muted/40" />
+            <p className="text-muted text-sm">This folder is empty</p>
             <Link
               href={`/project/${encodeURIComponent(path)}`}
-              className="inline-flex items-center gap-2 px-5 py-3 bg-accent text-background font-semibold rounded-lg hover:bg-accent/90 active:bg-accent/80 transition-colors"
+              className="inline-flex items-center gap-2 px-6 py-3 bg-accent text-background font-semibold rounded-lg hover:bg-accent/90 active:bg-accent/80 transition-colors text-base"
             >
               <MessageSquare size={20} />
-              Open Workspace Anyway
+              Start Coding Here
             </Link>
-          )}
-        </div>
-      ) : (
-        <>
-          <div className="divide-y divide-border">
-            {entries.map((entry) => {
-              const Icon =
-                entry.type === "directory" ? Folder : getFileIcon(entry.name);
-              const entryPath = path ? path + "/" + entry.name : entry.name;
+          </div>
+        )}
 
-              if (isEmbedded) {
-                const handleClick = () => {
-                  if (entry.type === "directory") {
-                    onNavigate?.(entryPath);
-                  } else {
-                    onFileSelect?.(entryPath);
-                  }
-                };
+        {loading ? (
+          <div className="flex items-center justify-center py-20">
+            <Loader2 className="animate-spin text-muted" size={24} />
+          </div>
+        ) : error ? (
+          <div className="flex flex-col items-center justify-center py-12 gap-4">
+            <p className="text-red-400">{error}</p>
+            {!isEmbedded && path && (
+              <Link
+                href={`/project/${encodeURIComponent(path)}`}
+                className="inline-flex items-center gap-2 px-5 py-3 bg-accent text-background font-semibold rounded-lg hover:bg-accent/90 active:bg-accent/80 transition-colors"
+              >
+                <MessageSquare size={20} />
+                Open Workspace Anyway
+              </Link>
+            )}
+          </div>
+        ) : (
+          <>
+            <div className="divide-y divide-border">
+              {entries.map((entry) => {
+                const Icon =
+                  entry.type === "directory" ? Folder : getFileIcon(entry.name);
+                const entryPath = path ? path + "/" + entry.name : entry.name;
 
-                return (
-                  <button
-                    key={entry.name}
-                    onClick={handleClick}
-                    className="w-full flex items-center gap-3 px-4 py-3.5 hover:bg-card active:bg-card/80 transition-colors text-left"
-                  >
-                    <Icon
-                      size={20}
-                      className={
-                        entry.type === "directory" ? "text-accent" : "text-muted"
-                      }
-                    />
-                    <div className="flex-1 min-w-0">
-                      <div className="truncate font-medium">{entry.name}</div>
-                      {entry.type === "file" && (
-                        <div className="text-xs text-muted">
-                          {formatSize(entry.size)}
-                        </div>
-                      )}
-                    </div>
-                    <ChevronRight size={16} className="text-muted shrink-0" />
-                  </button>
-                );
-              }
+                if (isEmbedded) {
+                  const handleClick = () => {
+                    if (entry.type === "directory") {
+                      onNavigate?.(entryPath);
+                    } else {
+                      onFileSelect?.(entryPath);
+                    }
+                  };
+
+                  return (
+                    <button
+                      key={entry.name}
+                      onClick={handleClick}
+                      className="w-full flex items-center gap-3 px-4 py-3.5 hover:bg-card active:bg-card/80 transition-colors text-left"
+                    >
+                      <Icon
+                        size={20}
+                        className={
+                          entry.type === "directory" ? "text-accent" : "text-muted"
+                        }
+                      />
+                      <div className="flex-1 min-w-0">
+                        <div className="truncate font-medium">{entry.name}</div>
+                        {entry.type === "file" && (
+                          <div className="text-xs text-muted">
+                            {formatSize(entry.size)}
+                          </div>
+                        )}
+                      </div>
+                      <ChevronRight size={16} className="text-muted shrink-0" />
+                    </button>
+                  );
+                }
 
-              const href =
-                entry.type === "directory"
-                  ? `/browse/${entryPath}`
-                  : `/browse/${entryPath}?view=true`;
+                const href =
+                  entry.type === "directory"
+                    ? `/browse/${entryPath}`
+                    : `/browse/${entryPath}?view=true`;
 
-              return (
-                <div key={entry.name} className="flex items-center">
-                  <Link
-                    href={href}
-                    className="flex items-center gap-3 px-4 py-3.5 hover:bg-card active:bg-card/80 transition-colors flex-1 min-w-0"
-                  >
-                    <Icon
-                      size={20}
-                      className={
-                        entry.type === "directory" ? "text-accent" : "text-muted"
-                      }
-                    />
-                    <div className="flex-1 min-w-0">
-                      <div className="truncate font-medium">{entry.name}</div>
-                      {entry.type === "file" && (
-                        <div className="text-xs text-muted">
-                          {formatSize(entry.size)}
-                        </div>
-                      )}
-                    </div>
-                    <ChevronRight size={16} className="text-muted shrink-0" />
-                  </Link>
-                  {entry.type === "directory" && (
+                return (
+                  <div key={entry.name} className="flex items-center">
                     <Link
-                      href={`/project/${encodeURIComponent(entryPath)}`}
-                      className="shrink-0 p-3 mr-1 text-muted hover:text-accent hover:bg-accent/10 rounded-lg transition-colors"
-                      title="Open workspace"
-                      onClick={(e) => e.stopPropagation()}
+                      href={href}
+                      className="flex items-center gap-3 px-4 py-3.5 hover:bg-card active:bg-card/80 transition-colors flex-1 min-w-0"
                     >
-                      <MessageSquare size={18} />
+                      <Icon
+                        size={20}
+                        className={
+                          entry.type === "directory" ? "text-accent" : "text-muted"
+                        }
+                      />
+                      <div className="flex-1 min-w-0">
+                        <div className="truncate font-medium">{entry.name}</div>
+                        {entry.type === "file" && (
+                          <div className="text-xs text-muted">
+                            {formatSize(entry.size)}
+                          </div>
+                        )}
+                      </div>
+                      <ChevronRight size={16} className="text-muted shrink-0" />
                     </Link>
-                  )}
-                </div>
-              );
-            })}
-          </div>
-
-          {/* Empty text only needed for embedded views without onStartChat (unlikely but safe) */}
-          {entries.length === 0 && !onStartChat && isEmbedded && (
-            <div className="text-center py-8 text-muted">
-              <p>Empty directory</p>
+                    {entry.type === "directory" && (
+                      <Link
+                        href={`/project/${encodeURIComponent(entryPath)}`}
+                        className="shrink-0 p-3 mr-1 text-muted hover:text-accent hover:bg-accent/10 rounded-lg transition-colors"
+                        title="Open workspace"
+                        onClick={(e) => e.stopPropagation()}
+                      >
+                        <MessageSquare size={18} />
+                      </Link>
+                    )}
+                  </div>
+                );
+              })}
             </div>
-          )}
+
+            {/* Empty text only needed for embedded views without onStartChat (unlikely but safe) */}
+            {entries.length === 0 && !onStartChat && isEmbedded && (
+              <div className="text-center py-8 text-muted">
+                <p>Empty directory</p>
+              </div>
+            )}
+          </>
+        )}
         </>
       )}
     </div>
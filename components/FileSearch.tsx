@@ -0,0 +1,181 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { Search, X, Loader2, FileText, Regex, CaseSensitive } from "lucide-react";
+import { parseSSEStream } from "@/lib/stream-parser";
+
+type SearchMode = "name" | "content";
+
+interface SearchResult {
+  path: string;
+  line?: number;
+  column?: number;
+  text?: string;
+}
+
+interface FileSearchProps {
+  root: string;
+  query: string;
+  onQueryChange: (query: string) => void;
+  onSelect: (filePath: string, line?: number) => void;
+}
+
+const DEBOUNCE_MS = 300;
+
+/** Project-wide search bar — fuzzy filename or content grep, streamed from cc-server */
+export function FileSearch({ root, query, onQueryChange, onSelect }: FileSearchProps) {
+  const [mode, setMode] = useState<SearchMode>("name");
+  const [useRegex, setUseRegex] = useState(false);
+  const [caseSensitive, setCaseSensitive] = useState(false);
+  const [results, setResults] = useState<SearchResult[]>([]);
+  const [searching, setSearching] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [summary, setSummary] = useState<{ count: number; truncated: boolean } | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  useEffect(() => {
+    abortRef.current?.abort();
+    const q = query.trim();
+    if (!q) {
+      setResults([]);
+      setSummary(null);
+      setError(null);
+      setSearching(false);
+      return;
+    }
+
+    const controller = new AbortController();
+    abortRef.current = controller;
+
+    const timer = setTimeout(async () => {
+      setSearching(true);
+      setResults([]);
+      setSummary(null);
+      setError(null);
+
+      const params = new URLSearchParams({ path: root, q, mode });
+      if (mode === "content" && useRegex) params.set("regex", "1");
+      if (mode === "content" && caseSensitive) params.set("caseSensitive", "1");
+
+      try {
+        const res = await fetch(`/api/files/search?${params.toString()}`, { signal: controller.signal });
+        if (!res.ok || !res.body) {
+          const data = await res.json().catch(() => ({}));
+          setError(data.error || "Search failed");
+          return;
+        }
+
+        for await (const event of parseSSEStream(res.body.getReader())) {
+          if (event.type === "file" || event.type === "match") {
+            const result = event.data as unknown as SearchResult;
+            setResults((prev) => [...prev, result]);
+          } else if (event.type === "done") {
+            setSummary(event.data as { count: number; truncated: boolean });
+          } else if (event.type === "error") {
+            setError(event.data.error as string);
+          }
+        }
+      } catch (err) {
+        if (!(err instanceof DOMException && err.name === "AbortError")) {
+          setError("Failed to connect to server");
+        }
+      } finally {
+        if (!controller.signal.aborted) setSearching(false);
+      }
+    }, DEBOUNCE_MS);
+
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [root, query, mode, useRegex, caseSensitive]);
+
+  const toggleClass = (active: boolean) =>
+    `p-1.5 rounded-md transition-colors ${active ? "bg-accent text-white" : "text-muted hover:text-foreground"}`;
+
+  return (
+    <div className="px-3 pt-2 pb-1">
+      <div className="flex items-center gap-2 bg-card border border-border rounded-lg px-2.5 py-1.5 focus-within:border-accent">
+        <Search size={15} className="text-muted shrink-0" />
+        <input
+          type="search"
+          value={query}
+          onChange={(e) => onQueryChange(e.target.value)}
+          placeholder={mode === "name" ? "Find file..." : "Search in files..."}
+          autoCapitalize="off"
+          autoCorrect="off"
+          spellCheck={false}
+          className="flex-1 min-w-0 bg-transparent text-sm outline-none placeholder:text-muted/60"
+        />
+        {searching && <Loader2 size={14} className="animate-spin text-muted shrink-0" />}
+        {query && (
+          <button onClick={() => onQueryChange("")} className="p-0.5 text-muted hover:text-foreground shrink-0">
+            <X size={14} />
+          </button>
+        )}
+      </div>
+
+      <div className="flex items-center gap-1 mt-1.5">
+        {(["name", "content"] as const).map((m) => (
+          <button
+            key={m}
+            onClick={() => setMode(m)}
+            className={`px-2.5 py-1 text-xs rounded-md transition-colors ${
+              mode === m ? "bg-accent text-white" : "bg-card border border-border text-muted hover:text-foreground"
+            }`}
+          >
+            {m === "name" ? "Files" : "Content"}
+          </button>
+        ))}
+        {mode === "content" && (
+          <>
+            <button onClick={() => setUseRegex((v) => !v)} title="Regular expression" className={`ml-auto ${toggleClass(useRegex)}`}>
+              <Regex size={14} />
+            </button>
+            <button onClick={() => setCaseSensitive((v) => !v)} title="Match case" className={toggleClass(caseSensitive)}>
+              <CaseSensitive size={14} />
+            </button>
+          </>
+        )}
+      </div>
+
+      {query.trim() && (
+        <div className="mt-2 -mx-3">
+          {error && <div className="px-4 py-3 text-sm text-red-400">{error}</div>}
+
+          <div className="divide-y divide-border">
+            {results.map((r, i) => {
+              const relPath = root && r.path.startsWith(root + "/") ? r.path.slice(root.length + 1) : r.path;
+              return (
+                <button
+                  key={`${r.path}:${r.line ?? 0}:${i}`}
+                  onClick={() => onSelect(r.path, r.line)}
+                  className="w-full flex items-start gap-3 px-4 py-2.5 hover:bg-card active:bg-card/80 transition-colors text-left"
+                >
+                  <FileText size={16} className="text-muted shrink-0 mt-0.5" />
+                  <div className="flex-1 min-w-0">
+                    <div className="truncate text-sm">
+                      {relPath}
+                      {r.line !== undefined && <span className="text-muted">:{r.line}</span>}
+                    </div>
+                    {r.text !== undefined && (
+                      <div className="truncate text-xs text-muted font-mono mt-0.5">{r.text.trim()}</div>
+                    )}
+                  </div>
+                </button>
+              );
+            })}
+          </div>
+
+          {summary && (
+            <div className="px-4 py-3 text-xs text-muted text-center">
+              {summary.count === 0
+                ? "No matches"
+                : `${summary.count} ${summary.count === 1 ? "result" : "results"}${summary.truncated ? " (truncated)" : ""}`}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,22 +1,47 @@
 "use client";
 
-import { useEffect, useState } from "react";
-import { Loader2 } from "lucide-react";
+import { useCallback, useEffect, useRef, useState } from "react";
+import { useRouter } from "next/navigation";
+import { Loader2, Pencil, Save, X, Trash2, FileSignature, Check, AlertTriangle } from "lucide-react";
 import { StreamingMessage } from "./StreamingMessage";
 import { CodeBlock } from "./CodeBlock";
 
 interface FileViewerProps {
   path: string;
+  line?: number; // Jump to and highlight this line (e.g. from a search result)
+  onRenamed?: (newPath: string) => void;
+  onDeleted?: () => void;
 }
 
-export function FileViewer({ path }: FileViewerProps) {
+function browseUrl(filePath: string, view = false): string {
+  const encoded = filePath.split("/").map((s) => encodeURIComponent(s)).join("/");
+  return encoded ? `/browse/${encoded}${view ? "?view=true" : ""}` : "/browse";
+}
+
+export function FileViewer({ path, line, onRenamed, onDeleted }: FileViewerProps) {
+  const router = useRouter();
   const [content, setContent] = useState<string | null>(null);
   const [language, setLanguage] = useState("text");
+  const [mtime, setMtime] = useState<string | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [reloadKey, setReloadKey] = useState(0);
+
+  // ── Edit mode ─────────────────────────────────────────────────────
+  const [editing, setEditing] = useState(false);
+  const [draft, setDraft] = useState("");
+  const [saving, setSaving] = useState(false);
+  const [actionError, setActionError] = useState<string | null>(null);
+  const [conflictMtime, setConflictMtime] = useState<string | null>(null);
+
+  // ── Rename ────────────────────────────────────────────────────────
+  const [renaming, setRenaming] = useState(false);
+  const [newName, setNewName] = useState("");
+  const renameInputRef = useRef<HTMLInputElement>(null);
 
   useEffect(() => {
     let cancelled = false;
+    setLoading(true);
     fetch(`/api/file?path=${encodeURIComponent(path)}`)
       .then((res) => res.json())
       .then((data) => {
@@ -27,6 +52,7 @@ export function FileViewer({ path }: FileViewerProps) {
           setError(null);
           setContent(data.content);
           setLanguage(data.language);
+          setMtime(data.mtime ?? null);
         }
       })
       .catch(() => {
@@ -36,8 +62,122 @@ export function FileViewer({ path }: FileViewerProps) {
         if (!cancelled) setLoading(false);
       });
     return () => { cancelled = true; };
+  }, [path, reloadKey]);
+
+  // Leave edit/rename mode when switching files
+  useEffect(() => {
+    setEditing(false);
+    setRenaming(false);
+    setActionError(null);
+    setConflictMtime(null);
   }, [path]);
 
+  useEffect(() => {
+    if (renaming) {
+      renameInputRef.current?.focus();
+      renameInputRef.current?.select();
+    }
+  }, [renaming]);
+
+  const startEditing = () => {
+    setDraft(content ?? "");
+    setActionError(null);
+    setConflictMtime(null);
+    setEditing(true);
+  };
+
+  const cancelEditing = () => {
+    setEditing(false);
+    setActionError(null);
+    setConflictMtime(null);
+  };
+
+  const save = useCallback(async (expectedMtime: string | null) => {
+    setSaving(true);
+    setActionError(null);
+    try {
+      const res = await fetch("/api/file", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ path, content: draft, ...(expectedMtime ? { mtime: expectedMtime } : {}) }),
+      });
+      const data = await res.json();
+      if (res.status === 409) {
+        setConflictMtime(data.mtime ?? null);
+        return;
+      }
+      if (!res.ok) {
+        setActionError(data.error || "Failed to save file");
+        return;
+      }
+      setContent(draft);
+      setMtime(data.mtime ?? null);
+      setConflictMtime(null);
+      setEditing(false);
+    } catch {
+      setActionError("Failed to connect to server");
+    } finally {
+      setSaving(false);
+    }
+  }, [path, draft]);
+
+  const handleRename = async () => {
+    const name = newName.trim();
+    const fileName = path.split("/").pop() || "";
+    if (!name || name === fileName) {
+      setRenaming(false);
+      return;
+    }
+    if (name.includes("/") || name.includes("..")) {
+      setActionError("Invalid file name");
+      return;
+    }
+    const parent = path.split("/").slice(0, -1).join("/");
+    const to = parent ? `${parent}/${name}` : name;
+    setActionError(null);
+    try {
+      const res = await fetch("/api/files/rename", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ from: path, to }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        setActionError(data.error || "Failed to rename file");
+        return;
+      }
+      setRenaming(false);
+      if (onRenamed) {
+        onRenamed(to);
+      } else {
+        router.replace(browseUrl(to, true));
+      }
+    } catch {
+      setActionError("Failed to connect to server");
+    }
+  };
+
+  const handleDelete = async () => {
+    const fileName = path.split("/").pop() || path;
+    if (!window.confirm(`Delete ${fileName}? This cannot be undone.`)) return;
+    setActionError(null);
+    try {
+      const res = await fetch(`/api/file?path=${encodeURIComponent(path)}`, { method: "DELETE" });
+      const data = await res.json();
+      if (!res.ok) {
+        setActionError(data.error || "Failed to delete file");
+        return;
+      }
+      if (onDeleted) {
+        onDeleted();
+      } else {
+        router.push(browseUrl(path.split("/").slice(0, -1).join("/")));
+      }
+    } catch {
+      setActionError("Failed to connect to server");
+    }
+  };
+
   if (loading) {
     return (
       <div className="flex items-center justify-center py-20">
@@ -56,19 +196,128 @@ export function FileViewer({ path }: FileViewerProps) {
 
   if (content === null) return null;
 
-  // Render markdown files with markdown renderer
-  if (language === "markdown") {
-    return (
-      <div className="px-4 py-4">
-        <StreamingMessage content={content} />
+  return (
+    <div>
+      {/* Toolbar — edit / rename / delete */}
+      <div className="sticky top-0 z-10 flex items-center gap-1 px-2 py-1.5 border-b border-border bg-background/90 backdrop-blur-md">
+        {renaming ? (
+          <>
+            <input
+              ref={renameInputRef}
+              type="text"
+              value={newName}
+              onChange={(e) => { setNewName(e.target.value); setActionError(null); }}
+              onKeyDown={(e) => {
+                if (e.key === "Enter") handleRename();
+                if (e.key === "Escape") setRenaming(false);
+              }}
+              autoCapitalize="off"
+              autoCorrect="off"
+              spellCheck={false}
+              className="flex-1 min-w-0 bg-background border border-border rounded px-2 py-1 text-sm focus:outline-none focus:border-accent"
+            />
+            <button onClick={handleRename} className="p-1.5 text-green-400 hover:bg-green-400/10 rounded">
+              <Check size={16} />
+            </button>
+            <button onClick={() => setRenaming(false)} className="p-1.5 text-red-400 hover:bg-red-400/10 rounded">
+              <X size={16} />
+            </button>
+          </>
+        ) : editing ? (
+          <>
+            <span className="text-xs text-muted flex-1">Editing</span>
+            <button
+              onClick={cancelEditing}
+              disabled={saving}
+              className="flex items-center gap-1 px-2.5 py-1 text-xs text-muted border border-border rounded-md hover:text-foreground disabled:opacity-40"
+            >
+              <X size={13} />
+              Cancel
+            </button>
+            <button
+              onClick={() => save(mtime)}
+              disabled={saving || draft === content}
+              className="flex items-center gap-1 px-2.5 py-1 text-xs text-white bg-accent rounded-md hover:bg-accent/80 disabled:opacity-40"
+            >
+              {saving ? <Loader2 size={13} className="animate-spin" /> : <Save size={13} />}
+              Save
+            </button>
+          </>
+        ) : (
+          <>
+            <span className="flex-1" />
+            <button
+              onClick={startEditing}
+              title="Edit"
+              className="p-2 text-muted hover:text-foreground hover:bg-card rounded-lg transition-colors"
+            >
+              <Pencil size={15} />
+            </button>
+            <button
+              onClick={() => { setNewName(path.split("/").pop() || ""); setActionError(null); setRenaming(true); }}
+              title="Rename"
+              className="p-2 text-muted hover:text-foreground hover:bg-card rounded-lg transition-colors"
+            >
+              <FileSignature size={15} />
+            </button>
+            <button
+              onClick={handleDelete}
+              title="Delete"
+              className="p-2 text-muted hover:text-red-400 hover:bg-card rounded-lg transition-colors"
+            >
+              <Trash2 size={15} />
+            </button>
+          </>
+        )}
       </div>
-    );
-  }
 
-  // Render code files with syntax highlighting
-  return (
-    <div className="px-2 py-2">
-      <CodeBlock code={content} language={language} />
+      {actionError && (
+        <div className="px-4 py-2 text-xs text-red-400">{actionError}</div>
+      )}
+
+      {/* Conflict — file was modified on disk (usually by the agent) since we loaded it */}
+      {conflictMtime && (
+        <div className="flex items-center gap-2 px-4 py-2 bg-yellow-500/10 text-yellow-500 text-xs">
+          <AlertTriangle size={14} className="shrink-0" />
+          <span className="flex-1">File changed on disk since you opened it.</span>
+          <button
+            onClick={() => { setEditing(false); setConflictMtime(null); setReloadKey((k) => k + 1); }}
+            className="px-2 py-1 border border-yellow-500/40 rounded-md hover:bg-yellow-500/10"
+          >
+            Reload
+          </button>
+          <button
+            onClick={() => save(conflictMtime)}
+            disabled={saving}
+            className="px-2 py-1 bg-yellow-500/20 rounded-md hover:bg-yellow-500/30 disabled:opacity-40"
+          >
+            Overwrite
+          </button>
+        </div>
+      )}
+
+      {editing ? (
+        <div className="px-2 py-2">
+          <textarea
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            autoCapitalize="off"
+            autoCorrect="off"
+            spellCheck={false}
+            className="w-full min-h-[70dvh] bg-[#1a1a1a] border border-border rounded-lg px-3 py-2 font-mono text-[13px] leading-relaxed resize-y focus:outline-none focus:border-accent"
+          />
+        </div>
+      ) : language === "markdown" && !line ? (
+        // Render markdown files with markdown renderer
+        <div className="px-4 py-4">
+          <StreamingMessage content={content} />
+        </div>
+      ) : (
+        // Render code files with syntax highlighting
+        <div className="px-2 py-2">
+          <CodeBlock code={content} language={language} highlightLine={line} />
+        </div>
+      )}
     </div>
   );
 }
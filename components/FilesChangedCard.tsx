@@ -0,0 +1,110 @@
+"use client";
+
+import { useState } from "react";
+import { FileDiff as FileDiffIcon, ChevronDown, ChevronRight, Loader2 } from "lucide-react";
+import { DiffView } from "./DiffView";
+import type { FileChange, FileDiff, FilesChangedSummary } from "@/lib/diff";
+
+interface FilesChangedCardProps {
+  summary: FilesChangedSummary;
+  projectPath: string;
+}
+
+const STATUS_LETTER: Record<FileChange["status"], { letter: string; color: string }> = {
+  added: { letter: "A", color: "text-green-400" },
+  modified: { letter: "M", color: "text-yellow-400" },
+  deleted: { letter: "D", color: "text-red-400" },
+};
+
+function Counts({ insertions, deletions }: { insertions: number; deletions: number }) {
+  return (
+    <span className="font-mono text-xs shrink-0">
+      <span className="text-green-400">+{insertions}</span> <span className="text-red-400">−{deletions}</span>
+    </span>
+  );
+}
+
+/** Collapsible "files changed this turn" summary under an assistant message — tap a file for its diff */
+export function FilesChangedCard({ summary, projectPath }: FilesChangedCardProps) {
+  const [expanded, setExpanded] = useState(false);
+  const [openFile, setOpenFile] = useState<string | null>(null);
+  const [diffs, setDiffs] = useState<Record<string, FileDiff | { error: string }>>({});
+  const [loadingFile, setLoadingFile] = useState<string | null>(null);
+
+  const toggleFile = async (filePath: string) => {
+    if (openFile === filePath) {
+      setOpenFile(null);
+      return;
+    }
+    setOpenFile(filePath);
+    if (diffs[filePath]) return;
+
+    setLoadingFile(filePath);
+    try {
+      const params = new URLSearchParams({ queryId: summary.queryId, path: filePath });
+      const res = await fetch(`/api/chat/changes?${params.toString()}`);
+      const data = await res.json();
+      setDiffs((prev) => ({ ...prev, [filePath]: res.ok ? data.diff : { error: data.error || "Failed to load diff" } }));
+    } catch {
+      setDiffs((prev) => ({ ...prev, [filePath]: { error: "Failed to connect to server" } }));
+    } finally {
+      setLoadingFile(null);
+    }
+  };
+
+  const count = summary.files.length;
+
+  return (
+    <div className="my-1.5 rounded-md border border-border bg-card text-sm">
+      <button
+        onClick={() => setExpanded(!expanded)}
+        className="flex items-center gap-2 w-full px-3 py-2 text-muted hover:text-foreground transition-colors"
+      >
+        <FileDiffIcon size={14} className="shrink-0" />
+        <span className="truncate flex-1 text-left">
+          {count} {count === 1 ? "file" : "files"} changed
+        </span>
+        <Counts insertions={summary.insertions} deletions={summary.deletions} />
+        {expanded ? <ChevronDown size={14} className="shrink-0" /> : <ChevronRight size={14} className="shrink-0" />}
+      </button>
+
+      {expanded && (
+        <div className="border-t border-border divide-y divide-border">
+          {summary.files.map((file) => {
+            const { letter, color } = STATUS_LETTER[file.status];
+            const displayPath = file.path.startsWith(projectPath + "/") ? file.path.slice(projectPath.length + 1) : file.path;
+            const diff = diffs[file.path];
+            return (
+              <div key={file.path}>
+                <button
+                  onClick={() => toggleFile(file.path)}
+                  className="flex items-center gap-2 w-full px-3 py-1.5 text-left hover:bg-background/50"
+                >
+                  <span className={`w-3 text-xs font-mono font-bold shrink-0 ${color}`}>{letter}</span>
+                  <span className="truncate flex-1 text-xs">{displayPath}</span>
+                  {file.tools.includes("Bash") && <span className="text-[10px] text-muted shrink-0">via Bash</span>}
+                  {file.binary ? (
+                    <span className="text-xs text-muted shrink-0">binary</span>
+                  ) : (
+                    <Counts insertions={file.insertions} deletions={file.deletions} />
+                  )}
+                </button>
+                {openFile === file.path && (
+                  loadingFile === file.path ? (
+                    <div className="flex justify-center py-2">
+                      <Loader2 size={14} className="animate-spin text-muted" />
+                    </div>
+                  ) : diff && "error" in diff ? (
+                    <div className="px-3 py-2 text-xs text-red-400">{diff.error}</div>
+                  ) : diff ? (
+                    <DiffView diff={diff} />
+                  ) : null
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,93 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { GitFork, ChevronLeft, ChevronRight, ChevronDown, ChevronUp } from "lucide-react";
+
+// Mirrors cc-server's GET /api/chat/fork-tree
+export interface ForkNode {
+  sessionId: string;
+  title: string;
+  lastActivity: number;
+  messageCount: number;
+  totalCostUsd: number;
+  forkPoint?: number;
+  children: ForkNode[];
+}
+
+interface ForkTreeProps {
+  sessionId: string;
+  onSwitch: (node: ForkNode) => void;
+}
+
+function flatten(node: ForkNode, depth = 0): { node: ForkNode; depth: number }[] {
+  return [{ node, depth }, ...node.children.flatMap((c) => flatten(c, depth + 1))];
+}
+
+/** Branch bar for forked sessions — step between branches or pick one from the tree */
+export function ForkTree({ sessionId, onSwitch }: ForkTreeProps) {
+  const [root, setRoot] = useState<ForkNode | null>(null);
+  const [expanded, setExpanded] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetch(`/api/chat/fork-tree?sessionId=${encodeURIComponent(sessionId)}`)
+      .then((res) => (res.ok ? res.json() : null))
+      .then((data) => {
+        if (!cancelled) setRoot(data?.root ?? null);
+      })
+      .catch(() => {});
+    return () => {
+      cancelled = true;
+    };
+  }, [sessionId]);
+
+  if (!root || root.children.length === 0) return null;
+
+  const branches = flatten(root);
+  const index = branches.findIndex((b) => b.node.sessionId === sessionId);
+  const step = (delta: number) => {
+    const next = branches[(index + delta + branches.length) % branches.length];
+    onSwitch(next.node);
+  };
+
+  return (
+    <div className="border-b border-border bg-card/50 shrink-0 text-xs">
+      <div className="flex items-center gap-2 px-3 py-1.5">
+        <GitFork size={13} className="text-accent shrink-0" />
+        <button onClick={() => setExpanded(!expanded)} className="flex items-center gap-1 flex-1 min-w-0 text-muted hover:text-foreground">
+          <span className="truncate">
+            Branch {index + 1} of {branches.length}
+            {index >= 0 && ` — ${branches[index].node.title}`}
+          </span>
+          {expanded ? <ChevronUp size={12} className="shrink-0" /> : <ChevronDown size={12} className="shrink-0" />}
+        </button>
+        <button onClick={() => step(-1)} className="p-1 text-muted hover:text-foreground" aria-label="Previous branch">
+          <ChevronLeft size={14} />
+        </button>
+        <button onClick={() => step(1)} className="p-1 text-muted hover:text-foreground" aria-label="Next branch">
+          <ChevronRight size={14} />
+        </button>
+      </div>
+
+      {expanded && (
+        <div className="border-t border-border max-h-48 overflow-y-auto py-1">
+          {branches.map(({ node, depth }) => {
+            const current = node.sessionId === sessionId;
+            return (
+              <button
+                key={node.sessionId}
+                onClick={() => !current && onSwitch(node)}
+                className={`flex items-center gap-2 w-full py-1 pr-3 text-left hover:bg-background/50 ${current ? "text-accent" : "text-foreground"}`}
+                style={{ paddingLeft: 12 + depth * 14 }}
+              >
+                {depth > 0 && <span className="text-muted shrink-0">└</span>}
+                <span className="truncate flex-1">{node.title}</span>
+                <span className="text-muted shrink-0">{node.messageCount} msgs</span>
+              </button>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,409 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import {
+  Loader2,
+  RefreshCw,
+  GitBranch,
+  GitCommitHorizontal,
+  Plus,
+  Minus,
+  ChevronDown,
+  ChevronRight,
+  Check,
+  X,
+} from "lucide-react";
+import { DiffView } from "./DiffView";
+import type { FileDiff } from "@/lib/diff";
+
+interface GitFileStatus {
+  path: string;
+  origPath?: string;
+  index: string;
+  worktree: string;
+  staged: boolean;
+  unstaged: boolean;
+  untracked: boolean;
+  conflicted: boolean;
+}
+
+interface GitStatus {
+  branch: string | null;
+  upstream: string | null;
+  ahead: number;
+  behind: number;
+  files: GitFileStatus[];
+}
+
+interface GitCommit {
+  hash: string;
+  shortHash: string;
+  author: string;
+  date: string;
+  subject: string;
+}
+
+interface GitBranch {
+  name: string;
+  current: boolean;
+  remote: boolean;
+}
+
+interface GitChangesProps {
+  projectPath: string;
+  refreshKey?: number;
+}
+
+const statusColors: Record<string, string> = {
+  M: "text-yellow-400",
+  A: "text-green-400",
+  D: "text-red-400",
+  R: "text-blue-400",
+  C: "text-blue-400",
+  U: "text-orange-400",
+  "?": "text-green-400",
+};
+
+async function postJson(url: string, body: Record<string, unknown>) {
+  const res = await fetch(url, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  });
+  const data = await res.json();
+  if (!res.ok) throw new Error(data.error || "Request failed");
+  return data;
+}
+
+/** Git working tree — staged/unstaged files with inline diffs, commit box, branches and recent log */
+export function GitChanges({ projectPath, refreshKey }: GitChangesProps) {
+  const [status, setStatus] = useState<GitStatus | null>(null);
+  const [commits, setCommits] = useState<GitCommit[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [actionError, setActionError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  // Expanded diffs, keyed by "staged:path" / "unstaged:path"
+  const [expanded, setExpanded] = useState<Record<string, FileDiff[] | "loading" | { error: string }>>({});
+
+  const [message, setMessage] = useState("");
+  const [showLog, setShowLog] = useState(false);
+
+  const [showBranches, setShowBranches] = useState(false);
+  const [branches, setBranches] = useState<GitBranch[]>([]);
+  const [newBranch, setNewBranch] = useState("");
+
+  const refresh = useCallback(async () => {
+    setLoading(true);
+    try {
+      const q = `projectPath=${encodeURIComponent(projectPath)}`;
+      const [statusRes, logRes] = await Promise.all([
+        fetch(`/api/git/status?${q}`),
+        fetch(`/api/git/log?${q}&limit=20`),
+      ]);
+      const statusData = await statusRes.json();
+      if (!statusRes.ok) {
+        setError(statusData.error || "Failed to load git status");
+        setStatus(null);
+        return;
+      }
+      setError(null);
+      setStatus(statusData);
+      const logData = await logRes.json();
+      setCommits(logRes.ok ? logData.commits : []);
+      // Diffs may be stale after any change — collapse them
+      setExpanded({});
+    } catch {
+      setError("Failed to connect to server");
+    } finally {
+      setLoading(false);
+    }
+  }, [projectPath]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh, refreshKey]);
+
+  const toggleDiff = async (file: GitFileStatus, staged: boolean) => {
+    const key = `${staged ? "staged" : "unstaged"}:${file.path}`;
+    if (expanded[key]) {
+      setExpanded((prev) => {
+        const next = { ...prev };
+        delete next[key];
+        return next;
+      });
+      return;
+    }
+    setExpanded((prev) => ({ ...prev, [key]: "loading" }));
+    try {
+      const params = new URLSearchParams({ projectPath, path: file.path });
+      if (staged) params.set("staged", "1");
+      const res = await fetch(`/api/git/diff?${params.toString()}`);
+      const data = await res.json();
+      setExpanded((prev) => ({ ...prev, [key]: res.ok ? data.files : { error: data.error || "Failed to load diff" } }));
+    } catch {
+      setExpanded((prev) => ({ ...prev, [key]: { error: "Failed to connect to server" } }));
+    }
+  };
+
+  const runAction = async (fn: () => Promise<unknown>) => {
+    setBusy(true);
+    setActionError(null);
+    try {
+      await fn();
+      await refresh();
+    } catch (err) {
+      setActionError(err instanceof Error ? err.message : "Request failed");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const stage = (paths: string[]) => runAction(() => postJson("/api/git/stage", { projectPath, paths }));
+  const unstage = (paths: string[]) => runAction(() => postJson("/api/git/unstage", { projectPath, paths }));
+
+  const commit = () =>
+    runAction(async () => {
+      await postJson("/api/git/commit", { projectPath, message });
+      setMessage("");
+    });
+
+  const openBranches = async () => {
+    if (showBranches) {
+      setShowBranches(false);
+      return;
+    }
+    setShowBranches(true);
+    try {
+      const res = await fetch(`/api/git/branches?projectPath=${encodeURIComponent(projectPath)}`);
+      const data = await res.json();
+      if (res.ok) setBranches(data.branches);
+      else setActionError(data.error || "Failed to load branches");
+    } catch {
+      setActionError("Failed to connect to server");
+    }
+  };
+
+  const checkout = (branch: string, create = false) =>
+    runAction(async () => {
+      await postJson("/api/git/checkout", { projectPath, branch, create });
+      setShowBranches(false);
+      setNewBranch("");
+    });
+
+  if (loading && !status && !error) {
+    return (
+      <div className="flex items-center justify-center py-20">
+        <Loader2 className="animate-spin text-muted" size={24} />
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="flex flex-col items-center justify-center gap-3 py-20 text-sm">
+        <span className="text-red-400">{error}</span>
+        <button onClick={refresh} className="text-accent text-xs">Retry</button>
+      </div>
+    );
+  }
+
+  if (!status) return null;
+
+  const staged = status.files.filter((f) => f.staged);
+  const unstaged = status.files.filter((f) => f.unstaged);
+
+  const renderFile = (file: GitFileStatus, isStaged: boolean) => {
+    const key = `${isStaged ? "staged" : "unstaged"}:${file.path}`;
+    const letter = isStaged ? file.index : file.worktree;
+    const diff = expanded[key];
+    return (
+      <div key={key}>
+        <div className="flex items-center gap-2 px-3 py-2">
+          <button onClick={() => toggleDiff(file, isStaged)} className="flex items-center gap-2 flex-1 min-w-0 text-left">
+            {diff ? <ChevronDown size={14} className="text-muted shrink-0" /> : <ChevronRight size={14} className="text-muted shrink-0" />}
+            <span className={`w-3 text-xs font-mono font-bold shrink-0 ${statusColors[letter] ?? "text-muted"}`}>
+              {file.untracked ? "U" : letter}
+            </span>
+            <span className="truncate text-sm">
+              {file.path}
+              {file.origPath && <span className="text-muted"> ← {file.origPath}</span>}
+            </span>
+          </button>
+          <button
+            onClick={() => (isStaged ? unstage([file.path]) : stage([file.path]))}
+            disabled={busy}
+            title={isStaged ? "Unstage" : "Stage"}
+            className="p-1.5 text-muted hover:text-foreground hover:bg-card rounded-md disabled:opacity-40"
+          >
+            {isStaged ? <Minus size={14} /> : <Plus size={14} />}
+          </button>
+        </div>
+        {diff === "loading" && (
+          <div className="flex justify-center py-3">
+            <Loader2 size={16} className="animate-spin text-muted" />
+          </div>
+        )}
+        {diff && diff !== "loading" && "error" in diff && (
+          <div className="px-3 py-2 text-xs text-red-400">{diff.error}</div>
+        )}
+        {Array.isArray(diff) &&
+          (diff.length === 0 ? (
+            <div className="px-3 py-2 text-xs text-muted">No changes</div>
+          ) : (
+            diff.map((d, i) => <DiffView key={i} diff={d} />)
+          ))}
+      </div>
+    );
+  };
+
+  const sectionHeader = (title: string, count: number, action?: { label: string; onClick: () => void }) => (
+    <div className="flex items-center px-3 py-1.5 bg-card border-y border-border">
+      <span className="text-xs font-semibold text-foreground/70 uppercase tracking-wider flex-1">
+        {title} <span className="text-muted font-normal">({count})</span>
+      </span>
+      {action && count > 0 && (
+        <button onClick={action.onClick} disabled={busy} className="text-xs text-accent disabled:opacity-40">
+          {action.label}
+        </button>
+      )}
+    </div>
+  );
+
+  return (
+    <div className="pb-6">
+      {/* Branch bar */}
+      <div className="sticky top-0 z-10 flex items-center gap-2 px-3 py-2 border-b border-border bg-background/90 backdrop-blur-md">
+        <button onClick={openBranches} className="flex items-center gap-1.5 min-w-0 flex-1 text-left">
+          <GitBranch size={15} className="text-accent shrink-0" />
+          <span className="text-sm truncate">{status.branch ?? "(detached HEAD)"}</span>
+          {(status.ahead > 0 || status.behind > 0) && (
+            <span className="text-xs text-muted shrink-0">
+              {status.ahead > 0 && `↑${status.ahead}`} {status.behind > 0 && `↓${status.behind}`}
+            </span>
+          )}
+          <ChevronDown size={14} className="text-muted shrink-0" />
+        </button>
+        <button
+          onClick={refresh}
+          disabled={loading}
+          title="Refresh"
+          className="p-2 text-muted hover:text-foreground hover:bg-card rounded-lg transition-colors"
+        >
+          <RefreshCw size={15} className={loading ? "animate-spin" : ""} />
+        </button>
+      </div>
+
+      {showBranches && (
+        <div className="border-b border-border bg-card/50">
+          <div className="divide-y divide-border max-h-64 overflow-y-auto">
+            {branches.map((b) => (
+              <button
+                key={b.name}
+                onClick={() => !b.current && checkout(b.name)}
+                disabled={busy || b.current}
+                className="w-full flex items-center gap-2 px-4 py-2 text-left text-sm hover:bg-card disabled:cursor-default"
+              >
+                {b.current ? <Check size={14} className="text-accent" /> : <span className="w-3.5" />}
+                <span className={`truncate ${b.remote ? "text-muted" : ""}`}>{b.name}</span>
+              </button>
+            ))}
+          </div>
+          <div className="flex items-center gap-2 px-3 py-2 border-t border-border">
+            <input
+              type="text"
+              value={newBranch}
+              onChange={(e) => setNewBranch(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === "Enter" && newBranch.trim()) checkout(newBranch.trim(), true);
+                if (e.key === "Escape") setShowBranches(false);
+              }}
+              placeholder="New branch name"
+              autoCapitalize="off"
+              autoCorrect="off"
+              spellCheck={false}
+              className="flex-1 min-w-0 bg-background border border-border rounded px-2 py-1 text-sm focus:outline-none focus:border-accent"
+            />
+            <button
+              onClick={() => checkout(newBranch.trim(), true)}
+              disabled={busy || !newBranch.trim()}
+              className="p-1.5 text-green-400 hover:bg-green-400/10 rounded disabled:opacity-40"
+            >
+              <Plus size={16} />
+            </button>
+            <button onClick={() => setShowBranches(false)} className="p-1.5 text-muted hover:bg-card rounded">
+              <X size={16} />
+            </button>
+          </div>
+        </div>
+      )}
+
+      {actionError && <div className="px-4 py-2 text-xs text-red-400">{actionError}</div>}
+
+      {/* Commit box */}
+      <div className="px-3 py-3 space-y-2">
+        <textarea
+          value={message}
+          onChange={(e) => setMessage(e.target.value)}
+          placeholder={staged.length > 0 ? "Commit message" : "Stage changes to commit"}
+          rows={2}
+          className="w-full bg-card border border-border rounded-lg px-3 py-2 text-sm resize-none focus:outline-none focus:border-accent"
+        />
+        <button
+          onClick={commit}
+          disabled={busy || staged.length === 0 || !message.trim()}
+          className="w-full flex items-center justify-center gap-1.5 py-2 text-sm text-white bg-accent rounded-lg hover:bg-accent/80 disabled:opacity-40"
+        >
+          {busy ? <Loader2 size={14} className="animate-spin" /> : <GitCommitHorizontal size={14} />}
+          Commit {staged.length > 0 && `(${staged.length})`}
+        </button>
+      </div>
+
+      {status.files.length === 0 ? (
+        <div className="px-4 py-8 text-center text-sm text-muted">Working tree clean</div>
+      ) : (
+        <>
+          {staged.length > 0 && (
+            <>
+              {sectionHeader("Staged", staged.length, { label: "Unstage all", onClick: () => unstage(staged.map((f) => f.path)) })}
+              <div className="divide-y divide-border">{staged.map((f) => renderFile(f, true))}</div>
+            </>
+          )}
+          {unstaged.length > 0 && (
+            <>
+              {sectionHeader("Changes", unstaged.length, { label: "Stage all", onClick: () => stage(unstaged.map((f) => f.path)) })}
+              <div className="divide-y divide-border">{unstaged.map((f) => renderFile(f, false))}</div>
+            </>
+          )}
+        </>
+      )}
+
+      {/* Recent commits */}
+      {commits.length > 0 && (
+        <div className="mt-4">
+          <button
+            onClick={() => setShowLog((v) => !v)}
+            className="w-full flex items-center gap-1.5 px-3 py-1.5 bg-card border-y border-border text-xs font-semibold text-foreground/70 uppercase tracking-wider"
+          >
+            {showLog ? <ChevronDown size={14} /> : <ChevronRight size={14} />}
+            Recent commits
+          </button>
+          {showLog && (
+            <div className="divide-y divide-border">
+              {commits.map((c) => (
+                <div key={c.hash} className="px-3 py-2">
+                  <div className="text-sm truncate">{c.subject}</div>
+                  <div className="text-xs text-muted">
+                    <span className="font-mono text-accent/80">{c.shortHash}</span> · {c.author} ·{" "}
+                    {new Date(c.date).toLocaleString()}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,83 @@
+"use client";
+
+import { useState } from "react";
+import { ListOrdered, Pencil, Check, X } from "lucide-react";
+
+// Mirrors cc-server's /api/chat/queue items
+export interface QueuedMessage {
+  id: string;
+  message: string;
+  createdAt: number;
+}
+
+interface MessageQueueProps {
+  items: QueuedMessage[];
+  error: string | null;
+  onEdit: (id: string, message: string) => void;
+  onCancel: (id: string) => void;
+}
+
+/** Follow-ups waiting for the running query — each is sent as the next turn when it finishes */
+export function MessageQueue({ items, error, onEdit, onCancel }: MessageQueueProps) {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState("");
+
+  if (items.length === 0 && !error) return null;
+
+  const startEdit = (item: QueuedMessage) => {
+    setEditingId(item.id);
+    setDraft(item.message);
+  };
+
+  const saveEdit = () => {
+    if (editingId && draft.trim()) onEdit(editingId, draft.trim());
+    setEditingId(null);
+  };
+
+  return (
+    <div className="mx-4 mt-2 space-y-1">
+      {items.length > 0 && (
+        <div className="flex items-center gap-1.5 text-[11px] text-muted">
+          <ListOrdered size={12} />
+          Queued — sent when the current reply finishes
+        </div>
+      )}
+      {items.map((item, i) => (
+        <div key={item.id} className="flex items-start gap-2 px-3 py-1.5 text-xs bg-card border border-border rounded-md">
+          <span className="text-muted tabular-nums shrink-0 pt-0.5">{i + 1}.</span>
+          {editingId === item.id ? (
+            <textarea
+              value={draft}
+              onChange={(e) => setDraft(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === "Enter" && !e.shiftKey) {
+                  e.preventDefault();
+                  saveEdit();
+                }
+                if (e.key === "Escape") setEditingId(null);
+              }}
+              rows={2}
+              autoFocus
+              className="flex-1 min-w-0 bg-background border border-accent rounded px-2 py-1 text-xs resize-none focus:outline-none"
+            />
+          ) : (
+            <p className="flex-1 min-w-0 whitespace-pre-wrap break-words line-clamp-3">{item.message}</p>
+          )}
+          {editingId === item.id ? (
+            <button onClick={saveEdit} className="p-0.5 text-muted hover:text-foreground shrink-0" aria-label="Save queued message">
+              <Check size={13} />
+            </button>
+          ) : (
+            <button onClick={() => startEdit(item)} className="p-0.5 text-muted hover:text-foreground shrink-0" aria-label="Edit queued message">
+              <Pencil size={12} />
+            </button>
+          )}
+          <button onClick={() => onCancel(item.id)} className="p-0.5 text-muted hover:text-red-400 shrink-0" aria-label="Cancel queued message">
+            <X size={13} />
+          </button>
+        </div>
+      ))}
+      {error && <p className="text-[11px] text-red-400">{error}</p>}
+    </div>
+  );
+}
@@ -2,7 +2,7 @@
 
 import { useEffect, useState } from "react";
 import { createPortal } from "react-dom";
-import { Shield, Terminal, FileEdit, X } from "lucide-react";
+import { Shield, Terminal, FileEdit, X, ChevronDown, ChevronUp, Pencil } from "lucide-react";
 
 interface PermissionRequest {
   requestId: string;
@@ -10,12 +10,32 @@ interface PermissionRequest {
   toolName: string;
   input: Record<string, unknown>;
   decisionReason?: string;
+  suggestedRule?: string;
+  expiresAt?: number | null;  // null = waits until answered
+  expiry?: "deny" | "wait" | "plan";
+}
+
+/** Save the decision as a rule so matching requests stop prompting */
+export interface RememberRule {
+  rule: string;
+  scope: "project" | "global";
+}
+
+export interface AllowOptions {
+  remember?: RememberRule;
+  updatedInput?: Record<string, unknown>;  // Edited fields to run instead of the original input
+}
+
+export interface DenyOptions {
+  remember?: RememberRule;
+  message?: string;     // Told to the agent so it can change course
+  interrupt?: boolean;  // Also stop the turn instead of letting the agent carry on
 }
 
 interface PermissionModalProps {
   request: PermissionRequest;
-  onAllow: (requestId: string) => void;
-  onDeny: (requestId: string) => void;
+  onAllow: (requestId: string, options?: AllowOptions) => void;
+  onDeny: (requestId: string, options?: DenyOptions) => void;
 }
 
 function stringify(value: unknown): string {
@@ -52,6 +72,27 @@ function formatToolDisplay(toolName: string, input: Record<string, unknown>) {
   return { label: toolName, detail: stringify(firstValue) };
 }
 
+// Input fields worth editing in place; anything else is edited as raw JSON
+const EDITABLE_FIELDS: Record<string, string[]> = {
+  Bash: ["command"],
+  Edit: ["file_path", "old_string", "new_string"],
+  MultiEdit: ["file_path"],
+  Write: ["file_path", "content"],
+  Read: ["file_path"],
+  NotebookEdit: ["notebook_path", "new_source"],
+};
+
+function editableFields(toolName: string, input: Record<string, unknown>): string[] {
+  return (EDITABLE_FIELDS[toolName] ?? []).filter((f) => typeof input[f] === "string");
+}
+
+function expiryText(request: PermissionRequest): string | null {
+  if (request.expiresAt === undefined) return null;
+  if (request.expiresAt === null) return "Waits until you answer";
+  const at = new Date(request.expiresAt).toLocaleTimeString([], { hour: "numeric", minute: "2-digit" });
+  return request.expiry === "plan" ? `Denied and switched to plan mode at ${at}` : `Auto-denied at ${at}`;
+}
+
 function getToolIcon(toolName: string) {
   const lower = toolName.toLowerCase();
   if (lower === "bash") return <Terminal size={18} />;
@@ -61,6 +102,46 @@ function getToolIcon(toolName: string) {
 
 function PermissionModalContent({ request, onAllow, onDeny }: PermissionModalProps) {
   const { label, detail } = formatToolDisplay(request.toolName, request.input);
+  const [expanded, setExpanded] = useState<"always" | "feedback" | null>(null);
+  const toggleExpanded = (next: "always" | "feedback") => setExpanded((e) => (e === next ? null : next));
+  const [feedback, setFeedback] = useState("");
+  const [interrupt, setInterrupt] = useState(false);
+  const [rule, setRule] = useState(request.suggestedRule ?? request.toolName);
+  const [scope, setScope] = useState<RememberRule["scope"]>("project");
+
+  // Editing — known tools get one box per field, the rest a JSON box
+  const fields = editableFields(request.toolName, request.input);
+  const [editing, setEditing] = useState(false);
+  const [fieldDrafts, setFieldDrafts] = useState<Record<string, string>>(() =>
+    Object.fromEntries(fields.map((f) => [f, request.input[f] as string]))
+  );
+  const [jsonDraft, setJsonDraft] = useState(() => JSON.stringify(request.input, null, 2));
+  const [editError, setEditError] = useState<string | null>(null);
+
+  const remember = (): RememberRule => ({ rule: rule.trim() || request.toolName, scope });
+
+  /** Changed input to send back, undefined when untouched, null when the JSON doesn't parse */
+  const editedInput = (): Record<string, unknown> | undefined | null => {
+    if (!editing) return undefined;
+    if (fields.length > 0) {
+      const changed = Object.fromEntries(fields.filter((f) => fieldDrafts[f] !== request.input[f]).map((f) => [f, fieldDrafts[f]]));
+      return Object.keys(changed).length > 0 ? changed : undefined;
+    }
+    try {
+      const parsed: unknown = JSON.parse(jsonDraft);
+      if (parsed && typeof parsed === "object" && !Array.isArray(parsed)) return parsed as Record<string, unknown>;
+    } catch {
+      // fall through
+    }
+    setEditError("Input must be a JSON object");
+    return null;
+  };
+
+  const allow = (withRule?: RememberRule) => {
+    const updatedInput = editedInput();
+    if (updatedInput === null) return;
+    onAllow(request.requestId, { remember: withRule, updatedInput });
+  };
 
   return (
     <div className="fixed inset-0 z-50 flex items-end sm:items-center justify-center bg-black/60">
@@ -79,7 +160,15 @@ function PermissionModalContent({ request, onAllow, onDeny }: PermissionModalPro
             {request.decisionReason && (
               <p className="text-xs text-muted truncate">{request.decisionReason}</p>
             )}
+            {expiryText(request) && <p className="text-[11px] text-muted truncate">{expiryText(request)}</p>}
           </div>
+          <button
+            onClick={() => setEditing(!editing)}
+            className={`p-1.5 transition-colors ${editing ? "text-accent" : "text-muted hover:text-foreground"}`}
+            aria-label="Edit input before allowing"
+          >
+            <Pencil size={15} />
+          </button>
           <button
             onClick={() => onDeny(request.requestId)}
             className="p-1.5 text-muted hover:text-foreground transition-colors"
@@ -89,13 +178,48 @@ function PermissionModalContent({ request, onAllow, onDeny }: PermissionModalPro
         </div>
 
         {/* Detail — scrollable, shrinks to fit between header and buttons */}
-        {detail && (
-          <div
-            className="bg-[#0a0a0a] border border-border rounded-lg px-3 py-2.5 mb-5"
-            style={{ minHeight: 0, overflowY: "auto", overscrollBehavior: "contain" }}
-          >
-            <code className="text-xs text-foreground/80 whitespace-pre-wrap break-words block">{detail}</code>
+        {editing ? (
+          <div className="mb-5 space-y-2" style={{ minHeight: 0, overflowY: "auto", overscrollBehavior: "contain" }}>
+            {fields.length > 0 ? (
+              fields.map((f) => (
+                <label key={f} className="block">
+                  <span className="text-[11px] text-muted font-mono">{f}</span>
+                  <textarea
+                    value={fieldDrafts[f]}
+                    onChange={(e) => setFieldDrafts((prev) => ({ ...prev, [f]: e.target.value }))}
+                    rows={f === "command" || f.endsWith("path") ? 2 : 6}
+                    spellCheck={false}
+                    autoCapitalize="off"
+                    autoCorrect="off"
+                    className="mt-0.5 w-full bg-[#0a0a0a] border border-border rounded-lg px-3 py-2 text-xs font-mono text-foreground focus:outline-none focus:border-accent resize-y"
+                  />
+                </label>
+              ))
+            ) : (
+              <textarea
+                value={jsonDraft}
+                onChange={(e) => {
+                  setJsonDraft(e.target.value);
+                  setEditError(null);
+                }}
+                rows={10}
+                spellCheck={false}
+                autoCapitalize="off"
+                autoCorrect="off"
+                className="w-full bg-[#0a0a0a] border border-border rounded-lg px-3 py-2 text-xs font-mono text-foreground focus:outline-none focus:border-accent resize-y"
+              />
+            )}
+            {editError && <p className="text-xs text-red-400">{editError}</p>}
           </div>
+        ) : (
+          detail && (
+            <div
+              className="bg-[#0a0a0a] border border-border rounded-lg px-3 py-2.5 mb-5"
+              style={{ minHeight: 0, overflowY: "auto", overscrollBehavior: "contain" }}
+            >
+              <code className="text-xs text-foreground/80 whitespace-pre-wrap break-words block">{detail}</code>
+            </div>
+          )
         )}
 
         {/* Action buttons — large tap targets for mobile */}
@@ -107,11 +231,93 @@ function PermissionModalContent({ request, onAllow, onDeny }: PermissionModalPro
             Deny
           </button>
           <button
-            onClick={() => onAllow(request.requestId)}
+            onClick={() => allow()}
             className="flex-1 py-3.5 text-sm font-medium text-white bg-green-600 rounded-xl hover:bg-green-500 active:bg-green-700 transition-colors"
           >
-            Allow
+            {editing ? "Allow edited" : "Allow"}
+          </button>
+        </div>
+
+        <div className="flex justify-center gap-5 mt-3" style={{ flexShrink: 0 }}>
+          <button
+            onClick={() => toggleExpanded("feedback")}
+            className="flex items-center gap-1 text-xs text-muted hover:text-foreground"
+          >
+            Deny with feedback
+            {expanded === "feedback" ? <ChevronUp size={12} /> : <ChevronDown size={12} />}
           </button>
+          <button
+            onClick={() => toggleExpanded("always")}
+            className="flex items-center gap-1 text-xs text-muted hover:text-foreground"
+          >
+            Always for this pattern
+            {expanded === "always" ? <ChevronUp size={12} /> : <ChevronDown size={12} />}
+          </button>
+        </div>
+
+        {/* Feedback — the reason goes back to the agent as the denial message */}
+        {expanded === "feedback" && (
+          <div className="mt-2 space-y-2" style={{ flexShrink: 0 }}>
+            <textarea
+              value={feedback}
+              onChange={(e) => setFeedback(e.target.value)}
+              rows={3}
+              autoFocus
+              placeholder="Tell Claude what to do instead..."
+              className="w-full bg-[#0a0a0a] border border-border rounded-lg px-3 py-2 text-sm text-foreground focus:outline-none focus:border-accent resize-none placeholder:text-muted"
+            />
+            <div className="flex items-center gap-3">
+              <label className="flex-1 flex items-center gap-2 text-xs text-muted">
+                <input type="checkbox" checked={interrupt} onChange={(e) => setInterrupt(e.target.checked)} />
+                Stop the turn
+              </label>
+              <button
+                onClick={() => onDeny(request.requestId, { message: feedback.trim() || undefined, interrupt })}
+                className="px-4 py-2.5 text-xs font-medium text-red-400 border border-red-400/40 rounded-xl hover:bg-red-400/10 transition-colors"
+              >
+                Deny{feedback.trim() ? " and send" : ""}
+              </button>
+            </div>
+          </div>
+        )}
+
+        {/* Always — save a rule so matching requests stop prompting */}
+        <div style={{ flexShrink: 0 }}>
+          {expanded === "always" && (
+            <div className="mt-2 space-y-2">
+              <input
+                value={rule}
+                onChange={(e) => setRule(e.target.value)}
+                className="w-full bg-[#0a0a0a] border border-border rounded-lg px-3 py-2 text-xs font-mono text-foreground focus:outline-none focus:border-accent"
+                aria-label="Rule"
+              />
+              <div className="flex rounded-lg border border-border overflow-hidden text-xs">
+                {(["project", "global"] as const).map((s) => (
+                  <button
+                    key={s}
+                    onClick={() => setScope(s)}
+                    className={`flex-1 py-1.5 ${scope === s ? "bg-border text-foreground" : "text-muted"}`}
+                  >
+                    {s === "project" ? "This project" : "All projects"}
+                  </button>
+                ))}
+              </div>
+              <div className="flex gap-3">
+                <button
+                  onClick={() => onDeny(request.requestId, { remember: remember() })}
+                  className="flex-1 py-2.5 text-xs font-medium text-red-400 border border-red-400/40 rounded-xl hover:bg-red-400/10 transition-colors"
+                >
+                  Deny always
+                </button>
+                <button
+                  onClick={() => allow(remember())}
+                  className="flex-1 py-2.5 text-xs font-medium text-green-400 border border-green-400/40 rounded-xl hover:bg-green-400/10 transition-colors"
+                >
+                  Allow always
+                </button>
+              </div>
+            </div>
+          )}
         </div>
       </div>
     </div>
@@ -127,5 +333,6 @@ export function PermissionModal(props: PermissionModalProps) {
   useEffect(() => setMounted(true), []);
 
   if (!mounted) return null;
-  return createPortal(<PermissionModalContent {...props} />, document.body);
+  // Keyed by request so edits and rule drafts start fresh when the queue advances
+  return createPortal(<PermissionModalContent key={props.request.requestId} {...props} />, document.body);
 }
@@ -0,0 +1,179 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { ShieldCheck, Plus, Trash2, Loader2, X } from "lucide-react";
+
+// Mirrors cc-server's GET /api/permissions/rules
+interface PermissionRule {
+  id: string;
+  rule: string;
+  behavior: "allow" | "deny";
+  projectPath: string | null;
+  createdAt: number;
+}
+
+interface PermissionRulesProps {
+  projectPath: string;
+  onClose: () => void;
+}
+
+/** Saved "always allow" / "always deny" rules for this project and all projects */
+export function PermissionRules({ projectPath, onClose }: PermissionRulesProps) {
+  const [rules, setRules] = useState<PermissionRule[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [draft, setDraft] = useState("");
+  const [behavior, setBehavior] = useState<"allow" | "deny">("allow");
+  const [global, setGlobal] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  const fetchRules = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const res = await fetch(`/api/permissions/rules?projectPath=${encodeURIComponent(projectPath)}`);
+      const data = await res.json();
+      if (!res.ok) {
+        setError(data.error || "Failed to load rules");
+        return;
+      }
+      setRules(data.rules);
+    } catch {
+      setError("Failed to connect to server");
+    } finally {
+      setLoading(false);
+    }
+  }, [projectPath]);
+
+  useEffect(() => {
+    fetchRules();
+  }, [fetchRules]);
+
+  const addRule = async () => {
+    if (!draft.trim()) return;
+    setSaving(true);
+    setError(null);
+    try {
+      const res = await fetch("/api/permissions/rules", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ rule: draft.trim(), behavior, projectPath: global ? null : projectPath }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        setError(data.error || "Failed to save rule");
+        return;
+      }
+      setDraft("");
+      await fetchRules();
+    } catch {
+      setError("Failed to connect to server");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const deleteRule = async (id: string) => {
+    try {
+      const res = await fetch(`/api/permissions/rules?id=${encodeURIComponent(id)}`, { method: "DELETE" });
+      const data = await res.json();
+      if (!res.ok) {
+        setError(data.error || "Failed to delete rule");
+        return;
+      }
+      setRules((prev) => prev.filter((r) => r.id !== id));
+    } catch {
+      setError("Failed to connect to server");
+    }
+  };
+
+  const sections = [
+    { label: "This project", rules: rules.filter((r) => r.projectPath !== null) },
+    { label: "All projects", rules: rules.filter((r) => r.projectPath === null) },
+  ];
+
+  return (
+    <div className="border-b border-border bg-card shrink-0 max-h-[60%] flex flex-col">
+      <div className="flex items-center gap-2 px-3 py-2 border-b border-border text-sm">
+        <ShieldCheck size={14} className="text-muted shrink-0" />
+        <span className="flex-1">Permission rules</span>
+        <button onClick={onClose} className="p-1 text-muted hover:text-foreground" aria-label="Close permission rules">
+          <X size={14} />
+        </button>
+      </div>
+
+      {/* Add rule */}
+      <div className="px-3 py-2 border-b border-border space-y-1.5">
+        <div className="flex items-center gap-2">
+          <input
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            onKeyDown={(e) => e.key === "Enter" && addRule()}
+            placeholder="Bash(npm test:*), Edit(src/**)..."
+            className="flex-1 min-w-0 bg-background border border-border rounded-md px-2 py-1 text-xs font-mono focus:outline-none focus:border-accent placeholder:text-muted"
+          />
+          <button
+            onClick={addRule}
+            disabled={!draft.trim() || saving}
+            className="p-1.5 text-muted hover:text-foreground disabled:opacity-30 shrink-0"
+            aria-label="Add rule"
+          >
+            {saving ? <Loader2 size={14} className="animate-spin" /> : <Plus size={14} />}
+          </button>
+        </div>
+        <div className="flex items-center gap-3 text-[11px] text-muted">
+          <button
+            onClick={() => setBehavior(behavior === "allow" ? "deny" : "allow")}
+            className={behavior === "allow" ? "text-green-400" : "text-red-400"}
+          >
+            {behavior === "allow" ? "Always allow" : "Always deny"}
+          </button>
+          <button onClick={() => setGlobal(!global)} className="hover:text-foreground">
+            {global ? "All projects" : "This project"}
+          </button>
+        </div>
+      </div>
+
+      <div className="overflow-y-auto">
+        {loading && (
+          <div className="flex justify-center py-4">
+            <Loader2 size={16} className="animate-spin text-muted" />
+          </div>
+        )}
+        {error && <div className="px-3 py-2 text-xs text-red-400">{error}</div>}
+        {!loading && rules.length === 0 && (
+          <div className="px-3 py-4 text-xs text-muted text-center">
+            No rules yet — use &quot;Allow always&quot; on a permission request or add one above
+          </div>
+        )}
+
+        {!loading &&
+          sections.map(
+            (section) =>
+              section.rules.length > 0 && (
+                <div key={section.label}>
+                  <div className="px-3 pt-2 pb-1 text-[10px] uppercase tracking-wide text-muted">{section.label}</div>
+                  <div className="divide-y divide-border">
+                    {section.rules.map((r) => (
+                      <div key={r.id} className="flex items-center gap-2 px-3 py-1.5 text-xs">
+                        <span className={`shrink-0 w-10 ${r.behavior === "allow" ? "text-green-400" : "text-red-400"}`}>
+                          {r.behavior}
+                        </span>
+                        <code className="flex-1 min-w-0 truncate">{r.rule}</code>
+                        <button
+                          onClick={() => deleteRule(r.id)}
+                          className="p-1 text-muted hover:text-red-400 shrink-0"
+                          aria-label="Delete rule"
+                        >
+                          <Trash2 size={13} />
+                        </button>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )
+          )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,313 @@
+"use client";
+
+import { useState, useEffect, useCallback, useRef } from "react";
+import { Plus, Play, Square, RotateCw, Trash2, Loader2, ChevronDown, ChevronRight } from "lucide-react";
+import { AnsiText } from "./AnsiText";
+import { formatElapsed } from "./ActiveQueries";
+
+// Mirrors cc-server's GET /api/processes
+interface ManagedProcess {
+  id: string;
+  name: string;
+  command: string;
+  status: "running" | "stopping" | "stopped" | "exited";
+  pid: number | null;
+  startedAt: number | null;
+  exitCode: number | null;
+  uptimeMs: number;
+  restarts: number;
+}
+
+// Mirrors cc-server's GET /api/processes/logs
+interface LogLine {
+  seq: number;
+  stream: "stdout" | "stderr" | "system";
+  text: string;
+}
+
+const LIST_POLL_MS = 3000;
+const LOG_POLL_MS = 1000;
+const MAX_LOG_LINES = 2000;
+
+const STATUS_DOT: Record<ManagedProcess["status"], string> = {
+  running: "bg-green-400",
+  stopping: "bg-amber-400 animate-pulse",
+  stopped: "bg-muted",
+  exited: "bg-red-400",
+};
+
+function statusText(p: ManagedProcess, now: number): string {
+  if (p.status === "running" && p.startedAt) return `up ${formatElapsed(now - p.startedAt)}`;
+  if (p.status === "stopping") return "stopping…";
+  if (p.status === "exited") return `exited ${p.exitCode ?? "?"}`;
+  return "stopped";
+}
+
+interface ProcessesPanelProps {
+  projectPath: string;
+  active: boolean;  // Only poll while the tab is showing
+}
+
+/** Long-running services for the project — dev servers and watchers that keep going with nobody connected */
+export function ProcessesPanel({ projectPath, active }: ProcessesPanelProps) {
+  const [processes, setProcesses] = useState<ManagedProcess[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [name, setName] = useState("");
+  const [command, setCommand] = useState("");
+  const [adding, setAdding] = useState(false);
+  const [busy, setBusy] = useState<string | null>(null);  // Process with a request in flight
+  const [selected, setSelected] = useState<string | null>(null);
+  const [logs, setLogs] = useState<LogLine[]>([]);
+  const [now, setNow] = useState(() => Date.now());
+  const cursorRef = useRef<number | null>(null);
+  const logRef = useRef<HTMLPreElement>(null);
+  const stickToBottomRef = useRef(true);
+
+  const fetchProcesses = useCallback(async () => {
+    try {
+      const res = await fetch(`/api/processes?projectPath=${encodeURIComponent(projectPath)}`);
+      const data = await res.json();
+      if (!res.ok) {
+        setError(data.error || "Failed to load processes");
+        return;
+      }
+      setProcesses(data.processes);
+    } catch {
+      setError("Failed to connect to server");
+    }
+  }, [projectPath]);
+
+  useEffect(() => {
+    if (!active) return;
+    fetchProcesses();
+    const poll = setInterval(fetchProcesses, LIST_POLL_MS);
+    const tick = setInterval(() => setNow(Date.now()), 1000);
+    return () => {
+      clearInterval(poll);
+      clearInterval(tick);
+    };
+  }, [active, fetchProcesses]);
+
+  // Follow the selected process's log — the cursor means each poll only brings new lines
+  useEffect(() => {
+    cursorRef.current = null;
+    stickToBottomRef.current = true;
+    setLogs([]);
+    if (!selected || !active) return;
+
+    let cancelled = false;
+    let inFlight = false;
+    const fetchLogs = async () => {
+      // A slow poll still running would fetch the same lines twice
+      if (inFlight) return;
+      inFlight = true;
+      const after = cursorRef.current === null ? "" : `&after=${cursorRef.current}`;
+      try {
+        const res = await fetch(`/api/processes/logs?id=${encodeURIComponent(selected)}${after}`);
+        const data = await res.json();
+        if (cancelled || !res.ok) return;
+        const lines: LogLine[] = data.truncated
+          ? [{ seq: -data.nextSeq - 1, stream: "system", text: "… earlier lines dropped" }, ...data.lines]
+          : data.lines;
+        cursorRef.current = data.nextSeq - 1;
+        if (lines.length > 0) setLogs((prev) => [...prev, ...lines].slice(-MAX_LOG_LINES));
+      } catch {
+        // Next poll tries again
+      } finally {
+        inFlight = false;
+      }
+    };
+    fetchLogs();
+    const poll = setInterval(fetchLogs, LOG_POLL_MS);
+    return () => {
+      cancelled = true;
+      clearInterval(poll);
+    };
+  }, [selected, active]);
+
+  useEffect(() => {
+    const el = logRef.current;
+    if (el && stickToBottomRef.current) el.scrollTop = el.scrollHeight;
+  }, [logs]);
+
+  const request = async (id: string | null, url: string, init: RequestInit, fallbackError: string) => {
+    setError(null);
+    setBusy(id);
+    try {
+      const res = await fetch(url, init);
+      const data = await res.json();
+      if (!res.ok) {
+        setError(data.error || fallbackError);
+        return null;
+      }
+      await fetchProcesses();
+      return data;
+    } catch {
+      setError("Failed to connect to server");
+      return null;
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const act = (id: string, action: "start" | "stop" | "restart") =>
+    request(id, `/api/processes/${action}`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ id }),
+    }, `Failed to ${action} process`);
+
+  const addProcess = async () => {
+    if (!name.trim() || !command.trim()) return;
+    setAdding(true);
+    const data = await request(null, "/api/processes", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ projectPath, name: name.trim(), command: command.trim() }),
+    }, "Failed to add process");
+    setAdding(false);
+    if (data) {
+      setName("");
+      setCommand("");
+      setSelected(data.process.id);
+    }
+  };
+
+  const deleteProcess = async (p: ManagedProcess) => {
+    if (!confirm(p.status === "running" ? `Stop and remove "${p.name}"?` : `Remove "${p.name}"?`)) return;
+    const data = await request(p.id, `/api/processes?id=${encodeURIComponent(p.id)}`, { method: "DELETE" }, "Failed to remove process");
+    if (data && selected === p.id) setSelected(null);
+  };
+
+  const iconButton = "p-1.5 text-muted hover:text-foreground disabled:opacity-30 shrink-0";
+
+  return (
+    <div className="flex flex-col h-full">
+      {/* Add a service */}
+      <div className="px-3 py-2 border-b border-border shrink-0">
+        <div className="flex items-center gap-2">
+          <input
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="Name: dev"
+            className="w-24 shrink-0 bg-background border border-border rounded-md px-2 py-1 text-xs focus:outline-none focus:border-accent placeholder:text-muted"
+          />
+          <input
+            value={command}
+            onChange={(e) => setCommand(e.target.value)}
+            onKeyDown={(e) => e.key === "Enter" && addProcess()}
+            placeholder="npm run dev"
+            autoCapitalize="off"
+            autoCorrect="off"
+            spellCheck={false}
+            className="flex-1 min-w-0 bg-background border border-border rounded-md px-2 py-1 text-xs font-mono focus:outline-none focus:border-accent placeholder:text-muted"
+          />
+          <button
+            onClick={addProcess}
+            disabled={!name.trim() || !command.trim() || adding}
+            className={iconButton}
+            aria-label="Add and start process"
+          >
+            {adding ? <Loader2 size={14} className="animate-spin" /> : <Plus size={14} />}
+          </button>
+        </div>
+      </div>
+
+      {error && <div className="px-3 py-2 text-xs text-red-400 shrink-0">{error}</div>}
+
+      {processes === null && !error && (
+        <div className="flex justify-center py-8">
+          <Loader2 size={18} className="animate-spin text-muted" />
+        </div>
+      )}
+      {processes?.length === 0 && (
+        <div className="px-4 py-8 text-sm text-muted text-center">
+          Add a dev server or watcher — it keeps running after you close the app
+        </div>
+      )}
+
+      <div className="divide-y divide-border border-b border-border shrink-0 max-h-[45%] overflow-y-auto">
+        {processes?.map((p) => {
+          const alive = p.status === "running" || p.status === "stopping";
+          const isSelected = selected === p.id;
+          return (
+            <div key={p.id} className={`flex items-center gap-2 px-3 py-2 ${isSelected ? "bg-card" : ""}`}>
+              <button
+                onClick={() => setSelected(isSelected ? null : p.id)}
+                className="flex-1 min-w-0 flex items-center gap-2 text-left"
+              >
+                {isSelected ? (
+                  <ChevronDown size={14} className="text-muted shrink-0" />
+                ) : (
+                  <ChevronRight size={14} className="text-muted shrink-0" />
+                )}
+                <span className={`w-1.5 h-1.5 rounded-full shrink-0 ${STATUS_DOT[p.status]}`} />
+                <div className="min-w-0">
+                  <div className="text-sm truncate">{p.name}</div>
+                  <div className="flex items-center gap-2 text-[11px] text-muted">
+                    <span className="truncate font-mono">{p.command}</span>
+                    <span className="tabular-nums shrink-0">{statusText(p, now)}</span>
+                    {p.restarts > 0 && <span className="shrink-0">↻{p.restarts}</span>}
+                  </div>
+                </div>
+              </button>
+              {busy === p.id ? (
+                <Loader2 size={14} className="animate-spin text-muted mx-1.5 shrink-0" />
+              ) : (
+                <>
+                  {alive ? (
+                    <button
+                      onClick={() => act(p.id, "stop")}
+                      disabled={p.status === "stopping"}
+                      className={iconButton}
+                      aria-label="Stop"
+                    >
+                      <Square size={14} />
+                    </button>
+                  ) : (
+                    <button onClick={() => act(p.id, "start")} className={iconButton} aria-label="Start">
+                      <Play size={14} />
+                    </button>
+                  )}
+                  <button
+                    onClick={() => act(p.id, "restart")}
+                    disabled={p.status === "stopping"}
+                    className={iconButton}
+                    aria-label="Restart"
+                  >
+                    <RotateCw size={14} />
+                  </button>
+                  <button
+                    onClick={() => deleteProcess(p)}
+                    className="p-1.5 text-muted hover:text-red-400 shrink-0"
+                    aria-label="Remove"
+                  >
+                    <Trash2 size={14} />
+                  </button>
+                </>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      {selected && (
+        <pre
+          ref={logRef}
+          onScroll={(e) => {
+            const el = e.currentTarget;
+            stickToBottomRef.current = el.scrollHeight - el.scrollTop - el.clientHeight < 24;
+          }}
+          className="flex-1 overflow-auto px-3 py-2 text-xs font-mono whitespace-pre-wrap break-all"
+        >
+          {logs.length === 0 && <span className="text-muted">No output yet</span>}
+          {logs.map((line) => (
+            <div key={line.seq} className={line.stream === "system" ? "text-muted italic" : undefined}>
+              <AnsiText text={line.text || " "} />
+            </div>
+          ))}
+        </pre>
+      )}
+    </div>
+  );
+}
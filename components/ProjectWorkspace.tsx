@@ -2,20 +2,24 @@
 
 import { useState, useEffect } from "react";
 import Link from "next/link";
-import { Folder, TerminalSquare, FileText, MessageSquare, ChevronLeft, Home, HelpCircle } from "lucide-react";
+import { Folder, TerminalSquare, FileText, MessageSquare, ChevronLeft, Home, HelpCircle, GitCompareArrows, Server } from "lucide-react";
 import { LogoutButton } from "./LogoutButton";
 import { FileBrowser } from "./FileBrowser";
 import { FileViewer } from "./FileViewer";
 import { Terminal } from "./Terminal";
 import { ChatInterface } from "./ChatInterface";
+import { GitChanges } from "./GitChanges";
+import { ProcessesPanel } from "./ProcessesPanel";
 
-type Tab = "browse" | "file" | "chat" | "terminal" | "help";
+type Tab = "browse" | "file" | "changes" | "chat" | "terminal" | "processes" | "help";
 
 const tabs = [
   { id: "browse" as const, label: "Browse", icon: Folder },
   { id: "file" as const, label: "File", icon: FileText },
+  { id: "changes" as const, label: "Changes", icon: GitCompareArrows },
   { id: "chat" as const, label: "Chat", icon: MessageSquare },
   { id: "terminal" as const, label: "Terminal", icon: TerminalSquare },
+  { id: "processes" as const, label: "Processes", icon: Server },
   { id: "help" as const, label: "Help", icon: HelpCircle },
 ];
 
@@ -32,15 +36,24 @@ export function ProjectWorkspace({ projectPath }: ProjectWorkspaceProps) {
     return projectPath;
   });
   const [viewingFile, setViewingFile] = useState<string | null>(null);
+  const [viewingLine, setViewingLine] = useState<number | undefined>(undefined);
   const [browseRefreshKey, setBrowseRefreshKey] = useState(0);
+  const [changesRefreshKey, setChangesRefreshKey] = useState(0);
+
+  // Deep links (e.g. from a push notification) open a specific tab: ?tab=chat
+  useEffect(() => {
+    const tab = new URLSearchParams(window.location.search).get("tab");
+    if (tab && tabs.some((t) => t.id === tab)) setActiveTab(tab as Tab);
+  }, []);
 
   // Persist browse path to sessionStorage
   useEffect(() => {
     sessionStorage.setItem(`cc-browse-${projectPath}`, browsePath);
   }, [projectPath, browsePath]);
 
-  const handleFileSelect = (filePath: string) => {
+  const handleFileSelect = (filePath: string, line?: number) => {
     setViewingFile(filePath);
+    setViewingLine(line);
     setActiveTab("file");
   };
 
@@ -79,11 +92,15 @@ export function ProjectWorkspace({ projectPath }: ProjectWorkspaceProps) {
         ? `Chat - ${projectName}`
         : activeTab === "terminal"
           ? `Terminal - ${projectName}`
-          : activeTab === "help"
-            ? "Help"
-            : viewingFile
-              ? viewingFile.split("/").pop() || "File"
-              : "File";
+          : activeTab === "processes"
+            ? `Processes - ${projectName}`
+            : activeTab === "changes"
+              ? `Changes - ${projectName}`
+              : activeTab === "help"
+                ? "Help"
+                : viewingFile
+                  ? viewingFile.split("/").pop() || "File"
+                  : "File";
 
   return (
     <div className="flex flex-col h-[100dvh]">
@@ -117,6 +134,7 @@ export function ProjectWorkspace({ projectPath }: ProjectWorkspaceProps) {
             onNavigate={handleNavigate}
             onStartChat={() => setActiveTab("chat")}
             refreshKey={browseRefreshKey}
+            searchRoot={projectPath}
           />
         </div>
 
@@ -128,9 +146,22 @@ export function ProjectWorkspace({ projectPath }: ProjectWorkspaceProps) {
           <Terminal projectPath={projectPath} />
         </div>
 
+        <div className={`absolute inset-0 ${activeTab !== "processes" ? "hidden" : ""}`}>
+          <ProcessesPanel projectPath={projectPath} active={activeTab === "processes"} />
+        </div>
+
         <div className={`absolute inset-0 overflow-y-auto ${activeTab !== "file" ? "hidden" : ""}`}>
           {viewingFile ? (
-            <FileViewer path={viewingFile} />
+            <FileViewer
+              path={viewingFile}
+              line={viewingLine}
+              onRenamed={(newPath) => setViewingFile(newPath)}
+              onDeleted={() => {
+                setViewingFile(null);
+                setActiveTab("browse");
+                setBrowseRefreshKey((k) => k + 1);
+              }}
+            />
           ) : (
             <div className="flex items-center justify-center h-full text-muted">
               Select a file from Browse
@@ -138,6 +169,10 @@ export function ProjectWorkspace({ projectPath }: ProjectWorkspaceProps) {
           )}
         </div>
 
+        <div className={`absolute inset-0 overflow-y-auto ${activeTab !== "changes" ? "hidden" : ""}`}>
+          <GitChanges projectPath={projectPath} refreshKey={changesRefreshKey} />
+        </div>
+
         <div className={`absolute inset-0 overflow-y-auto ${activeTab !== "help" ? "hidden" : ""}`}>
           <div className="px-4 py-5 max-w-lg mx-auto space-y-6 text-sm">
             <section>
@@ -160,14 +195,28 @@ export function ProjectWorkspace({ projectPath }: ProjectWorkspaceProps) {
             <section>
               <h3 className="text-sm font-semibold text-foreground mb-1.5">Terminal</h3>
               <p className="text-muted leading-relaxed">
-                Run shell commands directly on your local computer. Useful for git operations, running builds, checking logs, or anything you&apos;d do in a terminal. Commands run in your project directory.
+                Run shell commands directly on your local computer. Useful for git operations, running builds, checking logs, or anything you&apos;d do in a terminal. Commands run in your project directory. Switch to Shell for an interactive session that keeps its directory and variables between commands and stays running while you&apos;re away.
+              </p>
+            </section>
+
+            <section>
+              <h3 className="text-sm font-semibold text-foreground mb-1.5">Processes</h3>
+              <p className="text-muted leading-relaxed">
+                Keep dev servers and watchers running — <code className="bg-card px-1 py-0.5 rounded border border-border">npm run dev</code>, a test watcher, <code className="bg-card px-1 py-0.5 rounded border border-border">docker compose up</code>. Give each one a name and a command, then start, stop or restart it and tap it to follow its output. They keep going when you close the app, and stop when cc-server does.
               </p>
             </section>
 
             <section>
               <h3 className="text-sm font-semibold text-foreground mb-1.5">Browse &amp; File</h3>
               <p className="text-muted leading-relaxed">
-                Navigate your project&apos;s file tree and view file contents with syntax highlighting. Tap a file in Browse to open it in the File tab.
+                Navigate your project&apos;s file tree and view file contents with syntax highlighting. Use the search bar to find files by name or search their contents — tapping a match jumps straight to that line. Tap a file in Browse to open it in the File tab, where you can edit, rename, or delete it. If the file changed on disk while you were editing, you&apos;ll be asked to reload or overwrite.
+              </p>
+            </section>
+
+            <section>
+              <h3 className="text-sm font-semibold text-foreground mb-1.5">Changes</h3>
+              <p className="text-muted leading-relaxed">
+                See what changed in the project&apos;s git working tree. Tap a file for a side-by-side diff, stage or unstage it with the +/− button, then write a message and commit. Tap the branch name to switch branches or create a new one.
               </p>
             </section>
 
@@ -215,6 +264,7 @@ export function ProjectWorkspace({ projectPath }: ProjectWorkspaceProps) {
               <h3 className="text-sm font-semibold text-foreground mb-1.5">Good to Know</h3>
               <ul className="text-muted text-xs leading-relaxed space-y-1.5 list-disc list-inside">
                 <li>Sessions persist — close the app and come back, your conversation continues</li>
+                <li>Tap the bell in Chat to get a push notification when a query finishes, fails, or needs permission — tapping it opens the chat tab</li>
                 <li>The SDK loads your project&apos;s CLAUDE.md, MCP servers, and plugins automatically</li>
                 <li>Running in <span className="text-foreground">bypass permissions</span> mode — Claude won&apos;t ask before editing files or running commands</li>
                 <li>Context compaction happens automatically when the conversation gets long</li>
@@ -236,6 +286,7 @@ export function ProjectWorkspace({ projectPath }: ProjectWorkspaceProps) {
               onClick={() => {
                 setActiveTab(tab.id);
                 if (tab.id === "browse") setBrowseRefreshKey((k) => k + 1);
+                if (tab.id === "changes") setChangesRefreshKey((k) => k + 1);
               }}
               className={`flex-1 flex flex-col items-center gap-1 py-2.5 transition-colors ${
                 isActive
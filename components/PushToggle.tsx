@@ -0,0 +1,62 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { Bell, BellOff, Loader2 } from "lucide-react";
+import { isPushSupported, getPushSubscription, enablePush, disablePush } from "@/lib/push";
+
+interface PushToggleProps {
+  compact?: boolean;
+}
+
+/** Bell button — subscribe this device to "done / needs permission / error" notifications */
+export function PushToggle({ compact = false }: PushToggleProps) {
+  const [supported, setSupported] = useState(false);
+  const [enabled, setEnabled] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isPushSupported()) return;
+    setSupported(true);
+    getPushSubscription()
+      .then((sub) => setEnabled(!!sub && Notification.permission === "granted"))
+      .catch(() => {});
+  }, []);
+
+  if (!supported) return null;
+
+  const toggle = async () => {
+    setBusy(true);
+    setError(null);
+    try {
+      if (enabled) {
+        await disablePush();
+        setEnabled(false);
+      } else {
+        await enablePush();
+        setEnabled(true);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to update notifications");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const size = compact ? 13 : 14;
+  const Icon = busy ? Loader2 : enabled ? Bell : BellOff;
+
+  return (
+    <button
+      onClick={toggle}
+      disabled={busy}
+      title={error ?? (enabled ? "Notifications on — tap to turn off" : "Notify me when a query finishes or needs permission")}
+      className={`flex items-center gap-1.5 ${compact ? "px-2.5 py-1" : "px-3 py-1.5"} text-xs border rounded-md hover:bg-card transition-colors disabled:opacity-50 ${
+        error ? "text-red-400 border-red-400/40" : enabled ? "text-accent border-accent/40" : "text-muted hover:text-foreground border-border"
+      }`}
+    >
+      <Icon size={size} className={busy ? "animate-spin" : ""} />
+      {!compact && (enabled ? "Notifying" : "Notify")}
+    </button>
+  );
+}
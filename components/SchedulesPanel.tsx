@@ -0,0 +1,349 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { CalendarClock, Plus, Play, Trash2, Loader2, X, ChevronRight, ChevronDown, Pause } from "lucide-react";
+import { ModeSelector, type ChatMode } from "./ModeSelector";
+
+// Mirrors cc-server's /api/schedules
+interface Schedule {
+  id: string;
+  name: string;
+  cron: string;
+  projectPath: string;
+  prompt: string;
+  permissionMode: ChatMode;
+  budgetCapUsd?: number;
+  maxTurns?: number;
+  enabled: boolean;
+  nextRunAt: number | null;
+}
+
+interface ScheduleRun {
+  id: string;
+  scheduleId: string;
+  trigger: "cron" | "manual";
+  status: "running" | "completed" | "error" | "aborted";
+  startedAt: number;
+  finishedAt?: number;
+  sessionId?: string;
+  costUsd?: number;
+  numTurns?: number;
+  result?: string;
+  error?: string;
+}
+
+interface SchedulesPanelProps {
+  projectPath: string;
+  onOpenRun: (sessionId: string, costUsd: number) => void;
+  onClose: () => void;
+}
+
+const CRON_PRESETS = [
+  { label: "Nightly", value: "0 3 * * *" },
+  { label: "Weekdays 9am", value: "0 9 * * 1-5" },
+  { label: "Mondays", value: "0 9 * * 1" },
+  { label: "Hourly", value: "@hourly" },
+];
+
+const BUDGET_PRESETS = [
+  { label: "$1", value: 1 },
+  { label: "$5", value: 5 },
+  { label: "$25", value: 25 },
+  { label: "None", value: null },
+];
+
+const TURN_PRESETS = [
+  { label: "10", value: 10 },
+  { label: "25", value: 25 },
+  { label: "50", value: 50 },
+  { label: "Auto", value: null },
+];
+
+const STATUS_STYLES: Record<ScheduleRun["status"], string> = {
+  running: "text-accent",
+  completed: "text-green-400",
+  error: "text-red-400",
+  aborted: "text-amber-400",
+};
+
+const EMPTY_DRAFT = {
+  name: "",
+  cron: "0 3 * * *",
+  prompt: "",
+  permissionMode: "acceptEdits" as ChatMode,
+  budgetCapUsd: 5 as number | null,
+  maxTurns: 25 as number | null,
+};
+
+function PresetButtons<T>({ presets, value, onChange }: {
+  presets: { label: string; value: T }[];
+  value: T;
+  onChange: (value: T) => void;
+}) {
+  return (
+    <div className="flex gap-1">
+      {presets.map((p) => (
+        <button
+          key={p.label}
+          onClick={() => onChange(p.value)}
+          className={`px-2.5 py-1 text-xs rounded-md transition-colors ${
+            value === p.value ? "bg-accent text-white" : "bg-card border border-border text-muted hover:text-foreground"
+          }`}
+        >
+          {p.label}
+        </button>
+      ))}
+    </div>
+  );
+}
+
+/** Recurring unattended runs for this project, and what each of them did */
+export function SchedulesPanel({ projectPath, onOpenRun, onClose }: SchedulesPanelProps) {
+  const [schedules, setSchedules] = useState<Schedule[]>([]);
+  const [runs, setRuns] = useState<ScheduleRun[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [creating, setCreating] = useState(false);
+  const [draft, setDraft] = useState(EMPTY_DRAFT);
+  const [saving, setSaving] = useState(false);
+  const [expanded, setExpanded] = useState<string | null>(null);
+
+  const fetchAll = useCallback(async () => {
+    try {
+      const query = `projectPath=${encodeURIComponent(projectPath)}`;
+      const [schedulesRes, runsRes] = await Promise.all([
+        fetch(`/api/schedules?${query}`),
+        fetch(`/api/schedules/runs?${query}`),
+      ]);
+      const [schedulesData, runsData] = await Promise.all([schedulesRes.json(), runsRes.json()]);
+      if (!schedulesRes.ok || !runsRes.ok) {
+        setError(schedulesData.error || runsData.error || "Failed to load schedules");
+        return;
+      }
+      setSchedules(schedulesData.schedules);
+      setRuns(runsData.runs);
+    } catch {
+      setError("Failed to connect to server");
+    } finally {
+      setLoading(false);
+    }
+  }, [projectPath]);
+
+  useEffect(() => {
+    fetchAll();
+  }, [fetchAll]);
+
+  // Keep an eye on runs in progress
+  const anyRunning = runs.some((r) => r.status === "running");
+  useEffect(() => {
+    if (!anyRunning) return;
+    const timer = setInterval(fetchAll, 10_000);
+    return () => clearInterval(timer);
+  }, [anyRunning, fetchAll]);
+
+  const request = async (url: string, init: RequestInit, fallbackError: string): Promise<boolean> => {
+    setError(null);
+    try {
+      const res = await fetch(url, init);
+      const data = await res.json();
+      if (!res.ok) {
+        setError(data.error || fallbackError);
+        return false;
+      }
+      await fetchAll();
+      return true;
+    } catch {
+      setError("Failed to connect to server");
+      return false;
+    }
+  };
+
+  const sendJson = (method: "POST" | "PATCH", body: unknown): RequestInit => ({
+    method,
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  });
+
+  const createSchedule = async () => {
+    if (!draft.name.trim() || !draft.prompt.trim()) return;
+    setSaving(true);
+    const { budgetCapUsd, maxTurns, ...rest } = draft;
+    const created = await request(
+      "/api/schedules",
+      sendJson("POST", {
+        ...rest,
+        projectPath,
+        enabled: true,
+        ...(budgetCapUsd ? { budgetCapUsd } : {}),
+        ...(maxTurns ? { maxTurns } : {}),
+      }),
+      "Failed to create schedule"
+    );
+    setSaving(false);
+    if (created) {
+      setDraft(EMPTY_DRAFT);
+      setCreating(false);
+    }
+  };
+
+  const setEnabled = (s: Schedule, enabled: boolean) =>
+    request("/api/schedules", sendJson("PATCH", { id: s.id, enabled }), "Failed to update schedule");
+
+  const runNow = async (s: Schedule) => {
+    if (await request("/api/schedules/run", sendJson("POST", { id: s.id }), "Failed to start run")) setExpanded(s.id);
+  };
+
+  const deleteSchedule = (s: Schedule) => {
+    if (!confirm(`Delete "${s.name}" and its run history?`)) return;
+    request(`/api/schedules?id=${encodeURIComponent(s.id)}`, { method: "DELETE" }, "Failed to delete schedule");
+  };
+
+  return (
+    <div className="border-b border-border bg-card shrink-0 max-h-[70%] flex flex-col">
+      <div className="flex items-center gap-2 px-3 py-2 border-b border-border text-sm">
+        <CalendarClock size={14} className="text-muted shrink-0" />
+        <span className="flex-1">Schedules</span>
+        <button onClick={() => setCreating(!creating)} className="p-1 text-muted hover:text-foreground" aria-label="New schedule">
+          <Plus size={14} />
+        </button>
+        <button onClick={onClose} className="p-1 text-muted hover:text-foreground" aria-label="Close schedules">
+          <X size={14} />
+        </button>
+      </div>
+
+      <div className="overflow-y-auto">
+        {creating && (
+          <div className="px-3 py-2 border-b border-border space-y-2">
+            <input
+              value={draft.name}
+              onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+              placeholder="Name — e.g. Nightly dependency update"
+              className="w-full bg-background border border-border rounded-md px-2 py-1 text-xs focus:outline-none focus:border-accent placeholder:text-muted"
+            />
+            <textarea
+              value={draft.prompt}
+              onChange={(e) => setDraft({ ...draft, prompt: e.target.value })}
+              placeholder="Update dependencies, run the tests, and fix anything that breaks"
+              rows={3}
+              className="w-full bg-background border border-border rounded-md px-2 py-1 text-xs resize-none focus:outline-none focus:border-accent placeholder:text-muted"
+            />
+            <div className="space-y-1">
+              <input
+                value={draft.cron}
+                onChange={(e) => setDraft({ ...draft, cron: e.target.value })}
+                placeholder="0 3 * * *"
+                className="w-full bg-background border border-border rounded-md px-2 py-1 text-xs font-mono focus:outline-none focus:border-accent placeholder:text-muted"
+              />
+              <PresetButtons presets={CRON_PRESETS} value={draft.cron} onChange={(cron) => setDraft({ ...draft, cron })} />
+            </div>
+            <ModeSelector mode={draft.permissionMode} onChange={(permissionMode) => setDraft({ ...draft, permissionMode })} />
+            <div className="flex flex-wrap gap-x-4 gap-y-2">
+              <div>
+                <label className="text-[11px] text-muted block mb-1">Budget cap</label>
+                <PresetButtons presets={BUDGET_PRESETS} value={draft.budgetCapUsd} onChange={(budgetCapUsd) => setDraft({ ...draft, budgetCapUsd })} />
+              </div>
+              <div>
+                <label className="text-[11px] text-muted block mb-1">Max turns</label>
+                <PresetButtons presets={TURN_PRESETS} value={draft.maxTurns} onChange={(maxTurns) => setDraft({ ...draft, maxTurns })} />
+              </div>
+            </div>
+            <p className="text-[11px] text-muted">
+              Nobody is there to answer permission prompts — anything your permission rules don&apos;t allow is denied.
+            </p>
+            <button
+              onClick={createSchedule}
+              disabled={!draft.name.trim() || !draft.prompt.trim() || saving}
+              className="flex items-center gap-1.5 px-3 py-1 text-xs bg-accent text-white rounded-md disabled:opacity-30"
+            >
+              {saving && <Loader2 size={12} className="animate-spin" />}
+              Create schedule
+            </button>
+          </div>
+        )}
+
+        {loading && (
+          <div className="flex justify-center py-4">
+            <Loader2 size={16} className="animate-spin text-muted" />
+          </div>
+        )}
+        {error && <div className="px-3 py-2 text-xs text-red-400">{error}</div>}
+        {!loading && schedules.length === 0 && !creating && (
+          <div className="px-3 py-4 text-xs text-muted text-center">
+            No schedules yet — tap + to run a prompt on a timer
+          </div>
+        )}
+
+        <div className="divide-y divide-border">
+          {schedules.map((s) => {
+            const scheduleRuns = runs.filter((r) => r.scheduleId === s.id);
+            const isOpen = expanded === s.id;
+            return (
+              <div key={s.id}>
+                <div className="flex items-center gap-2 px-3 py-2 text-xs">
+                  <button onClick={() => setExpanded(isOpen ? null : s.id)} className="flex items-start gap-1 flex-1 min-w-0 text-left">
+                    {isOpen ? <ChevronDown size={13} className="mt-0.5 shrink-0" /> : <ChevronRight size={13} className="mt-0.5 shrink-0" />}
+                    <div className="min-w-0">
+                      <div className={`truncate ${s.enabled ? "" : "text-muted"}`}>{s.name}</div>
+                      <div className="text-[11px] text-muted truncate">
+                        <code>{s.cron}</code>
+                        {s.enabled && s.nextRunAt ? ` · next ${new Date(s.nextRunAt).toLocaleString()}` : " · paused"}
+                      </div>
+                    </div>
+                  </button>
+                  <button
+                    onClick={() => runNow(s)}
+                    disabled={scheduleRuns.some((r) => r.status === "running")}
+                    className="p-1 text-muted hover:text-foreground disabled:opacity-30 shrink-0"
+                    aria-label="Run now"
+                  >
+                    <Play size={13} />
+                  </button>
+                  <button
+                    onClick={() => setEnabled(s, !s.enabled)}
+                    className={`p-1 shrink-0 ${s.enabled ? "text-muted hover:text-foreground" : "text-amber-400"}`}
+                    aria-label={s.enabled ? "Pause schedule" : "Resume schedule"}
+                  >
+                    <Pause size={13} />
+                  </button>
+                  <button onClick={() => deleteSchedule(s)} className="p-1 text-muted hover:text-red-400 shrink-0" aria-label="Delete schedule">
+                    <Trash2 size={13} />
+                  </button>
+                </div>
+
+                {isOpen && (
+                  <div className="pl-8 pr-3 pb-2 space-y-1">
+                    <p className="text-[11px] text-muted whitespace-pre-wrap line-clamp-3">{s.prompt}</p>
+                    {scheduleRuns.length === 0 && <p className="text-[11px] text-muted">No runs yet</p>}
+                    {scheduleRuns.map((r) => (
+                      <button
+                        key={r.id}
+                        onClick={() => r.sessionId && onOpenRun(r.sessionId, r.costUsd ?? 0)}
+                        disabled={!r.sessionId}
+                        className="w-full text-left px-2 py-1.5 bg-background border border-border rounded-md hover:border-accent disabled:hover:border-border"
+                      >
+                        <div className="flex items-center gap-2 text-[11px]">
+                          <span className={STATUS_STYLES[r.status]}>
+                            {r.status === "running" ? <Loader2 size={11} className="inline animate-spin" /> : r.status}
+                          </span>
+                          <span className="text-muted flex-1 truncate">
+                            {new Date(r.startedAt).toLocaleString()}
+                            {r.trigger === "manual" ? " · manual" : ""}
+                          </span>
+                          {r.costUsd !== undefined && <span className="text-muted">${r.costUsd.toFixed(2)}</span>}
+                          {r.numTurns !== undefined && <span className="text-muted">{r.numTurns} turns</span>}
+                        </div>
+                        {(r.error || r.result) && (
+                          <p className={`text-[11px] mt-0.5 line-clamp-2 ${r.error ? "text-red-400" : ""}`}>{r.error || r.result}</p>
+                        )}
+                      </button>
+                    ))}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,161 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { Search, Trash2, GitFork, Loader2, X } from "lucide-react";
+
+// Mirrors cc-server's GET /api/chat/sessions
+export interface SessionSummary {
+  sessionId: string;
+  title: string;
+  summary?: string;
+  model: string;
+  lastActivity: number;
+  totalCostUsd: number;
+  messageCount: number;
+  forkedFrom?: string;
+  queryActive: boolean;
+}
+
+interface SessionPickerProps {
+  projectPath: string;
+  currentSessionId: string | null;
+  onResume: (session: SessionSummary) => void;
+  onDeleted: (sessionId: string) => void;
+  onClose: () => void;
+}
+
+/** Past sessions for the project — tap one to resume it */
+export function SessionPicker({ projectPath, currentSessionId, onResume, onDeleted, onClose }: SessionPickerProps) {
+  const [sessions, setSessions] = useState<SessionSummary[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [search, setSearch] = useState("");
+  const [confirmDelete, setConfirmDelete] = useState<string | null>(null);
+
+  const fetchSessions = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const res = await fetch(`/api/chat/sessions?projectPath=${encodeURIComponent(projectPath)}`);
+      const data = await res.json();
+      if (!res.ok) {
+        setError(data.error || "Failed to load sessions");
+        return;
+      }
+      setSessions(data.sessions);
+    } catch {
+      setError("Failed to connect to server");
+    } finally {
+      setLoading(false);
+    }
+  }, [projectPath]);
+
+  useEffect(() => {
+    fetchSessions();
+  }, [fetchSessions]);
+
+  const deleteSession = async (sessionId: string) => {
+    setConfirmDelete(null);
+    try {
+      const res = await fetch(`/api/chat/sessions?sessionId=${encodeURIComponent(sessionId)}`, { method: "DELETE" });
+      const data = await res.json();
+      if (!res.ok) {
+        setError(data.error || "Failed to delete session");
+        return;
+      }
+      setSessions((prev) => prev.filter((s) => s.sessionId !== sessionId));
+      onDeleted(sessionId);
+    } catch {
+      setError("Failed to connect to server");
+    }
+  };
+
+  const needle = search.trim().toLowerCase();
+  const visible = needle ? sessions.filter((s) => s.title.toLowerCase().includes(needle)) : sessions;
+  const titleOf = (id: string) => sessions.find((s) => s.sessionId === id)?.title;
+
+  return (
+    <div className="border-b border-border bg-card shrink-0 max-h-[60%] flex flex-col">
+      <div className="flex items-center gap-2 px-3 py-2 border-b border-border">
+        <Search size={14} className="text-muted shrink-0" />
+        <input
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          placeholder="Search sessions..."
+          className="flex-1 min-w-0 bg-transparent text-sm focus:outline-none placeholder:text-muted"
+        />
+        <button onClick={onClose} className="p-1 text-muted hover:text-foreground" aria-label="Close sessions">
+          <X size={14} />
+        </button>
+      </div>
+
+      <div className="overflow-y-auto divide-y divide-border">
+        {loading && (
+          <div className="flex justify-center py-4">
+            <Loader2 size={16} className="animate-spin text-muted" />
+          </div>
+        )}
+        {error && <div className="px-3 py-2 text-xs text-red-400">{error}</div>}
+        {!loading && !error && visible.length === 0 && (
+          <div className="px-3 py-4 text-xs text-muted text-center">
+            {needle ? "No matching sessions" : "No past sessions for this project"}
+          </div>
+        )}
+
+        {!loading &&
+          visible.map((s) => {
+            const current = s.sessionId === currentSessionId;
+            const parentTitle = s.forkedFrom ? titleOf(s.forkedFrom) : undefined;
+            return (
+              <div key={s.sessionId} className={`flex items-center gap-2 px-3 py-2 ${current ? "bg-accent/10" : ""}`}>
+                <button onClick={() => onResume(s)} disabled={current} className="flex-1 min-w-0 text-left">
+                  <div className="flex items-center gap-1.5 text-sm truncate">
+                    {s.queryActive && <span className="w-1.5 h-1.5 rounded-full bg-accent animate-pulse shrink-0" />}
+                    <span className="truncate">{s.title}</span>
+                    {current && <span className="text-[10px] text-accent shrink-0">current</span>}
+                  </div>
+                  {s.summary && <p className="text-xs text-muted mt-0.5 line-clamp-2">{s.summary}</p>}
+                  <div className="flex items-center gap-2 text-[11px] text-muted mt-0.5">
+                    <span>{new Date(s.lastActivity).toLocaleString()}</span>
+                    <span>{s.messageCount} msgs</span>
+                    <span className="tabular-nums">${s.totalCostUsd.toFixed(2)}</span>
+                  </div>
+                  {s.forkedFrom && (
+                    <div className="flex items-center gap-1 text-[11px] text-muted mt-0.5 truncate">
+                      <GitFork size={11} className="shrink-0" />
+                      <span className="truncate">forked from {parentTitle ?? s.forkedFrom.slice(0, 8)}</span>
+                    </div>
+                  )}
+                </button>
+                {confirmDelete === s.sessionId ? (
+                  <div className="flex items-center gap-1 shrink-0">
+                    <button
+                      onClick={() => deleteSession(s.sessionId)}
+                      className="px-2 py-1 text-xs text-red-400 border border-red-400/40 rounded-md hover:bg-red-400/10"
+                    >
+                      Delete
+                    </button>
+                    <button
+                      onClick={() => setConfirmDelete(null)}
+                      className="px-2 py-1 text-xs text-muted border border-border rounded-md hover:text-foreground"
+                    >
+                      Cancel
+                    </button>
+                  </div>
+                ) : (
+                  <button
+                    onClick={() => setConfirmDelete(s.sessionId)}
+                    disabled={s.queryActive}
+                    className="p-1.5 text-muted hover:text-red-400 disabled:opacity-30 shrink-0"
+                    aria-label="Delete session"
+                  >
+                    <Trash2 size={14} />
+                  </button>
+                )}
+              </div>
+            );
+          })}
+      </div>
+    </div>
+  );
+}
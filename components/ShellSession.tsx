@@ -0,0 +1,384 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import { Loader2, RotateCcw } from "lucide-react";
+import type { Terminal as XTerm } from "@xterm/xterm";
+import type { FitAddon } from "@xterm/addon-fit";
+import "@xterm/xterm/css/xterm.css";
+
+interface ShellSessionProps {
+  projectPath: string;
+}
+
+interface TerminalEvent {
+  type: string;
+  data: Record<string, unknown> | string;
+  index?: number;
+}
+
+type ShellState = "starting" | "connected" | "disconnected" | "exited" | "error";
+
+const SHELL_STORAGE_PREFIX = "cc-terminal-shell-";
+const MAX_AUTO_RECONNECTS = 3;
+const RESIZE_DEBOUNCE_MS = 150;
+
+// Keys missing from phone keyboards — arrows follow the shell's cursor key mode (vim, htop, less)
+const EXTRA_KEYS: { label: string; data: string | { arrow: string } }[] = [
+  { label: "Esc", data: "\x1b" },
+  { label: "Tab", data: "\t" },
+  { label: "^C", data: "\x03" },
+  { label: "^D", data: "\x04" },
+  { label: "←", data: { arrow: "D" } },
+  { label: "↑", data: { arrow: "A" } },
+  { label: "↓", data: { arrow: "B" } },
+  { label: "→", data: { arrow: "C" } },
+];
+
+/** Read `data:` lines from a terminal SSE stream */
+async function readTerminalEvents(body: ReadableStream<Uint8Array>, onEvent: (event: TerminalEvent) => void) {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split("\n");
+    buffer = lines.pop() || "";
+
+    for (const line of lines) {
+      if (!line.startsWith("data: ")) continue;
+      try {
+        onEvent(JSON.parse(line.slice(6)));
+      } catch {
+        // skip malformed SSE lines
+      }
+    }
+  }
+}
+
+/**
+ * Interactive shell on a server-side pseudo-terminal. The shell outlives the
+ * page: its id is kept per project, so reloading or coming back to the tab
+ * replays the buffered output and picks up where it left off.
+ */
+export function ShellSession({ projectPath }: ShellSessionProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const termRef = useRef<XTerm | null>(null);
+  const fitRef = useRef<FitAddon | null>(null);
+  const commandIdRef = useRef<string | null>(null);
+  const lastIndexRef = useRef(-1);
+  const abortRef = useRef<AbortController | null>(null);
+  const reconnectsRef = useRef(0);
+  const stateRef = useRef<ShellState>("starting");
+  const [state, setStateValue] = useState<ShellState>("starting");
+  const [message, setMessage] = useState<string | null>(null);
+
+  // Keystrokes are batched while a write is in flight so they reach the shell in order
+  const pendingInputRef = useRef("");
+  const sendingInputRef = useRef(false);
+  const sentSizeRef = useRef<string | null>(null);
+  const resizeTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const setState = useCallback((next: ShellState) => {
+    stateRef.current = next;
+    setStateValue(next);
+  }, []);
+
+  const rememberShell = useCallback((commandId: string | null) => {
+    commandIdRef.current = commandId;
+    try {
+      if (commandId) localStorage.setItem(`${SHELL_STORAGE_PREFIX}${projectPath}`, commandId);
+      else localStorage.removeItem(`${SHELL_STORAGE_PREFIX}${projectPath}`);
+    } catch {
+      // Non-critical — the shell just won't be found again after a reload
+    }
+  }, [projectPath]);
+
+  const flushInput = useCallback(async () => {
+    if (sendingInputRef.current) return;
+    sendingInputRef.current = true;
+    try {
+      while (pendingInputRef.current && commandIdRef.current) {
+        const data = pendingInputRef.current;
+        pendingInputRef.current = "";
+        try {
+          await fetch("/api/terminal/input", {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({ commandId: commandIdRef.current, data }),
+          });
+        } catch {
+          // Dropped — the echo (or its absence) shows what the shell received
+        }
+      }
+    } finally {
+      sendingInputRef.current = false;
+    }
+  }, []);
+
+  const sendInput = useCallback((data: string) => {
+    if (stateRef.current !== "connected") return;
+    pendingInputRef.current += data;
+    void flushInput();
+  }, [flushInput]);
+
+  const fitAndResize = useCallback(() => {
+    const term = termRef.current;
+    const container = containerRef.current;
+    // The tab is hidden — measuring now would shrink the shell to nothing
+    if (!term || !container || container.offsetWidth === 0 || container.offsetHeight === 0) return;
+    fitRef.current?.fit();
+
+    if (resizeTimerRef.current) clearTimeout(resizeTimerRef.current);
+    resizeTimerRef.current = setTimeout(() => {
+      const size = `${term.cols}x${term.rows}`;
+      if (!commandIdRef.current || sentSizeRef.current === size) return;
+      sentSizeRef.current = size;
+      fetch("/api/terminal/resize", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ commandId: commandIdRef.current, cols: term.cols, rows: term.rows }),
+      }).catch(() => {
+        sentSizeRef.current = null;
+      });
+    }, RESIZE_DEBOUNCE_MS);
+  }, []);
+
+  const handleEvent = useCallback((event: TerminalEvent) => {
+    const term = termRef.current;
+    if (typeof event.index === "number") {
+      if (event.index <= lastIndexRef.current) return;
+      lastIndexRef.current = event.index;
+      reconnectsRef.current = 0;
+    }
+    const data = typeof event.data === "object" && event.data !== null ? event.data : {};
+
+    switch (event.type) {
+      case "command_start":
+        rememberShell(data.commandId as string);
+        break;
+      case "output":
+        term?.write(event.data as string);
+        break;
+      case "buffer_gap":
+        term?.write("\r\n\x1b[2m[some output lost during reconnection]\x1b[0m\r\n");
+        break;
+      case "exit":
+        term?.write(`\r\n\x1b[2m[shell exited with code ${data.code}]\x1b[0m\r\n`);
+        rememberShell(null);
+        setState("exited");
+        break;
+      case "reconnect_complete":
+        // The shell ended while we were away
+        rememberShell(null);
+        setState("exited");
+        break;
+      case "error":
+        setMessage((data.error as string) || "Shell error");
+        setState("error");
+        break;
+    }
+  }, [rememberShell, setState]);
+
+  // Attach to this project's shell, or start one if it has none (or the old one is gone)
+  const connect = useCallback(async () => {
+    const term = termRef.current;
+    if (!term) return;
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setMessage(null);
+
+    let url = "/api/terminal/shell";
+    let body: Record<string, unknown> = { projectPath, cols: term.cols, rows: term.rows };
+    const existing = commandIdRef.current;
+    if (existing) {
+      try {
+        const statusRes = await fetch(`/api/terminal/status?commandId=${encodeURIComponent(existing)}`);
+        const status = statusRes.ok ? await statusRes.json() : null;
+        if (status?.active && status.interactive) {
+          url = "/api/terminal/reconnect";
+          body = { commandId: existing, fromIndex: lastIndexRef.current };
+        } else {
+          rememberShell(null);
+        }
+      } catch {
+        setState("disconnected");
+        return;
+      }
+    }
+    if (controller.signal.aborted) return;
+    if (url === "/api/terminal/shell") {
+      lastIndexRef.current = -1;
+      sentSizeRef.current = `${term.cols}x${term.rows}`;
+      if (stateRef.current === "exited") term.write("\r\n");
+    }
+    setState("starting");
+
+    try {
+      const res = await fetch(url, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+        signal: controller.signal,
+      });
+      if (!res.ok || !res.body) {
+        const data = await res.json().catch(() => ({}));
+        setMessage(data.error || `HTTP ${res.status}`);
+        setState("error");
+        return;
+      }
+
+      setState("connected");
+      fitAndResize();
+      await readTerminalEvents(res.body, handleEvent);
+    } catch (err: unknown) {
+      if (err instanceof DOMException && err.name === "AbortError") return;
+    } finally {
+      if (abortRef.current === controller) abortRef.current = null;
+    }
+
+    // The stream dropped while the shell was still running — pick it back up
+    if (controller.signal.aborted || stateRef.current !== "connected") return;
+    setState("disconnected");
+    if (document.visibilityState === "visible" && reconnectsRef.current < MAX_AUTO_RECONNECTS) {
+      reconnectsRef.current++;
+      setTimeout(() => {
+        if (stateRef.current === "disconnected") connect();
+      }, 1000);
+    }
+  }, [projectPath, rememberShell, setState, fitAndResize, handleEvent]);
+
+  // Mount xterm (browser-only) and attach to the shell
+  useEffect(() => {
+    let disposed = false;
+    let teardown = () => {};
+
+    (async () => {
+      const [{ Terminal }, { FitAddon }] = await Promise.all([import("@xterm/xterm"), import("@xterm/addon-fit")]);
+      const container = containerRef.current;
+      if (disposed || !container) return;
+
+      const term = new Terminal({
+        fontFamily: "ui-monospace, SFMono-Regular, Menlo, Consolas, monospace",
+        fontSize: 13,
+        cursorBlink: true,
+        scrollback: 5000,
+        theme: {
+          background: "#0a0a0a",
+          foreground: "#ededed",
+          cursor: "#ededed",
+          selectionBackground: "#3b82f655",
+        },
+      });
+      const fit = new FitAddon();
+      term.loadAddon(fit);
+      term.open(container);
+      termRef.current = term;
+      fitRef.current = fit;
+
+      const input = term.onData(sendInput);
+      const observer = new ResizeObserver(() => fitAndResize());
+      observer.observe(container);
+      fitAndResize();
+
+      try {
+        commandIdRef.current = localStorage.getItem(`${SHELL_STORAGE_PREFIX}${projectPath}`);
+      } catch {
+        // Start a new shell
+      }
+      connect();
+
+      teardown = () => {
+        input.dispose();
+        observer.disconnect();
+        term.dispose();
+        termRef.current = null;
+        fitRef.current = null;
+      };
+    })();
+
+    return () => {
+      disposed = true;
+      // Only the connection ends — the shell keeps running for the next visit
+      abortRef.current?.abort();
+      if (resizeTimerRef.current) clearTimeout(resizeTimerRef.current);
+      teardown();
+    };
+    // Mount once per project — the callbacks only read refs
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [projectPath]);
+
+  // Phones drop the stream in the background — reattach when the page comes back
+  useEffect(() => {
+    const handleVisibility = () => {
+      if (document.visibilityState !== "visible" || stateRef.current !== "disconnected") return;
+      reconnectsRef.current = 0;
+      connect();
+    };
+    document.addEventListener("visibilitychange", handleVisibility);
+    return () => document.removeEventListener("visibilitychange", handleVisibility);
+  }, [connect]);
+
+  const pressKey = (key: (typeof EXTRA_KEYS)[number]) => {
+    const term = termRef.current;
+    if (typeof key.data === "string") {
+      sendInput(key.data);
+    } else {
+      const prefix = term?.modes.applicationCursorKeysMode ? "\x1bO" : "\x1b[";
+      sendInput(prefix + key.data.arrow);
+    }
+    term?.focus();
+  };
+
+  return (
+    <div className="flex flex-col h-full">
+      <div className="relative flex-1 min-h-0 bg-background">
+        <div ref={containerRef} className="absolute inset-2" />
+        {state === "starting" && (
+          <div className="absolute top-2 right-3">
+            <Loader2 size={14} className="animate-spin text-muted" />
+          </div>
+        )}
+      </div>
+
+      <div className="flex items-center gap-1 border-t border-border px-2 py-1.5 bg-card overflow-x-auto font-mono text-xs">
+        {state === "connected" || state === "starting" ? (
+          EXTRA_KEYS.map((key) => (
+            <button
+              key={key.label}
+              type="button"
+              // Keep focus (and the on-screen keyboard) in the terminal
+              onMouseDown={(e) => e.preventDefault()}
+              onClick={() => pressKey(key)}
+              disabled={state !== "connected"}
+              className="px-2.5 py-1 rounded border border-border text-foreground/80 hover:bg-background disabled:opacity-40 shrink-0"
+            >
+              {key.label}
+            </button>
+          ))
+        ) : (
+          <>
+            <span className={`flex-1 truncate ${state === "error" ? "text-red-400" : "text-muted"}`}>
+              {state === "exited" ? "Shell exited" : state === "disconnected" ? "Disconnected" : message || "Shell error"}
+            </span>
+            <button
+              type="button"
+              onClick={() => {
+                reconnectsRef.current = 0;
+                connect();
+              }}
+              className="flex items-center gap-1 px-2.5 py-1 rounded border border-border text-accent hover:bg-background shrink-0"
+            >
+              <RotateCcw size={12} />
+              {state === "disconnected" ? "Reconnect" : "New shell"}
+            </button>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,228 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { Zap, Plus, Trash2, Loader2, X, Play } from "lucide-react";
+
+// Mirrors cc-server's GET /api/terminal/snippets
+interface Snippet {
+  id: string;
+  name: string;
+  command: string;
+}
+
+// Mirrors cc-server's GET /api/terminal/tasks
+interface ProjectTask {
+  name: string;
+  command: string;
+  source: "npm" | "make" | "just" | "cargo" | "go";
+  description?: string;
+}
+
+const SOURCE_LABELS: Record<ProjectTask["source"], string> = {
+  npm: "package.json",
+  make: "Makefile",
+  just: "justfile",
+  cargo: "Cargo",
+  go: "Go",
+};
+
+interface TaskPaletteProps {
+  projectPath: string;
+  disabled: boolean;  // A command is already running
+  onRun: (command: string) => void;
+  onClose: () => void;
+}
+
+/** One-tap commands: the project's saved snippets plus the tasks its build files define */
+export function TaskPalette({ projectPath, disabled, onRun, onClose }: TaskPaletteProps) {
+  const [snippets, setSnippets] = useState<Snippet[]>([]);
+  const [tasks, setTasks] = useState<ProjectTask[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [draft, setDraft] = useState("");
+  const [draftName, setDraftName] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  const fetchAll = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const query = `projectPath=${encodeURIComponent(projectPath)}`;
+      const [snippetsRes, tasksRes] = await Promise.all([
+        fetch(`/api/terminal/snippets?${query}`),
+        fetch(`/api/terminal/tasks?${query}`),
+      ]);
+      const [snippetsData, tasksData] = await Promise.all([snippetsRes.json(), tasksRes.json()]);
+      if (!snippetsRes.ok || !tasksRes.ok) {
+        setError(snippetsData.error || tasksData.error || "Failed to load tasks");
+        return;
+      }
+      setSnippets(snippetsData.snippets);
+      setTasks(tasksData.tasks);
+    } catch {
+      setError("Failed to connect to server");
+    } finally {
+      setLoading(false);
+    }
+  }, [projectPath]);
+
+  useEffect(() => {
+    fetchAll();
+  }, [fetchAll]);
+
+  const addSnippet = async () => {
+    if (!draft.trim()) return;
+    setSaving(true);
+    setError(null);
+    try {
+      const res = await fetch("/api/terminal/snippets", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ projectPath, command: draft.trim(), name: draftName.trim() || undefined }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        setError(data.error || "Failed to save snippet");
+        return;
+      }
+      setSnippets((prev) => [...prev, data.snippet]);
+      setDraft("");
+      setDraftName("");
+    } catch {
+      setError("Failed to connect to server");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const deleteSnippet = async (id: string) => {
+    try {
+      const res = await fetch(`/api/terminal/snippets?id=${encodeURIComponent(id)}`, { method: "DELETE" });
+      const data = await res.json();
+      if (!res.ok) {
+        setError(data.error || "Failed to delete snippet");
+        return;
+      }
+      setSnippets((prev) => prev.filter((s) => s.id !== id));
+    } catch {
+      setError("Failed to connect to server");
+    }
+  };
+
+  const sections = (Object.keys(SOURCE_LABELS) as ProjectTask["source"][])
+    .map((source) => ({ source, tasks: tasks.filter((t) => t.source === source) }))
+    .filter((section) => section.tasks.length > 0);
+
+  const chipClass =
+    "flex items-center gap-1 max-w-full px-2 py-1 rounded-md border border-border bg-background text-xs font-mono hover:border-accent disabled:opacity-40 disabled:hover:border-border";
+
+  return (
+    <div className="border-b border-border bg-card shrink-0 max-h-[60%] flex flex-col">
+      <div className="flex items-center gap-2 px-3 py-2 border-b border-border text-sm">
+        <Zap size={14} className="text-muted shrink-0" />
+        <span className="flex-1">Tasks</span>
+        <button onClick={onClose} className="p-1 text-muted hover:text-foreground" aria-label="Close tasks">
+          <X size={14} />
+        </button>
+      </div>
+
+      {/* Save a snippet */}
+      <div className="px-3 py-2 border-b border-border space-y-1.5">
+        <div className="flex items-center gap-2">
+          <input
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            onKeyDown={(e) => e.key === "Enter" && addSnippet()}
+            placeholder="Save a command: docker compose up"
+            autoCapitalize="off"
+            autoCorrect="off"
+            spellCheck={false}
+            className="flex-1 min-w-0 bg-background border border-border rounded-md px-2 py-1 text-xs font-mono focus:outline-none focus:border-accent placeholder:text-muted"
+          />
+          <button
+            onClick={addSnippet}
+            disabled={!draft.trim() || saving}
+            className="p-1.5 text-muted hover:text-foreground disabled:opacity-30 shrink-0"
+            aria-label="Save snippet"
+          >
+            {saving ? <Loader2 size={14} className="animate-spin" /> : <Plus size={14} />}
+          </button>
+        </div>
+        {draft.trim() && (
+          <input
+            value={draftName}
+            onChange={(e) => setDraftName(e.target.value)}
+            onKeyDown={(e) => e.key === "Enter" && addSnippet()}
+            placeholder="Name (optional)"
+            className="w-full bg-background border border-border rounded-md px-2 py-1 text-xs focus:outline-none focus:border-accent placeholder:text-muted"
+          />
+        )}
+      </div>
+
+      <div className="overflow-y-auto pb-2">
+        {loading && (
+          <div className="flex justify-center py-4">
+            <Loader2 size={16} className="animate-spin text-muted" />
+          </div>
+        )}
+        {error && <div className="px-3 py-2 text-xs text-red-400">{error}</div>}
+        {!loading && snippets.length === 0 && tasks.length === 0 && (
+          <div className="px-3 py-4 text-xs text-muted text-center">
+            No package.json scripts, Makefile, justfile, Cargo.toml or go.mod here — save a command above
+          </div>
+        )}
+
+        {!loading && snippets.length > 0 && (
+          <div>
+            <div className="px-3 pt-2 pb-1 text-[10px] uppercase tracking-wide text-muted">Saved</div>
+            <div className="px-3 space-y-1">
+              {snippets.map((s) => (
+                <div key={s.id} className="flex items-center gap-2">
+                  <button
+                    onClick={() => onRun(s.command)}
+                    disabled={disabled}
+                    title={s.command}
+                    className={`${chipClass} flex-1 min-w-0`}
+                  >
+                    <Play size={10} className="text-accent shrink-0" />
+                    <span className="truncate">{s.name}</span>
+                    {s.name !== s.command && <span className="truncate text-muted">{s.command}</span>}
+                  </button>
+                  <button
+                    onClick={() => deleteSnippet(s.id)}
+                    className="p-1 text-muted hover:text-red-400 shrink-0"
+                    aria-label="Delete snippet"
+                  >
+                    <Trash2 size={13} />
+                  </button>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {!loading &&
+          sections.map((section) => (
+            <div key={section.source}>
+              <div className="px-3 pt-2 pb-1 text-[10px] uppercase tracking-wide text-muted">
+                {SOURCE_LABELS[section.source]}
+              </div>
+              <div className="px-3 flex flex-wrap gap-1.5">
+                {section.tasks.map((t) => (
+                  <button
+                    key={t.command}
+                    onClick={() => onRun(t.command)}
+                    disabled={disabled}
+                    title={t.description ? `${t.command}\n${t.description}` : t.command}
+                    className={chipClass}
+                  >
+                    <span className="truncate">{t.name}</span>
+                  </button>
+                ))}
+              </div>
+            </div>
+          ))}
+      </div>
+    </div>
+  );
+}
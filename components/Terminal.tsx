@@ -1,7 +1,10 @@
 "use client";
 
 import { useCallback, useEffect, useRef, useState } from "react";
-import { Square, Loader2, Send } from "lucide-react";
+import { Square, Loader2, Send, CornerDownLeft, Zap } from "lucide-react";
+import { ShellSession } from "./ShellSession";
+import { AnsiText } from "./AnsiText";
+import { TaskPalette } from "./TaskPalette";
 
 interface TerminalEntry {
   id: number;
@@ -17,6 +20,9 @@ interface TerminalProps {
   projectPath: string;
 }
 
+// "commands": one-shot commands with separate output blocks; "shell": a persistent interactive shell
+type TerminalMode = "commands" | "shell";
+
 export function Terminal({ projectPath }: TerminalProps) {
   const [entries, setEntries] = useState<TerminalEntry[]>([]);
   const [input, setInput] = useState("");
@@ -39,6 +45,15 @@ export function Terminal({ projectPath }: TerminalProps) {
   const runningRef = useRef(false);
   const wakeLockRef = useRef<WakeLockSentinel | null>(null);
   const runningEntryRef = useRef<{ id: number; commandId: string | null; lastEventIndex: number } | null>(null);
+  const [mode, setMode] = useState<TerminalMode>(() => {
+    if (typeof window !== "undefined" && localStorage.getItem(`cc-terminal-mode-${projectPath}`) === "shell") {
+      return "shell";
+    }
+    return "commands";
+  });
+  // The shell is only started the first time it's opened, then kept mounted so it stays attached
+  const [shellOpened, setShellOpened] = useState(mode === "shell");
+  const [paletteOpen, setPaletteOpen] = useState(false);
 
   const isRunning = entries.some((e) => e.running);
 
@@ -215,10 +230,66 @@ export function Terminal({ projectPath }: TerminalProps) {
     return () => document.removeEventListener("visibilitychange", handleVisibility);
   }, [reconnectToCommand, markDone]);
 
-  const killProcess = useCallback(() => {
-    abortRef.current?.abort();
+  const appendOutput = useCallback((id: number, text: string) => {
+    setEntries((prev) => prev.map((e) => (e.id === id ? { ...e, output: e.output + text } : e)));
   }, []);
 
+  // ── Talk to the running command — stdin and signals ──────────────
+  // First Stop sends SIGTERM; a second one, if the command ignores it, SIGKILL
+  const [stopping, setStopping] = useState(false);
+
+  useEffect(() => {
+    if (!isRunning) setStopping(false);
+  }, [isRunning]);
+
+  const sendSignal = useCallback(async (signal: "SIGINT" | "SIGTERM" | "SIGKILL") => {
+    const entry = runningEntryRef.current;
+    if (!entry?.commandId) {
+      // Not started on the server yet — dropping the request is all we can do
+      abortRef.current?.abort();
+      return;
+    }
+    try {
+      const res = await fetch("/api/terminal/signal", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ commandId: entry.commandId, signal }),
+      });
+      if (!res.ok) {
+        const data = await res.json().catch(() => ({}));
+        appendOutput(entry.id, `\n[${signal} not sent: ${data.error || `HTTP ${res.status}`}]\n`);
+      }
+    } catch {
+      appendOutput(entry.id, `\n[${signal} not sent: connection error]\n`);
+    }
+  }, [appendOutput]);
+
+  const stopProcess = useCallback(() => {
+    sendSignal(stopping ? "SIGKILL" : "SIGTERM");
+    setStopping(true);
+  }, [sendSignal, stopping]);
+
+  // A line typed while a command runs goes to its stdin (answers to y/n prompts and the like); `eof` is Ctrl-D
+  const sendInput = useCallback(async (body: { data: string } | { eof: true }) => {
+    const entry = runningEntryRef.current;
+    if (!entry?.commandId) return;
+    // Commands don't echo what they read — show it, dimmed, where it was typed
+    if ("data" in body) appendOutput(entry.id, `\x1b[2m${body.data}\x1b[0m`);
+    try {
+      const res = await fetch("/api/terminal/input", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ commandId: entry.commandId, ...body }),
+      });
+      if (!res.ok) {
+        const data = await res.json().catch(() => ({}));
+        appendOutput(entry.id, `\n[input not delivered: ${data.error || `HTTP ${res.status}`}]\n`);
+      }
+    } catch {
+      appendOutput(entry.id, "\n[input not delivered: connection error]\n");
+    }
+  }, [appendOutput]);
+
   const executeCommand = useCallback(
     async (command: string) => {
       const id = nextId.current++;
@@ -392,10 +463,25 @@ export function Terminal({ projectPath }: TerminalProps) {
     [projectPath, markDone, reconnectToCommand]
   );
 
+  const switchMode = (next: TerminalMode) => {
+    setMode(next);
+    if (next === "shell") setShellOpened(true);
+    try {
+      localStorage.setItem(`cc-terminal-mode-${projectPath}`, next);
+    } catch {
+      // Non-critical
+    }
+  };
+
   const handleSubmit = (e: React.FormEvent<HTMLFormElement>) => {
     e.preventDefault();
+    if (isRunning) {
+      setInput("");
+      sendInput({ data: input + "\n" });
+      return;
+    }
     const trimmed = input.trim();
-    if (!trimmed || isRunning) return;
+    if (!trimmed) return;
     setInput("");
     executeCommand(trimmed);
   };
@@ -425,86 +511,164 @@ export function Terminal({ projectPath }: TerminalProps) {
   };
 
   return (
-    <div
-      className="flex flex-col h-full font-mono text-sm"
-      onClick={() => inputRef.current?.focus()}
-    >
-      {/* Output area */}
-      <div className="flex-1 overflow-y-auto p-3 space-y-2">
-        {entries.length === 0 && (
-          <div className="text-muted text-center py-8">
-            Run commands in {projectPath}
-          </div>
-        )}
-        {entries.map((entry) => (
-          <div key={entry.id}>
-            <div className="flex items-center gap-2 text-accent">
-              <span className="text-muted">$</span>
-              <span>{entry.command}</span>
-              {entry.running && (
-                <Loader2 size={14} className="animate-spin text-muted" />
-              )}
-            </div>
-            {entry.output && (
-              <pre className="whitespace-pre-wrap break-all text-foreground/90 mt-1">
-                {entry.output}
-              </pre>
-            )}
-            {!entry.running && entry.exitCode !== null && entry.exitCode !== 0 && (
-              <div className="text-red-400 text-xs mt-1">
-                exit {entry.exitCode}
-              </div>
-            )}
-          </div>
-        ))}
-        <div ref={bottomRef} />
-      </div>
-
-      {/* Input bar */}
-      <form
-        onSubmit={handleSubmit}
-        className="flex items-center gap-2 border-t border-border px-3 py-2 bg-card"
-      >
-        <span className="text-muted">$</span>
-        <input
-          ref={inputRef}
-          type="text"
-          value={input}
-          onChange={(e) => {
-            setInput(e.target.value);
-            setHistoryIndex(-1);
-          }}
-          onKeyDown={handleKeyDown}
-          placeholder={isRunning ? "Running..." : "command"}
-          disabled={isRunning}
-          autoCapitalize="off"
-          autoCorrect="off"
-          autoComplete="off"
-          spellCheck={false}
-          enterKeyHint="send"
-          className="flex-1 bg-transparent outline-none placeholder:text-muted/50 disabled:opacity-50"
-        />
-        {isRunning ? (
+    <div className="flex flex-col h-full">
+      <div className="flex items-center gap-1 border-b border-border px-3 py-1.5 text-xs">
+        {(["commands", "shell"] as const).map((m) => (
           <button
+            key={m}
             type="button"
-            onClick={(e) => {
-              e.stopPropagation();
-              killProcess();
-            }}
-            className="p-1.5 text-red-400 hover:text-red-300"
+            onClick={() => switchMode(m)}
+            className={`px-2.5 py-1 rounded capitalize ${
+              mode === m ? "bg-card text-foreground" : "text-muted hover:text-foreground"
+            }`}
           >
-            <Square size={16} />
+            {m}
           </button>
-        ) : (
+        ))}
+        {mode === "commands" && (
           <button
-            type="submit"
-            disabled={!input.trim()}
-            className="p-1.5 text-accent disabled:text-muted/30"
+            type="button"
+            onClick={() => setPaletteOpen(!paletteOpen)}
+            className={`ml-auto flex items-center gap-1 px-2.5 py-1 rounded ${
+              paletteOpen ? "bg-card text-foreground" : "text-muted hover:text-foreground"
+            }`}
           >
-            <Send size={16} />
+            <Zap size={12} />
+            Tasks
           </button>
         )}
-      </form>
+      </div>
+
+      {mode === "commands" && paletteOpen && (
+        <TaskPalette
+          projectPath={projectPath}
+          disabled={isRunning}
+          onRun={(command) => {
+            setPaletteOpen(false);
+            executeCommand(command);
+          }}
+          onClose={() => setPaletteOpen(false)}
+        />
+      )}
+
+      {shellOpened && (
+        <div className={`flex-1 min-h-0 ${mode !== "shell" ? "hidden" : ""}`}>
+          <ShellSession projectPath={projectPath} />
+        </div>
+      )}
+
+      <div
+        className={`flex flex-col flex-1 min-h-0 font-mono text-sm ${mode !== "commands" ? "hidden" : ""}`}
+        onClick={() => inputRef.current?.focus()}
+      >
+        {/* Output area */}
+        <div className="flex-1 overflow-y-auto p-3 space-y-2">
+          {entries.length === 0 && (
+            <div className="text-muted text-center py-8">
+              Run commands in {projectPath}
+            </div>
+          )}
+          {entries.map((entry) => (
+            <div key={entry.id}>
+              <div className="flex items-center gap-2 text-accent">
+                <span className="text-muted">$</span>
+                <span>{entry.command}</span>
+                {entry.running && (
+                  <Loader2 size={14} className="animate-spin text-muted" />
+                )}
+              </div>
+              {entry.output && (
+                <pre className="whitespace-pre-wrap break-all text-foreground/90 mt-1">
+                  <AnsiText text={entry.output} />
+                </pre>
+              )}
+              {!entry.running && entry.exitCode !== null && entry.exitCode !== 0 && (
+                <div className="text-red-400 text-xs mt-1">
+                  exit {entry.exitCode}
+                </div>
+              )}
+            </div>
+          ))}
+          <div ref={bottomRef} />
+        </div>
+
+        {/* Input bar */}
+        <form
+          onSubmit={handleSubmit}
+          className="flex items-center gap-2 border-t border-border px-3 py-2 bg-card"
+        >
+          <span className="text-muted">{isRunning ? ">" : "$"}</span>
+          <input
+            ref={inputRef}
+            type="text"
+            value={input}
+            onChange={(e) => {
+              setInput(e.target.value);
+              setHistoryIndex(-1);
+            }}
+            onKeyDown={handleKeyDown}
+            placeholder={isRunning ? "input for the running command" : "command"}
+            autoCapitalize="off"
+            autoCorrect="off"
+            autoComplete="off"
+            spellCheck={false}
+            enterKeyHint="send"
+            className="flex-1 bg-transparent outline-none placeholder:text-muted/50 disabled:opacity-50"
+          />
+          {isRunning ? (
+            <>
+              <button
+                type="submit"
+                title="Send line"
+                className="p-1.5 text-accent"
+              >
+                <CornerDownLeft size={16} />
+              </button>
+              <button
+                type="button"
+                onClick={(e) => {
+                  e.stopPropagation();
+                  sendSignal("SIGINT");
+                }}
+                title="Interrupt (Ctrl-C)"
+                className="px-1.5 py-1 text-xs rounded border border-border text-foreground/80 hover:bg-background"
+              >
+                ^C
+              </button>
+              <button
+                type="button"
+                onClick={(e) => {
+                  e.stopPropagation();
+                  sendInput({ eof: true });
+                }}
+                title="End of input (Ctrl-D)"
+                className="px-1.5 py-1 text-xs rounded border border-border text-foreground/80 hover:bg-background"
+              >
+                ^D
+              </button>
+              <button
+                type="button"
+                onClick={(e) => {
+                  e.stopPropagation();
+                  stopProcess();
+                }}
+                title={stopping ? "Force kill" : "Stop"}
+                className={`p-1.5 ${stopping ? "text-red-500 animate-pulse" : "text-red-400 hover:text-red-300"}`}
+              >
+                <Square size={16} />
+              </button>
+            </>
+          ) : (
+            <button
+              type="submit"
+              disabled={!input.trim()}
+              className="p-1.5 text-accent disabled:text-muted/30"
+            >
+              <Send size={16} />
+            </button>
+          )}
+        </form>
+      </div>
     </div>
   );
 }
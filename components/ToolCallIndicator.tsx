@@ -12,6 +12,7 @@ import {
   Loader2,
   Check,
 } from "lucide-react";
+import { AnsiText } from "./AnsiText";
 
 interface ToolCallIndicatorProps {
   name: string;
@@ -98,7 +99,9 @@ export function ToolCallIndicator({ name, input, result, elapsedSeconds }: ToolC
           {hasResult && (
             <>
               <hr className="my-2 border-border" />
-              <pre className="whitespace-pre-wrap break-all">{displayedResult}</pre>
+              <pre className="whitespace-pre-wrap break-all">
+                <AnsiText text={displayedResult ?? ""} />
+              </pre>
               {isTruncated && !showFullResult && (
                 <button
                   onClick={(e) => {
@@ -0,0 +1,144 @@
+"use client";
+
+import { useState, useEffect, useRef } from "react";
+import { Mic, Loader2 } from "lucide-react";
+import { readFileAsAttachment } from "@/lib/attachments";
+
+type VoiceState = "idle" | "recording" | "transcribing";
+
+// Shorter than this is a tap, not speech
+const MIN_RECORDING_MS = 400;
+// Same as cc-server's MAX_AUDIO_BYTES: the base64 upload has to fit the proxy's 4.5 MB body limit
+const MAX_RECORDING_BYTES = 3 * 1024 * 1024;
+
+interface VoiceInputProps {
+  onTranscript: (text: string) => void;
+  disabled?: boolean;
+}
+
+/**
+ * Push-to-talk: hold to record, release to transcribe on the server. Hidden
+ * when the server has no speech-to-text engine configured.
+ */
+export function VoiceInput({ onTranscript, disabled }: VoiceInputProps) {
+  const [available, setAvailable] = useState(false);
+  const [state, setState] = useState<VoiceState>("idle");
+  const [error, setError] = useState<string | null>(null);
+  const recorderRef = useRef<MediaRecorder | null>(null);
+  const holdingRef = useRef(false);
+  const startedAtRef = useRef(0);
+
+  useEffect(() => {
+    if (typeof MediaRecorder === "undefined" || !navigator.mediaDevices) return;
+    fetch("/api/transcribe")
+      .then((res) => res.json())
+      .then((data) => setAvailable(!!data.available))
+      .catch(() => {});
+  }, []);
+
+  useEffect(() => {
+    if (!error) return;
+    const timer = setTimeout(() => setError(null), 4000);
+    return () => clearTimeout(timer);
+  }, [error]);
+
+  const transcribe = async (blob: Blob) => {
+    if (blob.size > MAX_RECORDING_BYTES) {
+      setState("idle");
+      setError("Recording is too long — keep it to a few minutes");
+      return;
+    }
+    setState("transcribing");
+    try {
+      const { data } = await readFileAsAttachment(new File([blob], "recording", { type: blob.type }));
+      const res = await fetch("/api/transcribe", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ audio: data }),
+      });
+      const result = await res.json();
+      if (!res.ok) {
+        setError(result.error || "Transcription failed");
+      } else if (result.text) {
+        onTranscript(result.text);
+      } else {
+        setError("Didn't catch that");
+      }
+    } catch {
+      setError("Failed to connect to server");
+    } finally {
+      setState("idle");
+    }
+  };
+
+  const start = async () => {
+    if (state !== "idle" || disabled) return;
+    holdingRef.current = true;
+    setError(null);
+
+    let stream: MediaStream;
+    try {
+      stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+    } catch {
+      holdingRef.current = false;
+      setError("Microphone access denied");
+      return;
+    }
+
+    const recorder = new MediaRecorder(stream);
+    const chunks: Blob[] = [];
+    recorder.ondataavailable = (e) => chunks.push(e.data);
+    recorder.onstop = () => {
+      stream.getTracks().forEach((t) => t.stop());
+      recorderRef.current = null;
+      if (Date.now() - startedAtRef.current < MIN_RECORDING_MS) {
+        setState("idle");
+        setError("Hold to talk");
+        return;
+      }
+      transcribe(new Blob(chunks, { type: recorder.mimeType }));
+    };
+    recorderRef.current = recorder;
+    startedAtRef.current = Date.now();
+    recorder.start();
+    setState("recording");
+
+    // Released while the permission prompt was up
+    if (!holdingRef.current) recorder.stop();
+  };
+
+  const stop = () => {
+    holdingRef.current = false;
+    if (recorderRef.current?.state === "recording") recorderRef.current.stop();
+  };
+
+  if (!available) return null;
+
+  return (
+    <div className="relative shrink-0">
+      {error && (
+        <div className="absolute bottom-full left-0 mb-1 px-2 py-1 text-[11px] text-red-400 bg-card border border-border rounded-md whitespace-nowrap">
+          {error}
+        </div>
+      )}
+      <button
+        onPointerDown={(e) => {
+          e.preventDefault();
+          start();
+        }}
+        onPointerUp={stop}
+        onPointerLeave={stop}
+        onPointerCancel={stop}
+        onContextMenu={(e) => e.preventDefault()}
+        disabled={disabled || state === "transcribing"}
+        title="Hold to talk"
+        aria-label="Hold to talk"
+        className={`flex items-center justify-center w-10 h-10 rounded-xl transition-colors touch-none select-none disabled:opacity-30 ${
+          state === "recording" ? "bg-red-600 text-white animate-pulse" : "text-muted hover:text-foreground"
+        }`}
+      >
+        {state === "transcribing" ? <Loader2 size={18} className="animate-spin" /> : <Mic size={18} />}
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,57 @@
+import { describe, it, expect } from "vitest";
+import { parseAnsi, stripAnsi } from "./ansi";
+
+describe("parseAnsi", () => {
+  it("returns plain text as one unstyled segment", () => {
+    expect(parseAnsi("hello\nworld")).toEqual([{ text: "hello\nworld", style: {} }]);
+  });
+
+  it("turns SGR codes into styles", () => {
+    expect(parseAnsi("\x1b[1;32m✓ passed\x1b[0m 3 tests\n")).toEqual([
+      { text: "✓ passed", style: { bold: true, fg: "#4ade80" } },
+      { text: " 3 tests\n", style: {} },
+    ]);
+  });
+
+  it("switches individual attributes off and keeps the rest", () => {
+    const segments = parseAnsi("\x1b[1;4;31mA\x1b[22mB\x1b[39mC");
+    expect(segments.map((s) => s.style)).toEqual([
+      { bold: true, underline: true, fg: "#f87171" },
+      { underline: true, fg: "#f87171" },
+      { underline: true },
+    ]);
+  });
+
+  it("supports bright, 256 and truecolor colors", () => {
+    const [bright, indexed, cube, gray, rgb] = parseAnsi(
+      "\x1b[91ma\x1b[38;5;4mb\x1b[38;5;196mc\x1b[48;5;232md\x1b[0;38;2;10;20;30me",
+    );
+    expect(bright.style.fg).toBe("#fca5a5");
+    expect(indexed.style.fg).toBe("#60a5fa");
+    expect(cube.style.fg).toBe("rgb(255, 0, 0)");
+    expect(gray.style.bg).toBe("rgb(8, 8, 8)");
+    expect(rgb.style).toEqual({ fg: "rgb(10, 20, 30)" });
+  });
+
+  it("collapses carriage-return progress bars to their final state", () => {
+    expect(stripAnsi("Downloading  10%\rDownloading 100%\ndone")).toBe("Downloading 100%\ndone");
+    expect(stripAnsi("building...\r\x1b[Kbuilt\n")).toBe("built\n");
+    expect(stripAnsi("line one\r\nline two")).toBe("line one\nline two");
+  });
+
+  it("applies backspaces and erase-in-line", () => {
+    expect(stripAnsi("abc\b\bX")).toBe("aXc");
+    expect(stripAnsi("keep this\x1b[5D\x1b[K")).toBe("keep");
+    expect(stripAnsi("gone\x1b[2Knew")).toBe("    new");
+  });
+
+  it("drops cursor movement, OSC sequences and stray control characters", () => {
+    expect(stripAnsi("\x1b]0;title\x07\x1b[2J\x1b[Hready\x1b[?25l\x07")).toBe("ready");
+    expect(stripAnsi("\x1b]8;;https://example.com\x1b\\link\x1b]8;;\x1b\\")).toBe("link");
+    expect(stripAnsi("\x1b(Bplain\x1b=")).toBe("plain");
+  });
+
+  it("ignores a sequence cut off at the end of the output", () => {
+    expect(stripAnsi("partial\x1b[3")).toBe("partial");
+  });
+});
@@ -0,0 +1,179 @@
+// ANSI escape-sequence handling for command output (terminal, Bash tool results).
+//
+// SGR codes (colors, bold, underline…) become styled segments. Output isn't
+// laid out on a screen, so cursor control is reduced to what makes sense for
+// a single line: carriage returns and backspaces overwrite (progress bars
+// collapse to their last state), erase-in-line truncates, and everything
+// else — cursor up/down, clear screen, OSC titles and hyperlinks — is dropped.
+
+export interface AnsiStyle {
+  fg?: string;
+  bg?: string;
+  bold?: boolean;
+  dim?: boolean;
+  italic?: boolean;
+  underline?: boolean;
+  inverse?: boolean;
+  strikethrough?: boolean;
+}
+
+export interface AnsiSegment {
+  text: string;
+  style: AnsiStyle;
+}
+
+// Standard and bright colors, tuned for a dark background
+const PALETTE = [
+  "#3f3f46", "#f87171", "#4ade80", "#facc15", "#60a5fa", "#c084fc", "#22d3ee", "#d4d4d8",
+  "#71717a", "#fca5a5", "#86efac", "#fde047", "#93c5fd", "#d8b4fe", "#67e8f9", "#fafafa",
+];
+const CUBE_LEVELS = [0, 95, 135, 175, 215, 255];
+
+const PLAIN: AnsiStyle = {};
+
+function color256(n: number): string | undefined {
+  if (!Number.isInteger(n) || n < 0 || n > 255) return undefined;
+  if (n < 16) return PALETTE[n];
+  if (n >= 232) {
+    const gray = 8 + (n - 232) * 10;
+    return `rgb(${gray}, ${gray}, ${gray})`;
+  }
+  const i = n - 16;
+  return `rgb(${CUBE_LEVELS[Math.floor(i / 36)]}, ${CUBE_LEVELS[Math.floor(i / 6) % 6]}, ${CUBE_LEVELS[i % 6]})`;
+}
+
+/** Apply one SGR sequence's parameters to a style, returning a new style */
+function applySgr(style: AnsiStyle, params: number[]): AnsiStyle {
+  const next: AnsiStyle = { ...style };
+  if (params.length === 0) params = [0];
+
+  for (let i = 0; i < params.length; i++) {
+    const p = params[i];
+    if (p === 0) {
+      for (const key of Object.keys(next)) delete next[key as keyof AnsiStyle];
+    } else if (p === 1) next.bold = true;
+    else if (p === 2) next.dim = true;
+    else if (p === 3) next.italic = true;
+    else if (p === 4) next.underline = true;
+    else if (p === 7) next.inverse = true;
+    else if (p === 9) next.strikethrough = true;
+    else if (p === 22) { delete next.bold; delete next.dim; }
+    else if (p === 23) delete next.italic;
+    else if (p === 24) delete next.underline;
+    else if (p === 27) delete next.inverse;
+    else if (p === 29) delete next.strikethrough;
+    else if (p >= 30 && p <= 37) next.fg = PALETTE[p - 30];
+    else if (p === 39) delete next.fg;
+    else if (p >= 40 && p <= 47) next.bg = PALETTE[p - 40];
+    else if (p === 49) delete next.bg;
+    else if (p >= 90 && p <= 97) next.fg = PALETTE[p - 90 + 8];
+    else if (p >= 100 && p <= 107) next.bg = PALETTE[p - 100 + 8];
+    else if (p === 38 || p === 48) {
+      // 38;5;n (256 colors) or 38;2;r;g;b (truecolor)
+      let value: string | undefined;
+      if (params[i + 1] === 5) {
+        value = color256(params[i + 2]);
+        i += 2;
+      } else if (params[i + 1] === 2) {
+        const [r, g, b] = params.slice(i + 2, i + 5);
+        if ([r, g, b].every((c) => Number.isInteger(c) && c >= 0 && c <= 255)) value = `rgb(${r}, ${g}, ${b})`;
+        i += 4;
+      }
+      if (value) next[p === 38 ? "fg" : "bg"] = value;
+    }
+  }
+
+  return Object.keys(next).length === 0 ? PLAIN : next;
+}
+
+function sameStyle(a: AnsiStyle, b: AnsiStyle): boolean {
+  if (a === b) return true;
+  const keys = Object.keys(a) as (keyof AnsiStyle)[];
+  return keys.length === Object.keys(b).length && keys.every((k) => a[k] === b[k]);
+}
+
+interface Cell {
+  ch: string;
+  style: AnsiStyle;
+}
+
+/** Split output into styled segments; newlines stay in the text */
+export function parseAnsi(input: string): AnsiSegment[] {
+  const segments: AnsiSegment[] = [];
+  const push = (text: string, style: AnsiStyle) => {
+    const last = segments[segments.length - 1];
+    if (last && sameStyle(last.style, style)) last.text += text;
+    else segments.push({ text, style });
+  };
+
+  let style = PLAIN;
+  let line: Cell[] = [];
+  let col = 0;
+
+  const flushLine = () => {
+    for (const cell of line) push(cell.ch, cell.style);
+    line = [];
+    col = 0;
+  };
+  const put = (ch: string) => {
+    while (line.length < col) line.push({ ch: " ", style: PLAIN });
+    line[col++] = { ch, style };
+  };
+
+  for (let i = 0; i < input.length; i++) {
+    const ch = input[i];
+
+    if (ch === "\x1b") {
+      const next = input[i + 1];
+      if (next === "[") {
+        // CSI: parameters, then a final byte in @–~
+        let j = i + 2;
+        while (j < input.length && !(input[j] >= "@" && input[j] <= "~")) j++;
+        if (j >= input.length) break;
+        const raw = input.slice(i + 2, j);
+        const final = input[j];
+        const params = raw === "" ? [] : raw.split(/[;:]/).map((p) => (p === "" ? 0 : Number(p)));
+        const n = params[0] || 1;
+
+        if (final === "m" && !/[?<=>]/.test(raw)) style = applySgr(style, params);
+        else if (final === "K") {
+          const mode = params[0] ?? 0;
+          if (mode === 0) line = line.slice(0, col);
+          else if (mode === 1) line = line.map((cell, k) => (k <= col ? { ch: " ", style: PLAIN } : cell));
+          else if (mode === 2) line = [];
+        } else if (final === "G") col = n - 1;
+        else if (final === "C") col += n;
+        else if (final === "D") col = Math.max(0, col - n);
+        // Anything else moves off this line or changes modes — ignored
+        i = j;
+      } else if (next === "]") {
+        // OSC (window title, hyperlinks): runs to BEL or ESC \
+        let j = i + 2;
+        while (j < input.length && input[j] !== "\x07" && !(input[j] === "\x1b" && input[j + 1] === "\\")) j++;
+        i = input[j] === "\x1b" ? j + 1 : j;
+      } else if (next === "(" || next === ")") {
+        i += 2;  // Character set selection
+      } else {
+        i += 1;  // Two-character escapes (ESC =, ESC 7, …)
+      }
+    } else if (ch === "\n") {
+      flushLine();
+      push("\n", PLAIN);
+    } else if (ch === "\r") {
+      col = 0;
+    } else if (ch === "\b") {
+      col = Math.max(0, col - 1);
+    } else if (ch === "\t" || ch >= " ") {
+      put(ch);
+    }
+    // Other control characters (bell, shift in/out…) are dropped
+  }
+  flushLine();
+
+  return segments;
+}
+
+/** Plain text with every escape sequence removed and overwrites applied */
+export function stripAnsi(input: string): string {
+  return parseAnsi(input).map((s) => s.text).join("");
+}
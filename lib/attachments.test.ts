@@ -0,0 +1,34 @@
+import { describe, it, expect } from "vitest";
+import { formatBytes, attachmentLimitError, MAX_ATTACHMENTS, MAX_ATTACHMENT_BYTES } from "./attachments";
+
+describe("formatBytes", () => {
+  it("picks a readable unit", () => {
+    expect(formatBytes(512)).toBe("512 B");
+    expect(formatBytes(2048)).toBe("2.0 KB");
+    expect(formatBytes(5 * 1024 * 1024)).toBe("5.0 MB");
+  });
+});
+
+describe("attachmentLimitError", () => {
+  it("allows files within the limits", () => {
+    expect(attachmentLimitError([], [{ name: "shot.png", size: 1000 }])).toBeNull();
+  });
+
+  it("caps the number of files per message", () => {
+    expect(attachmentLimitError(Array.from({ length: MAX_ATTACHMENTS }, () => ({ size: 1 })), [{ name: "one.txt", size: 1 }])).toMatch(/At most/);
+  });
+
+  it("names the file that is too large", () => {
+    expect(attachmentLimitError([], [{ name: "video.mov", size: MAX_ATTACHMENT_BYTES + 1 }])).toBe(
+      "video.mov is larger than 3.0 MB"
+    );
+  });
+
+  it("caps the total size, counting the files already pending", () => {
+    const half = MAX_ATTACHMENT_BYTES / 2;
+    expect(attachmentLimitError([{ size: half }], [{ name: "b.png", size: half }])).toBeNull();
+    expect(attachmentLimitError([{ size: half }], [{ name: "b.png", size: half + 1 }])).toBe(
+      "Attachments can add up to 3.0 MB per message"
+    );
+  });
+});
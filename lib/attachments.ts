@@ -0,0 +1,50 @@
+// Mirrors cc-server's ChatAttachment (POST /api/chat `attachments`)
+export interface PendingAttachment {
+  id: string;
+  name: string;
+  mimeType: string;
+  size: number;
+  data: string;         // base64, no data: prefix
+  previewUrl?: string;  // data: URL for image thumbnails
+}
+
+// Same limits cc-server enforces — checked here so a big photo fails before upload.
+// The byte limit is for all of a message's files together: sent as base64 in
+// one JSON body, they have to fit the proxy's 4.5 MB request limit.
+export const MAX_ATTACHMENTS = 10;
+export const MAX_ATTACHMENT_BYTES = 3 * 1024 * 1024;
+
+export function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+/** Why these files can't be added to the ones already pending, or null if they can */
+export function attachmentLimitError(pending: { size: number }[], files: { name: string; size: number }[]): string | null {
+  if (pending.length + files.length > MAX_ATTACHMENTS) return `At most ${MAX_ATTACHMENTS} attachments per message`;
+  const tooBig = files.find((f) => f.size > MAX_ATTACHMENT_BYTES);
+  if (tooBig) return `${tooBig.name} is larger than ${formatBytes(MAX_ATTACHMENT_BYTES)}`;
+  const total = [...pending, ...files].reduce((sum, f) => sum + f.size, 0);
+  if (total > MAX_ATTACHMENT_BYTES) return `Attachments can add up to ${formatBytes(MAX_ATTACHMENT_BYTES)} per message`;
+  return null;
+}
+
+export function readFileAsAttachment(file: File): Promise<PendingAttachment> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onerror = () => reject(new Error(`Couldn't read ${file.name}`));
+    reader.onload = () => {
+      const dataUrl = String(reader.result);
+      resolve({
+        id: crypto.randomUUID(),
+        name: file.name,
+        mimeType: file.type,
+        size: file.size,
+        data: dataUrl.slice(dataUrl.indexOf(",") + 1),
+        ...(file.type.startsWith("image/") ? { previewUrl: dataUrl } : {}),
+      });
+    };
+    reader.readAsDataURL(file);
+  });
+}
@@ -0,0 +1,42 @@
+import { describe, it, expect } from "vitest";
+import { toSideBySide, type DiffHunk, type DiffLine } from "./diff";
+
+function hunk(lines: DiffLine[]): DiffHunk {
+  return { header: "@@ -1 +1 @@", oldStart: 1, newStart: 1, lines };
+}
+
+const ctx = (text: string, oldLine: number, newLine: number): DiffLine => ({ type: "context", text, oldLine, newLine });
+const del = (text: string, oldLine: number): DiffLine => ({ type: "del", text, oldLine, newLine: null });
+const add = (text: string, newLine: number): DiffLine => ({ type: "add", text, oldLine: null, newLine });
+
+describe("toSideBySide", () => {
+  it("shows context lines on both sides", () => {
+    const rows = toSideBySide(hunk([ctx("a", 1, 1)]));
+    expect(rows).toEqual([
+      { left: { line: 1, text: "a", type: "context" }, right: { line: 1, text: "a", type: "context" } },
+    ]);
+  });
+
+  it("pairs a deletion run with the following addition run", () => {
+    const rows = toSideBySide(hunk([del("old1", 1), del("old2", 2), add("new1", 1), ctx("z", 3, 2)]));
+    expect(rows).toEqual([
+      { left: { line: 1, text: "old1", type: "del" }, right: { line: 1, text: "new1", type: "add" } },
+      { left: { line: 2, text: "old2", type: "del" }, right: null },
+      { left: { line: 3, text: "z", type: "context" }, right: { line: 2, text: "z", type: "context" } },
+    ]);
+  });
+
+  it("leaves the left side empty for pure additions", () => {
+    const rows = toSideBySide(hunk([add("x", 1), add("y", 2)]));
+    expect(rows.map((r) => r.left)).toEqual([null, null]);
+    expect(rows.map((r) => r.right?.text)).toEqual(["x", "y"]);
+  });
+
+  it("starts a new block when a deletion follows additions", () => {
+    const rows = toSideBySide(hunk([add("x", 1), del("a", 1), add("y", 2)]));
+    expect(rows).toEqual([
+      { left: null, right: { line: 1, text: "x", type: "add" } },
+      { left: { line: 1, text: "a", type: "del" }, right: { line: 2, text: "y", type: "add" } },
+    ]);
+  });
+});
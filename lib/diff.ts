@@ -0,0 +1,96 @@
+// Mirrors the diff shapes returned by cc-server's /api/git/diff
+
+export interface DiffLine {
+  type: "context" | "add" | "del";
+  text: string;
+  oldLine: number | null;
+  newLine: number | null;
+}
+
+export interface DiffHunk {
+  header: string;
+  oldStart: number;
+  newStart: number;
+  lines: DiffLine[];
+}
+
+export interface FileDiff {
+  oldPath: string | null;
+  newPath: string | null;
+  binary: boolean;
+  hunks: DiffHunk[];
+  insertions: number;
+  deletions: number;
+}
+
+// Per-turn change summary from the chat `files_changed` event
+export interface FileChange {
+  path: string;
+  status: "added" | "modified" | "deleted";
+  insertions: number;
+  deletions: number;
+  binary: boolean;
+  tools: string[];
+}
+
+export interface FilesChangedSummary {
+  queryId: string;
+  files: FileChange[];
+  insertions: number;
+  deletions: number;
+}
+
+export interface SideBySideCell {
+  line: number;
+  text: string;
+  type: DiffLine["type"];
+}
+
+/** One row of a side-by-side view — either side may be empty */
+export interface SideBySideRow {
+  left: SideBySideCell | null;
+  right: SideBySideCell | null;
+}
+
+/**
+ * Pair a hunk's lines into side-by-side rows. Context lines appear on both
+ * sides; a run of deletions is lined up against the run of additions that
+ * follows it, so a modified line sits next to its replacement.
+ */
+export function toSideBySide(hunk: DiffHunk): SideBySideRow[] {
+  const rows: SideBySideRow[] = [];
+  let dels: DiffLine[] = [];
+  let adds: DiffLine[] = [];
+
+  const flush = () => {
+    for (let i = 0; i < Math.max(dels.length, adds.length); i++) {
+      const d = dels[i];
+      const a = adds[i];
+      rows.push({
+        left: d ? { line: d.oldLine!, text: d.text, type: "del" } : null,
+        right: a ? { line: a.newLine!, text: a.text, type: "add" } : null,
+      });
+    }
+    dels = [];
+    adds = [];
+  };
+
+  for (const line of hunk.lines) {
+    if (line.type === "del") {
+      // A deletion after additions starts a new change block
+      if (adds.length > 0) flush();
+      dels.push(line);
+    } else if (line.type === "add") {
+      adds.push(line);
+    } else {
+      flush();
+      rows.push({
+        left: { line: line.oldLine!, text: line.text, type: "context" },
+        right: { line: line.newLine!, text: line.text, type: "context" },
+      });
+    }
+  }
+  flush();
+
+  return rows;
+}
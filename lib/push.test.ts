@@ -0,0 +1,17 @@
+import { describe, it, expect } from "vitest";
+import { urlBase64ToUint8Array } from "./push";
+
+describe("urlBase64ToUint8Array", () => {
+  it("decodes URL-safe base64 without padding", () => {
+    // "-_8" is URL-safe for "+/8" → 0xfb 0xff
+    expect(Array.from(urlBase64ToUint8Array("-_8"))).toEqual([0xfb, 0xff]);
+    expect(Array.from(urlBase64ToUint8Array("AQID"))).toEqual([1, 2, 3]);
+  });
+
+  it("decodes a 65-byte VAPID public key", () => {
+    const key = "BNcRdreALRFXTkOOUHK1EtK2wtaz5Ry4YfYCA_0QTpQtUbVlUls0VJXg7A8u-Ts1XbjhazAkj7I99e8QcYP7DkM";
+    const bytes = urlBase64ToUint8Array(key);
+    expect(bytes).toHaveLength(65);
+    expect(bytes[0]).toBe(0x04); // uncompressed P-256 point
+  });
+});
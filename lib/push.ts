@@ -0,0 +1,67 @@
+// Browser side of Web Push — service worker registration and subscription
+
+/** VAPID public keys are URL-safe base64; PushManager wants the raw bytes */
+export function urlBase64ToUint8Array(base64: string): Uint8Array<ArrayBuffer> {
+  const padded = (base64 + "=".repeat((4 - (base64.length % 4)) % 4)).replace(/-/g, "+").replace(/_/g, "/");
+  const raw = atob(padded);
+  const bytes = new Uint8Array(new ArrayBuffer(raw.length));
+  for (let i = 0; i < raw.length; i++) bytes[i] = raw.charCodeAt(i);
+  return bytes;
+}
+
+export function isPushSupported(): boolean {
+  return typeof window !== "undefined" && "serviceWorker" in navigator && "PushManager" in window && "Notification" in window;
+}
+
+async function getRegistration(): Promise<ServiceWorkerRegistration> {
+  const existing = await navigator.serviceWorker.getRegistration("/");
+  return existing ?? navigator.serviceWorker.register("/sw.js");
+}
+
+export async function getPushSubscription(): Promise<PushSubscription | null> {
+  if (!isPushSupported()) return null;
+  const registration = await navigator.serviceWorker.getRegistration("/");
+  return registration ? registration.pushManager.getSubscription() : null;
+}
+
+/** Ask for permission, subscribe with the server's VAPID key and register the subscription */
+export async function enablePush(): Promise<void> {
+  if (!isPushSupported()) throw new Error("Push notifications aren't supported in this browser");
+
+  const permission = await Notification.requestPermission();
+  if (permission !== "granted") throw new Error("Notification permission was denied");
+
+  const keyRes = await fetch("/api/push/vapid-public-key");
+  const keyData = await keyRes.json();
+  if (!keyRes.ok) throw new Error(keyData.error || "Failed to get push key");
+
+  const registration = await getRegistration();
+  await navigator.serviceWorker.ready;
+  const subscription =
+    (await registration.pushManager.getSubscription()) ??
+    (await registration.pushManager.subscribe({
+      userVisibleOnly: true,
+      applicationServerKey: urlBase64ToUint8Array(keyData.publicKey),
+    }));
+
+  const res = await fetch("/api/push/subscribe", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ subscription: subscription.toJSON() }),
+  });
+  if (!res.ok) {
+    const data = await res.json().catch(() => null);
+    throw new Error(data?.error || "Failed to register for notifications");
+  }
+}
+
+export async function disablePush(): Promise<void> {
+  const subscription = await getPushSubscription();
+  if (!subscription) return;
+  await fetch("/api/push/unsubscribe", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ endpoint: subscription.endpoint }),
+  }).catch(() => {});
+  await subscription.unsubscribe();
+}
@@ -1,5 +1,5 @@
 export interface SSEMessage {
-  type: "init" | "assistant" | "tool_call" | "tool_result" | "tool_progress" | "status" | "system" | "result" | "error" | "done" | "query_start" | "permission_request" | "compact_boundary" | "permission_warning" | "supported_models" | "mcp_status" | "stream_event" | "context_update" | "buffer_gap" | "reconnect_complete" | "command_start";
+  type: "init" | "assistant" | "tool_call" | "tool_result" | "tool_progress" | "status" | "system" | "result" | "error" | "done" | "query_start" | "permission_request" | "compact_boundary" | "permission_warning" | "permission_expired" | "permission_resolved" | "supported_models" | "mcp_status" | "stream_event" | "context_update" | "buffer_gap" | "reconnect_complete" | "command_start" | "file" | "match" | "files_changed" | "queue_next";
   data: Record<string, unknown>;
   index?: number;
 }
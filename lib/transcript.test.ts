@@ -0,0 +1,78 @@
+import { describe, it, expect } from "vitest";
+import { transcriptToMessages, type TranscriptEntry } from "./transcript";
+
+let seq = 0;
+function entry(type: string, data: Record<string, unknown>): TranscriptEntry {
+  return { seq: seq++, type, data, timestamp: 0 };
+}
+
+describe("transcriptToMessages", () => {
+  it("groups assistant output under the preceding user prompt", () => {
+    seq = 0;
+    const messages = transcriptToMessages([
+      entry("user", { text: "Fix the bug" }),
+      entry("assistant", { text: "Looking. " }),
+      entry("tool_call", { name: "Read", input: { file_path: "a.ts" }, id: "t1" }),
+      entry("tool_result", { toolUseId: "t1", content: "const a = 1;" }),
+      entry("assistant", { text: "Done." }),
+      entry("result", { result: "Done.", isError: false }),
+      entry("user", { text: "Thanks" }),
+    ]);
+
+    expect(messages).toEqual([
+      { id: "t-0", role: "user", content: "Fix the bug" },
+      {
+        id: "t-1",
+        role: "assistant",
+        content: "Looking. Done.",
+        toolCalls: [{ name: "Read", input: { file_path: "a.ts" }, id: "t1", result: "const a = 1;" }],
+      },
+      { id: "t-6", role: "user", content: "Thanks" },
+    ]);
+  });
+
+  it("keeps the query ID on user prompts", () => {
+    seq = 0;
+    const [prompt] = transcriptToMessages([{ ...entry("user", { text: "hi" }), queryId: "q1" }]);
+    expect(prompt).toEqual({ id: "t-0", role: "user", content: "hi", queryId: "q1" });
+  });
+
+  it("keeps attachment names but not where the server put them", () => {
+    const [prompt] = transcriptToMessages([
+      entry("user", {
+        text: "",
+        attachments: [{ name: "shot.png", mimeType: "image/png", size: 1200, kind: "image" }],
+      }),
+    ]);
+    expect(prompt.attachments).toEqual([{ name: "shot.png", mimeType: "image/png", size: 1200 }]);
+  });
+
+  it("uses the result text when no assistant text was streamed", () => {
+    seq = 0;
+    const [, reply] = transcriptToMessages([
+      entry("user", { text: "hi" }),
+      entry("result", { result: "Hello!", isError: false }),
+    ]);
+    expect(reply.content).toBe("Hello!");
+  });
+
+  it("appends errors and attaches change summaries", () => {
+    seq = 0;
+    const summary = { queryId: "q", files: [], insertions: 1, deletions: 0 };
+    const [, reply] = transcriptToMessages([
+      entry("user", { text: "go" }),
+      entry("assistant", { text: "Trying" }),
+      entry("files_changed", summary),
+      entry("result", { isError: true, errors: ["budget exceeded"] }),
+      entry("error", { error: "boom" }),
+    ]);
+    expect(reply.filesChanged).toEqual(summary);
+    expect(reply.content).toBe("Trying\n\n**Error:** budget exceeded\n\n**Error:** boom");
+  });
+
+  it("starts with an assistant message when a page begins mid-turn", () => {
+    seq = 10;
+    const messages = transcriptToMessages([entry("assistant", { text: "…continued" })]);
+    expect(messages).toEqual([{ id: "t-10", role: "assistant", content: "…continued" }]);
+  });
+});
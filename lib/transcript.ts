@@ -0,0 +1,114 @@
+import type { FilesChangedSummary } from "./diff";
+
+// Mirrors cc-server's transcript-store entries (GET /api/chat/history)
+export interface TranscriptEntry {
+  seq: number;
+  type: string;
+  data: Record<string, unknown>;
+  queryId?: string;
+  timestamp: number;
+}
+
+export interface ChatToolCall {
+  name: string;
+  input: Record<string, unknown>;
+  id: string;
+  result?: string;
+  elapsedSeconds?: number;
+}
+
+// Name and size only — file contents never reach the transcript or localStorage
+export interface ChatMessageAttachment {
+  name: string;
+  mimeType: string;
+  size: number;
+}
+
+export interface ChatMessage {
+  id: string;
+  role: "user" | "assistant";
+  content: string;
+  queryId?: string;          // User prompts: the query that sent them (fork anchor)
+  attachments?: ChatMessageAttachment[];
+  toolCalls?: ChatToolCall[];
+  filesChanged?: FilesChangedSummary;
+}
+
+/**
+ * Rebuild chat messages from transcript entries, applying each event the same
+ * way ChatInterface applies live SSE events. IDs derive from sequence numbers
+ * so re-rendering the same transcript is stable.
+ */
+export function transcriptToMessages(entries: TranscriptEntry[]): ChatMessage[] {
+  const messages: ChatMessage[] = [];
+  let current: ChatMessage | null = null;
+
+  const assistant = (entry: TranscriptEntry): ChatMessage => {
+    if (!current) {
+      current = { id: `t-${entry.seq}`, role: "assistant", content: "" };
+      messages.push(current);
+    }
+    return current;
+  };
+
+  for (const entry of entries) {
+    const data = entry.data;
+    switch (entry.type) {
+      case "user": {
+        const attachments = Array.isArray(data.attachments)
+          ? (data.attachments as ChatMessageAttachment[]).map(({ name, mimeType, size }) => ({ name, mimeType, size }))
+          : [];
+        messages.push({
+          id: `t-${entry.seq}`,
+          role: "user",
+          content: String(data.text ?? ""),
+          ...(entry.queryId ? { queryId: entry.queryId } : {}),
+          ...(attachments.length ? { attachments } : {}),
+        });
+        current = null;
+        break;
+      }
+      case "assistant": {
+        const m = assistant(entry);
+        m.content += String(data.text ?? "");
+        break;
+      }
+      case "tool_call": {
+        const m = assistant(entry);
+        m.toolCalls = [
+          ...(m.toolCalls || []),
+          { name: data.name as string, input: (data.input as Record<string, unknown>) ?? {}, id: data.id as string },
+        ];
+        break;
+      }
+      case "tool_result": {
+        const m = assistant(entry);
+        m.toolCalls = m.toolCalls?.map((tc) =>
+          tc.id === data.toolUseId ? { ...tc, result: data.content as string } : tc
+        );
+        break;
+      }
+      case "files_changed": {
+        assistant(entry).filesChanged = data as unknown as FilesChangedSummary;
+        break;
+      }
+      case "result": {
+        const m = assistant(entry);
+        const errors = data.errors as string[] | undefined;
+        if (data.isError && errors?.length) {
+          m.content += `\n\n**Error:** ${errors.join("\n")}`;
+        } else if (typeof data.result === "string" && !m.content) {
+          m.content = data.result;
+        }
+        break;
+      }
+      case "error": {
+        const m = assistant(entry);
+        m.content += `\n\n**Error:** ${data.error}`;
+        break;
+      }
+    }
+  }
+
+  return messages;
+}
@@ -0,0 +1,48 @@
+// Service worker for Web Push notifications from cc-server.
+// Payload: { title, body, url, tag } — see cc-server/src/push.ts
+
+self.addEventListener("install", () => self.skipWaiting());
+self.addEventListener("activate", (event) => event.waitUntil(self.clients.claim()));
+
+self.addEventListener("push", (event) => {
+  let payload = {};
+  try {
+    payload = event.data ? event.data.json() : {};
+  } catch {
+    payload = { body: event.data ? event.data.text() : "" };
+  }
+
+  event.waitUntil(
+    (async () => {
+      // The app is open and in front — it already shows this event
+      const windows = await self.clients.matchAll({ type: "window", includeUncontrolled: true });
+      if (windows.some((w) => w.visibilityState === "visible" && w.focused)) return;
+
+      await self.registration.showNotification(payload.title || "Code Anvil", {
+        body: payload.body || "",
+        tag: payload.tag,
+        renotify: Boolean(payload.tag),
+        icon: "/icon.svg",
+        data: { url: payload.url || "/" },
+      });
+    })()
+  );
+});
+
+self.addEventListener("notificationclick", (event) => {
+  event.notification.close();
+  const url = new URL(event.notification.data?.url || "/", self.location.origin).href;
+
+  event.waitUntil(
+    (async () => {
+      const windows = await self.clients.matchAll({ type: "window", includeUncontrolled: true });
+      const existing = windows.find((w) => w.url === url) || windows[0];
+      if (existing) {
+        await existing.focus();
+        if (existing.url !== url) await existing.navigate(url);
+        return;
+      }
+      await self.clients.openWindow(url);
+    })()
+  );
+});